@@ -1,4 +1,5 @@
 import { defineConfig, devices } from '@playwright/test';
+import { BASE_URL, MOCK_PORT, USE_MOCK } from './tests/stress/config';
 
 /**
  * Playwright 壓力測試配置
@@ -33,8 +34,8 @@ export default defineConfig({
 
   // 瀏覽器設定
   use: {
-    // 測試網址
-    baseURL: 'https://stock-sprint-frontend.vercel.app',
+    // 測試網址（STRESS_MOCK=1 時指向本機模擬伺服器，見 tests/stress/config.ts）
+    baseURL: BASE_URL,
 
     // 無頭模式（生產環境必須開啟）
     headless: true,
@@ -68,10 +69,18 @@ export default defineConfig({
     },
   ],
 
-  // WebServer 配置（可選：若需本地測試前端）
-  // webServer: {
-  //   command: 'npm run dev',
-  //   url: 'http://localhost:5173',
-  //   reuseExistingServer: !process.env.CI,
-  // },
+  // WebServer 配置（STRESS_MOCK=1 時自動啟動離線模擬伺服器）
+  // 模擬伺服器啟動後遊戲立即開始；小遊戲的發布與結算由測試透過 AdminActions 操作 /admin 後台
+  webServer: USE_MOCK
+    ? {
+        command: 'npx ts-node tests/stress/mock/server.ts',
+        url: `http://localhost:${MOCK_PORT}/api/game/status`,
+        reuseExistingServer: !process.env.CI,
+        env: {
+          MOCK_PORT: String(MOCK_PORT),
+          MOCK_AUTO_START: '1',
+          MOCK_AUTO_SETTLE: '0',
+        },
+      }
+    : undefined,
 });
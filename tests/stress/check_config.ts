@@ -1,13 +1,14 @@
 /**
  * 配置檔驗證腳本
  * 
- * 用途：確認 config.ts 能正確匯入，且 JSON 檔案能正常讀取
+ * 用途：確認 config.ts 能正確匯入，且 tests/stress/data/ 的 JSON 檔案能正常讀取
  * 執行：npx ts-node tests/stress/check_config.ts
  */
 
-import { TOTAL_USERS, TEST_END_DAY, HEADLESS, USER_DISTRIBUTION, validateConfig } from './config';
+import { TOTAL_USERS, TEST_END_DAY, HEADLESS, USER_DISTRIBUTION, EMPLOYEE_SHARE, PROTOCOL_SHARE, RUN_SEED, validateConfig } from './config';
 import * as fs from 'fs';
-import * as path from 'path';
+import { USERS_FILE } from './core/UserRegistry';
+import { STRATEGIES_FILE, loadStrategyFile, StrategyPersona } from './scenarios/strategies';
 
 console.log('🔍 開始驗證壓力測試配置...\n');
 
@@ -17,6 +18,9 @@ console.log(`   TOTAL_USERS: ${TOTAL_USERS}`);
 console.log(`   TEST_END_DAY: ${TEST_END_DAY}`);
 console.log(`   HEADLESS: ${HEADLESS}`);
 console.log(`   USER_DISTRIBUTION:`, USER_DISTRIBUTION);
+console.log(`   EMPLOYEE_SHARE:`, EMPLOYEE_SHARE);
+console.log(`   PROTOCOL_SHARE:`, PROTOCOL_SHARE);
+console.log(`   RUN_SEED: ${RUN_SEED}`);
 console.log('');
 
 // ==================== 2. 驗證角色分配總數 ====================
@@ -29,10 +33,10 @@ try {
 console.log('');
 
 // ==================== 3. 驗證 JSON 檔案 ====================
-const dataDir = path.join(__dirname, '../../data');
+// 資料檔皆位於 tests/stress/data/（與 UserRegistry、strategies.ts 讀取的位置相同）
 
 // 3.1 檢查 users.json
-const usersPath = path.join(dataDir, 'users.json');
+const usersPath = USERS_FILE;
 try {
   const usersData = fs.readFileSync(usersPath, 'utf-8');
   const users = JSON.parse(usersData);
@@ -46,17 +50,23 @@ try {
 }
 console.log('');
 
-// 3.2 檢查 user-strategies.json
-const strategiesPath = path.join(dataDir, 'user-strategies.json');
+// 3.2 檢查 user-strategies.json（不存在時使用預設策略）
 try {
-  const strategiesData = fs.readFileSync(strategiesPath, 'utf-8');
-  const strategies = JSON.parse(strategiesData);
-  console.log(`✅ user-strategies.json 讀取成功：`);
-  console.log(`   路徑: ${strategiesPath}`);
-  console.log(`   內容: ${JSON.stringify(strategies)}`);
-  console.log(`   類型: ${typeof strategies}`);
+  const strategies = loadStrategyFile();
+  const personas = Object.keys(USER_DISTRIBUTION) as StrategyPersona[];
+  console.log(
+    fs.existsSync(STRATEGIES_FILE)
+      ? `✅ user-strategies.json 驗證成功：`
+      : `ℹ️ user-strategies.json 不存在，使用預設策略：`
+  );
+  console.log(`   路徑: ${STRATEGIES_FILE}`);
+  for (const persona of personas) {
+    const variants = strategies[persona];
+    const count = Array.isArray(variants) ? variants.length : variants ? 1 : 0;
+    console.log(`   ${persona}: ${count > 0 ? `${count} 組自訂策略` : '預設策略'}`);
+  }
 } catch (error: any) {
-  console.error(`❌ user-strategies.json 讀取失敗：${error.message}`);
+  console.error(error.message);
   process.exit(1);
 }
 console.log('');
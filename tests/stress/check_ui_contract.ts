@@ -0,0 +1,52 @@
+/**
+ * UI 契約檢查腳本（Selector 漂移偵測）
+ *
+ * 用途：前端改版後、正式壓測前，確認頁面物件（core/pages/）的 Selector 仍能對應前端畫面
+ * 執行：npx ts-node --transpile-only tests/stress/check_ui_contract.ts
+ *
+ * 流程：
+ * 1. 自 data/users.json 租用一個已註冊的帳號（結束後歸還）
+ * 2. 登入後依序進入登入頁、主頁、現貨 / 合約 Tab、地下錢莊 Modal、頭像選擇，逐一確認 Selector
+ * 3. 輸出逐項通過 / 失敗表格；任一項失敗時以 exit code 1 結束
+ */
+
+import { chromium, devices } from '@playwright/test';
+import { BASE_URL, HEADLESS } from './config';
+import { formatContractTable, runUiContractCheck } from './core/UiContract';
+import { UserRegistry } from './core/UserRegistry';
+
+async function main(): Promise<void> {
+  const registry = new UserRegistry();
+  const leaseOwner = `contract-check-${process.pid}-${Date.now()}`;
+  const [account] = await registry.lease(leaseOwner, 1);
+
+  console.log('🔍 開始檢查 UI 契約...\n');
+  console.log(`   目標網址: ${BASE_URL}`);
+  console.log(`   檢查帳號: ${account.username}`);
+  console.log('');
+
+  const browser = await chromium.launch({ headless: HEADLESS });
+  let passed: boolean;
+  try {
+    const report = await runUiContractCheck(browser, account, { ...devices['iPhone 12 Pro'], baseURL: BASE_URL });
+    console.log(formatContractTable(report));
+    passed = report.passed;
+  } finally {
+    await browser.close();
+    await registry.release(leaseOwner);
+  }
+
+  console.log('');
+  if (!passed) {
+    console.error('❌ UI 契約不符，請更新 core/pages/ 的 Selector 後再執行壓測');
+    process.exit(1);
+  }
+  console.log('🎉 所有 Selector 皆能對應前端畫面！');
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
+}
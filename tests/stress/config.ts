@@ -51,6 +51,33 @@ export const USER_DISTRIBUTION = {
   typeE: 1, // 少數決 (Minority)
 };
 
+/**
+ * 各角色中設為員工的比例（0-1，其餘為訪客）
+ * 人數依 USER_DISTRIBUTION 四捨五入，例如 typeA: 2 人、0.5 → 1 位員工
+ * 任一比例大於 0 時，壓測開始前由 Admin 批次設定（未設定 Admin 密碼時由玩家自行在使用者選單切換，僅 mock 前端）；
+ * 設定失敗只輸出警告，不中止壓測
+ */
+export const EMPLOYEE_SHARE: Record<keyof typeof USER_DISTRIBUTION, number> = {
+  typeA: 0,
+  typeB: 0,
+  typeC: 0,
+  typeD: 0,
+  typeE: 0,
+};
+
+/**
+ * 各角色中改用協定層機器人（core/ProtocolBot.ts）的比例（0-1，其餘開啟真實瀏覽器）
+ * 人數依 USER_DISTRIBUTION 四捨五入，例如 typeA: 100 人、0.9 → 90 位機器人 + 10 個瀏覽器
+ * 機器人直接呼叫後端 REST API 與 Socket.io，不開 BrowserContext，用於突破單機瀏覽器數量上限
+ */
+export const PROTOCOL_SHARE: Record<keyof typeof USER_DISTRIBUTION, number> = {
+  typeA: 0,
+  typeB: 0,
+  typeC: 0,
+  typeD: 0,
+  typeE: 0,
+};
+
 // ==================== 驗證函式 ====================
 
 /**
@@ -65,6 +92,22 @@ export function validateConfig(): boolean {
       `❌ 配置錯誤：USER_DISTRIBUTION 總和 (${total}) 不等於 TOTAL_USERS (${TOTAL_USERS})`
     );
   }
+
+  for (const [persona, share] of Object.entries(EMPLOYEE_SHARE)) {
+    if (!(share >= 0 && share <= 1)) {
+      throw new Error(`❌ 配置錯誤：EMPLOYEE_SHARE.${persona} 必須介於 0 與 1 之間（目前為 ${share}）`);
+    }
+  }
+
+  for (const [persona, share] of Object.entries(PROTOCOL_SHARE)) {
+    if (!(share >= 0 && share <= 1)) {
+      throw new Error(`❌ 配置錯誤：PROTOCOL_SHARE.${persona} 必須介於 0 與 1 之間（目前為 ${share}）`);
+    }
+  }
+
+  if (!(STALL_ABORT_SHARE > 0 && STALL_ABORT_SHARE <= 1)) {
+    throw new Error(`❌ 配置錯誤：STALL_ABORT_SHARE 必須大於 0 且不超過 1（目前為 ${STALL_ABORT_SHARE}）`);
+  }
   
   console.log(`✅ 配置驗證通過：${TOTAL_USERS} 位使用者已正確分配`);
   return true;
@@ -72,13 +115,276 @@ export function validateConfig(): boolean {
 
 // ==================== 測試 URL ====================
 
+/**
+ * 離線模擬模式開關（STRESS_MOCK=1）
+ * true: 由 Playwright 自動啟動 tests/stress/mock/server.ts，前後端皆指向本機（不需網路）
+ * false: 針對正式環境（Vercel + Render）執行
+ */
+export const USE_MOCK = process.env.STRESS_MOCK === '1';
+
+/**
+ * 模擬伺服器 Port（前端頁面與 API 共用）
+ */
+export const MOCK_PORT = Number(process.env.MOCK_PORT || 4173);
+
 /**
  * 測試目標網址
- * 開發環境可改為 localhost
+ * 可用環境變數 STRESS_BASE_URL 覆蓋（例如本機前端 http://localhost:5173）
  */
-export const BASE_URL = 'https://stock-sprint-frontend.vercel.app';
+export const BASE_URL =
+  process.env.STRESS_BASE_URL || (USE_MOCK ? `http://localhost:${MOCK_PORT}` : 'https://stock-sprint-frontend.vercel.app');
 
 /**
  * 後端 API 網址
+ * 可用環境變數 STRESS_API_URL 覆蓋
+ */
+export const API_URL =
+  process.env.STRESS_API_URL || (USE_MOCK ? `http://localhost:${MOCK_PORT}` : 'https://stock-sprint-backend.onrender.com');
+
+/**
+ * 股價跳動的 Socket.io 事件名稱（SocketRecorder 以此計算推播延遲）
+ * 可用環境變數 STRESS_SOCKET_TICK_EVENT 覆蓋
+ */
+export const SOCKET_TICK_EVENT = process.env.STRESS_SOCKET_TICK_EVENT || 'game:state';
+
+/**
+ * 個人資產推播的 Socket.io 事件名稱（GameActions 交易後等待、ProtocolBot 訂閱）
+ * 可用環境變數 STRESS_SOCKET_ASSETS_EVENT 覆蓋
+ */
+export const SOCKET_ASSETS_EVENT = process.env.STRESS_SOCKET_ASSETS_EVENT || 'player:assets';
+
+/**
+ * 小遊戲狀態的 Socket.io 事件名稱
+ * 可用環境變數 STRESS_SOCKET_MINIGAME_EVENT 覆蓋
+ */
+export const SOCKET_MINIGAME_EVENT = process.env.STRESS_SOCKET_MINIGAME_EVENT || 'minigame:state';
+
+/**
+ * 解析後端 API 端點覆寫（環境變數 STRESS_API_ROUTES，JSON 物件：端點名稱 → "方法 路徑"）
+ * 例如 STRESS_API_ROUTES='{"stockTrade":"POST /api/stock/trade"}'；端點名稱見 core/Readiness.ts 的 API_ENDPOINTS
+ */
+function resolveApiRoutes(): Record<string, { method: string; path: string }> {
+  const value = process.env.STRESS_API_ROUTES;
+  if (value === undefined || value.trim() === '') return {};
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    parsed = undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`❌ 配置錯誤：STRESS_API_ROUTES 必須為 JSON 物件（目前為 ${JSON.stringify(value)}）`);
+  }
+
+  const routes: Record<string, { method: string; path: string }> = {};
+  for (const [name, route] of Object.entries(parsed)) {
+    const match = typeof route === 'string' ? route.trim().match(/^(GET|POST|PUT|PATCH|DELETE)\s+(\/\S*)$/i) : null;
+    if (!match) {
+      throw new Error(`❌ 配置錯誤：STRESS_API_ROUTES.${name} 必須為「方法 路徑」，例如 "POST /api/loan"（目前為 ${JSON.stringify(route)}）`);
+    }
+    routes[name] = { method: match[1].toUpperCase(), path: match[2] };
+  }
+  return routes;
+}
+
+/**
+ * 後端 API 端點覆寫（未覆寫的端點沿用 mock/server.ts 的路由）
+ */
+export const API_ROUTE_OVERRIDES = resolveApiRoutes();
+
+// ==================== UI 契約檢查 ====================
+
+/**
+ * 壓測開始前是否先檢查 UI 契約（頁面物件的 Selector 是否都能對應前端畫面）
+ * 預設開啟；可用環境變數 STRESS_CONTRACT_CHECK=0 略過（例如已另外執行 check_ui_contract.ts）
  */
-export const API_URL = 'https://stock-sprint-backend.onrender.com';
+export const CONTRACT_CHECK = process.env.STRESS_CONTRACT_CHECK !== '0';
+
+// ==================== 後端狀態驗證 ====================
+
+/**
+ * 是否在交易與借還款 Action 成功後，以後端 API 驗證帳務變化（見 core/StateVerifier.ts）
+ * 每次驗證會多打 4 個 API 請求，預設關閉；可用環境變數 STRESS_VERIFY_STATE=1 開啟
+ */
+export const VERIFY_STATE = process.env.STRESS_VERIFY_STATE === '1';
+
+// ==================== 資產守恆檢查 ====================
+
+/**
+ * 是否在每個遊戲日開始時檢查所有虛擬使用者的資產守恆（見 core/InvariantChecker.ts）
+ * 每天會讀取每位使用者的資產與合約畫面，預設關閉；可用環境變數 STRESS_INVARIANT_CHECK=1 開啟
+ */
+export const INVARIANT_CHECK = process.env.STRESS_INVARIANT_CHECK === '1';
+
+/**
+ * 解析交易所發行的總股數（環境變數 STRESS_ISSUED_SHARES，需為非負整數）
+ * 未設定時返回 undefined（遊戲未提供發行股數，不檢查總股數守恆）
+ */
+function resolveIssuedShares(): number | undefined {
+  const value = process.env.STRESS_ISSUED_SHARES;
+  if (value === undefined || value.trim() === '') return undefined;
+
+  const shares = Number(value.trim());
+  if (!Number.isInteger(shares) || shares < 0) {
+    throw new Error(`❌ 配置錯誤：STRESS_ISSUED_SHARES 必須為非負整數（目前為 ${JSON.stringify(value)}）`);
+  }
+  return shares;
+}
+
+/**
+ * 交易所發行的總股數
+ * 設定時，資產守恆檢查會確認所有虛擬使用者的持股總和等於此數（僅適用於遊戲內玩家全為本次壓測的虛擬使用者）
+ */
+export const ISSUED_SHARES = resolveIssuedShares();
+
+// ==================== 執行監控 ====================
+
+/**
+ * 是否啟用執行監控（見 core/RunSupervisor.ts）
+ * 監控每位虛擬使用者最近一次成功的 Action，停滯時截圖、錄製 Trace 並重新啟動或中止整場壓測，避免無限等待讓終端機卡住
+ * 預設開啟；可用環境變數 STRESS_SUPERVISOR=0 關閉
+ */
+export const SUPERVISOR_ENABLED = process.env.STRESS_SUPERVISOR !== '0';
+
+/**
+ * 解析停滯門檻（環境變數 STRESS_STALL_SECONDS，需為正數，預設 180 秒）
+ * 需大於小遊戲等待的輪詢間隔（30 秒）與小遊戲結算時間，避免把正常等待誤判為停滯
+ */
+function resolveStallTimeout(): number {
+  const value = process.env.STRESS_STALL_SECONDS;
+  if (value === undefined || value.trim() === '') return 180 * 1000;
+
+  const seconds = Number(value.trim());
+  if (!(seconds > 0)) {
+    throw new Error(`❌ 配置錯誤：STRESS_STALL_SECONDS 必須為正數（目前為 ${JSON.stringify(value)}）`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * 停滯門檻（毫秒）：虛擬使用者超過此時間沒有任何成功的 Action 即視為停滯
+ */
+export const STALL_TIMEOUT_MS = resolveStallTimeout();
+
+/**
+ * 解析每位虛擬使用者停滯後的重新啟動次數上限（環境變數 STRESS_STALL_RESTARTS，需為非負整數，預設 1）
+ */
+function resolveStallRestarts(): number {
+  const value = process.env.STRESS_STALL_RESTARTS;
+  if (value === undefined || value.trim() === '') return 1;
+
+  const restarts = Number(value.trim());
+  if (!Number.isInteger(restarts) || restarts < 0) {
+    throw new Error(`❌ 配置錯誤：STRESS_STALL_RESTARTS 必須為非負整數（目前為 ${JSON.stringify(value)}）`);
+  }
+  return restarts;
+}
+
+/**
+ * 每位虛擬使用者停滯後最多重新啟動幾次（超過即放棄該使用者）
+ */
+export const STALL_MAX_RESTARTS = resolveStallRestarts();
+
+/**
+ * 放棄的虛擬使用者達到此比例時中止整場壓測（0-1，人數無條件進位且至少 1 人）
+ * 例如 50 人、0.2 → 第 10 位放棄時中止，其餘使用者於下一次迭代前結束並寫入報告
+ */
+export const STALL_ABORT_SHARE = 0.2;
+
+/**
+ * 解析等待遊戲開始的上限（環境變數 STRESS_GAME_START_SECONDS，需為正數，預設 600 秒）
+ * 等待 Admin 開始遊戲可能需要數分鐘，因此與停滯門檻分開設定
+ */
+function resolveGameStartTimeout(): number {
+  const value = process.env.STRESS_GAME_START_SECONDS;
+  if (value === undefined || value.trim() === '') return 600 * 1000;
+
+  const seconds = Number(value.trim());
+  if (!(seconds > 0)) {
+    throw new Error(`❌ 配置錯誤：STRESS_GAME_START_SECONDS 必須為正數（目前為 ${JSON.stringify(value)}）`);
+  }
+  return seconds * 1000;
+}
+
+/**
+ * 等待遊戲開始的上限（毫秒）：Action 00 超過此時間仍未偵測到遊戲開始即失敗；
+ * 執行監控對 Action 00 的停滯門檻為此上限再加 STALL_TIMEOUT_MS
+ */
+export const GAME_START_TIMEOUT_MS = resolveGameStartTimeout();
+
+// ==================== Admin 帳號 ====================
+
+/**
+ * Admin 後台帳號（AdminActions 自動開始遊戲、發布小遊戲用）
+ * 可用環境變數 STRESS_ADMIN_USERNAME 覆蓋
+ */
+export const ADMIN_USERNAME = process.env.STRESS_ADMIN_USERNAME || 'admin';
+
+/**
+ * Admin 後台密碼
+ * 正式環境請以環境變數 STRESS_ADMIN_PASSWORD 提供（不寫入程式碼）
+ * 未設定時為空字串，測試改為提示手動操作 /admin 後台；離線模擬模式預設為 admin
+ */
+export const ADMIN_PASSWORD = process.env.STRESS_ADMIN_PASSWORD || (USE_MOCK ? 'admin' : '');
+
+// ==================== 隨機種子 ====================
+
+/**
+ * 解析隨機種子（環境變數 STRESS_SEED，需為 0 ~ 4294967295 的整數）
+ * 未設定時產生新種子並寫回 process.env，讓 Playwright Worker 沿用主程序的同一個種子
+ */
+function resolveRunSeed(): number {
+  const value = process.env.STRESS_SEED;
+  if (value === undefined || value.trim() === '') {
+    const seed = Math.floor(Math.random() * 0x100000000);
+    process.env.STRESS_SEED = String(seed);
+    return seed;
+  }
+
+  const seed = Number(value.trim());
+  if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+    throw new Error(`❌ 配置錯誤：STRESS_SEED 必須為 0 ~ 4294967295 的整數（目前為 ${JSON.stringify(value)}）`);
+  }
+  return seed;
+}
+
+/**
+ * 本次執行的隨機種子（寫入執行報告）
+ * 所有角色決策皆由此種子推導（見 core/Random.ts），以 STRESS_SEED=<種子> 重跑可重現相同的決策序列
+ */
+export const RUN_SEED = resolveRunSeed();
+
+// ==================== 配置快照 ====================
+
+/**
+ * 取得目前配置的快照（寫入執行報告，便於跨版本比較）
+ */
+export function getConfigSnapshot(): Record<string, unknown> {
+  return {
+    TOTAL_USERS,
+    TEST_END_DAY,
+    HEADLESS,
+    USER_DISTRIBUTION: { ...USER_DISTRIBUTION },
+    EMPLOYEE_SHARE: { ...EMPLOYEE_SHARE },
+    PROTOCOL_SHARE: { ...PROTOCOL_SHARE },
+    USE_MOCK,
+    BASE_URL,
+    API_URL,
+    SOCKET_TICK_EVENT,
+    SOCKET_ASSETS_EVENT,
+    SOCKET_MINIGAME_EVENT,
+    API_ROUTE_OVERRIDES: { ...API_ROUTE_OVERRIDES },
+    ADMIN_USERNAME,
+    CONTRACT_CHECK,
+    VERIFY_STATE,
+    INVARIANT_CHECK,
+    ISSUED_SHARES: ISSUED_SHARES ?? null,
+    SUPERVISOR_ENABLED,
+    STALL_TIMEOUT_MS,
+    STALL_MAX_RESTARTS,
+    STALL_ABORT_SHARE,
+    GAME_START_TIMEOUT_MS,
+    ADMIN_ENABLED: ADMIN_PASSWORD !== '',
+  };
+}
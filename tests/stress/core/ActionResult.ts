@@ -0,0 +1,77 @@
+// tests/stress/core/ActionResult.ts
+import { ActionFailureKind } from "./MetricsCollector";
+
+/**
+ * Action 執行結果
+ *
+ * GameActions 的每個 Action 皆回傳 ActionResult，呼叫端（personas.ts、測試案例）依 status 區分：
+ * - ok：成功（value 為讀取到的資料，例如 AssetData）
+ * - rejected：遊戲規則拒絕（例如現金不足、借款上限、帳號已存在），message 為伺服器回傳或畫面顯示的訊息
+ * - timeout：等待畫面或回應逾時
+ * - error：其他錯誤（找不到元素、頁面關閉、參數不合法、後端 5xx 等）
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 結果狀態
+ */
+export type ActionStatus = "ok" | ActionFailureKind;
+
+/**
+ * 成功與失敗共用的欄位
+ */
+interface ActionResultBase {
+  elapsedMs: number; // Action 開始至產生結果的時間（不含失敗後的截圖）
+  artifacts: string[]; // 相關檔案路徑（失敗截圖等，截圖完成後才會加入）
+}
+
+/**
+ * 成功結果
+ */
+export interface ActionSuccess<T> extends ActionResultBase {
+  ok: true;
+  status: "ok";
+  value: T; // Action 讀取到的資料（無資料的 Action 為 undefined）
+}
+
+/**
+ * 失敗結果
+ */
+export interface ActionFailure extends ActionResultBase {
+  ok: false;
+  status: ActionFailureKind;
+  message: string; // 伺服器回傳的 Toast / 錯誤訊息，或例外訊息
+  value?: undefined;
+}
+
+/**
+ * Action 執行結果（以 ok 或 status 判斷，成功時才有 value）
+ */
+export type ActionResult<T = void> = ActionSuccess<T> | ActionFailure;
+
+/**
+ * 狀態的中文名稱（用於 Log 與報告）
+ */
+export const ACTION_STATUS_LABELS: Record<ActionStatus, string> = {
+  ok: "成功",
+  rejected: "拒絕",
+  timeout: "逾時",
+  error: "錯誤",
+};
+
+// ==================== 工具函數 ====================
+
+/**
+ * 由例外判斷失敗分類（Playwright 的 TimeoutError 視為逾時，其餘為錯誤）
+ */
+export function failureKindOf(error: unknown): ActionFailureKind {
+  return (error as { name?: unknown } | null)?.name === "TimeoutError" ? "timeout" : "error";
+}
+
+/**
+ * 描述結果（例如「拒絕：現金不足」，用於角色 Log）
+ */
+export function describeResult(result: ActionResult<unknown>): string {
+  return result.ok ? ACTION_STATUS_LABELS.ok : `${ACTION_STATUS_LABELS[result.status]}：${result.message}`;
+}
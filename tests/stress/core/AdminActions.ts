@@ -0,0 +1,496 @@
+// tests/stress/core/AdminActions.ts
+import { Browser, BrowserContextOptions, Page } from "@playwright/test";
+import * as fs from "fs";
+import * as path from "path";
+import { ADMIN_PASSWORD, ADMIN_USERNAME, API_URL } from "../config";
+import { API_ENDPOINTS } from "./Readiness";
+
+/**
+ * 小遊戲類型
+ */
+export type AdminMiniGameType = "QUIZ" | "MINORITY";
+
+/**
+ * 小遊戲自動發布參數
+ */
+export interface MiniGamePublisherOptions {
+  games: AdminMiniGameType[]; // 依序輪流發布的小遊戲（例如 ["MINORITY"] 或 ["QUIZ", "MINORITY"]）
+  interval: number; // 每局發布間隔（毫秒，自上一局發布起算）
+}
+
+/**
+ * 執行中的小遊戲自動發布器
+ */
+export interface MiniGamePublisher {
+  /**
+   * 停止發布（等待當前這一局結算完成）
+   * @returns 成功發布的局數
+   */
+  stop(): Promise<number>;
+}
+
+/**
+ * Admin 後台 Session（獨立 BrowserContext）
+ */
+export interface AdminSession {
+  admin: AdminActions;
+  close(): Promise<void>;
+}
+
+/**
+ * 小遊戲進行中（尚不可發布下一局）的階段
+ */
+const MINIGAME_BUSY_PHASES = ["倒數中", "作答中"];
+
+/**
+ * AdminActions 類別
+ * 封裝 /admin 後台操作，取代「請至 Admin 後台手動按下按鈕」的人工步驟
+ * 讓測試場景可無人值守地開始遊戲、換日、發布與結算小遊戲
+ */
+export class AdminActions {
+  /**
+   * 建構函式
+   * @param page Playwright Page 實例（建議使用獨立 BrowserContext，避免與玩家 Token 衝突）
+   */
+  constructor(private page: Page) {}
+
+  /**
+   * Log 輔助函式
+   * 格式：[Admin][Action YY] 功能名稱: 狀態 訊息
+   */
+  private log(id: number, name: string, status: string, msg: string = "") {
+    const idStr = id.toString().padStart(2, "0");
+    console.log(`[Admin][Action ${idStr}] ${name}: ${status} ${msg}`);
+  }
+
+  /**
+   * 失敗時截圖存證（截圖失敗不影響主流程）
+   */
+  private async captureError(id: number, name: string, slug: string): Promise<void> {
+    try {
+      const errorDir = path.join(__dirname, "../../../test-results/action-errors");
+      if (!fs.existsSync(errorDir)) {
+        fs.mkdirSync(errorDir, { recursive: true });
+      }
+      const idStr = id.toString().padStart(2, "0");
+      const screenshotPath = path.join(errorDir, `admin-${idStr}-${slug}-error-${Date.now()}.png`);
+      await this.page.screenshot({ path: screenshotPath, fullPage: true });
+      this.log(id, name, "已截圖", screenshotPath);
+    } catch (screenshotError) {
+      // 截圖失敗不影響主流程
+    }
+  }
+
+  /**
+   * 切換後台 Tab（「遊戲控制」、「小遊戲 (Mini-Game)」、「問答 (Quiz)」、「少數決 (Minority)」）
+   */
+  private async openTab(label: string): Promise<void> {
+    await this.page.getByText(label, { exact: true }).first().click();
+  }
+
+  // ==================== 狀態讀取 ====================
+
+  /**
+   * 讀取主遊戲狀態（「遊戲狀態：進行中」→「進行中」）
+   * @returns 狀態文字（無法讀取時返回空字串）
+   */
+  async readGameStatus(): Promise<string> {
+    try {
+      const text = await this.page.getByText(/^遊戲狀態：/).first().textContent({ timeout: 3000 });
+      return (text || "").replace("遊戲狀態：", "").trim();
+    } catch (error) {
+      return "";
+    }
+  }
+
+  /**
+   * 讀取小遊戲階段（閒置 / 倒數中 / 作答中 / 等待結算 / 結果公布）
+   * @returns 階段文字（無法讀取時返回空字串）
+   */
+  async readMiniGamePhase(): Promise<string> {
+    try {
+      const text = await this.page.getByText(/^小遊戲階段：/).first().textContent({ timeout: 3000 });
+      return (text || "").replace("小遊戲階段：", "").trim();
+    } catch (error) {
+      return "";
+    }
+  }
+
+  /**
+   * 讀取當前遊戲天數（「第 X 天」）
+   * @returns 當前天數（無法讀取時返回 0）
+   */
+  async getCurrentDay(): Promise<number> {
+    try {
+      const dayText = await this.page
+        .getByText(/第\s*\d+\s*天/)
+        .first()
+        .textContent({ timeout: 3000 });
+      const match = (dayText || "").match(/第\s*(\d+)\s*天/);
+      return match ? parseInt(match[1], 10) : 0;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  // ==================== 遊戲控制 ====================
+
+  /**
+   * Admin Action 01: 登入後台
+   * @param user Admin 帳號（預設 config.ts 的 ADMIN_USERNAME）
+   * @param pass Admin 密碼（預設 config.ts 的 ADMIN_PASSWORD）
+   */
+  async login(user: string = ADMIN_USERNAME, pass: string = ADMIN_PASSWORD): Promise<boolean> {
+    this.log(1, "Admin 登入", "開始", user);
+
+    try {
+      // 1️⃣ 導航至後台登入頁
+      await this.page.goto("/admin");
+
+      // 2️⃣ 填寫表單並送出
+      await this.page.locator('input[id*="username"]').fill(user);
+      await this.page.locator('input[id*="password"]').fill(pass);
+      await this.page.click('button[type="submit"]');
+      this.log(1, "Admin 登入", "已送出", "");
+
+      // 3️⃣ 以「開始遊戲」按鈕出現作為登入成功依據，並等待後台同步到遊戲狀態
+      await this.page.locator('button:has-text("開始遊戲")').waitFor({ state: "visible", timeout: 5000 });
+      await this.page.getByText(/^遊戲狀態：\S+/).first().waitFor({ state: "visible", timeout: 5000 });
+
+      this.log(1, "Admin 登入", "成功", user);
+      return true;
+    } catch (error: any) {
+      this.log(1, "Admin 登入", "失敗", error.message);
+      await this.captureError(1, "Admin 登入", "login");
+      return false;
+    }
+  }
+
+  /**
+   * Admin Action 02: 開始遊戲
+   * 遊戲已在進行中時直接略過（可安全重複呼叫）
+   */
+  async startGame(): Promise<boolean> {
+    this.log(2, "開始遊戲", "開始", "");
+
+    try {
+      await this.openTab("遊戲控制");
+
+      const status = await this.readGameStatus();
+      if (status === "進行中") {
+        this.log(2, "開始遊戲", "略過", "遊戲已在進行中");
+        return true;
+      }
+
+      await this.page.click('button:has-text("開始遊戲")');
+      await this.page.getByText("遊戲狀態：進行中").first().waitFor({ state: "visible", timeout: 5000 });
+
+      this.log(2, "開始遊戲", "成功", `${status} → 進行中`);
+      return true;
+    } catch (error: any) {
+      this.log(2, "開始遊戲", "失敗", error.message);
+      await this.captureError(2, "開始遊戲", "start-game");
+      return false;
+    }
+  }
+
+  /**
+   * Admin Action 03: 暫停遊戲
+   */
+  async pauseGame(): Promise<boolean> {
+    this.log(3, "暫停遊戲", "開始", "");
+
+    try {
+      await this.openTab("遊戲控制");
+
+      const status = await this.readGameStatus();
+      if (status === "暫停中") {
+        this.log(3, "暫停遊戲", "略過", "遊戲已暫停");
+        return true;
+      }
+
+      await this.page.click('button:has-text("暫停遊戲")');
+      await this.page.getByText("遊戲狀態：暫停中").first().waitFor({ state: "visible", timeout: 5000 });
+
+      this.log(3, "暫停遊戲", "成功", "");
+      return true;
+    } catch (error: any) {
+      this.log(3, "暫停遊戲", "失敗", error.message);
+      await this.captureError(3, "暫停遊戲", "pause-game");
+      return false;
+    }
+  }
+
+  /**
+   * Admin Action 04: 下一天
+   * 按下後驗證天數 +1（最後一天換日會進入「已結束」）
+   */
+  async nextDay(): Promise<boolean> {
+    this.log(4, "下一天", "開始", "");
+
+    try {
+      await this.openTab("遊戲控制");
+
+      const before = await this.getCurrentDay();
+      await this.page.click('button:has-text("下一天")');
+
+      await this.page
+        .getByText(new RegExp(`第\\s*${before + 1}\\s*天|遊戲狀態：已結束`))
+        .first()
+        .waitFor({ state: "visible", timeout: 5000 });
+
+      const after = await this.getCurrentDay();
+      this.log(4, "下一天", "成功", `第 ${before} 天 → 第 ${after} 天`);
+      return true;
+    } catch (error: any) {
+      this.log(4, "下一天", "失敗", error.message);
+      await this.captureError(4, "下一天", "next-day");
+      return false;
+    }
+  }
+
+  // ==================== 小遊戲 ====================
+
+  /**
+   * 發布前確認上一局已結束
+   * 上一局仍在倒數 / 作答中 → 等待作答時間結束；停在「等待結算」→ 先按下結算
+   */
+  private async ensureReadyToPublish(id: number, name: string): Promise<void> {
+    let phase = await this.readMiniGamePhase();
+
+    if (MINIGAME_BUSY_PHASES.includes(phase)) {
+      this.log(id, name, "等待中", `上一局小遊戲${phase}，等待作答時間結束...`);
+      await this.page.getByText(/^小遊戲階段：(等待結算|結果公布|閒置)$/).first().waitFor({ state: "visible", timeout: 60000 });
+      phase = await this.readMiniGamePhase();
+    }
+
+    if (phase === "等待結算") {
+      this.log(id, name, "等待中", "上一局尚未結算，先行結算");
+      await this.page.click('button:has-text("結算")');
+      await this.page.getByText(/^小遊戲階段：(結果公布|閒置)$/).first().waitFor({ state: "visible", timeout: 5000 });
+    }
+  }
+
+  /**
+   * 等待發布成功（小遊戲進入倒數或作答階段）
+   */
+  private async waitForPublished(): Promise<void> {
+    await this.page.getByText(/^小遊戲階段：(倒數中|作答中)$/).first().waitFor({ state: "visible", timeout: 5000 });
+  }
+
+  /**
+   * Admin Action 05: 發布機智問答
+   * 流程：「小遊戲 (Mini-Game)」Tab →「問答 (Quiz)」子 Tab → 選擇題目 →「📢 發布題目（自動開始）」
+   * @param questionIndex 題目在下拉選單中的索引（未指定時使用預設選項）
+   */
+  async publishQuiz(questionIndex?: number): Promise<boolean> {
+    this.log(5, "發布問答", "開始", questionIndex === undefined ? "" : `題目 #${questionIndex}`);
+
+    try {
+      await this.openTab("小遊戲 (Mini-Game)");
+      await this.openTab("問答 (Quiz)");
+      await this.ensureReadyToPublish(5, "發布問答");
+
+      if (questionIndex !== undefined) {
+        await this.page.locator('select[id*="question"]').selectOption({ index: questionIndex });
+        this.log(5, "發布問答", "已選擇題目", `#${questionIndex}`);
+      }
+
+      await this.page.click('button:has-text("發布題目")');
+      await this.waitForPublished();
+
+      this.log(5, "發布問答", "成功", "");
+      return true;
+    } catch (error: any) {
+      this.log(5, "發布問答", "失敗", error.message);
+      await this.captureError(5, "發布問答", "publish-quiz");
+      return false;
+    }
+  }
+
+  /**
+   * Admin Action 06: 發布全場少數決
+   * 流程：「小遊戲 (Mini-Game)」Tab →「少數決 (Minority)」子 Tab →「洗牌 (Shuffle)」→「下一題 (Next Question)」
+   * @param shuffle 發布前是否先洗牌（預設 true）
+   */
+  async publishMinority(shuffle: boolean = true): Promise<boolean> {
+    this.log(6, "發布少數決", "開始", "");
+
+    try {
+      await this.openTab("小遊戲 (Mini-Game)");
+      await this.openTab("少數決 (Minority)");
+      await this.ensureReadyToPublish(6, "發布少數決");
+
+      if (shuffle) {
+        await this.page.click('button:has-text("洗牌 (Shuffle)")');
+        this.log(6, "發布少數決", "已洗牌", "");
+      }
+
+      await this.page.click('button:has-text("下一題 (Next Question)")');
+      await this.waitForPublished();
+
+      this.log(6, "發布少數決", "成功", "");
+      return true;
+    } catch (error: any) {
+      this.log(6, "發布少數決", "失敗", error.message);
+      await this.captureError(6, "發布少數決", "publish-minority");
+      return false;
+    }
+  }
+
+  /**
+   * Admin Action 07: 結算小遊戲
+   * 等待作答時間自然結束後按下「結算」；後端已自動結算（結果公布 / 閒置）時略過
+   * @param timeout 等待作答時間結束的上限（毫秒）
+   */
+  async settleMiniGame(timeout: number = 60000): Promise<boolean> {
+    this.log(7, "結算小遊戲", "開始", "");
+
+    try {
+      await this.openTab("小遊戲 (Mini-Game)");
+
+      // 1️⃣ 等待作答時間結束（不提前結算，讓玩家有完整作答時間）
+      await this.page.getByText(/^小遊戲階段：(等待結算|結果公布|閒置)$/).first().waitFor({ state: "visible", timeout });
+
+      const phase = await this.readMiniGamePhase();
+      if (phase !== "等待結算") {
+        this.log(7, "結算小遊戲", "略過", `目前階段：${phase}`);
+        return true;
+      }
+
+      // 2️⃣ 按下結算並等待結果公布
+      await this.page.click('button:has-text("結算")');
+      await this.page.getByText(/^小遊戲階段：(結果公布|閒置)$/).first().waitFor({ state: "visible", timeout: 5000 });
+
+      this.log(7, "結算小遊戲", "成功", "");
+      return true;
+    } catch (error: any) {
+      this.log(7, "結算小遊戲", "失敗", error.message);
+      await this.captureError(7, "結算小遊戲", "settle-minigame");
+      return false;
+    }
+  }
+
+  // ==================== 玩家管理 ====================
+
+  /**
+   * Admin Action 08: 設定玩家員工身分
+   * 後台畫面沒有對應按鈕，改以登入後台取得的 adminToken 直接呼叫 API_ENDPOINTS.adminEmployee
+   * （預設 PUT /api/admin/users/:username/employee，只在 mock 後端確認過；正式後端不同時以 STRESS_API_ROUTES 覆寫）
+   * 壓測開始前用來批次設定員工 / 訪客比例（玩家自行切換請使用 GameActions.setEmployeeStatus）
+   * @param username 玩家帳號
+   * @param isEmployee 是否為員工
+   */
+  async setEmployeeStatus(username: string, isEmployee: boolean): Promise<boolean> {
+    this.log(8, "設定員工身分", "開始", `${username} → isEmployee=${isEmployee}`);
+
+    try {
+      const token = await this.page.evaluate<string | null>('localStorage.getItem("adminToken")');
+      if (!token) {
+        this.log(8, "設定員工身分", "失敗", "尚未登入後台（找不到 adminToken）");
+        return false;
+      }
+
+      const { method, path: route } = API_ENDPOINTS.adminEmployee;
+      const response = await this.page.request.fetch(`${API_URL}${route.replace(":username", encodeURIComponent(username))}`, {
+        method,
+        headers: { Authorization: `Bearer ${token}` },
+        data: { isEmployee },
+      });
+      if (!response.ok()) {
+        const body = await response.json().catch(() => ({}));
+        this.log(8, "設定員工身分", "失敗", `${response.status()} ${body.message ?? ""}`.trim());
+        return false;
+      }
+
+      this.log(8, "設定員工身分", "成功", `${username} → ${isEmployee ? "員工" : "訪客"}`);
+      return true;
+    } catch (error: any) {
+      this.log(8, "設定員工身分", "失敗", error.message);
+      return false;
+    }
+  }
+
+  /**
+   * 背景定期發布小遊戲（例如「每 90 秒發布一局少數決」）
+   * 每局：發布 → 等待作答結束並結算 → 等待至下一個發布時間
+   * @param options 發布參數
+   * @returns 發布器（呼叫 stop() 停止）
+   */
+  startMiniGamePublisher(options: MiniGamePublisherOptions): MiniGamePublisher {
+    if (options.games.length === 0) {
+      throw new Error("❌ startMiniGamePublisher：games 不可為空");
+    }
+
+    let stopped = false;
+    let rounds = 0;
+
+    console.log(
+      `[Admin] 🔁 小遊戲自動發布啟動：${options.games.join(" → ")}，每 ${Math.round(options.interval / 1000)} 秒一局`
+    );
+
+    const loop = (async () => {
+      for (let i = 0; !stopped && !this.page.isClosed(); i++) {
+        const roundStartedAt = Date.now();
+        const type = options.games[i % options.games.length];
+
+        const published = type === "QUIZ" ? await this.publishQuiz() : await this.publishMinority();
+        if (published) {
+          rounds++;
+          await this.settleMiniGame();
+        }
+
+        // 分段等待，讓 stop() 能及時生效
+        const nextAt = roundStartedAt + options.interval;
+        while (!stopped && !this.page.isClosed() && Date.now() < nextAt) {
+          await this.page.waitForTimeout(Math.min(1000, nextAt - Date.now())).catch(() => {});
+        }
+      }
+    })();
+
+    return {
+      stop: async () => {
+        stopped = true;
+        await loop;
+        console.log(`[Admin] ⏹️ 小遊戲自動發布停止：共發布 ${rounds} 局`);
+        return rounds;
+      },
+    };
+  }
+}
+
+// ==================== Admin Session ====================
+
+/**
+ * 開啟 Admin 後台 Session（獨立 BrowserContext 並登入）
+ *
+ * 未設定 Admin 密碼（STRESS_ADMIN_PASSWORD）時返回 null，呼叫端應改為提示手動操作 /admin 後台
+ *
+ * @param browser Playwright Browser 實例
+ * @param contextOptions BrowserContext 設定（需包含 baseURL）
+ * @returns Admin Session；未設定 Admin 密碼時返回 null
+ */
+export async function openAdminSession(
+  browser: Browser,
+  contextOptions?: BrowserContextOptions
+): Promise<AdminSession | null> {
+  if (!ADMIN_PASSWORD) {
+    console.log("[Admin] ⚠️ 未設定 STRESS_ADMIN_PASSWORD，需手動操作 Admin 後台（/admin）");
+    return null;
+  }
+
+  const context = await browser.newContext(contextOptions);
+  const admin = new AdminActions(await context.newPage());
+
+  if (!(await admin.login())) {
+    await context.close().catch(() => {});
+    throw new Error(`❌ Admin 登入失敗（${ADMIN_USERNAME}），請確認 STRESS_ADMIN_USERNAME / STRESS_ADMIN_PASSWORD`);
+  }
+
+  return {
+    admin,
+    close: async () => {
+      await context.close().catch(() => {});
+    },
+  };
+}
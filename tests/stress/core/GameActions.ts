@@ -1,45 +1,70 @@
 // tests/stress/core/GameActions.ts
-import { Page } from "@playwright/test";
+import { Locator, Page } from "@playwright/test";
+import { GAME_START_TIMEOUT_MS, VERIFY_STATE } from "../config";
 import * as fs from "fs";
 import * as path from "path";
-
-/**
- * 資產資料介面
- * 用於記錄玩家的總資產、現金、股票市值、持股數量、負債
- */
-export interface AssetData {
-  totalAssets: number; // 總資產
-  cash: number; // 現金
-  stockValue: number; // 股票市值
-  stockCount: number; // 持股數量
-  debt: number; // 負債
-}
-
-/**
- * 合約資料介面
- * 用於記錄玩家的保證金與合約列表
- */
-export interface ContractData {
-  margin: number; // 保證金總額
-  contracts: Array<{
-    type: string; // 合約類型 (LONG/SHORT)
-    leverage: number; // 槓桿倍數
-    amount: number; // 合約張數
-  }>;
-}
+import { ACTION_STATUS_LABELS, ActionFailure, ActionResult, ActionSuccess, failureKindOf } from "./ActionResult";
+import { AssetData, ContractData, GameDriver, MiniGameKind, MiniGameOption } from "./GameDriver";
+import { ActionFailureKind, MetricsCollector } from "./MetricsCollector";
+import { API_ENDPOINTS, ApiEndpoint, ApiResult, SOCKET_EVENTS, Readiness, formatApiResult } from "./Readiness";
+import { ExpectedChange, LedgerSnapshot, StateVerifier } from "./StateVerifier";
+import { UserRegistry } from "./UserRegistry";
+import { AssetPanel, parseContractHeader, parseCurrency } from "./pages/AssetPanel";
+import { LoanSharkModal } from "./pages/LoanSharkModal";
+import { LoginPage } from "./pages/LoginPage";
+import { MinorityOverlay } from "./pages/MinorityOverlay";
+import { QuizOverlay } from "./pages/QuizOverlay";
+import { StatusBar, parseDay, parsePrice } from "./pages/StatusBar";
+import { TradingBar } from "./pages/TradingBar";
 
 /**
  * GameActions 類別
- * 封裝所有壓力測試的原子功能（20 個 Actions）
- * 每個方法代表一個獨立的測試積木
+ * 封裝所有壓力測試的原子功能（21 個 Actions）
+ * 每個方法代表一個獨立的測試積木，皆回傳 ActionResult（成功 / 拒絕 / 逾時 / 錯誤）
+ * 選擇器由 core/pages/ 的頁面物件負責，本類別只組合頁面物件、記錄 Log 與指標
+ * 實作 GameDriver（瀏覽器版本），角色只依賴該介面
  */
-export class GameActions {
+export class GameActions implements GameDriver {
+  // 就緒條件（Socket.io 事件、API 回應、DOM 變動），取代固定秒數等待以免灌水 Action 耗時
+  private ready: Readiness;
+  // 頁面物件（前端 DOM 結構變動時只需修改 core/pages/ 中對應的檔案）
+  private loginPage: LoginPage;
+  private statusBar: StatusBar;
+  private assetPanel: AssetPanel;
+  private tradingBar: TradingBar;
+  private loanShark: LoanSharkModal;
+  private quiz: QuizOverlay;
+  private minority: MinorityOverlay;
+  // 後端狀態驗證（僅開啟 VERIFY_STATE 時存在）
+  private verifier?: StateVerifier;
+  // 進行中的 Action（「ID 名稱」→ 開始時間與相關檔案），用於產生 ActionResult 的耗時與 artifacts
+  private running = new Map<string, { startTime: number; artifacts: string[] }>();
+
   /**
    * 建構函式
    * @param page Playwright Page 實例
    * @param userIndex 使用者編號（用於 Log 識別）
+   * @param metrics 指標收集器（可選，多人壓測時共用同一個實例）
+   * @param verifyState 是否以後端 API 驗證交易與借還款後的帳務變化（預設 config.ts 的 VERIFY_STATE）
    */
-  constructor(private page: Page, private userIndex: number) {}
+  constructor(
+    private page: Page,
+    private userIndex: number,
+    private metrics?: MetricsCollector,
+    verifyState: boolean = VERIFY_STATE
+  ) {
+    this.ready = new Readiness(page);
+    this.loginPage = new LoginPage(page);
+    this.statusBar = new StatusBar(page);
+    this.assetPanel = new AssetPanel(page);
+    this.tradingBar = new TradingBar(page);
+    this.loanShark = new LoanSharkModal(page);
+    this.quiz = new QuizOverlay(page);
+    this.minority = new MinorityOverlay(page);
+    if (verifyState) {
+      this.verifier = new StateVerifier(page, userIndex, metrics);
+    }
+  }
 
   /**
    * Log 輔助函式
@@ -49,34 +74,169 @@ export class GameActions {
    * @param name Action 名稱（中文）
    * @param status 狀態（成功/失敗/等待）
    * @param msg 額外訊息（可選）
+   * @param kind 失敗分類（僅「失敗」時使用，Log 顯示為「失敗[拒絕]」）
    */
-  private log(id: number, name: string, status: string, msg: string = "") {
+  private log(id: number, name: string, status: string, msg: string = "", kind?: ActionFailureKind) {
     const userStr = this.userIndex.toString().padStart(2, "0");
     const idStr = id.toString().padStart(2, "0");
-    console.log(`[User ${userStr}][Action ${idStr}] ${name}: ${status} ${msg}`);
+    const kindStr = kind ? `[${ACTION_STATUS_LABELS[kind]}]` : "";
+    console.log(`[User ${userStr}][Action ${idStr}] ${name}: ${status}${kindStr} ${msg}`);
+
+    if (status === "開始") {
+      this.running.set(`${id} ${name}`, { startTime: Date.now(), artifacts: [] });
+    } else if (status.startsWith("已截圖")) {
+      this.running.get(`${id} ${name}`)?.artifacts.push(msg);
+    }
+
+    // 指標收集：以「開始」與終止狀態（成功 / 略過 / 失敗）界定一次 Action 呼叫
+    if (this.metrics) {
+      if (status === "開始") {
+        this.metrics.begin(this.userIndex, id, name);
+      } else if (status === "成功" || status === "略過") {
+        this.metrics.end(this.userIndex, id, name, "success");
+      } else if (status === "失敗") {
+        this.metrics.end(this.userIndex, id, name, "failure", msg, undefined, kind);
+      } else if (status === "逾時") {
+        this.metrics.discard(this.userIndex, id, name);
+      } else if (status.startsWith("已截圖")) {
+        this.metrics.attachArtifact(this.userIndex, id, name, msg);
+      }
+    }
+  }
+
+  // ==================== 結果 ====================
+
+  /**
+   * 本次 Action 的耗時與相關檔案
+   * artifacts 與 running 共用同一個陣列，失敗後才完成的截圖也會出現在已回傳的結果中
+   */
+  private resultBase(id: number, name: string): { elapsedMs: number; artifacts: string[] } {
+    const running = this.running.get(`${id} ${name}`);
+    return {
+      elapsedMs: running ? Date.now() - running.startTime : 0,
+      artifacts: running ? running.artifacts : [],
+    };
+  }
+
+  /**
+   * 記錄成功並產生結果
+   * @param value Action 讀取到的資料（無資料的 Action 省略）
+   */
+  private succeed<T = void>(id: number, name: string, msg: string, value?: T): ActionSuccess<T> {
+    this.log(id, name, "成功", msg);
+    return { ok: true, status: "ok", value: value as T, ...this.resultBase(id, name) };
+  }
+
+  /**
+   * 成功後以後端 API 驗證帳務變化，再返回結果（未開啟驗證時直接返回）
+   * 在 succeed() 之後才驗證，驗證的 API 請求不計入 Action 耗時
+   * @param before 送出交易前的後端快照（未開啟驗證時為 undefined）
+   */
+  private async verified<T>(
+    id: number,
+    name: string,
+    before: LedgerSnapshot | null | undefined,
+    change: ExpectedChange,
+    result: ActionSuccess<T>
+  ): Promise<ActionSuccess<T>> {
+    if (this.verifier && before !== undefined) {
+      await this.verifier.verify(id, name, before, change);
+    }
+    return result;
+  }
+
+  /**
+   * 記錄略過（視為成功，例如無合約可撤銷）並產生結果
+   */
+  private skip(id: number, name: string, msg: string): ActionSuccess<void> {
+    this.log(id, name, "略過", msg);
+    return { ok: true, status: "ok", value: undefined, ...this.resultBase(id, name) };
+  }
+
+  /**
+   * 記錄失敗並產生結果
+   * @param kind 失敗分類（rejected：遊戲規則拒絕、timeout：等待逾時、error：其他錯誤）
+   */
+  private fail(id: number, name: string, kind: ActionFailureKind, msg: string): ActionFailure {
+    this.log(id, name, "失敗", msg, kind);
+    return { ok: false, status: kind, message: msg, ...this.resultBase(id, name) };
+  }
+
+  /**
+   * 由 catch 到的例外記錄失敗並產生結果（TimeoutError 為逾時，其餘為錯誤）
+   */
+  private fromError(id: number, name: string, error: any): ActionFailure {
+    return this.fail(id, name, failureKindOf(error), error?.message ?? String(error));
+  }
+
+  /**
+   * 有限等待的逾時（正常情況，不列入指標）並產生結果
+   */
+  private timedOut(id: number, name: string, msg: string): ActionFailure {
+    this.log(id, name, "逾時", msg);
+    return { ok: false, status: "timeout", message: msg, ...this.resultBase(id, name) };
+  }
+
+  /**
+   * 判斷 API 回應是否為失敗
+   * 4xx 為遊戲規則拒絕（訊息為伺服器回傳的 message），5xx 為錯誤；未收到回應時交由畫面判斷
+   */
+  private apiFailure(endpoint: ApiEndpoint, apiResult: ApiResult | null): { kind: ActionFailureKind; message: string } | null {
+    if (!apiResult || apiResult.status < 400) return null;
+    return {
+      kind: apiResult.status < 500 ? "rejected" : "error",
+      message: apiResult.message ?? formatApiResult(endpoint, apiResult),
+    };
+  }
+
+  /**
+   * 等待 Tab / 方向按鈕切換為選中狀態
+   * Ant Design Mobile Button 的 fill="solid" 會對應到 class 'adm-button-fill-solid'
+   * @param text 按鈕文字
+   */
+  private async waitForActiveButton(text: RegExp): Promise<void> {
+    await this.tradingBar.activeButton(text).waitFor({ state: "visible", timeout: 3000 });
+  }
+
+  /**
+   * 等待元素可見，signal 觸發時立即以 TimeoutError 結束（背景的 waitFor 於頁面關閉時自然結束）
+   */
+  private waitUntilVisible(locator: Locator, timeout: number, signal?: AbortSignal): Promise<void> {
+    const visible = locator.waitFor({ state: "visible", timeout });
+    if (!signal) return visible;
+    visible.catch(() => {});
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const error = new Error("已中止等待（離場或中止）");
+        error.name = "TimeoutError";
+        reject(error);
+      };
+      if (signal.aborted) return onAbort();
+      signal.addEventListener("abort", onAbort, { once: true });
+      visible.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+    });
   }
 
   // ==================== Auth & Basic ====================
 
   /**
    * Action 00: 等待遊戲開始
-   * Blocking 等待直到偵測到倒數計時器有變動（表示遊戲正在運行）
+   * Blocking 等待直到偵測到倒數計時器有變動（表示遊戲正在運行），最多等待 GAME_START_TIMEOUT_MS
    */
-  async waitForGameStart(): Promise<boolean> {
+  async waitForGameStart(): Promise<ActionResult> {
     this.log(0, "等待遊戲開始", "開始", "");
+    const deadline = Date.now() + GAME_START_TIMEOUT_MS;
 
     try {
       // 策略：檢測倒數計時器是否在變動（每秒更新一次），確認遊戲正在運行中
       // 前端顯示格式：「00:30」或「01:00」等倒數秒數
       
-      // 1. 等待倒數計時器元素出現（無限等待）
-      const countdownLocator = this.page.locator('span').filter({ 
-        hasText: /\d{2}:\d{2}/ 
-      }).first();
+      // 1. 等待倒數計時器元素出現（等待 Admin 開始遊戲）
+      const countdownLocator = this.statusBar.countdown;
       
       await countdownLocator.waitFor({ 
         state: "visible", 
-        timeout: 0 // 無限等待直到元素出現
+        timeout: GAME_START_TIMEOUT_MS
       });
       
       this.log(0, "等待遊戲開始", "倒數計時器已出現", "");
@@ -85,36 +245,21 @@ export class GameActions {
       const firstCountdown = await countdownLocator.textContent();
       this.log(0, "等待遊戲開始", "初始倒數", firstCountdown || "");
 
-      // 3. 等待 2 秒後再次檢查
-      await this.page.waitForTimeout(2000);
-
-      // 4. 取得第二次的倒數秒數
-      const secondCountdown = await countdownLocator.textContent();
-      this.log(0, "等待遊戲開始", "2秒後倒數", secondCountdown || "");
-
-      // 5. 如果兩次秒數不同，表示遊戲正在運行中
-      if (firstCountdown !== secondCountdown) {
-        this.log(0, "等待遊戲開始", "成功", `倒數計時器有變動 (${firstCountdown} -> ${secondCountdown})`);
-        return true;
-      } else {
+      // 3. 等待倒數文字變動（計時器每秒更新；遊戲暫停時持續等待至上限）
+      const changedWithinTick = await this.ready.waitForTextChange(countdownLocator, firstCountdown, 2000);
+      if (!changedWithinTick) {
         this.log(0, "等待遊戲開始", "等待中", "倒數計時器尚未變動，繼續等待...");
-        
-        // 6. 如果沒有變動，每 2 秒重新檢查一次（無限循環直到遊戲開始）
-        while (true) {
-          await this.page.waitForTimeout(2000);
-          const currentCountdown = await countdownLocator.textContent();
-          
-          if (currentCountdown !== secondCountdown) {
-            this.log(0, "等待遊戲開始", "成功", `倒數計時器開始變動 (${secondCountdown} -> ${currentCountdown})`);
-            return true;
-          }
-          
-          this.log(0, "等待遊戲開始", "等待中", `倒數: ${currentCountdown}`);
+        const changed = await this.ready.waitForTextChange(countdownLocator, firstCountdown, Math.max(1, deadline - Date.now()));
+        if (!changed) {
+          return this.fail(0, "等待遊戲開始", "timeout", `${GAME_START_TIMEOUT_MS / 1000} 秒內倒數計時器未變動`);
         }
       }
+
+      // 4. 文字已變動，表示遊戲正在運行中
+      const currentCountdown = await countdownLocator.textContent();
+      return this.succeed(0, "等待遊戲開始", `倒數計時器有變動 (${firstCountdown} -> ${currentCountdown})`);
     } catch (error: any) {
-      this.log(0, "等待遊戲開始", "失敗", error.message);
-      return false;
+      return this.fromError(0, "等待遊戲開始", error);
     }
   }
 
@@ -124,61 +269,51 @@ export class GameActions {
    * @param user 帳號
    * @param pass 密碼
    */
-  async register(nick: string, user: string, pass: string): Promise<boolean> {
+  async register(nick: string, user: string, pass: string): Promise<ActionResult> {
     this.log(1, "註冊", "開始", `${user}`);
 
     try {
       // 1. 點擊「線上開戶」按鈕開啟 Modal
-      await this.page.click('button:has-text("線上開戶")');
+      await this.loginPage.registerButton.click();
       this.log(1, "註冊", "Modal已開啟", "");
 
       // 2. 定位 Modal 容器（確保操作在 Modal 內進行）
-      const modal = this.page.locator('.adm-center-popup-body');
-      await modal.waitFor({ state: "visible", timeout: 3000 });
+      await this.loginPage.registerModal.waitFor({ state: "visible", timeout: 3000 });
 
       // 3. 填寫表單欄位（在 Modal 內部查找，避免與背景頁面衝突）
-      await modal.locator('input[id*="displayName"]').fill(nick);
-      await modal.locator('input[id*="username"]').fill(user);
-      await modal.locator('input[id*="password"]').first().fill(pass); // 密碼欄位
-      await modal.locator('input[id*="confirmPassword"]').fill(pass); // 確認密碼
+      const fields = this.loginPage.registerFields;
+      await fields.displayName.fill(nick);
+      await fields.username.fill(user);
+      await fields.password.fill(pass); // 密碼欄位
+      await fields.confirmPassword.fill(pass); // 確認密碼
       this.log(1, "註冊", "表單已填寫", "");
 
-      // 3. 點擊送出按鈕
-      await this.page.click('button:has-text("送出")');
-      this.log(1, "註冊", "已送出", "");
-
-      // 4. 等待成功 Toast 出現（antd 的 message 組件）
-      const toastLocator = this.page.locator(".ant-message-notice-content").filter({ hasText: "註冊成功" });
-      await toastLocator.waitFor({ state: "visible", timeout: 5000 });
-      this.log(1, "註冊", "成功 Toast 已顯示", "");
-
-      // 5. 寫入 users.json
-      const dataDir = path.join(__dirname, "../data");
-      const usersFilePath = path.join(dataDir, "users.json");
-
-      // 確保目錄存在
-      if (!fs.existsSync(dataDir)) {
-        fs.mkdirSync(dataDir, { recursive: true });
-      }
+      // 3. 點擊送出按鈕（後端拒絕時，例如帳號已存在，不需等待成功 Toast 逾時）
+      const apiResult = await this.ready.withApiResponse(
+        API_ENDPOINTS.register,
+        () => this.loginPage.registerSubmitButton.click(),
+        5000
+      );
+      this.log(1, "註冊", "已送出", formatApiResult(API_ENDPOINTS.register, apiResult));
 
-      // 讀取現有資料
-      let users: Array<{ username: string; password: string; registered: boolean }> = [];
-      if (fs.existsSync(usersFilePath)) {
-        const content = fs.readFileSync(usersFilePath, "utf-8");
-        users = JSON.parse(content);
+      const apiFailure = this.apiFailure(API_ENDPOINTS.register, apiResult);
+      if (apiFailure) {
+        return this.fail(1, "註冊", apiFailure.kind, apiFailure.message);
       }
 
-      // 新增使用者
-      users.push({ username: user, password: pass, registered: true });
+      // 4. 等待成功 Toast 出現（antd 的 message 組件）
+      await this.loginPage.registerSuccessMessage.waitFor({ state: "visible", timeout: 5000 });
+      this.log(1, "註冊", "成功 Toast 已顯示", "");
 
-      // 寫回檔案
-      fs.writeFileSync(usersFilePath, JSON.stringify(users, null, 2), "utf-8");
+      // 5. 寫入 users.json（經由 UserRegistry 取得檔案鎖並原子寫入，多個 Context 同時註冊也不會遺失）
+      const registry = new UserRegistry();
+      await registry.upsert({ username: user, password: pass, registered: true });
+      const users = registry.read();
       this.log(1, "註冊", "已寫入 users.json", `Total: ${users.length}`);
 
-      this.log(1, "註冊", "成功", `${user}`);
-      return true;
+      return this.succeed(1, "註冊", `${user}`);
     } catch (error: any) {
-      this.log(1, "註冊", "失敗", error.message);
+      const result = this.fromError(1, "註冊", error);
       
       // 失敗時截圖存證，方便前端 Debug
       try {
@@ -193,7 +328,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
       
-      return false;
+      return result;
     }
   }
 
@@ -202,34 +337,40 @@ export class GameActions {
    * @param user 帳號
    * @param pass 密碼
    */
-  async login(user: string, pass: string): Promise<boolean> {
+  async login(user: string, pass: string): Promise<ActionResult> {
     this.log(2, "登入", "開始", `${user}`);
 
     try {
       // 1. 導航至登入頁面（使用相對路徑）
-      await this.page.goto("/");
+      await this.loginPage.goto();
       this.log(2, "登入", "已導航至登入頁", "");
 
       // 2. 填寫表單欄位（使用 Form Item ID）
-      await this.page.locator('input[id*="username"]').fill(user);
-      await this.page.locator('input[id*="password"]').fill(pass);
+      await this.loginPage.usernameInput.fill(user);
+      await this.loginPage.passwordInput.fill(pass);
       this.log(2, "登入", "表單已填寫", "");
 
-      // 3. 點擊登入按鈕
-      await this.page.click('button[type="submit"]');
-      this.log(2, "登入", "已送出", "");
+      // 3. 點擊登入按鈕（帳號或密碼錯誤時後端回傳 401）
+      const apiResult = await this.ready.withApiResponse(
+        API_ENDPOINTS.login,
+        () => this.loginPage.loginButton.click(),
+        5000
+      );
+      this.log(2, "登入", "已送出", formatApiResult(API_ENDPOINTS.login, apiResult));
+
+      const apiFailure = this.apiFailure(API_ENDPOINTS.login, apiResult);
+      if (apiFailure) {
+        return this.fail(2, "登入", apiFailure.kind, apiFailure.message);
+      }
 
       // 4. 驗證登入成功（等待 URL 跳轉至 /home）
-      await this.page.waitForURL("**/home", { timeout: 5000 });
+      await this.page.waitForURL(this.loginPage.homeUrl, { timeout: 5000 });
       this.log(2, "登入", "URL 已跳轉至 /home", "");
 
       // 5. 驗證 Token 存在於 localStorage
-      const token = await this.page.evaluate(() =>
-        localStorage.getItem("token")
-      );
+      const token = await this.loginPage.readToken();
       if (!token) {
-        this.log(2, "登入", "失敗", "Token 不存在於 localStorage");
-        return false;
+        return this.fail(2, "登入", "error", "Token 不存在於 localStorage");
       }
       this.log(
         2,
@@ -238,10 +379,9 @@ export class GameActions {
         `Token: ${token.substring(0, 20)}...`
       );
 
-      this.log(2, "登入", "成功", `${user}`);
-      return true;
+      return this.succeed(2, "登入", `${user}`);
     } catch (error: any) {
-      this.log(2, "登入", "失敗", error.message);
+      const result = this.fromError(2, "登入", error);
 
       // 失敗時截圖存證
       try {
@@ -262,7 +402,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -270,14 +410,13 @@ export class GameActions {
    * Action 03: 換頭像
    * @param index 頭像編號 (0-50)
    */
-  async changeAvatar(index: number): Promise<boolean> {
+  async changeAvatar(index: number): Promise<ActionResult> {
     this.log(3, "換頭像", "開始", `index=${index}`);
 
     try {
       // 1️⃣ 驗證 index 範圍
       if (index < 0 || index > 50) {
-        this.log(3, "換頭像", "失敗", `index 超出範圍 (0-50): ${index}`);
-        return false;
+        return this.fail(3, "換頭像", "error", `index 超出範圍 (0-50): ${index}`);
       }
 
       // 2️⃣ 生成目標頭像檔名
@@ -286,72 +425,69 @@ export class GameActions {
 
       // 3️⃣ 點擊右上角頭像區域開啟使用者選單
       // 策略：點擊包含 Avatar 元件的整個區域（包含使用者名稱）
-      const avatarArea = this.page.locator('.adm-avatar').first();
+      const avatarArea = this.statusBar.avatar;
       await avatarArea.waitFor({ state: "visible", timeout: 5000 });
       await avatarArea.click();
-      await this.page.waitForTimeout(500); // 等待選單動畫
       this.log(3, "換頭像", "已開啟使用者選單", "");
 
       // 4️⃣ 點擊「更改頭像」選項
-      const changeAvatarOption = this.page.locator('div').filter({
-        hasText: /^更改頭像$/
-      }).first();
+      const changeAvatarOption = this.statusBar.changeAvatarOption;
       await changeAvatarOption.waitFor({ state: "visible", timeout: 3000 });
       await changeAvatarOption.click();
       this.log(3, "換頭像", "已點擊更改頭像", "");
 
       // 5️⃣ 等待 Popup 出現（使用 Hash 錨點驗證）
-      await this.page.waitForURL(/.*#avatar-selector/, { timeout: 5000 });
+      await this.page.waitForURL((url) => url.hash.includes(this.statusBar.avatarSelectorHash), { timeout: 5000 });
       this.log(3, "換頭像", "頭像選擇器已載入", "");
 
       // 6️⃣ 點擊目標頭像（使用父容器點擊避免被子元素擋住）
       // 策略：點擊包含該圖片的 Grid.Item 容器
-      const targetAvatarContainer = this.page.locator('.adm-grid-item').filter({
-        has: this.page.locator(`img[alt="${targetAvatar}"]`)
-      });
+      const targetAvatarContainer = this.statusBar.avatarOption(targetAvatar);
       await targetAvatarContainer.waitFor({ state: "visible", timeout: 5000 });
-      await targetAvatarContainer.scrollIntoViewIfNeeded();
-      await this.page.waitForTimeout(300); // 等待滾動完成
+      await targetAvatarContainer.scrollIntoViewIfNeeded(); // 捲動完成後才返回
       await targetAvatarContainer.click({ force: true });
       this.log(3, "換頭像", "已選擇頭像", targetAvatar);
 
       // 7️⃣ 點擊「儲存」按鈕
-      const saveButton = this.page.locator('button').filter({
-        hasText: /^儲存$/
-      }).first();
+      const saveButton = this.statusBar.saveAvatarButton;
       await saveButton.waitFor({ state: "visible", timeout: 3000 });
-      await saveButton.click();
-      this.log(3, "換頭像", "已點擊儲存", "");
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.avatar, () => saveButton.click());
+      this.log(3, "換頭像", "已點擊儲存", formatApiResult(API_ENDPOINTS.avatar, apiResult));
+
+      const apiFailure = this.apiFailure(API_ENDPOINTS.avatar, apiResult);
+      if (apiFailure) {
+        return this.fail(3, "換頭像", apiFailure.kind, apiFailure.message);
+      }
 
-      // 8️⃣ 等待 API 回應與 Modal 關閉
+      // 8️⃣ 等待 Modal 關閉
       // 策略：等待 URL Hash 清除（代表 Modal 已關閉）
-      await this.page.waitForTimeout(1500); // 等待 API 回應與動畫
-      
-      // 驗證 Hash 已清除或回到正常狀態
-      const currentUrl = this.page.url();
-      if (currentUrl.includes('#avatar-selector')) {
-        this.log(3, "換頭像", "失敗", "Modal 未關閉，可能儲存失敗");
-        return false;
+      const isClosed = await this.page
+        .waitForURL((url) => !url.hash.includes(this.statusBar.avatarSelectorHash), { timeout: 3000 })
+        .then(() => true)
+        .catch(() => false);
+      if (!isClosed) {
+        return this.fail(3, "換頭像", "error", "Modal 未關閉，可能儲存失敗");
       }
       
       this.log(3, "換頭像", "Modal 已關閉", "");
 
-      // 9️⃣ 驗證頭像已更新（檢查右上角頭像 src）
-      await this.page.waitForTimeout(500);
-      const currentAvatar = this.page.locator('.adm-avatar img').first();
-      const avatarSrc = await currentAvatar.getAttribute('src');
+      // 9️⃣ 驗證頭像已更新（等待右上角頭像 src 換成目標頭像）
+      const updatedAvatar = this.statusBar.avatarImage(targetAvatar);
+      const isUpdated = await updatedAvatar
+        .waitFor({ state: "visible", timeout: 3000 })
+        .then(() => true)
+        .catch(() => false);
+      const avatarSrc = await this.statusBar.avatarImage().getAttribute('src');
       
-      if (avatarSrc && avatarSrc.includes(targetAvatar)) {
-        this.log(3, "換頭像", "成功", `${targetAvatar} (已驗證)`);
-        return true;
+      if (isUpdated) {
+        return this.succeed(3, "換頭像", `${targetAvatar} (已驗證)`);
       } else {
         this.log(3, "換頭像", "警告", `頭像可能未更新 (src=${avatarSrc})`);
         // 仍然視為成功，因為可能是快取問題
-        this.log(3, "換頭像", "成功", targetAvatar);
-        return true;
+        return this.succeed(3, "換頭像", targetAvatar);
       }
     } catch (error: any) {
-      this.log(3, "換頭像", "失敗", error.message);
+      const result = this.fromError(3, "換頭像", error);
 
       // 失敗時截圖存證
       try {
@@ -372,108 +508,52 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
   /**
    * Action 19: 與地下錢莊主人互動
    * 點擊地下錢莊主人頭像並檢查對話變化
-   * @returns 是否成功互動並檢測到對話變化
+   * @returns 互動結果（對話是否變化僅記錄於 Log）
    */
-  async interactWithLoanShark(): Promise<boolean> {
+  async interactWithLoanShark(): Promise<ActionResult> {
     this.log(19, "與地下錢莊主人互動", "開始", "");
 
     try {
       // 1️⃣ 確認 Modal 已開啟（若未開啟則先開啟）
-      const modalTitle = this.page.locator('span').filter({
-        hasText: /^地下錢莊$/
-      }).first();
-
-      const isModalVisible = await modalTitle.isVisible().catch(() => false);
+      const isModalVisible = await this.loanShark.title.isVisible().catch(() => false);
 
       if (!isModalVisible) {
         this.log(19, "與地下錢莊主人互動", "Modal 未開啟", "嘗試自動開啟");
-        const openSuccess = await this.openLoanShark();
-        if (!openSuccess) {
-          this.log(19, "與地下錢莊主人互動", "失敗", "無法開啟地下錢莊");
-          return false;
+        const opened = await this.openLoanShark();
+        if (!opened.ok) {
+          return this.fail(19, "與地下錢莊主人互動", opened.status, `無法開啟地下錢莊：${opened.message}`);
         }
       }
 
       this.log(19, "與地下錢莊主人互動", "Modal 已確認開啟", "");
 
       // 2️⃣ 找到地下錢莊主人頭像（沈梟）
-      // 策略：找到包含 alt="沈梟" 或 alt="黑心商人" 的圖片元素
-      const merchantImage = this.page.locator('img[alt="黑心商人"]').first();
+      const merchantImage = this.loanShark.merchantImage;
 
       await merchantImage.waitFor({ state: "visible", timeout: 5000 });
       this.log(19, "與地下錢莊主人互動", "已定位商人頭像", "");
 
-      // 3️⃣ 找到對話框並讀取互動前的對話內容
-      // 策略：對話框是白色背景的區塊，不包含「模式」、「日利率」等 UI 文字
-      // 文字長度通常在 10-100 字之間
-      
-      // 等待 Modal 完全載入
-      await this.page.waitForTimeout(500);
-      
-      // 找到對話框：使用頁面內所有文字，過濾出合理長度且不含UI關鍵字的內容
-      const getAllDialogueTexts = async () => {
-        return await this.page.evaluate(() => {
-          const allDivs = document.querySelectorAll('div');
-          const textMap = new Map<string, number>(); // 記錄每個文字出現的次數
-          
-          allDivs.forEach(div => {
-            const text = div.textContent?.trim() || '';
-            // 對話框特徵：
-            // 1. 長度在 15-80 字之間（對話通常不會太短或太長）
-            // 2. 不包含 UI 關鍵字
-            // 3. 包含中文標點符號（，。！？等）
-            if (text.length >= 15 && text.length <= 80 && 
-                !text.includes('模式') && 
-                !text.includes('日利率') &&
-                !text.includes('今日額度') &&
-                !text.includes('借款') &&
-                !text.includes('還款') &&
-                !text.includes('上限') &&
-                !text.includes('當前負債') &&
-                !text.includes('總資產') &&
-                !text.includes('測試員工') &&
-                !text.includes('(你)') &&
-                !text.match(/\$\d+/) && // 避免選到金額
-                !text.match(/\d+\/\d+/) && // 避免選到額度顯示
-                !text.includes('•') && // 排除新聞條目（以 • 開頭）
-                /[，。！？、：；]/.test(text) && // 必須包含中文標點
-                /[\u4e00-\u9fa5]{5,}/.test(text)) { // 至少包含5個中文字
-              
-              const count = textMap.get(text) || 0;
-              textMap.set(text, count + 1);
-            }
-          });
-          
-          // 轉換為陣列並排序：優先選擇出現次數多的（對話框通常重複出現）
-          const results = Array.from(textMap.entries())
-            .sort((a, b) => b[1] - a[1]) // 按出現次數降序
-            .map(([text]) => text);
-          
-          return results;
-        });
-      };
-      
-      const beforeTexts = await getAllDialogueTexts();
-      const beforeDialogue = beforeTexts.length > 0 ? beforeTexts[0] : "";
+      // 3️⃣ 讀取互動前的對話內容（等待 Modal 完全載入，DOM 不再變動）
+      await this.ready.waitForDomIdle();
+      const beforeDialogue = await this.loanShark.readDialogue();
       this.log(19, "與地下錢莊主人互動", "互動前對話", `"${beforeDialogue}"`);
 
       // 4️⃣ 點擊商人頭像（使用 force: true 強制點擊）
       await merchantImage.click({ force: true });
       this.log(19, "與地下錢莊主人互動", "已點擊商人頭像", "（force: true）");
 
-      // 5️⃣ 等待對話更新（React state 更新 + 動畫）
-      await this.page.waitForTimeout(1500);
+      // 5️⃣ 等待對話更新（React state 更新 + 動畫結束後 DOM 不再變動）
+      await this.ready.waitForDomIdle(300);
 
       // 6️⃣ 讀取互動後的對話內容
-      const afterTexts = await getAllDialogueTexts();
-      const afterDialogue = afterTexts.length > 0 ? afterTexts[0] : "";
+      const afterDialogue = await this.loanShark.readDialogue();
       this.log(19, "與地下錢莊主人互動", "互動後對話", `"${afterDialogue}"`);
 
       // 7️⃣ 檢查對話是否有變化
@@ -489,11 +569,10 @@ export class GameActions {
         this.log(19, "與地下錢莊主人互動", "警告", "無法讀取對話內容");
       }
 
-      this.log(19, "與地下錢莊主人互動", "成功", hasChange ? "對話有變化" : "互動完成");
-      return true;
+      return this.succeed(19, "與地下錢莊主人互動", hasChange ? "對話有變化" : "互動完成");
 
     } catch (error: any) {
-      this.log(19, "與地下錢莊主人互動", "失敗", error.message);
+      const result = this.fromError(19, "與地下錢莊主人互動", error);
 
       // 失敗時截圖存證
       try {
@@ -508,92 +587,123 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
   /**
-   * Action 19 (Alternative): 設定員工身分
-   * 用於 Admin 或特殊測試情境
+   * Action 19 (Alternative): 設定員工身分（玩家自行設定）
+   * 透過使用者選單的「員工身分」切換；目前身分已符合時不操作
+   * 選單項目與「員工」標籤（StatusBar.employeeOption / employeeTag）只對應 mock 前端，正式前端尚未確認，
+   * Orchestrator 只在 STRESS_MOCK=1 時使用此路徑
+   * Admin 代為設定請使用 AdminActions.setEmployeeStatus（壓測開始前批次設定員工 / 訪客比例）
    * @param isEmployee 是否為員工
    */
-  async setEmployeeStatus(isEmployee: boolean): Promise<boolean> {
-    /* TODO */ return false;
-  }
+  async setEmployeeStatus(isEmployee: boolean): Promise<ActionResult> {
+    this.log(19, "設定員工身分", "開始", `isEmployee=${isEmployee}`);
 
-  // ==================== Data ====================
+    try {
+      // 1️⃣ 讀取目前身分（名稱旁的「員工」標籤），已符合時直接返回
+      const avatarArea = this.statusBar.avatar;
+      await avatarArea.waitFor({ state: "visible", timeout: 5000 });
+      const employeeTag = this.statusBar.employeeTag;
+      const current = await employeeTag.isVisible();
+      if (current === isEmployee) {
+        return this.skip(19, "設定員工身分", `已是${isEmployee ? "員工" : "訪客"}，無需變更`);
+      }
 
-  /**
-   * 貨幣解析輔助函數
-   * 將 UI 顯示的字串（如 "$197.20", "1,000 股", "-$50.00"）轉換為數字
-   * @param text UI 文字內容
-   * @returns 解析後的數值（失敗時返回 0）
-   */
-  private parseCurrency(text: string | null): number {
-    if (!text) return 0;
-    
-    // 移除所有非數字字符（保留負號和小數點）
-    // 範例：
-    //   "$1,234.56" -> "1234.56"
-    //   "100 股" -> "100"
-    //   "-$50.00" -> "-50.00"
-    const cleaned = text.replace(/[^0-9.-]/g, '');
-    
-    const value = parseFloat(cleaned);
-    return isNaN(value) ? 0 : value; // 容錯處理：解析失敗時返回 0
+      // 2️⃣ 開啟使用者選單並點擊「員工身分」
+      await avatarArea.click();
+      const employeeOption = this.statusBar.employeeOption;
+      await employeeOption.waitFor({ state: "visible", timeout: 3000 });
+      await employeeOption.click();
+      this.log(19, "設定員工身分", "已點擊員工身分", "");
+
+      // 3️⃣ 等待確認對話框並點擊「確定」
+      // 對話框內容：「確定要登記為員工嗎？」或「確定要取消員工身分嗎？」
+      const dialog = this.statusBar.confirmDialog;
+      await dialog.waitFor({ state: "visible", timeout: 5000 });
+      const dialogText = (await dialog.textContent()) || "";
+      this.log(19, "設定員工身分", "對話框已出現", dialogText.trim());
+
+      const confirmButton = this.statusBar.confirmButton;
+      await confirmButton.waitFor({ state: "visible", timeout: 3000 });
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.employee, () => confirmButton.click());
+      this.log(19, "設定員工身分", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.employee, apiResult));
+
+      const apiFailure = this.apiFailure(API_ENDPOINTS.employee, apiResult);
+      if (apiFailure) {
+        return this.fail(19, "設定員工身分", apiFailure.kind, apiFailure.message);
+      }
+
+      // 4️⃣ 驗證「員工」標籤已切換
+      await employeeTag.waitFor({ state: isEmployee ? "visible" : "hidden", timeout: 5000 });
+      return this.succeed(19, "設定員工身分", isEmployee ? "已登記為員工" : "已取消員工身分");
+    } catch (error: any) {
+      const result = this.fromError(19, "設定員工身分", error);
+
+      // 失敗時截圖存證
+      try {
+        const errorDir = path.join(__dirname, "../../../test-results/action-errors");
+        if (!fs.existsSync(errorDir)) {
+          fs.mkdirSync(errorDir, { recursive: true });
+        }
+        const screenshotPath = path.join(errorDir, `action-19-employee-error-${Date.now()}.png`);
+        await this.page.screenshot({ path: screenshotPath, fullPage: true });
+        this.log(19, "設定員工身分", "已截圖", screenshotPath);
+      } catch (screenshotError) {
+        // 截圖失敗不影響主流程
+      }
+
+      return result;
+    }
   }
 
+  // ==================== Data ====================
+
   /**
    * Action 04: 讀取資產
    * 解析 DOM 取得現金、股票、負債數值並 Log 輸出
    */
-  async readAssets(): Promise<AssetData | null> {
+  async readAssets(): Promise<ActionResult<AssetData>> {
     this.log(4, "讀取資產", "開始", "");
 
     try {
-      // 1️⃣ 等待資產區域載入（等待 WebSocket 連線並推送資料）
-      await this.page.waitForTimeout(2000); // 給予 WebSocket 足夠時間推送資料
-      
-      const totalAssetsLabel = this.page.locator('div').filter({
-        hasText: /^總資產$/
-      }).first();
+      // 1️⃣ 等待資產區域載入（至少收到一次 player:assets 推播，且總資產已渲染出數字）
+      const hasAssetsPush = await this.ready.waitForSocketEvent(SOCKET_EVENTS.assets, { since: 0 });
+      if (!hasAssetsPush) {
+        this.log(4, "讀取資產", "警告", `未收到 ${SOCKET_EVENTS.assets} 推播，改以畫面判斷`);
+      }
       
-      await totalAssetsLabel.waitFor({ state: "visible", timeout: 5000 });
+      await this.assetPanel.totalAssetsLabel.waitFor({ state: "visible", timeout: 5000 });
+      await this.assetPanel.renderedTotalAssets.waitFor({ state: "visible", timeout: 5000 });
       this.log(4, "讀取資產", "資產區域已載入", "");
 
       // 2️⃣ 讀取總資產（直接使用 style 找到大字體數值）
       // 前端結構：fontSize: '36px', fontWeight: 'bold'
-      const totalAssetsText = await this.page
-        .locator('div[style*="font-size: 36px"]')
-        .first()
-        .textContent();
+      const totalAssetsText = await this.assetPanel.totalAssets.textContent();
       this.log(4, "讀取資產", "總資產原始文字", totalAssetsText || "NULL");
-      const totalAssets = this.parseCurrency(totalAssetsText);
+      const totalAssets = parseCurrency(totalAssetsText);
 
-      // 3️⃣ 讀取細項（使用更精確的選擇器）
-      // 策略：找到標籤為「現金」的 div，然後找它的兄弟元素（下一個 div）
-      const cashLabel = this.page.locator('div').filter({ hasText: /^現金$/ }).first();
-      const cashText = await cashLabel.locator('..').locator('div').nth(1).textContent();
+      // 3️⃣ 讀取細項（標籤為「現金」的 div 的兄弟元素）
+      const cashText = await this.assetPanel.value("現金").textContent();
       this.log(4, "讀取資產", "現金原始文字", cashText || "NULL");
-      const cash = this.parseCurrency(cashText);
+      const cash = parseCurrency(cashText);
 
       // 4️⃣ 讀取持股數量
-      const stockLabel = this.page.locator('div').filter({ hasText: /^股票$/ }).first();
-      const stockCountText = await stockLabel.locator('..').locator('div').nth(1).textContent();
+      const stockCountText = await this.assetPanel.value("股票").textContent();
       this.log(4, "讀取資產", "股票原始文字", stockCountText || "NULL");
-      const stockCount = this.parseCurrency(stockCountText);
+      const stockCount = parseCurrency(stockCountText);
 
       // 5️⃣ 讀取股票現值
-      const stockValueLabel = this.page.locator('div').filter({ hasText: /^股票現值$/ }).first();
-      const stockValueText = await stockValueLabel.locator('..').locator('div').nth(1).textContent();
+      const stockValueText = await this.assetPanel.value("股票現值").textContent();
       this.log(4, "讀取資產", "股票現值原始文字", stockValueText || "NULL");
-      const stockValue = this.parseCurrency(stockValueText);
+      const stockValue = parseCurrency(stockValueText);
 
       // 6️⃣ 讀取負債
-      const debtLabel = this.page.locator('div').filter({ hasText: /^負債$/ }).first();
-      const debtText = await debtLabel.locator('..').locator('div').nth(1).textContent();
+      const debtText = await this.assetPanel.value("負債").textContent();
       this.log(4, "讀取資產", "負債原始文字", debtText || "NULL");
-      const debt = this.parseCurrency(debtText);
+      const debt = parseCurrency(debtText);
 
       // 7️⃣ 組裝資料
       const assetData: AssetData = {
@@ -605,16 +715,14 @@ export class GameActions {
       };
 
       // 8️⃣ Log 輸出（格式化顯示）
-      this.log(
+      return this.succeed(
         4,
         "讀取資產",
-        "成功",
-        `總資產=${totalAssets.toFixed(2)}, 現金=${cash.toFixed(2)}, 股票=${stockCount}股, 市值=${stockValue.toFixed(2)}, 負債=${debt.toFixed(2)}`
+        `總資產=${totalAssets.toFixed(2)}, 現金=${cash.toFixed(2)}, 股票=${stockCount}股, 市值=${stockValue.toFixed(2)}, 負債=${debt.toFixed(2)}`,
+        assetData
       );
-
-      return assetData;
     } catch (error: any) {
-      this.log(4, "讀取資產", "失敗", error.message);
+      const result = this.fromError(4, "讀取資產", error);
 
       // 失敗時截圖存證
       try {
@@ -629,7 +737,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return null;
+      return result;
     }
   }
 
@@ -637,38 +745,34 @@ export class GameActions {
    * Action 05: 讀取合約
    * 解析合約列表與保證金資訊並 Log 輸出
    */
-  async readContracts(): Promise<ContractData | null> {
+  async readContracts(): Promise<ActionResult<ContractData>> {
     this.log(5, "讀取合約", "開始", "");
 
     try {
-      // 1️⃣ 等待資產區域載入
-      await this.page.waitForTimeout(2000);
+      // 1️⃣ 等待資產區域載入（合約資料隨 player:assets 推播，收到過一次即可判斷有無合約）
+      const hasAssetsPush = await this.ready.waitForSocketEvent(SOCKET_EVENTS.assets, { since: 0 });
+      if (!hasAssetsPush) {
+        this.log(5, "讀取合約", "警告", `未收到 ${SOCKET_EVENTS.assets} 推播，改以畫面判斷`);
+        await this.assetPanel.totalAssetsLabel.waitFor({ state: "visible", timeout: 5000 }).catch(() => {});
+      }
 
       // 2️⃣ 檢查是否有合約（若無，直接返回空結果）
-      const marginLabel = this.page.locator('div').filter({ hasText: /^合約保證金$/ }).first();
-      const marginLabelVisible = await marginLabel.isVisible().catch(() => false);
+      const marginLabelVisible = await this.assetPanel.marginLabel.isVisible().catch(() => false);
 
       if (!marginLabelVisible) {
-        this.log(5, "讀取合約", "成功", "當前無合約");
-        return {
+        return this.succeed(5, "讀取合約", "當前無合約", {
           margin: 0,
           contracts: [],
-        };
+        });
       }
 
       // 3️⃣ 讀取保證金總額
-      const marginText = await marginLabel.locator('..').locator('div').nth(1).textContent();
+      const marginText = await this.assetPanel.value("合約保證金").textContent();
       this.log(5, "讀取合約", "保證金原始文字", marginText || "NULL");
-      const margin = this.parseCurrency(marginText);
+      const margin = parseCurrency(marginText);
 
-      // 4️⃣ 找到合約保證金區塊（包含保證金標籤的父容器）
-      const contractContainer = marginLabel.locator('../..');
-      
-      // 5️⃣ 在該區塊內找所有合約卡片（使用更精確的模式）
-      // 策略：找到包含「做多/做空」和「倍」的 div（fontSize: 11px）
-      const contractCards = contractContainer.locator('div').filter({ 
-        hasText: /^(做多|做空)\s+\d+(\.\d+)?倍$/ 
-      });
+      // 4️⃣ 在合約保證金區塊內找所有合約卡片（第一行為「做多/做空 X倍」）
+      const contractCards = this.assetPanel.contractHeaders;
       const count = await contractCards.count();
       this.log(5, "讀取合約", "偵測到合約數量", count.toString());
 
@@ -679,33 +783,19 @@ export class GameActions {
         const firstLineText = await contractCards.nth(i).textContent();
         this.log(5, "讀取合約", `合約 ${i + 1} 第一行`, firstLineText || "NULL");
 
-        // 正規表達式解析
-        // 說明：
-        // - (做多|做空)：捕獲群組 1，匹配「做多」或「做空」
-        // - \s+：匹配一個或多個空白字元
-        // - (\d+(\.\d+)?)：捕獲群組 2，匹配整數或小數（如 2 或 2.5）
-        //   - \d+：至少一位數字
-        //   - (\.\d+)?：可選的小數點與小數位
-        // - 倍：字面匹配
-        const regex = /(做多|做空)\s+(\d+(\.\d+)?)倍/;
-        const match = firstLineText?.match(regex);
-
-        if (!match) {
+        const header = parseContractHeader(firstLineText);
+        if (!header) {
           this.log(5, "讀取合約", `合約 ${i + 1} 解析失敗`, "格式不符");
           continue;
         }
 
-        const type = match[1] === '做多' ? 'LONG' : 'SHORT';
-        const leverage = parseFloat(match[2]);
-
-        // 讀取第二行：「Y張」（尋找同一個合約卡片容器內的下一個 div）
-        const secondLineLocator = contractCards.nth(i).locator('..').locator('div').filter({ hasText: /^\d+張$/ }).first();
-        const secondLineText = await secondLineLocator.textContent();
+        // 讀取第二行：「Y張」（同一個合約卡片容器內）
+        const secondLineText = await this.assetPanel.contractAmount(contractCards.nth(i)).textContent();
         this.log(5, "讀取合約", `合約 ${i + 1} 第二行`, secondLineText || "NULL");
 
-        const amount = this.parseCurrency(secondLineText); // 移除「張」後解析數字
+        const amount = parseCurrency(secondLineText); // 移除「張」後解析數字
 
-        contracts.push({ type, leverage, amount });
+        contracts.push({ type: header.type, leverage: header.leverage, amount });
       }
 
       // 5️⃣ 組裝資料
@@ -716,11 +806,9 @@ export class GameActions {
 
       // 6️⃣ Log 輸出
       const summary = contracts.map(c => `${c.type} ${c.leverage}x ${c.amount}張`).join(', ');
-      this.log(5, "讀取合約", "成功", `保證金=${margin.toFixed(2)}, 合約=[${summary}]`);
-
-      return contractData;
+      return this.succeed(5, "讀取合約", `保證金=${margin.toFixed(2)}, 合約=[${summary}]`, contractData);
     } catch (error: any) {
-      this.log(5, "讀取合約", "失敗", error.message);
+      const result = this.fromError(5, "讀取合約", error);
 
       // 失敗時截圖存證
       try {
@@ -735,7 +823,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return null;
+      return result;
     }
   }
 
@@ -745,33 +833,26 @@ export class GameActions {
    * Action 06: 買入股票
    * @param amount 張數
    */
-  async buyStock(amount: number): Promise<boolean> {
+  async buyStock(amount: number): Promise<ActionResult> {
     this.log(6, "買入股票", "開始", `張數=${amount}`);
 
     try {
       // 1️⃣ 驗證張數合法性
       if (amount <= 0 || !Number.isInteger(amount)) {
-        this.log(6, "買入股票", "失敗", `張數必須為正整數: ${amount}`);
-        return false;
+        return this.fail(6, "買入股票", "error", `張數必須為正整數: ${amount}`);
       }
 
       // 2️⃣ 檢查並切換至「現貨」Tab
-      const spotTab = this.page.locator('button').filter({
-        hasText: /^現貨$/
-      }).first();
+      const spotTab = this.tradingBar.tab("現貨");
       await spotTab.waitFor({ state: "visible", timeout: 5000 });
 
-      // 檢查 Tab 是否已選中（判斷 fill="solid" 對應的 class）
-      const isSpotActive = await spotTab.evaluate((el) => {
-        const button = el as HTMLButtonElement;
-        // Ant Design Mobile Button 的 fill="solid" 會對應到 class 'adm-button-fill-solid'
-        return button.classList.contains('adm-button-fill-solid');
-      });
+      // 檢查 Tab 是否已選中（fill="solid"）
+      const isSpotActive = await this.tradingBar.isActive(spotTab);
 
       if (!isSpotActive) {
         await spotTab.click();
+        await this.waitForActiveButton(/^現貨$/);
         this.log(6, "買入股票", "已切換至現貨 Tab", "");
-        await this.page.waitForTimeout(500); // 等待 UI 更新
       } else {
         this.log(6, "買入股票", "已在現貨 Tab", "");
       }
@@ -779,9 +860,7 @@ export class GameActions {
       // 3️⃣ 檢查並切換至「買入」模式
       // 策略：找到 DualColorSwitch 組件（自定義 div 組件，包含文字「買」或「賣」）
       // 透過文字內容判斷當前模式
-      const switchContainer = this.page.locator('div').filter({
-        hasText: /^(買|賣)$/
-      }).first();
+      const switchContainer = this.tradingBar.tradeSwitch;
       
       await switchContainer.waitFor({ state: "visible", timeout: 3000 });
 
@@ -791,14 +870,14 @@ export class GameActions {
 
       if (!isBuyMode) {
         await switchContainer.click();
+        await switchContainer.filter({ hasText: /^買$/ }).waitFor({ state: "visible", timeout: 3000 });
         this.log(6, "買入股票", "已切換至買入模式", "");
-        await this.page.waitForTimeout(500);
       } else {
         this.log(6, "買入股票", "已在買入模式", "");
       }
 
       // 4️⃣ 填寫張數（先清空再輸入）
-      const amountInput = this.page.locator('input[type="number"]').first();
+      const amountInput = this.tradingBar.stockAmountInput;
       await amountInput.waitFor({ state: "visible", timeout: 3000 });
       
       // 清空欄位（三次點擊選取全部內容）
@@ -810,16 +889,13 @@ export class GameActions {
       this.log(6, "買入股票", "已填寫張數", amount.toString());
 
       // 5️⃣ 點擊「買入」按鈕
-      const buyButton = this.page.locator('button').filter({
-        hasText: /^買入$/
-      }).first();
+      const buyButton = this.tradingBar.stockButton("BUY");
       await buyButton.waitFor({ state: "visible", timeout: 3000 });
       
       // 確認按鈕可點擊（未 disabled）
       const isDisabled = await buyButton.isDisabled();
       if (isDisabled) {
-        this.log(6, "買入股票", "失敗", "買入按鈕被停用（可能資金不足或遊戲未開始）");
-        return false;
+        return this.fail(6, "買入股票", "rejected", "買入按鈕被停用（可能資金不足或遊戲未開始）");
       }
 
       await buyButton.click();
@@ -827,12 +903,7 @@ export class GameActions {
 
       // 6️⃣ 等待確認對話框並點擊「確定」
       // 對話框內容：「買入 X 張，預估支出 $XX.XX，確定嗎？」
-      // 等待對話框出現（Ant Design Mobile 使用 .adm-center-popup-body 容器）
-      await this.page.waitForTimeout(1000); // 給予充分的動畫時間
-      
-      const dialog = this.page.locator('.adm-center-popup-body').or(
-        this.page.locator('[role="dialog"]')
-      ).first();
+      const dialog = this.tradingBar.confirmDialog;
       await dialog.waitFor({ state: "visible", timeout: 5000 });
       this.log(6, "買入股票", "對話框已出現", "");
       
@@ -844,26 +915,31 @@ export class GameActions {
         this.log(6, "買入股票", `HTML片段${idx + 1}`, chunk);
       });
       
-      // 在對話框內找第二個按鈕（第一個是「取消」，第二個是「確定」）
-      // 根據 Ant Design Mobile Dialog 的結構，按鈕在 .adm-dialog-footer 內
-      const confirmButton = dialog.locator('.adm-dialog-footer button').nth(1);
+      // 對話框內的第二個按鈕（第一個是「取消」，第二個是「確定」）
+      const confirmButton = this.tradingBar.confirmButton;
       
       await confirmButton.waitFor({ state: "visible", timeout: 3000 });
       const buttonText = await confirmButton.textContent();
       this.log(6, "買入股票", "準備點擊按鈕", buttonText || "");
       
-      await confirmButton.click();
-      this.log(6, "買入股票", "已點擊確定按鈕", "");
+      const ledgerBefore = await this.verifier?.snapshot();
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.stockTrade, () => confirmButton.click());
+      this.log(6, "買入股票", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.stockTrade, apiResult));
 
       // 7️⃣ 等待對話框關閉（確認交易已送出）
-      await this.page.waitForTimeout(500);
       await dialog.waitFor({ state: "hidden", timeout: 3000 });
       this.log(6, "買入股票", "對話框已關閉", "");
 
-      this.log(6, "買入股票", "成功", `已送出買入 ${amount} 張的請求`);
-      return true;
+      // 後端拒絕（例如現金不足、持股不足）
+      const apiFailure = this.apiFailure(API_ENDPOINTS.stockTrade, apiResult);
+      if (apiFailure) {
+        return this.fail(6, "買入股票", apiFailure.kind, apiFailure.message);
+      }
+
+      return this.verified(6, "買入股票", ledgerBefore, { kind: "stock", side: "BUY", amount },
+        this.succeed(6, "買入股票", `已送出買入 ${amount} 張的請求`));
     } catch (error: any) {
-      this.log(6, "買入股票", "失敗", error.message);
+      const result = this.fromError(6, "買入股票", error);
 
       // 失敗時截圖存證
       try {
@@ -878,7 +954,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -886,41 +962,33 @@ export class GameActions {
    * Action 07: 賣出股票
    * @param amount 張數
    */
-  async sellStock(amount: number): Promise<boolean> {
+  async sellStock(amount: number): Promise<ActionResult> {
     this.log(7, "賣出股票", "開始", `張數=${amount}`);
 
     try {
       // 1️⃣ 驗證張數合法性
       if (amount <= 0 || !Number.isInteger(amount)) {
-        this.log(7, "賣出股票", "失敗", `張數必須為正整數: ${amount}`);
-        return false;
+        return this.fail(7, "賣出股票", "error", `張數必須為正整數: ${amount}`);
       }
 
       // 2️⃣ 檢查並切換至「現貨」Tab
-      const spotTab = this.page.locator('button').filter({
-        hasText: /^現貨$/
-      }).first();
+      const spotTab = this.tradingBar.tab("現貨");
       await spotTab.waitFor({ state: "visible", timeout: 5000 });
 
       // 檢查 Tab 是否已選中
-      const isSpotActive = await spotTab.evaluate((el) => {
-        const button = el as HTMLButtonElement;
-        return button.classList.contains('adm-button-fill-solid');
-      });
+      const isSpotActive = await this.tradingBar.isActive(spotTab);
 
       if (!isSpotActive) {
         await spotTab.click();
+        await this.waitForActiveButton(/^現貨$/);
         this.log(7, "賣出股票", "已切換至現貨 Tab", "");
-        await this.page.waitForTimeout(500);
       } else {
         this.log(7, "賣出股票", "已在現貨 Tab", "");
       }
 
       // 3️⃣ 檢查並切換至「賣出」模式
       // 策略：找到 DualColorSwitch 組件，透過文字內容判斷當前模式
-      const switchContainer = this.page.locator('div').filter({
-        hasText: /^(買|賣)$/
-      }).first();
+      const switchContainer = this.tradingBar.tradeSwitch;
       
       await switchContainer.waitFor({ state: "visible", timeout: 3000 });
 
@@ -931,14 +999,14 @@ export class GameActions {
 
       if (!isSellMode) {
         await switchContainer.click();
+        await switchContainer.filter({ hasText: /^賣$/ }).waitFor({ state: "visible", timeout: 3000 });
         this.log(7, "賣出股票", "已切換至賣出模式", "");
-        await this.page.waitForTimeout(800); // 增加等待時間確保 UI 更新
       } else {
         this.log(7, "賣出股票", "已在賣出模式", "");
       }
 
       // 4️⃣ 填寫張數（先清空再輸入）
-      const amountInput = this.page.locator('input[type="number"]').first();
+      const amountInput = this.tradingBar.stockAmountInput;
       await amountInput.waitFor({ state: "visible", timeout: 3000 });
       
       // 清空欄位（三次點擊選取全部內容）
@@ -950,46 +1018,45 @@ export class GameActions {
       this.log(7, "賣出股票", "已填寫張數", amount.toString());
 
       // 5️⃣ 點擊「賣出」按鈕
-      const sellButton = this.page.locator('button').filter({
-        hasText: /^賣出$/
-      }).first();
+      const sellButton = this.tradingBar.stockButton("SELL");
       await sellButton.waitFor({ state: "visible", timeout: 3000 });
       
       // 確認按鈕可點擊（未 disabled）
       const isDisabled = await sellButton.isDisabled();
       if (isDisabled) {
-        this.log(7, "賣出股票", "失敗", "賣出按鈕被停用（可能持股不足或遊戲未開始）");
-        return false;
+        return this.fail(7, "賣出股票", "rejected", "賣出按鈕被停用（可能持股不足或遊戲未開始）");
       }
 
       await sellButton.click();
       this.log(7, "賣出股票", "已點擊賣出按鈕", "");
 
       // 6️⃣ 等待確認對話框並點擊「確定」
-      await this.page.waitForTimeout(1000);
-      
-      const dialog = this.page.locator('.adm-center-popup-body').or(
-        this.page.locator('[role="dialog"]')
-      ).first();
+      const dialog = this.tradingBar.confirmDialog;
       await dialog.waitFor({ state: "visible", timeout: 5000 });
       this.log(7, "賣出股票", "對話框已出現", "");
       
-      // 在對話框內找「确定」按鈕（注意是簡體字）
-      const confirmButton = dialog.locator('text=确定').first();
+      // 對話框內的「確定」按鈕
+      const confirmButton = this.tradingBar.confirmButton;
       
       await confirmButton.waitFor({ state: "visible", timeout: 3000 });
-      await confirmButton.click();
-      this.log(7, "賣出股票", "已點擊確定按鈕", "");
+      const ledgerBefore = await this.verifier?.snapshot();
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.stockTrade, () => confirmButton.click());
+      this.log(7, "賣出股票", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.stockTrade, apiResult));
 
       // 7️⃣ 等待對話框關閉（確認交易已送出）
-      await this.page.waitForTimeout(500);
       await dialog.waitFor({ state: "hidden", timeout: 3000 });
       this.log(7, "賣出股票", "對話框已關閉", "");
 
-      this.log(7, "賣出股票", "成功", `已送出賣出 ${amount} 張的請求`);
-      return true;
+      // 後端拒絕（例如現金不足、持股不足）
+      const apiFailure = this.apiFailure(API_ENDPOINTS.stockTrade, apiResult);
+      if (apiFailure) {
+        return this.fail(7, "賣出股票", apiFailure.kind, apiFailure.message);
+      }
+
+      return this.verified(7, "賣出股票", ledgerBefore, { kind: "stock", side: "SELL", amount },
+        this.succeed(7, "賣出股票", `已送出賣出 ${amount} 張的請求`));
     } catch (error: any) {
-      this.log(7, "賣出股票", "失敗", error.message);
+      const result = this.fromError(7, "賣出股票", error);
 
       // 失敗時截圖存證
       try {
@@ -1004,7 +1071,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1018,36 +1085,29 @@ export class GameActions {
     type: "LONG" | "SHORT",
     leverage: number,
     amount: number
-  ): Promise<boolean> {
+  ): Promise<ActionResult> {
     this.log(8, "買入合約", "開始", `${type}, ${leverage}x, ${amount}張`);
 
     try {
       // 1️⃣ 驗證參數合法性
       if (amount <= 0 || !Number.isInteger(amount)) {
-        this.log(8, "買入合約", "失敗", `張數必須為正整數: ${amount}`);
-        return false;
+        return this.fail(8, "買入合約", "error", `張數必須為正整數: ${amount}`);
       }
       if (leverage <= 0) {
-        this.log(8, "買入合約", "失敗", `槓桿倍數必須為正數: ${leverage}`);
-        return false;
+        return this.fail(8, "買入合約", "error", `槓桿倍數必須為正數: ${leverage}`);
       }
 
       // 2️⃣ 檢查並切換至「合約」Tab
-      const contractTab = this.page.locator('button').filter({
-        hasText: /^合約$/
-      }).first();
+      const contractTab = this.tradingBar.tab("合約");
       await contractTab.waitFor({ state: "visible", timeout: 5000 });
 
       // 檢查 Tab 是否已選中
-      const isContractActive = await contractTab.evaluate((el) => {
-        const button = el as HTMLButtonElement;
-        return button.classList.contains('adm-button-fill-solid');
-      });
+      const isContractActive = await this.tradingBar.isActive(contractTab);
 
       if (!isContractActive) {
         await contractTab.click();
+        await this.waitForActiveButton(/^合約$/);
         this.log(8, "買入合約", "已切換至合約 Tab", "");
-        await this.page.waitForTimeout(500);
       } else {
         this.log(8, "買入合約", "已在合約 Tab", "");
       }
@@ -1055,34 +1115,23 @@ export class GameActions {
       // 3️⃣ 檢查並切換合約方向（做多/做空）
       // 策略：找到對應的按鈕並檢查是否已選中
       const directionText = type === 'LONG' ? '做多' : '做空';
-      const directionButton = this.page.locator('button').filter({
-        hasText: new RegExp(`^${directionText}`)
-      }).first();
+      const directionButton = this.tradingBar.contractDirection(type);
 
       await directionButton.waitFor({ state: "visible", timeout: 3000 });
 
       // 檢查該方向按鈕是否已選中（fill="solid"）
-      const isDirectionActive = await directionButton.evaluate((el) => {
-        const button = el as HTMLButtonElement;
-        return button.classList.contains('adm-button-fill-solid');
-      });
+      const isDirectionActive = await this.tradingBar.isActive(directionButton);
 
       if (!isDirectionActive) {
         await directionButton.click();
+        await this.waitForActiveButton(this.tradingBar.directionText(type));
         this.log(8, "買入合約", `已切換至${directionText}`, "");
-        await this.page.waitForTimeout(500);
       } else {
         this.log(8, "買入合約", `已在${directionText}模式`, "");
       }
 
-      // 4️⃣ 填寫槓桿和張數（簡化策略：直接用 visible inputs）
-      // 策略：在合約 UI 區塊內找到所有 visible 的 input
-      const contractSection = this.page.locator('div').filter({
-        has: this.page.locator('button:has-text("下單")')
-      });
-      
-      // 取得所有可見的 number input（過濾掉 Slider 隱藏的）
-      const visibleInputs = contractSection.locator('input[type="number"]:visible');
+      // 4️⃣ 填寫槓桿和張數（合約區塊內可見的 number input，過濾掉 Slider 隱藏的）
+      const visibleInputs = this.tradingBar.contractInputs;
       const inputCount = await visibleInputs.count();
       this.log(8, "買入合約", "偵測到可見輸入框數量", inputCount.toString());
       
@@ -1095,7 +1144,7 @@ export class GameActions {
       await this.page.keyboard.type(leverage.toString(), { delay: 100 });
       await leverageInput.blur();
       this.log(8, "買入合約", "已填寫第一個輸入框（槓桿？）", `${leverage}`);
-      await this.page.waitForTimeout(800);
+      await this.ready.waitForDomIdle(); // 等待保證金試算重新渲染
 
       // 5️⃣ 填寫第二個輸入框為張數
       const amountInput = visibleInputs.nth(1);
@@ -1106,12 +1155,10 @@ export class GameActions {
       await this.page.keyboard.type(amount.toString(), { delay: 100 });
       await amountInput.blur();
       this.log(8, "買入合約", "已填寫第二個輸入框（張數？）", `${amount}`);
-      await this.page.waitForTimeout(800);
+      await this.ready.waitForDomIdle();
 
       // 6️⃣ 點擊「下單 (隔日結算)」按鈕
-      const submitButton = this.page.locator('button').filter({
-        hasText: /下單/
-      }).first();
+      const submitButton = this.tradingBar.contractSubmitButton;
       await submitButton.waitFor({ state: "visible", timeout: 3000 });
       
       // Debug: 檢查按鈕狀態
@@ -1124,13 +1171,11 @@ export class GameActions {
       this.log(8, "買入合約", "當前輸入值", `槓桿=${currentLeverage}, 張數=${currentAmount}`);
       
       // Debug: 檢查保證金顯示
-      const marginDisplay = await this.page.locator('div').filter({
-        hasText: /保證金:/
-      }).first().textContent().catch(() => "無法讀取");
+      const marginDisplay = await this.tradingBar.marginPreview.textContent().catch(() => "無法讀取");
       this.log(8, "買入合約", "保證金顯示", marginDisplay);
       
       if (isDisabled) {
-        this.log(8, "買入合約", "失敗", "下單按鈕被停用（可能保證金不足或遊戲未開始）");
+        const result = this.fail(8, "買入合約", "rejected", "下單按鈕被停用（可能保證金不足或遊戲未開始）");
         
         // 額外 Debug：截圖當前狀態
         try {
@@ -1145,40 +1190,42 @@ export class GameActions {
           // 截圖失敗不影響主流程
         }
         
-        return false;
+        return result;
       }
 
       await submitButton.click();
       this.log(8, "買入合約", "已點擊下單按鈕", "");
 
       // 7️⃣ 等待確認對話框並點擊「確定」
-      await this.page.waitForTimeout(1000);
-      
-      const dialog = this.page.locator('.adm-center-popup-body').or(
-        this.page.locator('[role="dialog"]')
-      ).first();
+      const dialog = this.tradingBar.confirmDialog;
       await dialog.waitFor({ state: "visible", timeout: 5000 });
       this.log(8, "買入合約", "對話框已出現", "");
       
       // 點擊「確定」按鈕（第二個按鈕）
-      const confirmButton = dialog.locator('.adm-dialog-footer button').nth(1);
+      const confirmButton = this.tradingBar.confirmButton;
       await confirmButton.waitFor({ state: "visible", timeout: 3000 });
       
       const buttonText = await confirmButton.textContent();
       this.log(8, "買入合約", "準備點擊按鈕", buttonText || "");
       
-      await confirmButton.click();
-      this.log(8, "買入合約", "已點擊確定按鈕", "");
+      const ledgerBefore = await this.verifier?.snapshot();
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.contractOpen, () => confirmButton.click());
+      this.log(8, "買入合約", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.contractOpen, apiResult));
 
       // 8️⃣ 等待對話框關閉
-      await this.page.waitForTimeout(500);
       await dialog.waitFor({ state: "hidden", timeout: 3000 });
       this.log(8, "買入合約", "對話框已關閉", "");
 
-      this.log(8, "買入合約", "成功", `已送出 ${type} ${leverage}x ${amount}張 的合約請求`);
-      return true;
+      // 後端拒絕（例如保證金不足、槓桿倍數不合法）
+      const apiFailure = this.apiFailure(API_ENDPOINTS.contractOpen, apiResult);
+      if (apiFailure) {
+        return this.fail(8, "買入合約", apiFailure.kind, apiFailure.message);
+      }
+
+      return this.verified(8, "買入合約", ledgerBefore, { kind: "contractOpen", type, leverage, amount },
+        this.succeed(8, "買入合約", `已送出 ${type} ${leverage}x ${amount}張 的合約請求`));
     } catch (error: any) {
-      this.log(8, "買入合約", "失敗", error.message);
+      const result = this.fromError(8, "買入合約", error);
 
       // 失敗時截圖存證
       try {
@@ -1193,7 +1240,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1201,83 +1248,84 @@ export class GameActions {
    * Action 09: 撤銷今日合約
    * 取消所有未結算的合約
    */
-  async cancelAllContracts(): Promise<boolean> {
+  async cancelAllContracts(): Promise<ActionResult> {
     this.log(9, "撤銷合約", "開始", "");
 
     try {
       // 1️⃣ 檢查當前是否有合約（避免無效操作）
-      const beforeData = await this.readContracts();
-      if (!beforeData || beforeData.contracts.length === 0) {
-        this.log(9, "撤銷合約", "略過", "當前無合約可撤銷");
-        return true; // 無合約視為成功
+      const before = await this.readContracts();
+      if (!before.ok) {
+        return this.fail(9, "撤銷合約", before.status, `無法讀取合約：${before.message}`);
+      }
+      const beforeData = before.value;
+      if (beforeData.contracts.length === 0) {
+        return this.skip(9, "撤銷合約", "當前無合約可撤銷"); // 無合約視為成功
       }
 
       this.log(9, "撤銷合約", "檢測到合約", `數量=${beforeData.contracts.length}`);
 
       // 2️⃣ 確認在「合約」Tab（State Enforcement）
-      const contractTab = this.page.locator('button').filter({
-        hasText: /^合約$/
-      }).first();
+      const contractTab = this.tradingBar.tab("合約");
       await contractTab.waitFor({ state: "visible", timeout: 5000 });
 
-      const isContractActive = await contractTab.evaluate((el) => {
-        const button = el as HTMLButtonElement;
-        return button.classList.contains('adm-button-fill-solid');
-      });
+      const isContractActive = await this.tradingBar.isActive(contractTab);
 
       if (!isContractActive) {
         await contractTab.click();
+        await this.waitForActiveButton(/^合約$/);
         this.log(9, "撤銷合約", "已切換至合約 Tab", "");
-        await this.page.waitForTimeout(500);
       }
 
       // 3️⃣ 尋找並點擊「撤銷今日訂單」按鈕
-      const cancelButton = this.page.locator('button').filter({
-        hasText: /撤銷今日訂單/
-      }).first();
+      const cancelButton = this.tradingBar.cancelContractsButton;
       await cancelButton.waitFor({ state: "visible", timeout: 3000 });
       
       // 檢查按鈕是否可點擊
       const isDisabled = await cancelButton.isDisabled();
       if (isDisabled) {
-        this.log(9, "撤銷合約", "失敗", "撤銷按鈕不可用（可能無未結算合約）");
-        return false;
+        return this.fail(9, "撤銷合約", "rejected", "撤銷按鈕不可用（可能無未結算合約）");
       }
 
       await cancelButton.click();
       this.log(9, "撤銷合約", "已點擊撤銷按鈕", "");
 
       // 4️⃣ 等待確認對話框並點擊「確定」
-      await this.page.waitForTimeout(1000);
-      
-      const dialog = this.page.locator('.adm-center-popup-body').or(
-        this.page.locator('[role="dialog"]')
-      ).first();
+      const dialog = this.tradingBar.confirmDialog;
       await dialog.waitFor({ state: "visible", timeout: 5000 });
       this.log(9, "撤銷合約", "對話框已出現", "");
       
       // 點擊「確定」按鈕（第二個按鈕）
-      const confirmButton = dialog.locator('.adm-dialog-footer button').nth(1);
+      const confirmButton = this.tradingBar.confirmButton;
       await confirmButton.waitFor({ state: "visible", timeout: 3000 });
       
       const buttonText = await confirmButton.textContent();
       this.log(9, "撤銷合約", "準備點擊確定", buttonText || "");
       
-      await confirmButton.click();
-      this.log(9, "撤銷合約", "已點擊確定按鈕", "");
+      const ledgerBefore = await this.verifier?.snapshot();
+      const confirmedAt = Date.now();
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.contractCancel, () => confirmButton.click());
+      this.log(9, "撤銷合約", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.contractCancel, apiResult));
 
       // 5️⃣ 等待對話框關閉
-      await this.page.waitForTimeout(500);
       await dialog.waitFor({ state: "hidden", timeout: 3000 });
       this.log(9, "撤銷合約", "對話框已關閉", "");
 
-      // 6️⃣ 等待 WebSocket 更新（3 秒）
-      await this.page.waitForTimeout(3000);
+      // 後端拒絕（例如今日無可撤銷的訂單）
+      const apiFailure = this.apiFailure(API_ENDPOINTS.contractCancel, apiResult);
+      if (apiFailure) {
+        return this.fail(9, "撤銷合約", apiFailure.kind, apiFailure.message);
+      }
+
+      // 6️⃣ 等待撤銷後的資產推播（合約列表隨 player:assets 更新）
+      const hasAssetsPush = await this.ready.waitForSocketEvent(SOCKET_EVENTS.assets, { since: confirmedAt });
+      if (!hasAssetsPush) {
+        this.log(9, "撤銷合約", "警告", `撤銷後未收到 ${SOCKET_EVENTS.assets} 推播`);
+      }
 
-      this.log(9, "撤銷合約", "成功", `已撤銷 ${beforeData.contracts.length} 筆合約`);
-      return true;
+      return this.verified(9, "撤銷合約", ledgerBefore, { kind: "contractCancel" },
+        this.succeed(9, "撤銷合約", `已撤銷 ${beforeData.contracts.length} 筆合約`));
     } catch (error: any) {
-      this.log(9, "撤銷合約", "失敗", error.message);
+      const result = this.fromError(9, "撤銷合約", error);
 
       // 失敗時截圖存證
       try {
@@ -1292,7 +1340,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1320,31 +1368,27 @@ export class GameActions {
   async handleLoan(
     action: "BORROW" | "REPAY",
     amount: number
-  ): Promise<boolean> {
+  ): Promise<ActionResult> {
     this.log(11, "借/還錢", "開始", `動作=${action}, 金額=${amount}`);
 
     try {
       // 1️⃣ 驗證金額合法性
       if (amount <= 0) {
-        this.log(11, "借/還錢", "失敗", `金額必須為正數: ${amount}`);
-        return false;
+        return this.fail(11, "借/還錢", "error", `金額必須為正數: ${amount}`);
       }
 
       // 2️⃣ 開啟地下錢莊 Modal
       this.log(11, "借/還錢", "正在開啟 Modal", "");
-      const openSuccess = await this.openLoanShark();
-      if (!openSuccess) {
-        this.log(11, "借/還錢", "失敗", "無法開啟地下錢莊");
-        return false;
+      const opened = await this.openLoanShark();
+      if (!opened.ok) {
+        return this.fail(11, "借/還錢", opened.status, `無法開啟地下錢莊：${opened.message}`);
       }
       this.log(11, "借/還錢", "Modal 已開啟", "");
 
       // 3️⃣ 檢查並切換模式（借/還）
       // 策略：DualColorSwitch 是自定義組件，結構為包含文字「借」或「還」的 div
       // 需要檢查當前顯示的文字來判斷模式
-      const modeSwitchContainer = this.page.locator('div').filter({
-        hasText: /^(借|還)$/
-      }).first();
+      const modeSwitchContainer = this.loanShark.modeSwitch;
       
       await modeSwitchContainer.waitFor({ state: "visible", timeout: 3000 });
       
@@ -1355,41 +1399,21 @@ export class GameActions {
 
       if (needSwitch) {
         await modeSwitchContainer.click();
+        await modeSwitchContainer.filter({ hasText: action === "BORROW" ? /^借$/ : /^還$/ }).waitFor({ state: "visible", timeout: 3000 });
         this.log(11, "借/還錢", "已切換模式", `從 ${isBorrowMode ? '借' : '還'} 切換至 ${action === 'BORROW' ? '借' : '還'}`);
-        await this.page.waitForTimeout(800); // 等待 UI 更新（增加延遲確保穩定）
       } else {
         this.log(11, "借/還錢", "模式已正確", `當前為 ${action === 'BORROW' ? '借款' : '還款'} 模式`);
       }
 
       // 4️⃣ 填寫金額
-      // 策略：找到包含 "金額 (元)" 標籤的區塊，然後找到可見且寬度為 60px 的輸入框
-      // 避免選到 Slider 的隱藏輸入框
-      const amountSection = this.page.locator('div').filter({
-        hasText: /金額.*元/
-      });
-      
-      // 找到所有可見的 number input
-      const allInputs = amountSection.locator('input[type="number"]:visible');
-      const inputCount = await allInputs.count();
-      this.log(11, "借/還錢", "偵測到輸入框數量", inputCount.toString());
-      
-      // 找到寬度為 60px 的輸入框（根據前端 style）
-      let amountInput = null;
-      for (let i = 0; i < inputCount; i++) {
-        const input = allInputs.nth(i);
-        const width = await input.evaluate((el: HTMLInputElement) => {
-          return window.getComputedStyle(el).width;
-        });
-        this.log(11, "借/還錢", `輸入框 ${i} 寬度`, width);
-        
-        if (width === '60px') {
-          amountInput = input;
-          this.log(11, "借/還錢", "找到目標輸入框", `index=${i}`);
-          break;
-        }
-      }
-      
-      if (!amountInput) {
+      // 策略：在「金額 (元)」區塊內找到寬度為 60px 的輸入框，避免選到 Slider 的輸入框
+      const allInputs = this.loanShark.amountInputs;
+      this.log(11, "借/還錢", "偵測到輸入框數量", (await allInputs.count()).toString());
+
+      let amountInput = await this.loanShark.inputByWidth(allInputs, this.loanShark.amountInputWidth);
+      if (amountInput) {
+        this.log(11, "借/還錢", "找到目標輸入框", `width=${this.loanShark.amountInputWidth}`);
+      } else {
         // Fallback: 使用第二個輸入框（第一個是 Slider）
         amountInput = allInputs.nth(1);
         this.log(11, "借/還錢", "使用 Fallback", "nth(1)");
@@ -1401,119 +1425,91 @@ export class GameActions {
       const currentValue = await amountInput.inputValue();
       this.log(11, "借/還錢", "輸入前的值", currentValue);
       
-      // 方法：先清空，再輸入，觸發事件
-      await amountInput.evaluate((el: HTMLInputElement, value: string) => {
-        // 1. 先清空
-        const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-          window.HTMLInputElement.prototype,
-          'value'
-        )?.set;
-        
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(el, '');
-          el.dispatchEvent(new Event('input', { bubbles: true }));
-        }
-        
-        // 2. 設定新值
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(el, value);
-        }
-        
-        // 3. 觸發事件
-        el.dispatchEvent(new Event('input', { bubbles: true }));
-        el.dispatchEvent(new Event('change', { bubbles: true }));
-        el.dispatchEvent(new Event('blur', { bubbles: true }));
-      }, amount.toString());
+      // 先清空再輸入，並觸發 input / change / blur 事件
+      await this.loanShark.setInputValue(amountInput, amount.toString());
       
-      // Debug: 驗證輸入後的值
-      await this.page.waitForTimeout(500);
+      // Debug: 驗證輸入後的值（等待 React 重新渲染完成）
+      await this.ready.waitForDomIdle();
       const newValue = await amountInput.inputValue();
       this.log(11, "借/還錢", "輸入後的值", newValue);
       this.log(11, "借/還錢", "已填寫金額", amount.toString());
 
       // 5️⃣ 點擊確認按鈕（按鈕文字為「借款」或「還款」）
-      const buttonText = action === "BORROW" ? "借款" : "還款";
-      const submitButton = this.page.locator('button').filter({
-        hasText: new RegExp(`^${buttonText}$`)
-      }).first();
+      const submitButton = this.loanShark.submitButton(action);
 
       await submitButton.waitFor({ state: "visible", timeout: 3000 });
       
       // 檢查按鈕是否被停用
       const isDisabled = await submitButton.isDisabled();
       if (isDisabled) {
-        this.log(11, "借/還錢", "失敗", "按鈕被停用（可能金額超過限制或現金/負債不足）");
-        return false;
+        return this.fail(11, "借/還錢", "rejected", "按鈕被停用（可能金額超過限制或現金/負債不足）");
       }
 
       await submitButton.click();
       this.log(11, "借/還錢", "已點擊確認按鈕", "");
 
       // 6️⃣ 等待確認對話框並點擊「確定」
-      await this.page.waitForTimeout(1000);
-      
-      const dialog = this.page.locator('.adm-center-popup-body').or(
-        this.page.locator('[role="dialog"]')
-      ).first();
+      const dialog = this.loanShark.confirmDialog;
       await dialog.waitFor({ state: "visible", timeout: 5000 });
       this.log(11, "借/還錢", "對話框已出現", "");
       
       // 點擊「確定」按鈕（第二個按鈕）
-      const confirmButton = dialog.locator('.adm-dialog-footer button').nth(1);
+      const confirmButton = this.loanShark.confirmButton;
       await confirmButton.waitFor({ state: "visible", timeout: 3000 });
       
       const confirmButtonText = await confirmButton.textContent();
       this.log(11, "借/還錢", "準備點擊按鈕", confirmButtonText || "");
       
-      await confirmButton.click();
-      this.log(11, "借/還錢", "已點擊確定按鈕", "");
+      const ledgerBefore = await this.verifier?.snapshot();
+      const apiResult = await this.ready.withApiResponse(API_ENDPOINTS.loan, () => confirmButton.click());
+      this.log(11, "借/還錢", "已點擊確定按鈕", formatApiResult(API_ENDPOINTS.loan, apiResult));
 
       // 7️⃣ 等待對話框關閉（確認交易已送出）
-      await this.page.waitForTimeout(500);
       await dialog.waitFor({ state: "hidden", timeout: 3000 });
       this.log(11, "借/還錢", "對話框已關閉", "");
 
-      // 8️⃣ 等待交易成功 Toast（antd-mobile 的 Toast 元件）
+      // 後端拒絕（例如超過今日借款上限）：仍需關閉 Modal
+      const apiFailure = this.apiFailure(API_ENDPOINTS.loan, apiResult);
+      if (apiFailure) {
+        await this.closeLoanShark();
+        return this.fail(11, "借/還錢", apiFailure.kind, apiFailure.message);
+      }
+
+      // 8️⃣ 等待交易結果 Toast（antd-mobile 的 Toast 元件，成功或失敗任一出現即可判斷）
       // 注意：Toast 可能很快消失，使用較短的 timeout
-      await this.page.waitForTimeout(1000); // 等待 Toast 出現
-      
-      const toastLocator = this.page.locator(".adm-toast").filter({
-        hasText: /成功/
-      }).first();
+      const toastLocator = this.loanShark.successToast;
+      const errorToast = this.loanShark.errorToast;
+      await toastLocator.or(errorToast).first().waitFor({ state: "visible", timeout: 2000 }).catch(() => {});
 
       const toastVisible = await toastLocator.isVisible().catch(() => false);
       if (toastVisible) {
         this.log(11, "借/還錢", "成功 Toast 已顯示", "");
       } else {
         // Toast 可能已消失，檢查是否有錯誤訊息
-        const errorToast = this.page.locator(".adm-toast").filter({
-          hasText: /失敗|不足|錯誤/
-        }).first();
         const hasError = await errorToast.isVisible().catch(() => false);
         
         if (hasError) {
           const errorMsg = await errorToast.textContent();
-          this.log(11, "借/還錢", "失敗", `交易失敗: ${errorMsg}`);
           // 仍需關閉 Modal
           await this.closeLoanShark();
-          return false;
+          return this.fail(11, "借/還錢", "rejected", `交易失敗: ${errorMsg}`);
         }
       }
 
       // 9️⃣ 關閉 Modal（呼叫 closeLoanShark 確保 UI 狀態一致）
       this.log(11, "借/還錢", "正在關閉 Modal", "");
-      const closeSuccess = await this.closeLoanShark();
-      if (!closeSuccess) {
+      const closed = await this.closeLoanShark();
+      if (!closed.ok) {
         this.log(11, "借/還錢", "警告", "Modal 關閉失敗（可能已關閉）");
       } else {
         this.log(11, "借/還錢", "Modal 已關閉", "");
       }
 
-      this.log(11, "借/還錢", "成功", `${action === 'BORROW' ? '借款' : '還款'} $${amount}`);
-      return true;
+      return this.verified(11, "借/還錢", ledgerBefore, { kind: "loan", action, amount },
+        this.succeed(11, "借/還錢", `${action === 'BORROW' ? '借款' : '還款'} $${amount}`));
 
     } catch (error: any) {
-      this.log(11, "借/還錢", "失敗", error.message);
+      const result = this.fromError(11, "借/還錢", error);
 
       // 失敗時截圖存證
       try {
@@ -1528,7 +1524,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1541,33 +1537,31 @@ export class GameActions {
    * 策略：
    * 1. 使用無限 timeout 等待「機智問答」文字出現（表示 Overlay 已彈出）
    * 2. 若 Overlay 已存在但未可見（理論上不會發生，但做雙重檢查）
-   * 3. 返回 true 表示成功偵測
+   * 3. 回傳成功結果表示成功偵測
    * 
    * 前端對應元件：
    * - QuizUserView.tsx（全螢幕覆蓋層，包含「🧠 機智問答」標題）
    * - TradingBar.tsx（小遊戲按鈕，橘色表示有遊戲進行中）
+   *
+   * @param timeout 最長等待時間（毫秒），0 表示無限等待；逾時回傳 timeout 結果（不截圖、不列入指標）
+   * @param signal 中止訊號（離場或中止時立即結束等待，回傳 timeout 結果）
    */
-  async waitForQuizStart(): Promise<boolean> {
+  async waitForQuizStart(timeout: number = 0, signal?: AbortSignal): Promise<ActionResult> {
     this.log(12, "等待問答開始", "開始", "Blocking 等待 Quiz Overlay 出現");
 
     try {
       // 1️⃣ 主要策略：等待「機智問答」文字出現（表示 Overlay 已自動彈出）
       // 使用 timeout: 0 表示無限等待，直到 Admin 發布題目為止
-      const quizTitleLocator = this.page.getByText('🧠 機智問答').first();
+      const quizTitleLocator = this.quiz.title;
       
       this.log(12, "等待問答開始", "等待中", "請至 Admin 後台發布問答題目...");
       
-      await quizTitleLocator.waitFor({ 
-        state: "visible", 
-        timeout: 0 // 無限等待（Blocking）
-      });
+      await this.waitUntilVisible(quizTitleLocator, timeout, signal); // timeout 預設 0：無限等待（Blocking）
 
       this.log(12, "等待問答開始", "Overlay 已出現", "");
 
       // 2️⃣ 雙重檢查：確認 Overlay 確實可見且在最前層（z-index 9999）
-      const overlayContainer = this.page.locator('[style*="z-index: 9999"]').filter({
-        has: quizTitleLocator
-      }).first();
+      const overlayContainer = this.quiz.container;
 
       const isVisible = await overlayContainer.isVisible().catch(() => false);
       
@@ -1575,30 +1569,31 @@ export class GameActions {
         this.log(12, "等待問答開始", "警告", "標題可見但容器不可見，嘗試點擊小遊戲按鈕");
         
         // 備用策略：點擊 TradingBar 的「小遊戲」按鈕（若 Overlay 未自動彈出）
-        const miniGameButton = this.page.locator('button').filter({
-          has: this.page.locator('img[alt="小遊戲"]')
-        }).first();
+        const miniGameButton = this.tradingBar.miniGameButton;
         
         const buttonVisible = await miniGameButton.isVisible().catch(() => false);
         if (buttonVisible) {
           await miniGameButton.click();
-          await this.page.waitForTimeout(1000); // 等待動畫
+          await overlayContainer.waitFor({ state: "visible", timeout: 3000 }).catch(() => {}); // 等待動畫
         }
       }
 
       // 3️⃣ 最終驗證：確認 Overlay 內容包含「機智問答」（使用 .first() 避免 strict mode violation）
-      const finalCheck = await this.page.getByText('🧠 機智問答').first().isVisible();
+      const finalCheck = await this.quiz.title.isVisible();
       
       if (!finalCheck) {
-        this.log(12, "等待問答開始", "失敗", "Overlay 未正確顯示");
-        return false;
+        return this.fail(12, "等待問答開始", "error", "Overlay 未正確顯示");
       }
 
-      this.log(12, "等待問答開始", "成功", "Quiz Overlay 已完整載入");
-      return true;
+      return this.succeed(12, "等待問答開始", "Quiz Overlay 已完整載入");
 
     } catch (error: any) {
-      this.log(12, "等待問答開始", "失敗", error.message);
+      // 有限等待的逾時與中止屬於正常情況（呼叫端會重新檢查終止條件）
+      if ((timeout > 0 || signal?.aborted) && error.name === "TimeoutError") {
+        return this.timedOut(12, "等待問答開始", signal?.aborted ? error.message : `${timeout}ms 內未偵測到問答`);
+      }
+
+      const result = this.fromError(12, "等待問答開始", error);
       
       // 失敗時截圖存證
       try {
@@ -1616,7 +1611,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1628,13 +1623,13 @@ export class GameActions {
    * 1. 等待選項按鈕出現（表示已進入 GAMING 階段）
    * 2. 點擊目標選項（例如 "A."）
    * 3. 驗證按鈕被鎖定（disabled）或樣式變化（confirm selection）
-   * 4. 返回 true 表示成功提交
+   * 4. 回傳成功結果表示成功提交
    * 
    * 前端對應邏輯：
    * - QuizUserView.tsx：GAMING 階段渲染選項按鈕
    * - handleOptionClick：點擊後發送 Socket.io 事件並鎖定按鈕
    */
-  async answerQuiz(option: "A" | "B" | "C" | "D"): Promise<boolean> {
+  async answerQuiz(option: MiniGameOption): Promise<ActionResult> {
     this.log(13, "問答作答", "開始", `選項=${option}`);
 
     try {
@@ -1642,12 +1637,12 @@ export class GameActions {
       // 策略：等待大數字 "1", "2", "3" 消失（表示 COUNTDOWN 階段結束）
       this.log(13, "問答作答", "等待中", "等待倒數結束（COUNTDOWN -> GAMING）...");
       
-      // 先等待一下，確保倒數已經開始
-      await this.page.waitForTimeout(2000);
-      
-      // 找尋倒數數字（大數字文字，正則匹配純數字 1-3）
-      // 策略：倒數數字是全螢幕置中的大文字
-      const countdownNumber = this.page.locator('text=/^[1-3]$/').first();
+      // 倒數數字是全螢幕置中的大文字（1-3）
+      const countdownNumber = this.quiz.countdownNumber;
+      const optionButtons = this.quiz.optionButtons;
+
+      // 先確認倒數已經開始（或已直接進入 GAMING 階段），避免倒數出現前就判定「已消失」
+      await countdownNumber.or(optionButtons).first().waitFor({ state: "visible", timeout: 3000 }).catch(() => {});
       
       // 等待倒數數字消失（最多等 5 秒）
       await countdownNumber.waitFor({ state: "hidden", timeout: 5000 }).catch(() => {
@@ -1661,9 +1656,7 @@ export class GameActions {
       this.log(13, "問答作答", "等待中", "等待選項按鈕出現...");
       
       // 等待任一選項按鈕出現
-      const anyOptionButton = this.page.locator('button').filter({
-        hasText: /^[A-D]\.\s/
-      }).first();
+      const anyOptionButton = optionButtons.first();
       
       await anyOptionButton.waitFor({ 
         state: "visible", 
@@ -1673,9 +1666,7 @@ export class GameActions {
       this.log(13, "問答作答", "選項已出現", "GAMING 階段已開始");
 
       // 3️⃣ 點擊目標選項
-      const targetButton = this.page.locator('button').filter({
-        hasText: new RegExp(`^${option}\\.\\s`)
-      }).first();
+      const targetButton = this.quiz.optionButton(option);
       
       await targetButton.waitFor({ state: "visible", timeout: 3000 });
       
@@ -1688,11 +1679,11 @@ export class GameActions {
       this.log(13, "問答作答", "已點擊選項", option);
 
       // 4️⃣ 驗證按鈕被鎖定（表示答案已提交）
-      await this.page.waitForTimeout(800);
-      
-      const isDisabled = await targetButton.evaluate((btn) => {
-        return (btn as HTMLButtonElement).disabled;
-      });
+      const lockedButton = this.quiz.lockedOption(option);
+      const isDisabled = await lockedButton
+        .waitFor({ state: "visible", timeout: 3000 })
+        .then(() => true)
+        .catch(() => false);
       
       if (!isDisabled) {
         this.log(13, "問答作答", "警告", "按鈕未被鎖定（可能網路延遲）");
@@ -1701,18 +1692,17 @@ export class GameActions {
       }
 
       // 5️⃣ 額外驗證：檢查是否顯示「已提交答案」提示
-      const submittedHint = this.page.getByText('已提交答案，等待結算...').first();
+      const submittedHint = this.quiz.submittedHint;
       const hasSubmittedHint = await submittedHint.isVisible().catch(() => false);
       
       if (hasSubmittedHint) {
         this.log(13, "問答作答", "已顯示提示", "「已提交答案，等待結算...」");
       }
 
-      this.log(13, "問答作答", "成功", `已提交選項 ${option}`);
-      return true;
+      return this.succeed(13, "問答作答", `已提交選項 ${option}`);
 
     } catch (error: any) {
-      this.log(13, "問答作答", "失敗", error.message);
+      const result = this.fromError(13, "問答作答", error);
       
       // 失敗時截圖存證
       try {
@@ -1730,7 +1720,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -1743,18 +1733,18 @@ export class GameActions {
    * 2. 等待「正確答案：」文字出現（RESULT 階段的通用元素）
    * 3. 呼叫 readAssets() 讀取更新後的資產狀態
    * 4. Log 輸出結果資訊與當前現金
-   * 5. 回傳 AssetData 物件
+   * 5. 回傳 AssetData（result.value）
    * 
    * ⚠️ 注意：Admin 可能需要手動按下「結算」按鈕才會進入 RESULT 階段
    * 
-   * @returns AssetData 或 null（失敗時）
+   * @returns 成功時 value 為 AssetData；無法讀取資產時沿用 readAssets 的失敗分類
    */
-  async waitQuizResultAndReport(): Promise<AssetData | null> {
+  async waitQuizResultAndReport(): Promise<ActionResult<AssetData>> {
     this.log(14, "問答結果報告", "開始", "等待結果畫面載入...");
 
     try {
       // 1️⃣ 確認當前狀態：檢查是否已提交答案
-      const submittedHint = this.page.getByText(/已提交答案|等待結算/).first();
+      const submittedHint = this.quiz.submittedHint;
       const isSubmitted = await submittedHint.isVisible().catch(() => false);
       
       if (isSubmitted) {
@@ -1768,11 +1758,10 @@ export class GameActions {
       this.log(14, "問答結果報告", "等待中", "等待遊戲進入 RESULT 階段（最多 120 秒）...");
       this.log(14, "問答結果報告", "提示", "⚠️ 如果長時間等待，請檢查 Admin 是否需要手動按下「結算」按鈕");
       
-      const resultIndicator = this.page.locator('div').filter({
-        hasText: /正確答案：[A-D]/
-      }).first();
+      const resultIndicator = this.quiz.resultIndicator;
 
       // 增加 timeout 到 120 秒（允許手動操作時間）
+      const waitStartedAt = Date.now();
       await resultIndicator.waitFor({ 
         state: "visible", 
         timeout: 120000 
@@ -1780,31 +1769,31 @@ export class GameActions {
       
       this.log(14, "問答結果報告", "結果階段已載入", "偵測到「正確答案」文字");
 
-      // 3️⃣ 等待額外 1 秒確保資產更新完成
-      // 伺服器可能需要時間處理獎金並推送至前端
-      await this.page.waitForTimeout(1000);
+      // 3️⃣ 等待結算後的資產推播（伺服器處理獎金後推送 player:assets）
+      const hasAssetsPush = await this.ready.waitForSocketEvent(SOCKET_EVENTS.assets, { since: waitStartedAt, timeout: 3000 });
+      if (!hasAssetsPush) {
+        this.log(14, "問答結果報告", "警告", `結算後未收到 ${SOCKET_EVENTS.assets} 推播（可能未下注或無獎金）`);
+      }
 
       // 4️⃣ 讀取更新後的資產
       this.log(14, "問答結果報告", "執行", "讀取資產變化...");
-      const resultAssets = await this.readAssets();
+      const assets = await this.readAssets();
 
-      if (!resultAssets) {
-        this.log(14, "問答結果報告", "失敗", "無法讀取資產資料");
-        return null;
+      if (!assets.ok) {
+        return this.fail(14, "問答結果報告", assets.status, `無法讀取資產資料：${assets.message}`);
       }
+      const resultAssets = assets.value;
 
       // 5️⃣ Log 輸出資產狀態
-      this.log(
-        14, 
-        "問答結果報告", 
-        "成功", 
-        `當前現金: $${resultAssets.cash.toFixed(2)} | 總資產: $${resultAssets.totalAssets.toFixed(2)}`
+      return this.succeed(
+        14,
+        "問答結果報告",
+        `當前現金: $${resultAssets.cash.toFixed(2)} | 總資產: $${resultAssets.totalAssets.toFixed(2)}`,
+        resultAssets
       );
 
-      return resultAssets;
-
     } catch (error: any) {
-      this.log(14, "問答結果報告", "失敗", error.message);
+      const result = this.fromError(14, "問答結果報告", error);
       
       // 錯誤截圖（協助除錯）
       try {
@@ -1823,7 +1812,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return null;
+      return result;
     }
   }
 
@@ -1838,30 +1827,27 @@ export class GameActions {
    * - 使用無限 timeout 進行阻塞式等待
    * - 當 Admin 後台發布少數決題目時自動解除等待
    * 
-   * @returns 成功偵測到少數決開始時回傳 true
+   * @param timeout 最長等待時間（毫秒），0 表示無限等待；逾時回傳 timeout 結果（不截圖、不列入指標）
+   * @param signal 中止訊號（離場或中止時立即結束等待，回傳 timeout 結果）
+   * @returns 成功偵測到少數決開始時回傳成功結果
    */
-  async waitForMinorityStart(): Promise<boolean> {
+  async waitForMinorityStart(timeout: number = 0, signal?: AbortSignal): Promise<ActionResult> {
     this.log(15, "等待少數決開始", "開始", "Blocking 等待 Minority Overlay 出現");
 
     try {
       // 1️⃣ 主要策略：等待「⚖️ 全場少數決」文字出現（表示 Overlay 已自動彈出）
       // 使用 timeout: 0 表示無限等待，直到 Admin 發布題目為止
       // 參考 Action 12 的邏輯
-      const minorityTitleLocator = this.page.getByText('⚖️ 全場少數決').first();
+      const minorityTitleLocator = this.minority.title;
       
       this.log(15, "等待少數決開始", "等待中", "請至 Admin 後台發布少數決題目...");
       
-      await minorityTitleLocator.waitFor({ 
-        state: "visible", 
-        timeout: 0 // 無限等待（Blocking）
-      });
+      await this.waitUntilVisible(minorityTitleLocator, timeout, signal); // timeout 預設 0：無限等待（Blocking）
 
       this.log(15, "等待少數決開始", "Overlay 已出現", "");
 
       // 2️⃣ 雙重檢查：確認 Overlay 確實可見且在最前層（z-index 9999）
-      const overlayContainer = this.page.locator('[style*="z-index: 9999"]').filter({
-        has: minorityTitleLocator
-      }).first();
+      const overlayContainer = this.minority.container;
 
       const isVisible = await overlayContainer.isVisible().catch(() => false);
       
@@ -1869,30 +1855,31 @@ export class GameActions {
         this.log(15, "等待少數決開始", "警告", "標題可見但容器不可見，嘗試點擊小遊戲按鈕");
         
         // 備用策略：點擊 TradingBar 的「小遊戲」按鈕（若 Overlay 未自動彈出）
-        const miniGameButton = this.page.locator('button').filter({
-          has: this.page.locator('img[alt="小遊戲"]')
-        }).first();
+        const miniGameButton = this.tradingBar.miniGameButton;
         
         const buttonVisible = await miniGameButton.isVisible().catch(() => false);
         if (buttonVisible) {
           await miniGameButton.click();
-          await this.page.waitForTimeout(1000); // 等待動畫
+          await overlayContainer.waitFor({ state: "visible", timeout: 3000 }).catch(() => {}); // 等待動畫
         }
       }
 
       // 3️⃣ 最終驗證：確認 Overlay 內容包含「全場少數決」
-      const finalCheck = await this.page.getByText('⚖️ 全場少數決').first().isVisible();
+      const finalCheck = await this.minority.title.isVisible();
       
       if (!finalCheck) {
-        this.log(15, "等待少數決開始", "失敗", "Overlay 未正確顯示");
-        return false;
+        return this.fail(15, "等待少數決開始", "error", "Overlay 未正確顯示");
       }
 
-      this.log(15, "等待少數決開始", "成功", "Minority Overlay 已完整載入");
-      return true;
+      return this.succeed(15, "等待少數決開始", "Minority Overlay 已完整載入");
 
     } catch (error: any) {
-      this.log(15, "等待少數決開始", "失敗", error.message);
+      // 有限等待的逾時與中止屬於正常情況（呼叫端會重新檢查終止條件）
+      if ((timeout > 0 || signal?.aborted) && error.name === "TimeoutError") {
+        return this.timedOut(15, "等待少數決開始", signal?.aborted ? error.message : `${timeout}ms 內未偵測到少數決`);
+      }
+
+      const result = this.fromError(15, "等待少數決開始", error);
       
       // 失敗時截圖存證
       try {
@@ -1910,75 +1897,65 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
   /**
    * 關閉地下錢莊 Modal
    * 點擊右上角關閉按鈕並驗證 Modal 已關閉
-   * @returns 是否成功關閉
+   * @returns 關閉結果（Modal 未開啟時視為成功）
    */
-  async closeLoanShark(): Promise<boolean> {
+  async closeLoanShark(): Promise<ActionResult> {
     this.log(10, "關閉地下錢莊", "開始", "");
 
     try {
       // 1️⃣ 確認 Modal 是否開啟
-      const modalTitle = this.page.locator('span').filter({
-        hasText: /^地下錢莊$/
-      }).first();
+      const modalTitle = this.loanShark.title;
 
       const isModalVisible = await modalTitle.isVisible().catch(() => false);
 
       if (!isModalVisible) {
-        this.log(10, "關閉地下錢莊", "警告", "Modal 未開啟，無需關閉");
-        return true;
+        return this.succeed(10, "關閉地下錢莊", "Modal 未開啟，無需關閉");
       }
 
       // 2️⃣ 找到並點擊關閉按鈕（右上角 X 按鈕）
-      // 策略：找到 CloseOutline 圖標或包含 close 的按鈕
-      const closeButton = this.page.locator('span[role="img"]').filter({
-        hasText: /close/i
-      }).or(
-        this.page.locator('svg').filter({
-          has: this.page.locator('path[d*="M"]') // SVG 路徑特徵
-        })
-      ).first();
+      const closeButton = this.loanShark.closeButton;
 
       const closeButtonVisible = await closeButton.isVisible().catch(() => false);
       
       if (!closeButtonVisible) {
-        this.log(10, "關閉地下錢莊", "失敗", "找不到關閉按鈕");
-        return false;
+        return this.fail(10, "關閉地下錢莊", "error", "找不到關閉按鈕");
       }
 
       await closeButton.click();
       this.log(10, "關閉地下錢莊", "已點擊關閉按鈕", "");
 
       // 3️⃣ 等待 Modal 關閉動畫完成並驗證
-      // antd-mobile Modal 關閉動畫需要約 300-500ms，等待 1000ms 確保完全關閉
-      await this.page.waitForTimeout(1000);
-      const isModalClosed = await modalTitle.isHidden().catch(() => true);
+      // antd-mobile Modal 關閉動畫約 300-500ms，等待標題隱藏（最多 3 秒）
+      const isModalClosed = await modalTitle
+        .waitFor({ state: "hidden", timeout: 3000 })
+        .then(() => true)
+        .catch(() => false);
 
       if (!isModalClosed) {
-        this.log(10, "關閉地下錢莊", "失敗", "Modal 未完全關閉");
-        return false;
+        return this.fail(10, "關閉地下錢莊", "error", "Modal 未完全關閉");
       }
 
       // 4️⃣ 驗證 URL Hash 已移除
-      await this.page.waitForTimeout(300);
-      const currentUrl = this.page.url();
+      const isHashCleared = await this.page
+        .waitForURL((url) => !url.hash.includes(this.loanShark.hash), { timeout: 1000 })
+        .then(() => true)
+        .catch(() => false);
       
-      if (currentUrl.includes('#loanshark')) {
+      if (!isHashCleared) {
         this.log(10, "關閉地下錢莊", "警告", "Hash 錨點未清除，但 Modal 已關閉");
       }
 
-      this.log(10, "關閉地下錢莊", "成功", "");
-      return true;
+      return this.succeed(10, "關閉地下錢莊", "");
 
     } catch (error: any) {
-      this.log(10, "關閉地下錢莊", "失敗", error.message);
-      return false;
+      return this.fromError(10, "關閉地下錢莊", error);
     }
   }
 
@@ -1986,21 +1963,18 @@ export class GameActions {
    * Action 10: 開啟地下錢莊
    * 驗證 Modal 是否正確開啟
    */
-  async openLoanShark(): Promise<boolean> {
+  async openLoanShark(): Promise<ActionResult> {
     this.log(10, "開啟地下錢莊", "開始", "");
 
     try {
       // 1️⃣ 確認在主頁面（/home）
       if (!this.page.url().includes('/home')) {
-        this.log(10, "開啟地下錢莊", "失敗", "當前頁面不是主頁");
-        return false;
+        return this.fail(10, "開啟地下錢莊", "error", "當前頁面不是主頁");
       }
 
       // 2️⃣ 定位「地下錢莊」按鈕
       // 策略：找到包含地下錢莊圖示的按鈕（位於 TradingBar 區塊）
-      const loanButton = this.page.locator('button').filter({
-        has: this.page.locator('img[alt="地下錢莊"]')
-      }).first();
+      const loanButton = this.tradingBar.loanSharkButton;
 
       await loanButton.waitFor({ state: "visible", timeout: 5000 });
       this.log(10, "開啟地下錢莊", "已定位按鈕", "");
@@ -2010,18 +1984,18 @@ export class GameActions {
       this.log(10, "開啟地下錢莊", "已點擊按鈕", "");
 
       // 4️⃣ 等待 Modal 出現（驗證標題文字「地下錢莊」）
-      const modalTitle = this.page.locator('span').filter({
-        hasText: /^地下錢莊$/
-      }).first();
+      const modalTitle = this.loanShark.title;
 
       await modalTitle.waitFor({ state: "visible", timeout: 5000 });
       this.log(10, "開啟地下錢莊", "Modal 已顯示", "");
 
       // 5️⃣ 驗證 URL Hash 已變更（前端使用 Hash 錨點管理 Modal）
-      await this.page.waitForTimeout(500); // 等待 Hash 更新
-      const currentUrl = this.page.url();
+      const isHashSet = await this.page
+        .waitForURL((url) => url.hash.includes(this.loanShark.hash), { timeout: 1000 })
+        .then(() => true)
+        .catch(() => false);
       
-      if (!currentUrl.includes('#loanshark')) {
+      if (!isHashSet) {
         this.log(10, "開啟地下錢莊", "警告", "Hash 錨點未正確設定");
         // 不視為失敗，因為 Modal 已顯示
       } else {
@@ -2029,18 +2003,17 @@ export class GameActions {
       }
 
       // 6️⃣ （Optional）驗證商人頭像圖片已載入
-      const merchantImage = this.page.locator('img[alt*="沈梟"], img[src*="merchant"]').first();
+      const merchantImage = this.loanShark.merchantImage;
       const isImageVisible = await merchantImage.isVisible().catch(() => false);
       
       if (isImageVisible) {
         this.log(10, "開啟地下錢莊", "商人頭像已載入", "");
       }
 
-      this.log(10, "開啟地下錢莊", "成功", "");
-      return true;
+      return this.succeed(10, "開啟地下錢莊", "");
 
     } catch (error: any) {
-      this.log(10, "開啟地下錢莊", "失敗", error.message);
+      const result = this.fromError(10, "開啟地下錢莊", error);
 
       // 失敗時截圖存證
       try {
@@ -2055,7 +2028,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -2065,9 +2038,9 @@ export class GameActions {
    * @param amount 下注金額
    */
   async betMinority(
-    option: "A" | "B" | "C" | "D",
+    option: MiniGameOption,
     amount: number
-  ): Promise<boolean> {
+  ): Promise<ActionResult> {
     this.log(16, "少數決下注", "開始", `選項=${option}, 金額=${amount}`);
 
     try {
@@ -2075,11 +2048,12 @@ export class GameActions {
       // 策略：等待大數字 "1", "2", "3" 消失（表示 COUNTDOWN 階段結束）
       this.log(16, "少數決下注", "等待中", "等待倒數結束（COUNTDOWN -> GAMING）...");
       
-      // 先等待一下，確保倒數已經開始
-      await this.page.waitForTimeout(2000);
-      
-      // 找尋倒數數字（大數字文字，正則匹配純數字 1-3）
-      const countdownNumber = this.page.locator('text=/^[1-3]$/').first();
+      // 倒數數字是全螢幕置中的大文字（1-3）
+      const countdownNumber = this.minority.countdownNumber;
+      const optionButtons = this.minority.optionButtons;
+
+      // 先確認倒數已經開始（或已直接進入 GAMING 階段），避免倒數出現前就判定「已消失」
+      await countdownNumber.or(optionButtons).first().waitFor({ state: "visible", timeout: 3000 }).catch(() => {});
       
       // 等待倒數數字消失（最多等 5 秒）
       await countdownNumber.waitFor({ state: "hidden", timeout: 5000 }).catch(() => {
@@ -2093,9 +2067,7 @@ export class GameActions {
       this.log(16, "少數決下注", "等待中", "等待選項按鈕出現...");
       
       // 等待任一選項按鈕出現
-      const anyOptionButton = this.page.locator('button').filter({
-        hasText: /^[A-D]\.\s/
-      }).first();
+      const anyOptionButton = optionButtons.first();
       
       await anyOptionButton.waitFor({ 
         state: "visible", 
@@ -2105,9 +2077,7 @@ export class GameActions {
       this.log(16, "少數決下注", "選項已出現", "GAMING 階段已開始");
 
       // 3️⃣ 點擊目標選項
-      const targetButton = this.page.locator('button').filter({
-        hasText: new RegExp(`^${option}\.\\s`)
-      }).first();
+      const targetButton = this.minority.optionButton(option);
       
       await targetButton.waitFor({ state: "visible", timeout: 3000 });
       
@@ -2120,32 +2090,17 @@ export class GameActions {
       this.log(16, "少數決下注", "已點擊選項", option);
 
       // 4️⃣ 等待前端狀態更新（selectedOption 生效，解除 input disabled）
-      // 增加等待時間確保動畫完成和狀態同步
-      await this.page.waitForTimeout(800);
-
-      // 5️⃣ 定位金額輸入框（type="number"）
-      // 參考 Action 11 的邏輯：找到所有可見的輸入框
-      const allInputs = this.page.locator('input[type="number"]:visible');
-      const inputCount = await allInputs.count();
-      this.log(16, "少數決下注", "偵測到輸入框數量", inputCount.toString());
-
-      // 策略：找到 width: 70px 的輸入框（前端實作 MinorityUserView.tsx Line ~310）
-      let amountInput = null;
-      for (let i = 0; i < inputCount; i++) {
-        const input = allInputs.nth(i);
-        const width = await input.evaluate((el: HTMLInputElement) => {
-          return window.getComputedStyle(el).width;
-        });
-        this.log(16, "少數決下注", `輸入框 ${i} 寬度`, width);
-        
-        if (width === '70px') {
-          amountInput = input;
-          this.log(16, "少數決下注", "找到目標輸入框", `index=${i}`);
-          break;
-        }
-      }
+      // 等待 DOM 不再變動，確保動畫完成和狀態同步
+      await this.ready.waitForDomIdle();
+
+      // 5️⃣ 定位金額輸入框（寬度 70px，與交易列的輸入框區分）
+      const allInputs = this.minority.amountInputs;
+      this.log(16, "少數決下注", "偵測到輸入框數量", (await allInputs.count()).toString());
 
-      if (!amountInput) {
+      let amountInput = await this.minority.inputByWidth(allInputs, this.minority.amountInputWidth);
+      if (amountInput) {
+        this.log(16, "少數決下注", "找到目標輸入框", `width=${this.minority.amountInputWidth}`);
+      } else {
         // Fallback: 使用最後一個輸入框
         amountInput = allInputs.last();
         this.log(16, "少數決下注", "使用 Fallback", "last()");
@@ -2154,46 +2109,25 @@ export class GameActions {
       await amountInput.waitFor({ state: "visible", timeout: 3000 });
       this.log(16, "少數決下注", "已定位輸入框", "");
 
-      // 6️⃣ 填寫金額（完全參考 Action 11 的成功模式：使用 evaluate 直接操作 DOM）
+      // 6️⃣ 填寫金額（與 Action 11 相同：直接操作 DOM 並觸發事件）
       const currentValue = await amountInput.inputValue();
       this.log(16, "少數決下注", "輸入前的值", currentValue);
 
-      // 使用 evaluate 方法繞過 Playwright 的點擊遮擋檢查
-      await amountInput.evaluate((el: HTMLInputElement, value: string) => {
-        // 1. 先清空
-        const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-          window.HTMLInputElement.prototype,
-          'value'
-        )?.set;
-        
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(el, '');
-          el.dispatchEvent(new Event('input', { bubbles: true }));
-        }
-        
-        // 2. 設定新值
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(el, value);
-        }
-        
-        // 3. 觸發事件（確保 React 狀態更新）
-        el.dispatchEvent(new Event('input', { bubbles: true }));
-        el.dispatchEvent(new Event('change', { bubbles: true }));
-        el.dispatchEvent(new Event('blur', { bubbles: true }));
-      }, amount.toString());
+      // 直接設定輸入框的值，繞過 Playwright 的點擊遮擋檢查
+      await this.minority.setInputValue(amountInput, amount.toString());
 
       // Debug: 驗證輸入後的值
-      await this.page.waitForTimeout(500);
       const newValue = await amountInput.inputValue();
       this.log(16, "少數決下注", "輸入後的值", newValue);
       this.log(16, "少數決下注", "已輸入金額", amount.toString());
 
       // 8️⃣ 驗證下注金額文字已更新（UI Feedback）
-      const betAmountText = this.page.locator('div').filter({
-        hasText: new RegExp(`下注金額:\\s*\\$${amount}`)
-      }).first();
+      const betAmountText = this.minority.betAmountText(amount);
 
-      const isTextVisible = await betAmountText.isVisible({ timeout: 2000 }).catch(() => false);
+      const isTextVisible = await betAmountText
+        .waitFor({ state: "visible", timeout: 2000 })
+        .then(() => true)
+        .catch(() => false);
 
       if (!isTextVisible) {
         this.log(16, "少數決下注", "警告", "下注金額文字未更新（但輸入框已填入）");
@@ -2204,15 +2138,13 @@ export class GameActions {
       // 9️⃣ 驗證輸入框的實際值
       const actualValue = await amountInput.inputValue();
       if (actualValue !== amount.toString()) {
-        this.log(16, "少數決下注", "失敗", `輸入框值不符：預期 ${amount}, 實際 ${actualValue}`);
-        return false;
+        return this.fail(16, "少數決下注", "error", `輸入框值不符：預期 ${amount}, 實際 ${actualValue}`);
       }
 
-      this.log(16, "少數決下注", "成功", `已提交選項 ${option}, 金額 $${amount}`);
-      return true;
+      return this.succeed(16, "少數決下注", `已提交選項 ${option}, 金額 $${amount}`);
 
     } catch (error: any) {
-      this.log(16, "少數決下注", "失敗", error.message);
+      const result = this.fromError(16, "少數決下注", error);
       
       // 失敗時截圖存證
       try {
@@ -2230,7 +2162,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -2238,66 +2170,54 @@ export class GameActions {
    * Action 17: 借錢週轉流程（複合動作）
    * 關閉小遊戲 → 開錢莊 → 借錢 → 關錢莊 → 回小遊戲
    */
-  async closeBorrowAndReturn(): Promise<boolean> {
+  async closeBorrowAndReturn(): Promise<ActionResult> {
     this.log(17, "借錢週轉流程", "開始", "執行複合動作");
 
     try {
       // 1️⃣ 最小化小遊戲 Overlay（點擊「收起」按鈕）
       this.log(17, "借錢週轉流程", "步驟 1", "尋找收起按鈕");
-      const collapseButton = this.page.locator('button').filter({
-        hasText: /^收起$/
-      }).first();
+      const collapseButton = this.minority.collapseButton;
 
       await collapseButton.waitFor({ state: "visible", timeout: 5000 });
       await collapseButton.click();
       this.log(17, "借錢週轉流程", "步驟 1 完成", "已點擊收起按鈕");
 
       // 2️⃣ 等待小遊戲 Overlay 消失
-      await this.page.waitForTimeout(800);
+      await this.minority.title.waitFor({ state: "hidden", timeout: 3000 });
       this.log(17, "借錢週轉流程", "步驟 2 完成", "小遊戲已收起");
 
       // 3️⃣ 開啟地下錢莊（重用 Action 10）
       this.log(17, "借錢週轉流程", "步驟 3", "開啟地下錢莊");
       const openResult = await this.openLoanShark();
-      if (!openResult) {
-        this.log(17, "借錢週轉流程", "失敗", "無法開啟地下錢莊");
-        return false;
+      if (!openResult.ok) {
+        return this.fail(17, "借錢週轉流程", openResult.status, `無法開啟地下錢莊：${openResult.message}`);
       }
       this.log(17, "借錢週轉流程", "步驟 3 完成", "地下錢莊已開啟");
 
       // 4️⃣ 執行借款（重用 Action 11，借固定金額 300）
       this.log(17, "借錢週轉流程", "步驟 4", "執行借款 $300");
       const borrowResult = await this.handleLoan("BORROW", 300);
-      if (!borrowResult) {
-        this.log(17, "借錢週轉流程", "失敗", "借款操作失敗");
-        return false;
+      if (!borrowResult.ok) {
+        return this.fail(17, "借錢週轉流程", borrowResult.status, `借款操作失敗：${borrowResult.message}`);
       }
       this.log(17, "借錢週轉流程", "步驟 4 完成", "借款成功，錢莊已關閉");
 
       // 5️⃣ 重新開啟小遊戲 Overlay（點擊「小遊戲」按鈕）
       this.log(17, "借錢週轉流程", "步驟 5", "尋找小遊戲按鈕");
-      const miniGameButton = this.page.locator('button').filter({
-        hasText: /小遊戲/
-      }).first();
+      const miniGameButton = this.tradingBar.miniGameButton;
 
       await miniGameButton.waitFor({ state: "visible", timeout: 5000 });
       await miniGameButton.click();
       this.log(17, "借錢週轉流程", "步驟 5 完成", "已點擊小遊戲按鈕");
 
       // 6️⃣ 等待小遊戲 Overlay 重新出現（以「全場少數決」文字為標記）
-      await this.page.waitForTimeout(800);
-      const minorityTitle = this.page.locator('div').filter({
-        hasText: /全場少數決/
-      }).first();
-
-      await minorityTitle.waitFor({ state: "visible", timeout: 5000 });
+      await this.minority.title.waitFor({ state: "visible", timeout: 5000 });
       this.log(17, "借錢週轉流程", "步驟 6 完成", "小遊戲 Overlay 已恢復");
 
-      this.log(17, "借錢週轉流程", "成功", "所有步驟完成");
-      return true;
+      return this.succeed(17, "借錢週轉流程", "所有步驟完成");
 
     } catch (error: any) {
-      this.log(17, "借錢週轉流程", "失敗", error.message);
+      const result = this.fromError(17, "借錢週轉流程", error);
       
       // 失敗時截圖存證
       try {
@@ -2315,7 +2235,7 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return false;
+      return result;
     }
   }
 
@@ -2327,13 +2247,13 @@ export class GameActions {
    * 1. 等待「你選擇了」文字出現（RESULT 階段的通用元素）
    * 2. 呼叫 readAssets() 讀取更新後的資產狀態
    * 3. Log 輸出結果資訊與當前現金
-   * 4. 回傳 AssetData 物件
+   * 4. 回傳 AssetData（result.value）
    * 
    * ⚠️ 注意：Admin 可能需要手動按下「結算」按鈕才會進入 RESULT 階段
    * 
-   * @returns AssetData 或 null（失敗時）
+   * @returns 成功時 value 為 AssetData；無法讀取資產時沿用 readAssets 的失敗分類
    */
-  async waitMinorityResultAndReport(): Promise<AssetData | null> {
+  async waitMinorityResultAndReport(): Promise<ActionResult<AssetData>> {
     this.log(18, "少數決結果報告", "開始", "等待結果畫面載入...");
 
     try {
@@ -2343,11 +2263,10 @@ export class GameActions {
       this.log(18, "少數決結果報告", "等待中", "等待遊戲進入 RESULT 階段（最多 120 秒）...");
       this.log(18, "少數決結果報告", "提示", "⚠️ 如果長時間等待，請檢查 Admin 是否需要手動按下「結算」按鈕");
       
-      const resultIndicator = this.page.locator('div').filter({
-        hasText: /你選擇了\s*\[/
-      }).first();
+      const resultIndicator = this.minority.resultIndicator;
 
       // 增加 timeout 到 120 秒（允許手動操作時間）
+      const waitStartedAt = Date.now();
       await resultIndicator.waitFor({ 
         state: "visible", 
         timeout: 120000 
@@ -2355,31 +2274,31 @@ export class GameActions {
       
       this.log(18, "少數決結果報告", "結果階段已載入", "偵測到「你選擇了」文字");
 
-      // 2️⃣ 等待額外 1 秒確保資產更新完成
-      // 伺服器可能需要時間處理獎金並推送至前端
-      await this.page.waitForTimeout(1000);
+      // 2️⃣ 等待結算後的資產推播（伺服器處理獎金後推送 player:assets）
+      const hasAssetsPush = await this.ready.waitForSocketEvent(SOCKET_EVENTS.assets, { since: waitStartedAt, timeout: 3000 });
+      if (!hasAssetsPush) {
+        this.log(18, "少數決結果報告", "警告", `結算後未收到 ${SOCKET_EVENTS.assets} 推播`);
+      }
 
       // 3️⃣ 讀取更新後的資產
       this.log(18, "少數決結果報告", "執行", "讀取資產變化...");
-      const resultAssets = await this.readAssets();
+      const assets = await this.readAssets();
 
-      if (!resultAssets) {
-        this.log(18, "少數決結果報告", "失敗", "無法讀取資產資料");
-        return null;
+      if (!assets.ok) {
+        return this.fail(18, "少數決結果報告", assets.status, `無法讀取資產資料：${assets.message}`);
       }
+      const resultAssets = assets.value;
 
       // 4️⃣ Log 輸出資產狀態
-      this.log(
-        18, 
-        "少數決結果報告", 
-        "成功", 
-        `當前現金: $${resultAssets.cash.toFixed(2)} | 總資產: $${resultAssets.totalAssets.toFixed(2)}`
+      return this.succeed(
+        18,
+        "少數決結果報告",
+        `當前現金: $${resultAssets.cash.toFixed(2)} | 總資產: $${resultAssets.totalAssets.toFixed(2)}`,
+        resultAssets
       );
 
-      return resultAssets;
-
     } catch (error: any) {
-      this.log(18, "少數決結果報告", "失敗", error.message);
+      const result = this.fromError(18, "少數決結果報告", error);
       
       // 錯誤截圖（協助除錯）
       try {
@@ -2398,37 +2317,82 @@ export class GameActions {
         // 截圖失敗不影響主流程
       }
 
-      return null;
+      return result;
     }
   }
 
+  // ==================== Mini Game Overlay ====================
+
+  /**
+   * Action 20: 收起小遊戲
+   * 點擊 Overlay 的「收起」按鈕，讓交易中的角色可以繼續操作被覆蓋（z-index 9999）的交易介面
+   * 新的一局開始時 Overlay 會自動展開，之後也可由交易列的「小遊戲」按鈕重新開啟
+   * @returns 收起結果（Overlay 未展開時略過）
+   */
+  async collapseMiniGame(): Promise<ActionResult> {
+    this.log(20, "收起小遊戲", "開始", "");
+
+    try {
+      // 1️⃣ 確認目前展開的是哪一種小遊戲
+      const kind = await this.detectMiniGame();
+      if (!kind) {
+        return this.skip(20, "收起小遊戲", "Overlay 未展開，無需收起");
+      }
+      const overlay = kind === "quiz" ? this.quiz : this.minority;
+
+      // 2️⃣ 點擊「收起」按鈕
+      await overlay.collapseButton.waitFor({ state: "visible", timeout: 5000 });
+      await overlay.collapseButton.click();
+      this.log(20, "收起小遊戲", "已點擊收起按鈕", kind === "quiz" ? "機智問答" : "全場少數決");
+
+      // 3️⃣ 等待 Overlay 消失
+      await overlay.title.waitFor({ state: "hidden", timeout: 3000 });
+
+      return this.succeed(20, "收起小遊戲", "");
+
+    } catch (error: any) {
+      return this.fromError(20, "收起小遊戲", error);
+    }
+  }
+
+  /**
+   * 輔助方法: 偵測目前展開中的小遊戲
+   * 以 Overlay 標題是否可見判斷（不等待），收起後的 Overlay 不會回報
+   * @returns 小遊戲種類（沒有展開中的 Overlay 時返回 null）
+   */
+  async detectMiniGame(): Promise<MiniGameKind | null> {
+    if (await this.quiz.title.isVisible().catch(() => false)) return "quiz";
+    if (await this.minority.title.isVisible().catch(() => false)) return "minority";
+    return null;
+  }
+
   /**
    * 輔助方法: 讀取當前股價
    * 從圖表下方的「當前: $XX.XX」文字中解析股價
    */
   async getCurrentStockPrice(): Promise<number> {
     try {
-      // 等待頁面載入完成
-      await this.page.waitForTimeout(1000);
-      
-      // 定位「當前: $XX.XX」文字
-      const priceText = await this.page
-        .locator('div')
-        .filter({ hasText: /^當前: \$/ })
-        .first()
-        .textContent();
-      
-      if (!priceText) {
-        return 0;
-      }
-      
-      // 解析價格（格式：「當前: $123.45」）
-      const match = priceText.match(/\$([0-9,.]+)/);
-      if (match) {
-        return parseFloat(match[1].replace(/,/g, ''));
-      }
+      // 等待股價推播（收到過一次即可）與價格渲染出數字
+      await this.ready.waitForSocketEvent(SOCKET_EVENTS.tick, { since: 0, timeout: 3000 });
       
+      // 解析「當前: $XX.XX」文字
+      const priceText = await this.statusBar.currentPrice.textContent({ timeout: 3000 });
+      return parsePrice(priceText);
+    } catch (error) {
       return 0;
+    }
+  }
+
+  /**
+   * 輔助方法: 讀取當前遊戲天數
+   * 從頂部狀態列的「第 X 天」（或「Day X」）文字中解析天數
+   * @returns 當前天數（無法讀取時返回 0）
+   */
+  async getCurrentDay(): Promise<number> {
+    try {
+      // 解析「第 X 天」或「Day X」文字
+      const dayText = await this.statusBar.day.textContent({ timeout: 3000 });
+      return parseDay(dayText);
     } catch (error) {
       return 0;
     }
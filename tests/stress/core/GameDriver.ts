@@ -0,0 +1,136 @@
+// tests/stress/core/GameDriver.ts
+import { ActionResult } from "./ActionResult";
+
+/**
+ * 遊戲操作介面
+ *
+ * 角色（personas.ts）只依賴此介面，不直接依賴 Playwright：
+ * - GameActions：以瀏覽器操作真實 UI
+ * - ProtocolBot：直接呼叫後端 REST API 與 Socket.io
+ * 其他實作（假的 Driver、錄製 / 重播 Driver 等）只要實作此介面即可交給角色執行。
+ * 每個 Action 回傳 ActionResult（成功 / 拒絕 / 逾時 / 錯誤），Action 編號與名稱各實作一致。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 資產資料介面
+ * 用於記錄玩家的總資產、現金、股票市值、持股數量、負債
+ */
+export interface AssetData {
+  totalAssets: number; // 總資產
+  cash: number; // 現金
+  stockValue: number; // 股票市值
+  stockCount: number; // 持股數量
+  debt: number; // 負債
+}
+
+/**
+ * 合約資料介面
+ * 用於記錄玩家的保證金與合約列表
+ */
+export interface ContractData {
+  margin: number; // 保證金總額
+  contracts: Array<{
+    type: string; // 合約類型 (LONG/SHORT)
+    leverage: number; // 槓桿倍數
+    amount: number; // 合約張數
+  }>;
+}
+
+/**
+ * 小遊戲選項
+ */
+export type MiniGameOption = "A" | "B" | "C" | "D";
+
+/**
+ * 小遊戲種類（機智問答 / 全場少數決）
+ */
+export type MiniGameKind = "quiz" | "minority";
+
+// ==================== 介面 ====================
+
+/**
+ * GameDriver 介面
+ */
+export interface GameDriver {
+  // ---------- 帳號 ----------
+
+  /** Action 01: 註冊 */
+  register(nick: string, user: string, pass: string): Promise<ActionResult>;
+
+  /** Action 02: 登入 */
+  login(user: string, pass: string): Promise<ActionResult>;
+
+  /** 設定員工身分（目前身分已符合時不操作） */
+  setEmployeeStatus(isEmployee: boolean): Promise<ActionResult>;
+
+  /** Action 00: 等待遊戲開始（最多等待 GAME_START_TIMEOUT_MS） */
+  waitForGameStart(): Promise<ActionResult>;
+
+  // ---------- 資產 ----------
+
+  /** Action 04: 讀取資產 */
+  readAssets(): Promise<ActionResult<AssetData>>;
+
+  /** Action 05: 讀取合約 */
+  readContracts(): Promise<ActionResult<ContractData>>;
+
+  /** 讀取當前股價（無法讀取時返回 0） */
+  getCurrentStockPrice(): Promise<number>;
+
+  /** 讀取當前遊戲天數（無法讀取時返回 0） */
+  getCurrentDay(): Promise<number>;
+
+  // ---------- 交易 ----------
+
+  /** Action 06: 買入股票 */
+  buyStock(amount: number): Promise<ActionResult>;
+
+  /** Action 07: 賣出股票 */
+  sellStock(amount: number): Promise<ActionResult>;
+
+  /** Action 08: 買入合約 */
+  buyContract(type: "LONG" | "SHORT", leverage: number, amount: number): Promise<ActionResult>;
+
+  /** Action 09: 撤銷今日所有合約（無合約時略過） */
+  cancelAllContracts(): Promise<ActionResult>;
+
+  // ---------- 借貸 ----------
+
+  /** Action 19: 與地下錢莊主人互動 */
+  interactWithLoanShark(): Promise<ActionResult>;
+
+  /** Action 11: 借 / 還錢 */
+  handleLoan(action: "BORROW" | "REPAY", amount: number): Promise<ActionResult>;
+
+  // ---------- 機智問答 ----------
+
+  /** Action 12: 等待問答開始（timeout 為 0 表示無限等待；逾時或 signal 中止時回傳 timeout 結果） */
+  waitForQuizStart(timeout?: number, signal?: AbortSignal): Promise<ActionResult>;
+
+  /** Action 13: 問答作答 */
+  answerQuiz(option: MiniGameOption): Promise<ActionResult>;
+
+  /** Action 14: 問答結果報告（成功時 value 為結算後的資產） */
+  waitQuizResultAndReport(): Promise<ActionResult<AssetData>>;
+
+  // ---------- 少數決 ----------
+
+  /** Action 15: 等待少數決開始（timeout 為 0 表示無限等待；逾時或 signal 中止時回傳 timeout 結果） */
+  waitForMinorityStart(timeout?: number, signal?: AbortSignal): Promise<ActionResult>;
+
+  /** Action 16: 少數決下注 */
+  betMinority(option: MiniGameOption, amount: number): Promise<ActionResult>;
+
+  /** Action 18: 少數決結果報告（成功時 value 為結算後的資產） */
+  waitMinorityResultAndReport(): Promise<ActionResult<AssetData>>;
+
+  // ---------- 小遊戲 Overlay ----------
+
+  /** 偵測目前展開中的小遊戲（不等待；沒有時返回 null，已收起的局不再回報） */
+  detectMiniGame(): Promise<MiniGameKind | null>;
+
+  /** Action 20: 收起小遊戲 Overlay（未展開時略過） */
+  collapseMiniGame(): Promise<ActionResult>;
+}
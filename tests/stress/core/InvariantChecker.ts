@@ -0,0 +1,262 @@
+// tests/stress/core/InvariantChecker.ts
+import { Page } from "@playwright/test";
+import { ISSUED_SHARES } from "../config";
+import { GameActions } from "./GameActions";
+import { AssetData, ContractData } from "./GameDriver";
+import { InvariantViolation, MetricsCollector } from "./MetricsCollector";
+
+/**
+ * 資產守恆檢查
+ *
+ * 併發下最可怕的錯誤是錢憑空出現或消失。開啟 INVARIANT_CHECK（STRESS_INVARIANT_CHECK=1）後，
+ * Orchestrator 在每個遊戲日開始時讀取所有虛擬使用者畫面上的資產（AssetData）與合約（ContractData），確認：
+ * - 總資產 ≈ 現金 + 股票現值 + 合約保證金 − 負債
+ * - 負債、持股、保證金皆不為負數
+ * - 設定 ISSUED_SHARES（STRESS_ISSUED_SHARES）時，所有玩家的持股總和等於交易所發行的總股數
+ * 違規紀錄（使用者、天數、時間）寫入 MetricsCollector，並列入執行報告。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 單一虛擬使用者在某個遊戲日開始時的資產快照
+ */
+export interface UserLedger {
+  userIndex: number;
+  day: number;
+  time: number; // 快照時間（毫秒時間戳）
+  assets: AssetData;
+  contracts: ContractData;
+}
+
+/**
+ * InvariantChecker 參數
+ */
+export interface InvariantCheckerOptions {
+  issuedShares?: number; // 發行總股數（預設 config.ts 的 ISSUED_SHARES，未設定則不檢查總股數守恆）
+  tolerance?: number; // 總資產容許誤差（預設 ASSET_TOLERANCE）
+  pollMs?: number; // 偵測換日的輪詢間隔（預設 2000 毫秒）
+  confirmDelayMs?: number; // 發現違規後等待多久重讀確認（預設 1000 毫秒）
+}
+
+// ==================== 檢查規則 ====================
+
+/**
+ * 總資產容許誤差：畫面上每個數值各自四捨五入至小數點後 2 位
+ */
+export const ASSET_TOLERANCE = 0.05;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 檢查單一使用者的資產快照
+ * @param ledger 資產快照
+ * @param tolerance 總資產容許誤差
+ * @returns 違規清單（無違規時為空陣列）
+ */
+export function checkLedger(ledger: UserLedger, tolerance: number = ASSET_TOLERANCE): InvariantViolation[] {
+  const { assets, contracts } = ledger;
+  const violations: InvariantViolation[] = [];
+  const violate = (rule: string, detail: string) =>
+    violations.push({ userIndex: ledger.userIndex, day: ledger.day, time: ledger.time, rule, detail });
+
+  const expected = round2(assets.cash + assets.stockValue + contracts.margin - assets.debt);
+  if (Math.abs(assets.totalAssets - expected) > tolerance) {
+    violate(
+      "總資產",
+      `總資產 ${assets.totalAssets}，現金 ${assets.cash} + 股票現值 ${assets.stockValue} + 保證金 ${contracts.margin} − 負債 ${assets.debt} = ${expected}`
+    );
+  }
+  if (assets.debt < 0) {
+    violate("負債非負", `負債 ${assets.debt}`);
+  }
+  if (assets.stockCount < 0) {
+    violate("持股非負", `持股 ${assets.stockCount} 張`);
+  }
+  if (contracts.margin < 0) {
+    violate("保證金非負", `保證金 ${contracts.margin}`);
+  }
+
+  return violations;
+}
+
+/**
+ * 檢查所有玩家的持股總和是否等於發行總股數
+ * @param holdings 使用者編號 → 持股張數（包含已離場使用者最後一次的持股）
+ * @param issuedShares 發行總股數
+ * @param day 遊戲天數
+ * @param time 檢查時間
+ * @returns 違規清單（無違規時為空陣列）
+ */
+export function checkShareConservation(
+  holdings: Map<number, number>,
+  issuedShares: number,
+  day: number,
+  time: number
+): InvariantViolation[] {
+  const total = [...holdings.values()].reduce((sum, count) => sum + count, 0);
+  if (total === issuedShares) return [];
+  return [{ day, time, rule: "總股數守恆", detail: `${holdings.size} 位玩家持股合計 ${total} 張，發行 ${issuedShares} 張` }];
+}
+
+// ==================== 檢查器 ====================
+
+/**
+ * 已註冊的虛擬使用者（以不掛載 MetricsCollector 的 GameActions 讀取畫面，不列入 Action 統計）
+ */
+interface WatchedUser {
+  page: Page;
+  actions: GameActions;
+}
+
+/**
+ * InvariantChecker 類別
+ * 由 Orchestrator 在每位虛擬使用者開啟頁面後 register()、離場前取消註冊；
+ * start() 後於背景輪詢遊戲天數，換日時對所有已註冊使用者拍攝快照並檢查
+ */
+export class InvariantChecker {
+  private users = new Map<number, WatchedUser>();
+  private holdings = new Map<number, number>(); // 使用者編號 → 最後一次讀到的持股（離場後保留，用於總股數守恆）
+  private issuedShares?: number;
+  private tolerance: number;
+  private pollMs: number;
+  private confirmDelayMs: number;
+  private lastDay = 0;
+  private days = 0;
+  private stopped = false;
+  private loop?: Promise<void>;
+
+  /**
+   * @param metrics 指標收集器（可選，違規紀錄寫入執行報告）
+   * @param options 檢查參數
+   */
+  constructor(private metrics?: MetricsCollector, options: InvariantCheckerOptions = {}) {
+    this.issuedShares = options.issuedShares ?? ISSUED_SHARES;
+    this.tolerance = options.tolerance ?? ASSET_TOLERANCE;
+    this.pollMs = options.pollMs ?? 2000;
+    this.confirmDelayMs = options.confirmDelayMs ?? 1000;
+  }
+
+  /**
+   * 註冊虛擬使用者的頁面
+   * @returns 取消註冊函式（關閉 BrowserContext 前呼叫）
+   */
+  register(userIndex: number, page: Page): () => void {
+    this.users.set(userIndex, { page, actions: new GameActions(page, userIndex, undefined, false) });
+    return () => {
+      this.users.delete(userIndex);
+    };
+  }
+
+  /**
+   * 開始於背景輪詢遊戲天數，換日時檢查所有已註冊使用者
+   */
+  start(): void {
+    if (this.loop) return;
+    console.log(
+      `[Invariant] ⚖️ 資產守恆檢查啟動（每 ${this.pollMs / 1000} 秒偵測換日` +
+        `${this.issuedShares !== undefined ? `，發行總股數 ${this.issuedShares} 張` : ""}）`
+    );
+
+    this.loop = (async () => {
+      while (!this.stopped) {
+        const day = await this.readDay();
+        if (day > this.lastDay) {
+          this.lastDay = day;
+          await this.checkDay(day);
+        }
+        await new Promise((resolve) => setTimeout(resolve, this.pollMs));
+      }
+    })();
+  }
+
+  /**
+   * 停止輪詢（等待進行中的檢查完成）
+   * @returns 已檢查的遊戲日數
+   */
+  async stop(): Promise<number> {
+    this.stopped = true;
+    await this.loop;
+    console.log(`[Invariant] ⏹️ 資產守恆檢查停止：共檢查 ${this.days} 個遊戲日`);
+    return this.days;
+  }
+
+  /**
+   * 檢查所有已註冊使用者（寫入 MetricsCollector）
+   * 單一使用者的違規會在 confirmDelayMs 後重讀一次，兩次皆違規才記錄（避免讀取途中剛好收到股價推播）
+   * @param day 遊戲天數
+   * @returns 違規清單
+   */
+  async checkDay(day: number): Promise<InvariantViolation[]> {
+    const time = Date.now();
+    const ledgers = await this.snapshotAll(day, [...this.users.keys()]);
+
+    let violations = ledgers.flatMap((l) => checkLedger(l, this.tolerance));
+    if (violations.length > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.confirmDelayMs));
+      const suspects = [...new Set(violations.map((v) => v.userIndex!))];
+      const confirmed = (await this.snapshotAll(day, suspects)).flatMap((l) => checkLedger(l, this.tolerance));
+      violations = confirmed.filter((v) => violations.some((s) => s.userIndex === v.userIndex && s.rule === v.rule));
+    }
+
+    if (this.issuedShares !== undefined) {
+      let shares = checkShareConservation(this.holdings, this.issuedShares, day, time);
+      if (shares.length > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.confirmDelayMs));
+        await this.snapshotAll(day, [...this.users.keys()]);
+        shares = checkShareConservation(this.holdings, this.issuedShares, day, Date.now());
+      }
+      violations.push(...shares);
+    }
+
+    this.days++;
+    this.metrics?.recordInvariantCheck({ day, time, users: ledgers.length, violations: violations.length }, violations);
+
+    if (violations.length === 0) {
+      console.log(`[Invariant] ✅ 第 ${day} 天：${ledgers.length} 位使用者資產守恆`);
+    } else {
+      for (const v of violations) {
+        const who = v.userIndex !== undefined ? `[User ${v.userIndex.toString().padStart(2, "0")}]` : "[全體]";
+        console.error(`[Invariant]${who} ❌ 第 ${day} 天 ${v.rule}：${v.detail}`);
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * 讀取任一已註冊使用者畫面上的遊戲天數（皆無法讀取時返回 0）
+   */
+  private async readDay(): Promise<number> {
+    for (const user of this.users.values()) {
+      if (user.page.isClosed()) continue;
+      const day = await user.actions.getCurrentDay();
+      if (day > 0) return day;
+    }
+    return 0;
+  }
+
+  /**
+   * 依序讀取指定使用者的資產與合約（讀取失敗或頁面已關閉的使用者略過），並更新持股紀錄
+   */
+  private async snapshotAll(day: number, userIndexes: number[]): Promise<UserLedger[]> {
+    const ledgers: UserLedger[] = [];
+    for (const userIndex of userIndexes) {
+      const user = this.users.get(userIndex);
+      if (!user || user.page.isClosed()) continue;
+
+      const time = Date.now();
+      const assets = await user.actions.readAssets();
+      const contracts = assets.ok ? await user.actions.readContracts() : null;
+      if (!assets.ok || !contracts?.ok) {
+        console.warn(`[Invariant][User ${userIndex.toString().padStart(2, "0")}] ⚠️ 第 ${day} 天資產快照讀取失敗，略過`);
+        continue;
+      }
+
+      this.holdings.set(userIndex, assets.value.stockCount);
+      ledgers.push({ userIndex, day, time, assets: assets.value, contracts: contracts.value });
+    }
+    return ledgers;
+  }
+}
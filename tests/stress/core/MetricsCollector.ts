@@ -0,0 +1,755 @@
+// tests/stress/core/MetricsCollector.ts
+
+/**
+ * Action 執行結果
+ */
+export type ActionOutcome = "success" | "failure";
+
+/**
+ * 失敗分類
+ * - rejected：遊戲規則拒絕（現金不足、借款上限等）
+ * - timeout：等待畫面或回應逾時
+ * - error：其他錯誤
+ */
+export type ActionFailureKind = "rejected" | "timeout" | "error";
+
+/**
+ * 單次 Action 呼叫紀錄
+ * 由 GameActions 在每次 Action 開始與結束時寫入
+ */
+export interface ActionRecord {
+  userIndex: number; // 使用者編號
+  actionId: number; // Action ID (00-19)
+  actionName: string; // Action 名稱（中文）
+  startTime: number; // 開始時間（毫秒時間戳）
+  endTime: number; // 結束時間（毫秒時間戳）
+  durationMs: number; // 耗時（毫秒）
+  outcome: ActionOutcome; // 執行結果
+  reason?: string; // 失敗原因（僅 outcome = failure 時存在）
+  failureKind?: ActionFailureKind; // 失敗分類（僅 outcome = failure 時存在）
+  artifacts?: string[]; // 相關檔案路徑（失敗截圖等）
+  phase?: string; // Action 開始時所在的負載階段（未使用負載模型時不存在）
+  apiCalls?: number; // Action 期間完成的後端 API 呼叫數（未掛載 NetworkRecorder 或無呼叫時不存在）
+  apiMs?: number; // 上述 API 呼叫的耗時總和（毫秒），durationMs - apiMs 約為前端渲染 / 等待時間
+}
+
+/**
+ * 單次後端 API 呼叫紀錄
+ * 由 NetworkRecorder 在 response 完成（或請求失敗）時寫入
+ */
+export interface ApiCallRecord {
+  userIndex: number; // 使用者編號
+  method: string; // HTTP 方法
+  endpoint: string; // 正規化後的路徑（例如 /api/admin/users/:username/employee）
+  url: string; // 完整網址
+  status: number; // HTTP 狀態碼（網路錯誤時為 0）
+  startTime: number; // 送出時間（毫秒時間戳）
+  endTime: number; // 回應完成時間（毫秒時間戳）
+  durationMs: number; // 耗時（毫秒）
+  failure?: string; // 網路錯誤訊息（僅 status = 0 時存在）
+  actionId?: number; // 送出請求時進行中的 Action（Action 之外的請求不存在）
+  actionName?: string;
+  phase?: string; // 送出請求時所在的負載階段
+}
+
+/**
+ * 後端狀態驗證結果
+ * - match：後端帳務變化符合預期
+ * - mismatch：不符（一致性失敗）
+ * - skipped：無法判斷（Action 期間跨日結算、快照讀取失敗）
+ */
+export type ConsistencyStatus = "match" | "mismatch" | "skipped";
+
+/**
+ * 單次後端狀態驗證紀錄
+ * 由 StateVerifier 在 Action 成功後寫入（僅開啟 VERIFY_STATE 時）
+ */
+export interface ConsistencyRecord {
+  userIndex: number; // 使用者編號
+  actionId: number; // Action ID
+  actionName: string; // Action 名稱（中文）
+  time: number; // 驗證時間（毫秒時間戳）
+  expected: string; // 預期變化（例如「買入 1 張」）
+  status: ConsistencyStatus;
+  mismatches: string[]; // 不符項目（skipped 時為略過原因）
+  phase?: string; // 驗證時所在的負載階段
+}
+
+/**
+ * 單一 Action 的後端狀態驗證彙總
+ */
+export interface ConsistencyStats {
+  actionId: number;
+  actionName: string;
+  checks: number; // 驗證次數（含略過）
+  matchCount: number;
+  mismatchCount: number; // 一致性失敗次數
+  skippedCount: number;
+}
+
+/**
+ * 資產守恆檢查的違規紀錄
+ * 由 InvariantChecker 在每個遊戲日開始時檢查所有虛擬使用者後寫入
+ */
+export interface InvariantViolation {
+  userIndex?: number; // 使用者編號（跨使用者的規則，例如總股數守恆，不存在）
+  day: number; // 遊戲天數
+  time: number; // 快照時間（毫秒時間戳）
+  rule: string; // 規則名稱（例如「總資產」「負債非負」）
+  detail: string; // 違規內容（含實際數值）
+  phase?: string; // 檢查時所在的負載階段
+}
+
+/**
+ * 單次資產守恆檢查（一個遊戲日一次）
+ */
+export interface InvariantCheckRecord {
+  day: number; // 遊戲天數
+  time: number; // 檢查時間（毫秒時間戳）
+  users: number; // 成功取得快照的使用者數
+  violations: number; // 違規數
+}
+
+/**
+ * 停滯後的處置
+ * - restart：關閉後重新啟動該虛擬使用者
+ * - give-up：放棄該虛擬使用者（已達重新啟動次數上限，或整場壓測已中止）
+ */
+export type StallDecision = "restart" | "give-up";
+
+/**
+ * 虛擬使用者停滯紀錄
+ * 由 RunSupervisor 在虛擬使用者超過停滯門檻沒有任何成功的 Action 時寫入
+ */
+export interface StallRecord {
+  userIndex: number; // 使用者編號
+  time: number; // 判定停滯的時間（毫秒時間戳）
+  idleMs: number; // 距最近一次成功 Action 的時間（毫秒）
+  action?: string; // 停滯時進行中的 Action（例如「07 買入股票」，沒有進行中的 Action 時不存在）
+  decision: StallDecision;
+  artifacts: string[]; // 截圖與 Trace 檔案路徑（機器人沒有畫面，為空陣列）
+  phase?: string; // 停滯時所在的負載階段
+}
+
+/**
+ * 單一 Action 的彙總統計
+ */
+export interface ActionStats {
+  actionId: number;
+  actionName: string;
+  count: number; // 總呼叫次數
+  successCount: number;
+  failureCount: number;
+  rejectedCount: number; // 失敗分類：遊戲規則拒絕
+  timeoutCount: number; // 失敗分類：逾時
+  errorCount: number; // 失敗分類：其他錯誤（未標記分類的失敗也計入此項）
+  successRate: number; // 成功率 (0-1)
+  p50: number; // 延遲中位數（毫秒）
+  p90: number;
+  p99: number;
+  max: number;
+  apiP50: number; // 有 API 呼叫的紀錄中，後端耗時（apiMs）的中位數（無呼叫時為 0）
+  apiP90: number;
+}
+
+/**
+ * 單一 API 端點的彙總統計
+ */
+export interface ApiStats {
+  method: string;
+  endpoint: string;
+  count: number; // 總呼叫次數
+  errorCount: number; // HTTP 狀態碼 >= 400 或網路錯誤
+  errorRate: number; // 錯誤率 (0-1)
+  p50: number; // 延遲中位數（毫秒）
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Socket.io 訊框方向
+ */
+export type SocketDirection = "sent" | "received";
+
+/**
+ * 單一 Socket.io 訊框（由 SocketRecorder 解碼後寫入，MetricsCollector 只保留彙總值）
+ */
+export interface SocketFrame {
+  userIndex: number;
+  direction: SocketDirection;
+  event: string; // Socket.io 事件名稱（ack 回應為 "(ack)"）
+  bytes: number; // 訊框大小（位元組）
+  time: number; // 送出 / 收到時間（毫秒時間戳）
+  lagMs?: number; // 推播延遲（僅 received；計算方式見 SocketRecorder）
+}
+
+/**
+ * Socket 連線事件
+ */
+export type SocketConnectionEvent = "connect" | "disconnect" | "reconnect";
+
+/**
+ * 單一 Socket.io 事件的彙總統計
+ */
+export interface SocketEventStats {
+  direction: SocketDirection;
+  event: string;
+  count: number; // 訊框數
+  users: number; // 收發過此事件的使用者數
+  ratePerSec: number; // 每秒訊框數（全部使用者合計，以首末訊框時間計算）
+  avgBytes: number; // 平均訊框大小（位元組）
+  maxBytes: number;
+  lagP50: number; // 推播延遲百分位（毫秒，無樣本時為 0）
+  lagP90: number;
+  lagMax: number;
+}
+
+/**
+ * Socket.io 流量彙總
+ */
+export interface SocketSummary {
+  connects: number; // 建立的 WebSocket 連線數
+  disconnects: number; // 頁面仍開啟時發生的斷線數
+  reconnects: number; // 斷線後重新建立的連線數
+  events: SocketEventStats[];
+}
+
+/**
+ * 進行中的 Action
+ */
+interface PendingAction {
+  actionId: number;
+  actionName: string;
+  time: number; // 開始時間
+  phase?: string; // 開始時的負載階段
+  apiCalls: number; // 期間完成的 API 呼叫數
+  apiMs: number; // 期間完成的 API 呼叫耗時總和
+}
+
+/**
+ * Socket.io 事件的累計值
+ */
+interface SocketEventAggregate {
+  direction: SocketDirection;
+  event: string;
+  count: number;
+  bytes: number;
+  maxBytes: number;
+  users: Set<number>;
+  lags: number[];
+  firstTime: number;
+  lastTime: number;
+}
+
+/**
+ * 計算百分位數（Nearest-Rank 法）
+ * @param sorted 已由小到大排序的數值
+ * @param p 百分位 (0-100)
+ * @returns 百分位數值（空陣列時返回 0）
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * MetricsCollector 類別
+ * 收集每位虛擬使用者每次 Action 呼叫的耗時與結果，並於測試結束時計算延遲百分位與成功率
+ *
+ * 使用方式：
+ * - 同一個 Session 的所有 GameActions 共用一個 MetricsCollector 實例
+ * - GameActions 於 Action「開始」時呼叫 begin()，於「成功 / 失敗」時呼叫 end()
+ * - NetworkRecorder 於每次後端 API 呼叫完成時呼叫 recordApiCall()，並以 currentAction() 歸屬至進行中的 Action
+ */
+export class MetricsCollector {
+  private records: ActionRecord[] = [];
+  private apiCalls: ApiCallRecord[] = [];
+  private consistency: ConsistencyRecord[] = [];
+  private invariantChecks: InvariantCheckRecord[] = [];
+  private invariantViolations: InvariantViolation[] = [];
+  private stalls: StallRecord[] = [];
+  private lastSuccess = new Map<number, number>(); // 使用者編號 → 最近一次成功 Action 的結束時間
+  private socketEvents = new Map<string, SocketEventAggregate>(); // "方向 事件" → 彙總值（訊框量大，不保留逐筆紀錄）
+  private socketConnections: Record<SocketConnectionEvent, number> = { connect: 0, disconnect: 0, reconnect: 0 };
+  private pending = new Map<string, PendingAction>(); // key → 進行中的 Action
+  private phase?: string; // 目前的負載階段
+
+  /**
+   * 產生進行中 Action 的索引鍵
+   * 同一位使用者的同一個 Action 同時只會有一筆進行中紀錄
+   */
+  private key(userIndex: number, actionId: number, actionName: string): string {
+    return `${userIndex}:${actionId}:${actionName}`;
+  }
+
+  /**
+   * 設定目前的負載階段（由 orchestrator 於階段切換時呼叫）
+   * 之後開始的 Action 紀錄皆標記此階段；傳入 undefined 表示不標記
+   */
+  setPhase(phase: string | undefined): void {
+    this.phase = phase;
+  }
+
+  /**
+   * 取得目前的負載階段
+   */
+  getPhase(): string | undefined {
+    return this.phase;
+  }
+
+  /**
+   * 標記 Action 開始
+   */
+  begin(userIndex: number, actionId: number, actionName: string, time: number = Date.now()): void {
+    this.pending.set(this.key(userIndex, actionId, actionName), { actionId, actionName, time, phase: this.phase, apiCalls: 0, apiMs: 0 });
+  }
+
+  /**
+   * 取得使用者目前進行中的 Action（多個進行中時以最後開始者為準）
+   */
+  currentAction(userIndex: number): { actionId: number; actionName: string } | undefined {
+    const prefix = `${userIndex}:`;
+    let current: PendingAction | undefined;
+    for (const [key, action] of this.pending) {
+      if (key.startsWith(prefix)) current = action;
+    }
+    return current ? { actionId: current.actionId, actionName: current.actionName } : undefined;
+  }
+
+  /**
+   * 標記 Action 結束並寫入紀錄
+   * 若找不到對應的 begin()（例如重複回報結束），則忽略
+   * @param failureKind 失敗分類（outcome = failure 時使用，省略視為 error）
+   */
+  end(
+    userIndex: number,
+    actionId: number,
+    actionName: string,
+    outcome: ActionOutcome,
+    reason?: string,
+    time: number = Date.now(),
+    failureKind?: ActionFailureKind
+  ): void {
+    const key = this.key(userIndex, actionId, actionName);
+    const started = this.pending.get(key);
+    if (started === undefined) return;
+
+    const startTime = started.time;
+    this.pending.delete(key);
+    if (outcome === "success") this.lastSuccess.set(userIndex, time);
+    this.records.push({
+      userIndex,
+      actionId,
+      actionName,
+      startTime,
+      endTime: time,
+      durationMs: time - startTime,
+      outcome,
+      ...(outcome === "failure" && reason ? { reason } : {}),
+      ...(outcome === "failure" ? { failureKind: failureKind ?? "error" } : {}),
+      ...(started.phase !== undefined ? { phase: started.phase } : {}),
+      ...(started.apiCalls > 0 ? { apiCalls: started.apiCalls, apiMs: started.apiMs } : {}),
+    });
+  }
+
+  /**
+   * 寫入一筆後端 API 呼叫紀錄
+   * 若所屬 Action 仍在進行中，一併累計至該 Action 的 apiCalls / apiMs
+   */
+  recordApiCall(record: ApiCallRecord): void {
+    this.apiCalls.push(record);
+    if (record.actionId === undefined || record.actionName === undefined) return;
+
+    const action = this.pending.get(this.key(record.userIndex, record.actionId, record.actionName));
+    if (action) {
+      action.apiCalls++;
+      action.apiMs += record.durationMs;
+    }
+  }
+
+  /**
+   * 寫入一筆後端狀態驗證紀錄（phase 未指定時使用目前的負載階段）
+   */
+  recordConsistency(record: ConsistencyRecord): void {
+    this.consistency.push({ phase: this.phase, ...record });
+  }
+
+  /**
+   * 寫入一次資產守恆檢查與其違規紀錄（違規的 phase 未指定時使用目前的負載階段）
+   */
+  recordInvariantCheck(check: InvariantCheckRecord, violations: InvariantViolation[]): void {
+    this.invariantChecks.push(check);
+    this.invariantViolations.push(...violations.map((v) => ({ phase: this.phase, ...v })));
+  }
+
+  /**
+   * 附加檔案（例如失敗截圖）至該使用者最近一次完成的同名 Action 紀錄
+   * GameActions 會在回報「失敗」之後才截圖，因此以最近一筆紀錄為準
+   */
+  attachArtifact(userIndex: number, actionId: number, actionName: string, filePath: string): void {
+    for (let i = this.records.length - 1; i >= 0; i--) {
+      const record = this.records[i];
+      if (record.userIndex === userIndex && record.actionId === actionId && record.actionName === actionName) {
+        record.artifacts = [...(record.artifacts || []), filePath];
+        return;
+      }
+    }
+  }
+
+  /**
+   * 捨棄進行中的 Action（不列入統計）
+   * 用於有限等待逾時等「沒有發生任何事」的情況；等待如期結束，仍視為該使用者最近一次成功的活動
+   */
+  discard(userIndex: number, actionId: number, actionName: string, time: number = Date.now()): void {
+    if (this.pending.delete(this.key(userIndex, actionId, actionName))) {
+      this.lastSuccess.set(userIndex, time);
+    }
+  }
+
+  /**
+   * 取得使用者最近一次成功 Action 的結束時間（尚未成功過時返回 undefined）
+   * RunSupervisor 以此判斷虛擬使用者是否停滯
+   */
+  lastSuccessAt(userIndex: number): number | undefined {
+    return this.lastSuccess.get(userIndex);
+  }
+
+  /**
+   * 寫入一筆停滯紀錄（phase 未指定時使用目前的負載階段）
+   */
+  recordStall(record: StallRecord): void {
+    this.stalls.push({ phase: this.phase, ...record });
+  }
+
+  /**
+   * 取得所有停滯紀錄
+   */
+  getStalls(): StallRecord[] {
+    return [...this.stalls];
+  }
+
+  /**
+   * 取得所有已完成的紀錄
+   */
+  getRecords(): ActionRecord[] {
+    return [...this.records];
+  }
+
+  /**
+   * 累計一個 Socket.io 訊框
+   */
+  recordSocketFrame(frame: SocketFrame): void {
+    const key = `${frame.direction} ${frame.event}`;
+    let aggregate = this.socketEvents.get(key);
+    if (!aggregate) {
+      aggregate = {
+        direction: frame.direction,
+        event: frame.event,
+        count: 0,
+        bytes: 0,
+        maxBytes: 0,
+        users: new Set(),
+        lags: [],
+        firstTime: frame.time,
+        lastTime: frame.time,
+      };
+      this.socketEvents.set(key, aggregate);
+    }
+
+    aggregate.count++;
+    aggregate.bytes += frame.bytes;
+    aggregate.maxBytes = Math.max(aggregate.maxBytes, frame.bytes);
+    aggregate.users.add(frame.userIndex);
+    aggregate.firstTime = Math.min(aggregate.firstTime, frame.time);
+    aggregate.lastTime = Math.max(aggregate.lastTime, frame.time);
+    if (frame.lagMs !== undefined) aggregate.lags.push(frame.lagMs);
+  }
+
+  /**
+   * 累計一次 Socket 連線事件
+   */
+  recordSocketConnection(event: SocketConnectionEvent): void {
+    this.socketConnections[event]++;
+  }
+
+  /**
+   * Socket.io 流量彙總（事件依方向、名稱排序）
+   */
+  summarizeSocket(): SocketSummary {
+    const events: SocketEventStats[] = [];
+    for (const a of this.socketEvents.values()) {
+      const lags = [...a.lags].sort((x, y) => x - y);
+      const spanSec = Math.max(1, (a.lastTime - a.firstTime) / 1000);
+      events.push({
+        direction: a.direction,
+        event: a.event,
+        count: a.count,
+        users: a.users.size,
+        ratePerSec: Math.round((a.count / spanSec) * 100) / 100,
+        avgBytes: Math.round(a.bytes / a.count),
+        maxBytes: a.maxBytes,
+        lagP50: percentile(lags, 50),
+        lagP90: percentile(lags, 90),
+        lagMax: lags.length > 0 ? lags[lags.length - 1] : 0,
+      });
+    }
+
+    return {
+      connects: this.socketConnections.connect,
+      disconnects: this.socketConnections.disconnect,
+      reconnects: this.socketConnections.reconnect,
+      events: events.sort((a, b) => b.direction.localeCompare(a.direction) || a.event.localeCompare(b.event)),
+    };
+  }
+
+  /**
+   * 取得所有後端 API 呼叫紀錄
+   */
+  getApiCalls(): ApiCallRecord[] {
+    return [...this.apiCalls];
+  }
+
+  /**
+   * 取得所有後端狀態驗證紀錄
+   */
+  getConsistencyRecords(): ConsistencyRecord[] {
+    return [...this.consistency];
+  }
+
+  /**
+   * 取得所有資產守恆檢查紀錄（依檢查時間排序）
+   */
+  getInvariantChecks(): InvariantCheckRecord[] {
+    return [...this.invariantChecks];
+  }
+
+  /**
+   * 取得所有資產守恆違規紀錄
+   */
+  getInvariantViolations(): InvariantViolation[] {
+    return [...this.invariantViolations];
+  }
+
+  /**
+   * 依 Action 彙總後端狀態驗證結果（依 Action ID 排序）
+   */
+  summarizeConsistency(): ConsistencyStats[] {
+    const groups = new Map<string, ConsistencyStats>();
+    for (const record of this.consistency) {
+      const key = `${record.actionId}:${record.actionName}`;
+      const stats = groups.get(key) || {
+        actionId: record.actionId,
+        actionName: record.actionName,
+        checks: 0,
+        matchCount: 0,
+        mismatchCount: 0,
+        skippedCount: 0,
+      };
+      stats.checks++;
+      if (record.status === "match") stats.matchCount++;
+      else if (record.status === "mismatch") stats.mismatchCount++;
+      else stats.skippedCount++;
+      groups.set(key, stats);
+    }
+
+    return [...groups.values()].sort((a, b) => a.actionId - b.actionId || a.actionName.localeCompare(b.actionName));
+  }
+
+  /**
+   * 依 Action 彙總統計（依 Action ID 排序）
+   * @param phase 僅統計指定負載階段的紀錄（省略則統計全部）
+   */
+  summarize(phase?: string): ActionStats[] {
+    const groups = new Map<string, ActionRecord[]>();
+    for (const record of this.records) {
+      if (phase !== undefined && record.phase !== phase) continue;
+      const key = `${record.actionId}:${record.actionName}`;
+      const group = groups.get(key) || [];
+      group.push(record);
+      groups.set(key, group);
+    }
+
+    const stats: ActionStats[] = [];
+    for (const group of groups.values()) {
+      const durations = group.map((r) => r.durationMs).sort((a, b) => a - b);
+      const apiDurations = group.filter((r) => r.apiMs !== undefined).map((r) => r.apiMs!).sort((a, b) => a - b);
+      const successCount = group.filter((r) => r.outcome === "success").length;
+      const failures = group.filter((r) => r.outcome === "failure");
+      const rejectedCount = failures.filter((r) => r.failureKind === "rejected").length;
+      const timeoutCount = failures.filter((r) => r.failureKind === "timeout").length;
+
+      stats.push({
+        actionId: group[0].actionId,
+        actionName: group[0].actionName,
+        count: group.length,
+        successCount,
+        failureCount: group.length - successCount,
+        rejectedCount,
+        timeoutCount,
+        errorCount: failures.length - rejectedCount - timeoutCount,
+        successRate: successCount / group.length,
+        p50: percentile(durations, 50),
+        p90: percentile(durations, 90),
+        p99: percentile(durations, 99),
+        max: durations[durations.length - 1],
+        apiP50: percentile(apiDurations, 50),
+        apiP90: percentile(apiDurations, 90),
+      });
+    }
+
+    return stats.sort((a, b) => a.actionId - b.actionId || a.actionName.localeCompare(b.actionName));
+  }
+
+  /**
+   * 依 API 端點彙總統計（依端點、方法排序）
+   * @param phase 僅統計指定負載階段的呼叫（省略則統計全部）
+   */
+  summarizeApi(phase?: string): ApiStats[] {
+    const groups = new Map<string, ApiCallRecord[]>();
+    for (const call of this.apiCalls) {
+      if (phase !== undefined && call.phase !== phase) continue;
+      const key = `${call.method} ${call.endpoint}`;
+      const group = groups.get(key) || [];
+      group.push(call);
+      groups.set(key, group);
+    }
+
+    const stats: ApiStats[] = [];
+    for (const group of groups.values()) {
+      const durations = group.map((c) => c.durationMs).sort((a, b) => a - b);
+      const errorCount = group.filter((c) => c.status === 0 || c.status >= 400).length;
+
+      stats.push({
+        method: group[0].method,
+        endpoint: group[0].endpoint,
+        count: group.length,
+        errorCount,
+        errorRate: errorCount / group.length,
+        p50: percentile(durations, 50),
+        p90: percentile(durations, 90),
+        p99: percentile(durations, 99),
+        max: durations[durations.length - 1],
+      });
+    }
+
+    return stats.sort((a, b) => a.endpoint.localeCompare(b.endpoint) || a.method.localeCompare(b.method));
+  }
+
+  /**
+   * 輸出彙總表格至 Console
+   */
+  printSummary(): void {
+    const stats = this.summarize();
+    console.log(`\n📊 Action 延遲統計（共 ${this.records.length} 筆紀錄）`);
+    console.table(
+      stats.map((s) => ({
+        Action: `${s.actionId.toString().padStart(2, "0")} ${s.actionName}`,
+        次數: s.count,
+        成功率: `${(s.successRate * 100).toFixed(1)}%`,
+        "拒絕/逾時/錯誤": `${s.rejectedCount}/${s.timeoutCount}/${s.errorCount}`,
+        "p50 (ms)": s.p50,
+        "p90 (ms)": s.p90,
+        "p99 (ms)": s.p99,
+        "max (ms)": s.max,
+        "後端 p50 (ms)": s.apiP50,
+      }))
+    );
+
+    const api = this.summarizeApi();
+    if (api.length > 0) {
+      console.log(`\n🌐 後端 API 延遲統計（共 ${this.apiCalls.length} 筆呼叫）`);
+      console.table(
+        api.map((s) => ({
+          API: `${s.method} ${s.endpoint}`,
+          次數: s.count,
+          錯誤率: `${(s.errorRate * 100).toFixed(1)}%`,
+          "p50 (ms)": s.p50,
+          "p90 (ms)": s.p90,
+          "p99 (ms)": s.p99,
+          "max (ms)": s.max,
+        }))
+      );
+    }
+
+    this.printSocketSummary();
+    this.printConsistencySummary();
+    this.printInvariantSummary();
+    this.printStallSummary();
+  }
+
+  /**
+   * 輸出停滯紀錄至 Console（沒有停滯時略過）
+   */
+  private printStallSummary(): void {
+    if (this.stalls.length === 0) return;
+    console.log(`\n⏸️ 停滯偵測（${this.stalls.length} 次）`);
+    console.table(
+      this.stalls.map((s) => ({
+        User: s.userIndex,
+        "停滯 (秒)": Math.round(s.idleMs / 1000),
+        Action: s.action ?? "-",
+        處置: s.decision === "restart" ? "重新啟動" : "放棄",
+      }))
+    );
+  }
+
+  /**
+   * 輸出資產守恆違規至 Console（未開啟檢查時略過）
+   */
+  private printInvariantSummary(): void {
+    if (this.invariantChecks.length === 0) return;
+    console.log(
+      `\n⚖️ 資產守恆檢查（${this.invariantChecks.length} 個遊戲日，違規 ${this.invariantViolations.length} 筆）`
+    );
+    if (this.invariantViolations.length === 0) return;
+    console.table(
+      this.invariantViolations.map((v) => ({
+        天數: v.day,
+        User: v.userIndex ?? "全體",
+        規則: v.rule,
+        內容: v.detail,
+      }))
+    );
+  }
+
+  /**
+   * 輸出後端狀態驗證表格至 Console（未開啟驗證時略過）
+   */
+  private printConsistencySummary(): void {
+    const stats = this.summarizeConsistency();
+    if (stats.length === 0) return;
+    const mismatches = stats.reduce((sum, s) => sum + s.mismatchCount, 0);
+    console.log(`\n🧾 後端狀態驗證（一致性失敗 ${mismatches} 次）`);
+    console.table(
+      stats.map((s) => ({
+        Action: `${s.actionId.toString().padStart(2, "0")} ${s.actionName}`,
+        驗證次數: s.checks,
+        一致: s.matchCount,
+        不一致: s.mismatchCount,
+        略過: s.skippedCount,
+      }))
+    );
+  }
+
+  /**
+   * 輸出 Socket.io 流量表格至 Console（沒有任何訊框時略過）
+   */
+  private printSocketSummary(): void {
+    const socket = this.summarizeSocket();
+    if (socket.events.length === 0) return;
+    console.log(`\n📡 Socket.io 流量統計（連線 ${socket.connects} 次，斷線 ${socket.disconnects} 次，重連 ${socket.reconnects} 次）`);
+    console.table(
+      socket.events.map((e) => ({
+        事件: `${e.direction === "received" ? "⬇" : "⬆"} ${e.event}`,
+        訊框數: e.count,
+        使用者: e.users,
+        "每秒": e.ratePerSec,
+        "平均大小 (B)": e.avgBytes,
+        "推播延遲 p50 (ms)": e.lagP50,
+        "推播延遲 p90 (ms)": e.lagP90,
+      }))
+    );
+  }
+}
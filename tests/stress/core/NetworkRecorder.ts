@@ -0,0 +1,132 @@
+// tests/stress/core/NetworkRecorder.ts
+import { BrowserContext, Request, Response } from "@playwright/test";
+import { API_URL } from "../config";
+import { MetricsCollector } from "./MetricsCollector";
+import { API_ENDPOINTS } from "./Readiness";
+
+/**
+ * 後端 API 呼叫紀錄器
+ *
+ * GameActions 量測的是「點擊 → 畫面出現結果」的 UI 耗時；本模組於 BrowserContext 層級監聽
+ * request / response，記錄每次打到後端（API_URL）的 XHR / fetch 呼叫，並歸屬至送出時進行中的 Action。
+ * 兩者對照即可區分「後端慢」與「前端渲染慢」：
+ * - Action 耗時高、後端耗時也高 → 後端瓶頸
+ * - Action 耗時高、後端耗時低 → 前端渲染、Toast 等待或 Socket 推播延遲
+ */
+
+// ==================== 端點正規化 ====================
+
+/**
+ * 參數化路由（避免每個帳號各自成為一個端點），由 API_ENDPOINTS 中含「:參數」的路徑產生，隨 STRESS_API_ROUTES 覆寫
+ */
+const ENDPOINT_PATTERNS: Array<[RegExp, string]> = Object.values(API_ENDPOINTS)
+  .filter((endpoint) => endpoint.path.includes("/:"))
+  .map((endpoint) => [new RegExp(`^${endpoint.path.replace(/\/:[^/]+/g, "/[^/]+")}$`), endpoint.path]);
+
+/**
+ * 將網址正規化為端點路徑（去除 origin 與 query，參數化路由與數字 ID 以佔位符取代）
+ * 例如 https://host/api/admin/users/stress01/employee?x=1 → /api/admin/users/:username/employee
+ */
+export function normalizeEndpoint(url: string): string {
+  const pathname = new URL(url).pathname.replace(/\/+$/, "") || "/";
+  for (const [pattern, endpoint] of ENDPOINT_PATTERNS) {
+    if (pattern.test(pathname)) return endpoint;
+  }
+  return pathname.replace(/\/\d+(?=\/|$)/g, "/:id");
+}
+
+// ==================== NetworkRecorder ====================
+
+/**
+ * 進行中的請求
+ */
+interface InflightRequest {
+  startTime: number; // 送出時間（毫秒時間戳）
+  status?: number; // 收到 response 後寫入
+  action?: { actionId: number; actionName: string }; // 送出時進行中的 Action
+  phase?: string; // 送出時的負載階段
+}
+
+/**
+ * NetworkRecorder 類別
+ * 每位虛擬使用者的 BrowserContext 各掛載一個，紀錄寫入共用的 MetricsCollector
+ */
+export class NetworkRecorder {
+  private inflight = new Map<Request, InflightRequest>();
+  private apiOrigin: string;
+
+  /**
+   * 建構函式
+   * @param userIndex 使用者編號（與 GameActions 相同，用於歸屬進行中的 Action）
+   * @param metrics 指標收集器（與 GameActions 共用同一個實例）
+   * @param apiUrl 後端 API 網址（預設 config.ts 的 API_URL）
+   */
+  constructor(
+    private userIndex: number,
+    private metrics: MetricsCollector,
+    apiUrl: string = API_URL
+  ) {
+    this.apiOrigin = new URL(apiUrl).origin;
+  }
+
+  /**
+   * 監聽 BrowserContext 內所有頁面的請求（Context 關閉時未完成的請求不列入紀錄）
+   */
+  attach(context: BrowserContext): void {
+    context.on("request", (request) => this.onRequest(request));
+    context.on("response", (response) => this.onResponse(response));
+    context.on("requestfinished", (request) => this.onFinished(request));
+    context.on("requestfailed", (request) => this.onFinished(request, request.failure()?.errorText || "請求失敗"));
+  }
+
+  /**
+   * 是否為後端 API 呼叫（XHR / fetch、同 API_URL origin，排除 Socket.io 長輪詢）
+   */
+  private isApiRequest(request: Request): boolean {
+    if (!["xhr", "fetch"].includes(request.resourceType())) return false;
+    const url = new URL(request.url());
+    return url.origin === this.apiOrigin && !url.pathname.startsWith("/socket.io/");
+  }
+
+  private onRequest(request: Request): void {
+    if (!this.isApiRequest(request)) return;
+    this.inflight.set(request, {
+      startTime: Date.now(),
+      action: this.metrics.currentAction(this.userIndex),
+      phase: this.metrics.getPhase(),
+    });
+  }
+
+  private onResponse(response: Response): void {
+    const entry = this.inflight.get(response.request());
+    if (entry) entry.status = response.status();
+  }
+
+  /**
+   * 請求完成（含 4xx / 5xx）或失敗時寫入紀錄
+   * 優先使用瀏覽器回報的 timing（不受 Node 事件迴圈延遲影響），取不到時以事件時間計算
+   */
+  private onFinished(request: Request, failure?: string): void {
+    const entry = this.inflight.get(request);
+    if (!entry) return;
+    this.inflight.delete(request);
+
+    const timing = request.timing();
+    const startTime = timing.startTime > 0 ? Math.round(timing.startTime) : entry.startTime;
+    const endTime = timing.responseEnd > 0 ? Math.round(timing.startTime + timing.responseEnd) : Date.now();
+
+    this.metrics.recordApiCall({
+      userIndex: this.userIndex,
+      method: request.method(),
+      endpoint: normalizeEndpoint(request.url()),
+      url: request.url(),
+      status: failure ? 0 : entry.status ?? 0,
+      startTime,
+      endTime,
+      durationMs: Math.max(0, endTime - startTime),
+      ...(failure ? { failure } : {}),
+      ...(entry.action ?? {}),
+      ...(entry.phase !== undefined ? { phase: entry.phase } : {}),
+    });
+  }
+}
@@ -0,0 +1,769 @@
+// tests/stress/core/ProtocolBot.ts
+import { io, Socket } from "socket.io-client";
+import { API_URL, GAME_START_TIMEOUT_MS, SOCKET_TICK_EVENT } from "../config";
+import { ACTION_STATUS_LABELS, ActionFailure, ActionResult, ActionSuccess, failureKindOf } from "./ActionResult";
+import { AssetData, ContractData, GameDriver, MiniGameKind, MiniGameOption } from "./GameDriver";
+import { ActionFailureKind, MetricsCollector, SocketDirection } from "./MetricsCollector";
+import { API_ENDPOINTS, ApiEndpoint, SOCKET_EVENTS } from "./Readiness";
+
+/**
+ * 協定層機器人（不開瀏覽器）
+ *
+ * 每位瀏覽器使用者需要一個 Chromium BrowserContext，一台機器只能跑數十人；活動現場卻是整場的玩家同時在線。
+ * ProtocolBot 直接以後端 REST API 與 Socket.io 協定實作 GameDriver
+ * （註冊、登入、讀取資產 / 合約、現貨與合約交易、借還款、問答與少數決），回傳與 GameActions 相同的 ActionResult，
+ * 角色（personas.ts）不需修改即可改用機器人執行，同一場壓測可混合少量真實瀏覽器與大量機器人。
+ *
+ * - Action 編號與 GameActions 相同；指標以「名稱（協定）」分開統計，不與瀏覽器的 UI 延遲混在一起
+ * - REST 呼叫寫入 MetricsCollector 的後端 API 統計，Socket.io 事件寫入推播統計（股價 tick 計算推播延遲）
+ * - 只有畫面效果、沒有後端請求的 Action（與地下錢莊主人對話）回傳「略過」
+ * - 協定層沒有 Overlay：「收起小遊戲」只記錄已收起的局數，之後 detectMiniGame() 不再回報該局
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 後端推播的遊戲狀態（game:state）
+ */
+interface GameState {
+  status: string; // WAITING / RUNNING / PAUSED / ENDED
+  day: number;
+  price: number;
+  serverTime?: number;
+}
+
+/**
+ * 後端推播的小遊戲狀態（minigame:state，每位玩家各自的視角）
+ */
+interface MiniGameState {
+  type: "QUIZ" | "MINORITY" | null;
+  phase: string; // IDLE / COUNTDOWN / GAMING / SETTLING / RESULT
+  round: number;
+  selectedOption: string | null;
+  reward: number;
+}
+
+/**
+ * 後端推播的玩家資產（player:assets）
+ */
+interface AssetsPayload {
+  totalAssets: number;
+  cash: number;
+  stockCount: number;
+  stockValue: number;
+  debt: number;
+  margin: number;
+  contracts: Array<{ type: string; leverage: number; amount: number }>;
+}
+
+/**
+ * 等待中的狀態條件（每收到一個推播重新檢查）
+ */
+interface StateWaiter {
+  check: () => boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * REST 呼叫結果
+ */
+interface RestResult {
+  status: number;
+  body: any;
+}
+
+/**
+ * 協定機器人的 Action 在指標中的名稱後綴
+ */
+export const PROTOCOL_ACTION_SUFFIX = "（協定）";
+
+/**
+ * 讀取玩家資料（尚未收到 player:assets 推播時使用）
+ */
+const PROFILE_ENDPOINT: ApiEndpoint = { method: "GET", path: "/api/user/me" };
+
+/**
+ * REST 請求逾時（毫秒）
+ */
+const REQUEST_TIMEOUT = 10000;
+
+/**
+ * 建立逾時錯誤（failureKindOf 以 name 判斷為逾時）
+ */
+function timeoutError(message: string): Error {
+  const error = new Error(message);
+  error.name = "TimeoutError";
+  return error;
+}
+
+// ==================== ProtocolBot ====================
+
+/**
+ * ProtocolBot 類別
+ * 實作 GameDriver（協定版本），login() 後建立 Socket.io 連線，close() 中斷
+ */
+export class ProtocolBot implements GameDriver {
+  private token: string | null = null;
+  private socket: Socket | null = null;
+  private state: GameState | null = null;
+  private miniGame: MiniGameState | null = null;
+  private collapsedRound = 0; // 已收起的小遊戲局數（模擬瀏覽器收起 Overlay）
+  private assets: AssetsPayload | null = null;
+  private lastAssetsAt = 0; // 最近一次收到 player:assets 的時間
+  private waiters = new Set<StateWaiter>();
+  // 進行中的 Action（「ID 名稱」→ 開始時間），用於產生 ActionResult 的耗時
+  private running = new Map<string, number>();
+
+  /**
+   * 建構函式
+   * @param userIndex 使用者編號（用於 Log 識別）
+   * @param metrics 指標收集器（可選，多人壓測時共用同一個實例）
+   * @param apiUrl 後端網址（REST 與 Socket.io 共用，預設 config.ts 的 API_URL）
+   */
+  constructor(
+    private userIndex: number,
+    private metrics?: MetricsCollector,
+    private apiUrl: string = API_URL
+  ) {}
+
+  // ==================== Log 與結果 ====================
+
+  /**
+   * Log 輔助函式（格式與 GameActions 相同，加上 [Bot] 標記）
+   * 「開始」與終止狀態（成功 / 略過 / 失敗 / 逾時）同時寫入 MetricsCollector
+   */
+  private log(id: number, name: string, status: string, msg: string = "", kind?: ActionFailureKind) {
+    const userStr = this.userIndex.toString().padStart(2, "0");
+    const idStr = id.toString().padStart(2, "0");
+    const kindStr = kind ? `[${ACTION_STATUS_LABELS[kind]}]` : "";
+    console.log(`[User ${userStr}][Bot][Action ${idStr}] ${name}: ${status}${kindStr} ${msg}`);
+
+    const metricName = `${name}${PROTOCOL_ACTION_SUFFIX}`;
+    if (status === "開始") {
+      this.running.set(`${id} ${name}`, Date.now());
+      this.metrics?.begin(this.userIndex, id, metricName);
+    } else if (status === "成功" || status === "略過") {
+      this.metrics?.end(this.userIndex, id, metricName, "success");
+    } else if (status === "失敗") {
+      this.metrics?.end(this.userIndex, id, metricName, "failure", msg, undefined, kind);
+    } else if (status === "逾時") {
+      this.metrics?.discard(this.userIndex, id, metricName);
+    }
+  }
+
+  private elapsed(id: number, name: string): { elapsedMs: number; artifacts: string[] } {
+    const startTime = this.running.get(`${id} ${name}`);
+    return { elapsedMs: startTime ? Date.now() - startTime : 0, artifacts: [] };
+  }
+
+  private succeed<T = void>(id: number, name: string, msg: string, value?: T): ActionSuccess<T> {
+    this.log(id, name, "成功", msg);
+    return { ok: true, status: "ok", value: value as T, ...this.elapsed(id, name) };
+  }
+
+  private skip(id: number, name: string, msg: string): ActionSuccess<void> {
+    this.log(id, name, "略過", msg);
+    return { ok: true, status: "ok", value: undefined, ...this.elapsed(id, name) };
+  }
+
+  private fail(id: number, name: string, kind: ActionFailureKind, msg: string): ActionFailure {
+    this.log(id, name, "失敗", msg, kind);
+    return { ok: false, status: kind, message: msg, ...this.elapsed(id, name) };
+  }
+
+  private timedOut(id: number, name: string, msg: string): ActionFailure {
+    this.log(id, name, "逾時", msg);
+    return { ok: false, status: "timeout", message: msg, ...this.elapsed(id, name) };
+  }
+
+  private fromError(id: number, name: string, error: any): ActionFailure {
+    return this.fail(id, name, failureKindOf(error), error?.message ?? String(error));
+  }
+
+  /**
+   * 由 REST 回應判斷失敗（4xx 為遊戲規則拒絕，5xx 為錯誤）
+   */
+  private restFailure(id: number, name: string, result: RestResult): ActionFailure | null {
+    if (result.status < 400) return null;
+    const message = result.body?.message ?? `HTTP ${result.status}`;
+    return this.fail(id, name, result.status < 500 ? "rejected" : "error", message);
+  }
+
+  // ==================== 協定 ====================
+
+  /**
+   * 呼叫後端 REST API（寫入 MetricsCollector 的後端 API 統計，歸屬至進行中的 Action）
+   * 回應附帶 assets 時一併更新資產快取
+   */
+  private async request(endpoint: ApiEndpoint, body?: unknown): Promise<RestResult> {
+    const url = `${this.apiUrl}${endpoint.path}`;
+    const action = this.metrics?.currentAction(this.userIndex);
+    const phase = this.metrics?.getPhase();
+    const startTime = Date.now();
+    let status = 0;
+    let failure: string | undefined;
+
+    try {
+      const response = await fetch(url, {
+        method: endpoint.method,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+        },
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+      });
+      status = response.status;
+      const json: any = await response.json().catch(() => ({}));
+      if (status < 400 && json?.assets) this.updateAssets(json.assets);
+      return { status, body: json };
+    } catch (error: any) {
+      failure = error?.message ?? String(error);
+      throw error;
+    } finally {
+      const endTime = Date.now();
+      this.metrics?.recordApiCall({
+        userIndex: this.userIndex,
+        method: endpoint.method,
+        endpoint: endpoint.path,
+        url,
+        status,
+        startTime,
+        endTime,
+        durationMs: endTime - startTime,
+        ...(failure ? { failure } : {}),
+        ...(action ? { actionId: action.actionId, actionName: action.actionName } : {}),
+        ...(phase !== undefined ? { phase } : {}),
+      });
+    }
+  }
+
+  /**
+   * 建立 Socket.io 連線（以 auth.token 登入，加入個人房間接收 player:assets）
+   */
+  private connect(timeout: number): Promise<void> {
+    const socket = io(this.apiUrl, { auth: { token: this.token }, transports: ["websocket"] });
+    this.socket = socket;
+    let connectedOnce = false;
+
+    socket.on("connect", () => {
+      this.metrics?.recordSocketConnection(connectedOnce ? "reconnect" : "connect");
+      connectedOnce = true;
+    });
+    socket.on("disconnect", (reason) => {
+      if (reason === "io client disconnect") return; // close() 主動中斷
+      this.metrics?.recordSocketConnection("disconnect");
+      console.warn(`[Socket][User ${this.userIndex.toString().padStart(2, "0")}][Bot] ⚠️ 連線中斷（${reason}）`);
+    });
+
+    socket.on("game:state", (state: GameState) => {
+      this.state = state;
+      this.notify();
+    });
+    socket.on(SOCKET_EVENTS.assets, (assets: AssetsPayload) => this.updateAssets(assets));
+    socket.on(SOCKET_EVENTS.miniGame, (miniGame: MiniGameState) => {
+      this.miniGame = miniGame;
+      this.notify();
+    });
+    socket.onAny((event: string, ...args: unknown[]) => this.recordFrame("received", event, args));
+    socket.onAnyOutgoing((event: string, ...args: unknown[]) => this.recordFrame("sent", event, args));
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => reject(timeoutError(`${timeout}ms 內未建立 Socket.io 連線`)), timeout);
+      socket.once("connect", () => {
+        clearTimeout(timer);
+        resolve();
+      });
+    });
+  }
+
+  /**
+   * 寫入 Socket.io 訊框統計（大小以 JSON 長度估算；股價 tick 以 serverTime 計算推播延遲）
+   */
+  private recordFrame(direction: SocketDirection, event: string, args: unknown[]): void {
+    if (!this.metrics) return;
+    const time = Date.now();
+    const payload = args.filter((a) => typeof a !== "function");
+    const serverTime = (payload[0] as { serverTime?: unknown } | undefined)?.serverTime;
+    this.metrics.recordSocketFrame({
+      userIndex: this.userIndex,
+      direction,
+      event,
+      bytes: JSON.stringify([event, ...payload]).length,
+      time,
+      ...(direction === "received" && event === SOCKET_TICK_EVENT && typeof serverTime === "number"
+        ? { lagMs: Math.max(0, time - serverTime) }
+        : {}),
+    });
+  }
+
+  private updateAssets(assets: AssetsPayload): void {
+    this.assets = assets;
+    this.lastAssetsAt = Date.now();
+    this.notify();
+  }
+
+  /**
+   * 推播更新後重新檢查等待中的條件
+   */
+  private notify(): void {
+    for (const waiter of this.waiters) {
+      if (!waiter.check()) continue;
+      clearTimeout(waiter.timer);
+      this.waiters.delete(waiter);
+      waiter.resolve();
+    }
+  }
+
+  /**
+   * 等待推播狀態符合條件
+   * @param check 條件（每收到一個推播檢查一次）
+   * @param timeout 等待上限（毫秒），0 表示無限等待
+   * @param description 逾時訊息
+   * @param signal 中止訊號（觸發時與逾時相同，以 TimeoutError 結束等待）
+   */
+  private waitFor(check: () => boolean, timeout: number, description: string, signal?: AbortSignal): Promise<void> {
+    if (check()) return Promise.resolve();
+    if (signal?.aborted) return Promise.reject(timeoutError(`已中止，未${description}`));
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(waiter.timer);
+        this.waiters.delete(waiter);
+        reject(timeoutError(`已中止，未${description}`));
+      };
+      const waiter: StateWaiter = {
+        check,
+        resolve: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+        reject,
+      };
+      if (timeout > 0) {
+        waiter.timer = setTimeout(() => {
+          signal?.removeEventListener("abort", onAbort);
+          this.waiters.delete(waiter);
+          reject(timeoutError(`${timeout}ms 內未${description}`));
+        }, timeout);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.add(waiter);
+    });
+  }
+
+  /**
+   * 以 Socket.io 送出事件並等待 ack（{ ok, message }）
+   */
+  private emitWithAck(event: string, payload: unknown, timeout: number = REQUEST_TIMEOUT): Promise<{ ok: boolean; message: string }> {
+    if (!this.socket) return Promise.reject(new Error("尚未登入（沒有 Socket.io 連線）"));
+    return this.socket.timeout(timeout).emitWithAck(event, payload).catch(() => {
+      throw timeoutError(`${event} 在 ${timeout}ms 內未收到回應`);
+    });
+  }
+
+  /**
+   * 取得最新資產（尚未收到推播時以 REST 讀取）
+   */
+  private async currentAssets(): Promise<AssetsPayload> {
+    if (!this.assets) {
+      const result = await this.request(PROFILE_ENDPOINT);
+      if (result.status >= 400 || !result.body?.assets) {
+        throw new Error(`無法讀取玩家資料：${result.body?.message ?? `HTTP ${result.status}`}`);
+      }
+      this.updateAssets(result.body.assets);
+    }
+    return this.assets!;
+  }
+
+  /**
+   * 中斷 Socket.io 連線並結束所有等待（虛擬使用者結束時呼叫）
+   */
+  close(): void {
+    this.socket?.disconnect();
+    this.socket = null;
+    for (const waiter of this.waiters) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error("機器人已關閉"));
+    }
+    this.waiters.clear();
+  }
+
+  // ==================== Auth & Basic ====================
+
+  /**
+   * Action 00: 等待遊戲開始（game:state 的 status 為 RUNNING）
+   */
+  async waitForGameStart(): Promise<ActionResult> {
+    this.log(0, "等待遊戲開始", "開始", "");
+    try {
+      await this.waitFor(() => this.state?.status === "RUNNING", GAME_START_TIMEOUT_MS, "偵測到遊戲開始");
+      return this.succeed(0, "等待遊戲開始", `第 ${this.state!.day} 天`);
+    } catch (error: any) {
+      return this.fromError(0, "等待遊戲開始", error);
+    }
+  }
+
+  /**
+   * Action 01: 註冊
+   * @param nick 遊戲暱稱
+   * @param user 帳號
+   * @param pass 密碼
+   */
+  async register(nick: string, user: string, pass: string): Promise<ActionResult> {
+    this.log(1, "註冊", "開始", `${user}`);
+    try {
+      const result = await this.request(API_ENDPOINTS.register, { username: user, password: pass, displayName: nick });
+      return this.restFailure(1, "註冊", result) ?? this.succeed(1, "註冊", `${user}`);
+    } catch (error: any) {
+      return this.fromError(1, "註冊", error);
+    }
+  }
+
+  /**
+   * Action 02: 登入（取得 Token 後建立 Socket.io 連線）
+   */
+  async login(user: string, pass: string): Promise<ActionResult> {
+    this.log(2, "登入", "開始", `${user}`);
+    try {
+      const result = await this.request(API_ENDPOINTS.login, { username: user, password: pass });
+      const failure = this.restFailure(2, "登入", result);
+      if (failure) return failure;
+      if (!result.body?.token) {
+        return this.fail(2, "登入", "error", "登入回應沒有 Token");
+      }
+
+      this.token = result.body.token;
+      if (result.body.user?.assets) this.updateAssets(result.body.user.assets);
+      await this.connect(5000);
+      return this.succeed(2, "登入", `${user}`);
+    } catch (error: any) {
+      return this.fromError(2, "登入", error);
+    }
+  }
+
+  /**
+   * Action 19 (Alternative): 設定員工身分（需先登入）
+   * @param isEmployee 是否為員工
+   */
+  async setEmployeeStatus(isEmployee: boolean): Promise<ActionResult> {
+    const label = isEmployee ? "員工" : "訪客";
+    this.log(19, "設定員工身分", "開始", `目標=${label}`);
+    try {
+      const result = await this.request(API_ENDPOINTS.employee, { isEmployee });
+      return this.restFailure(19, "設定員工身分", result) ?? this.succeed(19, "設定員工身分", `已設為${label}`);
+    } catch (error: any) {
+      return this.fromError(19, "設定員工身分", error);
+    }
+  }
+
+  // ==================== Data ====================
+
+  /**
+   * Action 04: 讀取資產
+   */
+  async readAssets(): Promise<ActionResult<AssetData>> {
+    this.log(4, "讀取資產", "開始", "");
+    try {
+      const a = await this.currentAssets();
+      const assetData: AssetData = {
+        totalAssets: a.totalAssets,
+        cash: a.cash,
+        stockValue: a.stockValue,
+        stockCount: a.stockCount,
+        debt: a.debt,
+      };
+      return this.succeed(
+        4,
+        "讀取資產",
+        `總資產=${a.totalAssets.toFixed(2)}, 現金=${a.cash.toFixed(2)}, 股票=${a.stockCount}股, 市值=${a.stockValue.toFixed(2)}, 負債=${a.debt.toFixed(2)}`,
+        assetData
+      );
+    } catch (error: any) {
+      return this.fromError(4, "讀取資產", error);
+    }
+  }
+
+  /**
+   * Action 05: 讀取合約
+   */
+  async readContracts(): Promise<ActionResult<ContractData>> {
+    this.log(5, "讀取合約", "開始", "");
+    try {
+      const a = await this.currentAssets();
+      const contracts = a.contracts.map((c) => ({ type: c.type, leverage: c.leverage, amount: c.amount }));
+      const summary = contracts.map((c) => `${c.type} ${c.leverage}x ${c.amount}張`).join(", ");
+      return this.succeed(5, "讀取合約", `保證金=${a.margin.toFixed(2)}, 合約=[${summary}]`, { margin: a.margin, contracts });
+    } catch (error: any) {
+      return this.fromError(5, "讀取合約", error);
+    }
+  }
+
+  // ==================== Trading ====================
+
+  /**
+   * 現貨買賣共用流程（Action 06 / 07）
+   */
+  private async tradeStock(id: number, name: string, side: "BUY" | "SELL", amount: number): Promise<ActionResult> {
+    this.log(id, name, "開始", `張數=${amount}`);
+    try {
+      if (amount <= 0 || !Number.isInteger(amount)) {
+        return this.fail(id, name, "error", `張數必須為正整數: ${amount}`);
+      }
+      const result = await this.request(API_ENDPOINTS.stockTrade, { side, amount });
+      return this.restFailure(id, name, result) ?? this.succeed(id, name, `已送出${side === "BUY" ? "買入" : "賣出"} ${amount} 張的請求`);
+    } catch (error: any) {
+      return this.fromError(id, name, error);
+    }
+  }
+
+  /**
+   * Action 06: 買入股票
+   * @param amount 張數
+   */
+  async buyStock(amount: number): Promise<ActionResult> {
+    return this.tradeStock(6, "買入股票", "BUY", amount);
+  }
+
+  /**
+   * Action 07: 賣出股票
+   * @param amount 張數
+   */
+  async sellStock(amount: number): Promise<ActionResult> {
+    return this.tradeStock(7, "賣出股票", "SELL", amount);
+  }
+
+  /**
+   * Action 08: 買入合約
+   * @param type 做多 (LONG) 或做空 (SHORT)
+   * @param leverage 槓桿倍數
+   * @param amount 合約張數
+   */
+  async buyContract(type: "LONG" | "SHORT", leverage: number, amount: number): Promise<ActionResult> {
+    this.log(8, "買入合約", "開始", `${type}, ${leverage}x, ${amount}張`);
+    try {
+      if (amount <= 0 || !Number.isInteger(amount)) {
+        return this.fail(8, "買入合約", "error", `張數必須為正整數: ${amount}`);
+      }
+      const result = await this.request(API_ENDPOINTS.contractOpen, { type, leverage, amount });
+      return this.restFailure(8, "買入合約", result) ?? this.succeed(8, "買入合約", `已送出 ${type} ${leverage}x ${amount}張 的合約請求`);
+    } catch (error: any) {
+      return this.fromError(8, "買入合約", error);
+    }
+  }
+
+  /**
+   * Action 09: 撤銷今日所有合約（無合約時略過）
+   */
+  async cancelAllContracts(): Promise<ActionResult> {
+    this.log(9, "撤銷合約", "開始", "");
+    try {
+      const count = (await this.currentAssets()).contracts.length;
+      if (count === 0) {
+        return this.skip(9, "撤銷合約", "當前無合約可撤銷");
+      }
+      const result = await this.request(API_ENDPOINTS.contractCancel);
+      return this.restFailure(9, "撤銷合約", result) ?? this.succeed(9, "撤銷合約", result.body?.message ?? `已撤銷 ${count} 筆合約`);
+    } catch (error: any) {
+      return this.fromError(9, "撤銷合約", error);
+    }
+  }
+
+  // ==================== Loan Shark ====================
+
+  /**
+   * Action 11: 借 / 還錢
+   * @param action BORROW 或 REPAY
+   * @param amount 金額
+   */
+  async handleLoan(action: "BORROW" | "REPAY", amount: number): Promise<ActionResult> {
+    this.log(11, "借/還錢", "開始", `動作=${action}, 金額=${amount}`);
+    try {
+      if (amount <= 0) {
+        return this.fail(11, "借/還錢", "error", `金額必須為正數: ${amount}`);
+      }
+      const result = await this.request(API_ENDPOINTS.loan, { action, amount });
+      return this.restFailure(11, "借/還錢", result) ?? this.succeed(11, "借/還錢", `${action === "BORROW" ? "借款" : "還款"} $${amount}`);
+    } catch (error: any) {
+      return this.fromError(11, "借/還錢", error);
+    }
+  }
+
+  /**
+   * Action 19: 與地下錢莊主人互動（純畫面效果，協定層沒有對應請求）
+   */
+  async interactWithLoanShark(): Promise<ActionResult> {
+    this.log(19, "與地下錢莊主人互動", "開始", "");
+    return this.skip(19, "與地下錢莊主人互動", "協定模式沒有對話畫面");
+  }
+
+  // ==================== Mini Games ====================
+
+  /**
+   * 等待指定小遊戲開始（COUNTDOWN 或 GAMING 階段）
+   */
+  private async waitForMiniGameStart(
+    id: number,
+    name: string,
+    type: "QUIZ" | "MINORITY",
+    timeout: number,
+    signal?: AbortSignal
+  ): Promise<ActionResult> {
+    this.log(id, name, "開始", `等待 ${type} 開始`);
+    try {
+      await this.waitFor(
+        () => this.miniGame?.type === type && ["COUNTDOWN", "GAMING"].includes(this.miniGame.phase),
+        timeout,
+        `偵測到 ${type}`,
+        signal
+      );
+      return this.succeed(id, name, `第 ${this.miniGame!.round} 局`);
+    } catch (error: any) {
+      // 有限等待的逾時與中止屬於正常情況（呼叫端會重新檢查終止條件）
+      if ((timeout > 0 || signal?.aborted) && error.name === "TimeoutError") {
+        return this.timedOut(id, name, error.message);
+      }
+      return this.fromError(id, name, error);
+    }
+  }
+
+  /**
+   * 等待作答階段後送出選擇（問答 / 少數決共用）
+   */
+  private async submitMiniGame(id: number, name: string, type: "QUIZ" | "MINORITY", event: string, payload: object): Promise<ActionResult> {
+    try {
+      await this.waitFor(() => this.miniGame?.type === type && this.miniGame.phase === "GAMING", 10000, "進入作答階段");
+      const ack = await this.emitWithAck(event, payload);
+      if (!ack.ok) {
+        return this.fail(id, name, "rejected", ack.message);
+      }
+      return this.succeed(id, name, `已提交 ${JSON.stringify(payload)}`);
+    } catch (error: any) {
+      return this.fromError(id, name, error);
+    }
+  }
+
+  /**
+   * 等待結算結果並讀取資產（問答 / 少數決共用）
+   */
+  private async waitMiniGameResult(id: number, name: string, type: "QUIZ" | "MINORITY"): Promise<ActionResult<AssetData>> {
+    this.log(id, name, "開始", "等待結果...");
+    try {
+      const waitStartedAt = Date.now();
+      await this.waitFor(() => this.miniGame?.type === type && this.miniGame.phase === "RESULT", 120000, "進入結果階段");
+
+      // 結算後的資產推播（未作答或無獎金時可能沒有）
+      await this.waitFor(() => this.lastAssetsAt >= waitStartedAt, 3000, "收到資產推播").catch(() => {
+        this.log(id, name, "警告", `結算後未收到 ${SOCKET_EVENTS.assets} 推播`);
+      });
+
+      const assets = await this.readAssets();
+      if (!assets.ok) {
+        return this.fail(id, name, assets.status, `無法讀取資產資料：${assets.message}`);
+      }
+      return this.succeed(
+        id,
+        name,
+        `本局損益: $${(this.miniGame?.reward ?? 0).toFixed(2)} | 當前現金: $${assets.value.cash.toFixed(2)}`,
+        assets.value
+      );
+    } catch (error: any) {
+      return this.fromError(id, name, error);
+    }
+  }
+
+  /**
+   * Action 12: 等待問答開始
+   * @param timeout 最長等待時間（毫秒），0 表示無限等待；逾時回傳 timeout 結果（不列入指標）
+   * @param signal 中止訊號（離場或中止時立即結束等待，回傳 timeout 結果）
+   */
+  async waitForQuizStart(timeout: number = 0, signal?: AbortSignal): Promise<ActionResult> {
+    return this.waitForMiniGameStart(12, "等待問答開始", "QUIZ", timeout, signal);
+  }
+
+  /**
+   * Action 13: 問答作答
+   * @param option 選項 (A/B/C/D)
+   */
+  async answerQuiz(option: MiniGameOption): Promise<ActionResult> {
+    this.log(13, "問答作答", "開始", `選項=${option}`);
+    return this.submitMiniGame(13, "問答作答", "QUIZ", "quiz:answer", { option });
+  }
+
+  /**
+   * Action 14: 問答結果報告
+   * @returns 成功時 value 為結算後的 AssetData
+   */
+  async waitQuizResultAndReport(): Promise<ActionResult<AssetData>> {
+    return this.waitMiniGameResult(14, "問答結果報告", "QUIZ");
+  }
+
+  /**
+   * Action 15: 等待少數決開始
+   * @param timeout 最長等待時間（毫秒），0 表示無限等待；逾時回傳 timeout 結果（不列入指標）
+   * @param signal 中止訊號（離場或中止時立即結束等待，回傳 timeout 結果）
+   */
+  async waitForMinorityStart(timeout: number = 0, signal?: AbortSignal): Promise<ActionResult> {
+    return this.waitForMiniGameStart(15, "等待少數決開始", "MINORITY", timeout, signal);
+  }
+
+  /**
+   * Action 16: 少數決下注
+   * @param option 選項 (A/B/C/D)
+   * @param amount 下注金額
+   */
+  async betMinority(option: MiniGameOption, amount: number): Promise<ActionResult> {
+    this.log(16, "少數決下注", "開始", `選項=${option}, 金額=${amount}`);
+    return this.submitMiniGame(16, "少數決下注", "MINORITY", "minority:bet", { option, amount });
+  }
+
+  /**
+   * Action 18: 少數決結果報告
+   * @returns 成功時 value 為結算後的 AssetData
+   */
+  async waitMinorityResultAndReport(): Promise<ActionResult<AssetData>> {
+    return this.waitMiniGameResult(18, "少數決結果報告", "MINORITY");
+  }
+
+  /**
+   * Action 20: 收起小遊戲（協定層沒有 Overlay，只記錄已收起的局數）
+   */
+  async collapseMiniGame(): Promise<ActionResult> {
+    this.log(20, "收起小遊戲", "開始", "");
+    const miniGame = this.miniGame;
+    if (!miniGame?.type || miniGame.phase === "IDLE" || miniGame.round === this.collapsedRound) {
+      return this.skip(20, "收起小遊戲", "沒有進行中的小遊戲");
+    }
+    this.collapsedRound = miniGame.round;
+    return this.succeed(20, "收起小遊戲", `第 ${miniGame.round} 局`);
+  }
+
+  // ==================== 輔助方法 ====================
+
+  /**
+   * 輔助方法: 偵測目前進行中的小遊戲
+   * 只回報尚可參加（COUNTDOWN / GAMING 階段）且未收起的局；已進入結算的局對機器人沒有可做的事
+   */
+  async detectMiniGame(): Promise<MiniGameKind | null> {
+    const miniGame = this.miniGame;
+    if (!miniGame?.type || !["COUNTDOWN", "GAMING"].includes(miniGame.phase) || miniGame.round === this.collapsedRound) {
+      return null;
+    }
+    return miniGame.type === "QUIZ" ? "quiz" : "minority";
+  }
+
+  /**
+   * 輔助方法: 讀取當前股價（尚未收到 game:state 時返回 0）
+   */
+  async getCurrentStockPrice(): Promise<number> {
+    return this.state?.price ?? 0;
+  }
+
+  /**
+   * 輔助方法: 讀取當前遊戲天數（尚未收到 game:state 時返回 0）
+   */
+  async getCurrentDay(): Promise<number> {
+    return this.state?.day ?? 0;
+  }
+}
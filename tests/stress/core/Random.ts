@@ -0,0 +1,72 @@
+// tests/stress/core/Random.ts
+import { RUN_SEED } from "../config";
+
+/**
+ * 可重現的隨機數來源
+ * 所有角色決策（交易數量、做多 / 做空、槓桿、小遊戲選項、策略抽選）都透過此模組取得隨機數，
+ * 以相同的 STRESS_SEED 重跑時，每位虛擬使用者會得到相同的決策序列
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 隨機數來源（與 Math.random 相同介面，回傳 [0, 1) 的數值）
+ */
+export type RandomSource = () => number;
+
+/**
+ * 隨機數串流名稱
+ * 同一位使用者的不同用途使用獨立串流，避免策略檔變動時影響後續的動作序列
+ * - strategy：從 user-strategies.json 的多組策略中抽選
+ * - actions：角色迴圈中的每一次決策
+ */
+export type RandomStream = "strategy" | "actions";
+
+// ==================== 種子處理 ====================
+
+/**
+ * 由執行種子與識別鍵推導子種子（FNV-1a 雜湊）
+ * 例如 deriveSeed(seed, 3, "actions") 為 User 03 的動作串流種子
+ */
+export function deriveSeed(seed: number, ...keys: Array<string | number>): number {
+  let hash = 0x811c9dc5 ^ seed;
+  for (const char of `${seed}:${keys.join(":")}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ==================== 隨機數產生 ====================
+
+/**
+ * 建立以種子初始化的隨機數來源（Mulberry32）
+ * 相同種子必定產生相同序列
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+/**
+ * 取得指定使用者的隨機數串流
+ * @param userIndex 使用者編號
+ * @param stream 串流名稱（預設 actions）
+ * @param seed 執行種子（預設 RUN_SEED）
+ */
+export function userRandom(userIndex: number, stream: RandomStream = "actions", seed: number = RUN_SEED): RandomSource {
+  return createRandom(deriveSeed(seed, userIndex, stream));
+}
+
+/**
+ * 產生隨機整數（包含 min 和 max）
+ */
+export function randomInt(min: number, max: number, random: RandomSource = Math.random): number {
+  return Math.floor(random() * (max - min + 1)) + min;
+}
@@ -0,0 +1,301 @@
+// tests/stress/core/Readiness.ts
+import { Locator } from "@playwright/test";
+import { API_ROUTE_OVERRIDES, SOCKET_ASSETS_EVENT, SOCKET_MINIGAME_EVENT, SOCKET_TICK_EVENT } from "../config";
+import { decodeSocketIoFrame } from "./SocketRecorder";
+
+/**
+ * 就緒條件（取代固定秒數的 waitForTimeout）
+ *
+ * GameActions 的耗時會寫入 MetricsCollector，固定的等待會灌水每個 Action 的耗時並掩蓋退化。
+ * 本模組提供「等到某件事發生」的等待方式，每個條件都有上限，逾時回傳 false / null 而不拋出錯誤，
+ * 由呼叫端決定要改用 DOM 檢查或直接判定失敗。端點與事件名稱可由環境變數覆寫（見 config.ts），
+ * 從未出現過的端點 / 事件逾時一次後即記為缺漏，之後不再等待（出現後恢復），避免名稱不符時每次都等到逾時：
+ * - Socket.io 事件：等待頁面收到指定事件（例如交易後的 player:assets）
+ * - 後端 API：在觸發操作前先註冊 waitForResponse，等待對應端點回應
+ * - DOM 變動：等待頁面在 quietMs 內沒有任何 DOM 變動（React 重新渲染、動畫結束）
+ * - 文字變動：等待元素文字不再等於先前的值
+ */
+
+// ==================== 端點與事件 ====================
+
+/**
+ * 後端 API 端點
+ */
+export interface ApiEndpoint {
+  method: string;
+  path: string;
+}
+
+/**
+ * 預設端點（對應 mock/server.ts 的路由）
+ */
+const DEFAULT_API_ENDPOINTS = {
+  register: { method: "POST", path: "/api/auth/register" },
+  login: { method: "POST", path: "/api/auth/login" },
+  avatar: { method: "PUT", path: "/api/user/avatar" },
+  employee: { method: "PUT", path: "/api/user/employee" },
+  adminEmployee: { method: "PUT", path: "/api/admin/users/:username/employee" }, // 後台代為設定（:username 為玩家帳號）
+  stockTrade: { method: "POST", path: "/api/trade/stock" },
+  contractOpen: { method: "POST", path: "/api/trade/contract" },
+  contractCancel: { method: "DELETE", path: "/api/trade/contract" },
+  loan: { method: "POST", path: "/api/loan" },
+};
+
+/**
+ * 端點名稱
+ */
+export type ApiEndpointName = keyof typeof DEFAULT_API_ENDPOINTS;
+
+/**
+ * 以覆寫值取代預設端點
+ * @param overrides 端點名稱 → 端點（config.ts 的 API_ROUTE_OVERRIDES）
+ * @throws 覆寫了不存在的端點名稱時
+ */
+export function resolveApiEndpoints(overrides: Record<string, ApiEndpoint>): Record<ApiEndpointName, ApiEndpoint> {
+  const unknown = Object.keys(overrides).filter((name) => !(name in DEFAULT_API_ENDPOINTS));
+  if (unknown.length > 0) {
+    throw new Error(
+      `❌ 配置錯誤：STRESS_API_ROUTES 含有不存在的端點 ${unknown.join(", ")}（可用：${Object.keys(DEFAULT_API_ENDPOINTS).join(", ")}）`
+    );
+  }
+  return { ...DEFAULT_API_ENDPOINTS, ...overrides };
+}
+
+/**
+ * GameActions 會等待回應、ProtocolBot 會呼叫的端點（可用 STRESS_API_ROUTES 覆寫）
+ */
+export const API_ENDPOINTS = resolveApiEndpoints(API_ROUTE_OVERRIDES);
+
+/**
+ * GameActions 會等待的 Socket.io 事件
+ */
+export const SOCKET_EVENTS = {
+  assets: SOCKET_ASSETS_EVENT, // 個人資產（交易、借還款、小遊戲結算後推播）
+  miniGame: SOCKET_MINIGAME_EVENT, // 小遊戲狀態
+  tick: SOCKET_TICK_EVENT, // 股價 tick
+} as const;
+
+/**
+ * API 回應結果
+ */
+export interface ApiResult {
+  status: number; // HTTP 狀態碼
+  durationMs: number; // 觸發操作至收到回應的時間
+  message?: string; // 回應內容的 message 欄位（後端拒絕時為錯誤訊息，例如「現金不足」）
+}
+
+/**
+ * 格式化 API 回應結果（用於 Action Log）
+ */
+export function formatApiResult(endpoint: ApiEndpoint, result: ApiResult | null): string {
+  const name = `${endpoint.method} ${endpoint.path}`;
+  if (!result) return `${name} 未在時限內回應`;
+  return `${name} → ${result.status}（${result.durationMs}ms）${result.message ? ` ${result.message}` : ""}`;
+}
+
+// ==================== Readiness ====================
+
+/**
+ * Readiness 使用的 Page 功能（Playwright Page 皆符合；測試可傳入以事件模擬的假 Page）
+ */
+export interface ReadinessPage {
+  on(event: "websocket", listener: (ws: SocketFrameSource) => void): unknown;
+  waitForResponse(predicate: (response: ApiResponse) => boolean, options: { timeout: number }): Promise<ApiResponse>;
+  evaluate<R>(script: string): Promise<R>;
+}
+
+/**
+ * 後端 API 回應（Playwright Response 的子集）
+ */
+export interface ApiResponse {
+  url(): string;
+  status(): number;
+  request(): { method(): string };
+  json(): Promise<{ message?: unknown } | null>;
+}
+
+/**
+ * 收到 WebSocket 訊框的來源（Playwright WebSocket 的子集）
+ */
+export interface SocketFrameSource {
+  on(event: "framereceived", listener: (frame: { payload: string | Buffer }) => void): unknown;
+}
+
+/**
+ * 等待中的 Socket.io 事件
+ */
+interface SocketWaiter {
+  event: string;
+  since: number;
+  resolve: (received: boolean) => void;
+}
+
+/**
+ * Readiness 類別
+ * 每個 GameActions（即每個 Page）各建立一個，於建構時開始監聽頁面的 WebSocket
+ */
+export class Readiness {
+  private lastSeen = new Map<string, number>(); // 事件名稱 → 最近一次收到的時間
+  private waiters = new Set<SocketWaiter>();
+  private missedEvents = new Set<string>(); // 連線已有其他事件、卻從未收到過的事件
+  private respondedEndpoints = new Set<string>(); // 曾經回應過的端點（"方法 路徑"）
+  private missedEndpoints = new Set<string>(); // 從未回應過且已逾時一次的端點
+
+  /**
+   * 建構函式
+   * @param page Playwright Page 實例（建構前已建立的連線不會被監聽，等待時會逾時並改用 DOM 檢查）
+   */
+  constructor(private page: ReadinessPage) {
+    page.on("websocket", (ws) => this.onWebSocket(ws));
+  }
+
+  // ==================== Socket.io 事件 ====================
+
+  /**
+   * 最近一次收到指定事件的時間（尚未收到時為 undefined）
+   */
+  lastSocketEvent(event: string): number | undefined {
+    return this.lastSeen.get(event);
+  }
+
+  /**
+   * 等待頁面收到指定的 Socket.io 事件
+   * 連線已收到其他事件、此事件卻從未出現且逾時過一次時，視為事件名稱不符：之後立即回傳 false，直到收到該事件
+   * @param event 事件名稱
+   * @param options.since 只接受此時間之後收到的事件（預設為呼叫當下，即等待下一個；0 表示收到過即可）
+   * @param options.timeout 等待上限（毫秒，預設 5000）
+   * @returns 是否在時限內收到
+   */
+  waitForSocketEvent(event: string, options: { since?: number; timeout?: number } = {}): Promise<boolean> {
+    const since = options.since ?? Date.now();
+    const seenAt = this.lastSeen.get(event);
+    if (seenAt !== undefined && seenAt >= since) return Promise.resolve(true);
+    if (this.missedEvents.has(event)) return Promise.resolve(false);
+
+    return new Promise((resolve) => {
+      const waiter: SocketWaiter = {
+        event,
+        since,
+        resolve: (received) => {
+          clearTimeout(timer);
+          this.waiters.delete(waiter);
+          resolve(received);
+        },
+      };
+      const timer = setTimeout(() => {
+        if (this.lastSeen.size > 0 && !this.lastSeen.has(event)) this.missedEvents.add(event);
+        waiter.resolve(false);
+      }, options.timeout ?? 5000);
+      this.waiters.add(waiter);
+    });
+  }
+
+  private onWebSocket(ws: SocketFrameSource): void {
+    ws.on("framereceived", (frame) => {
+      const packet = decodeSocketIoFrame(frame.payload);
+      if (!packet) return;
+
+      const time = Date.now();
+      this.lastSeen.set(packet.event, time);
+      this.missedEvents.delete(packet.event);
+      for (const waiter of [...this.waiters]) {
+        if (waiter.event === packet.event && time >= waiter.since) waiter.resolve(true);
+      }
+    });
+  }
+
+  // ==================== 後端 API ====================
+
+  /**
+   * 執行操作並等待對應端點回應（先註冊監聽再觸發，避免回應早於監聽而漏接）
+   * 從未回應過的端點逾時一次後視為路徑不符：之後觸發後立即回傳 null（由呼叫端改用 DOM 檢查），
+   * 仍於背景監聽，收到回應即恢復等待
+   * @param endpoint 端點（見 API_ENDPOINTS）
+   * @param trigger 觸發請求的操作（例如點擊確認按鈕）
+   * @param timeout 等待上限（毫秒，預設 10000）
+   * @returns 回應結果（含回應內容的 message）；逾時或頁面關閉時為 null（trigger 拋出的錯誤照常拋出）
+   */
+  async withApiResponse(endpoint: ApiEndpoint, trigger: () => Promise<void>, timeout: number = 10000): Promise<ApiResult | null> {
+    const responsePromise = this.page
+      .waitForResponse(
+        (response) =>
+          response.request().method() === endpoint.method && new URL(response.url()).pathname === endpoint.path,
+        { timeout }
+      )
+      .catch(() => null);
+
+    const key = `${endpoint.method} ${endpoint.path}`;
+    if (this.missedEndpoints.has(key)) {
+      void responsePromise.then((response) => {
+        if (response) this.markResponded(key);
+      });
+      await trigger();
+      return null;
+    }
+
+    const startTime = Date.now();
+    await trigger();
+    const response = await responsePromise;
+    if (!response) {
+      if (!this.respondedEndpoints.has(key)) this.missedEndpoints.add(key);
+      return null;
+    }
+    this.markResponded(key);
+
+    const durationMs = Date.now() - startTime;
+    const body = await response.json().catch(() => undefined);
+    const message = typeof body?.message === "string" ? body.message : undefined;
+    return { status: response.status(), durationMs, ...(message !== undefined ? { message } : {}) };
+  }
+
+  private markResponded(key: string): void {
+    this.respondedEndpoints.add(key);
+    this.missedEndpoints.delete(key);
+  }
+
+  // ==================== DOM ====================
+
+  /**
+   * 等待 DOM 靜止（quietMs 內沒有任何節點、文字或屬性變動）
+   * 股價 tick 每秒更新一次畫面，quietMs 應明顯小於 1 秒
+   * @param quietMs 靜止時間（毫秒，預設 150）
+   * @param timeout 等待上限（毫秒，預設 3000）
+   * @returns 是否在時限內靜止（頁面換頁或關閉時為 false）
+   */
+  async waitForDomIdle(quietMs: number = 150, timeout: number = 3000): Promise<boolean> {
+    // 以字串傳入瀏覽器執行（避免 Node 端的型別檢查依賴 DOM lib）
+    const script = `new Promise((resolve) => {
+      const start = Date.now();
+      let last = start;
+      const observer = new MutationObserver(() => { last = Date.now(); });
+      observer.observe(document.body, { subtree: true, childList: true, characterData: true, attributes: true });
+      const check = () => {
+        const now = Date.now();
+        if (now - last >= ${quietMs}) { observer.disconnect(); resolve(true); }
+        else if (now - start >= ${timeout}) { observer.disconnect(); resolve(false); }
+        else setTimeout(check, Math.min(${quietMs} - (now - last), ${timeout} - (now - start)));
+      };
+      setTimeout(check, ${quietMs});
+    })`;
+    return this.page.evaluate<boolean>(script).catch(() => false);
+  }
+
+  /**
+   * 等待元素文字不再等於 previous
+   * @param locator 目標元素（應為單一元素，例如 .first()）
+   * @param previous 先前的文字
+   * @param timeout 等待上限（毫秒，0 表示無限等待）
+   * @returns 是否在時限內變動
+   */
+  async waitForTextChange(locator: Locator, previous: string | null, timeout: number = 5000): Promise<boolean> {
+    const unchanged = new RegExp(`^\\s*${(previous ?? "").trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\s*$`);
+    return locator
+      .filter({ hasNotText: unchanged })
+      .waitFor({ state: "visible", timeout })
+      .then(() => true)
+      .catch((error: any) => {
+        if (error.name === "TimeoutError") return false;
+        throw error;
+      });
+  }
+}
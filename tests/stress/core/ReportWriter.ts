@@ -0,0 +1,618 @@
+// tests/stress/core/ReportWriter.ts
+import * as fs from "fs";
+import * as path from "path";
+import { ACTION_STATUS_LABELS } from "./ActionResult";
+import {
+  ActionFailureKind,
+  ActionStats,
+  ApiStats,
+  ConsistencyStats,
+  InvariantCheckRecord,
+  MetricsCollector,
+  SocketSummary,
+  StallDecision,
+  percentile,
+} from "./MetricsCollector";
+
+// ==================== 型別定義 ====================
+
+/**
+ * 單一虛擬使用者的報告資料
+ */
+export interface ReportUser {
+  userIndex: number;
+  persona: string; // 角色代號（typeA…typeE）
+  username: string;
+  employee: boolean; // 是否為員工（config.ts 的 EMPLOYEE_SHARE）
+  driver: string; // 執行方式：browser（瀏覽器）/ protocol（協定層機器人，config.ts 的 PROTOCOL_SHARE）
+  strategy: string; // 策略名稱（user-strategies.json）
+  success: boolean;
+  error?: string;
+  elapsedMs: number;
+  restarts: number; // 停滯後重新啟動的次數（core/RunSupervisor.ts）
+  iterations: number; // 迭代次數（User D/E 為參與場次）
+  counters: Record<string, number>; // 角色專屬計數器
+}
+
+/**
+ * 單一角色的彙總（同角色所有虛擬使用者加總）
+ */
+export interface ReportPersonaSummary {
+  persona: string;
+  users: number;
+  employees: number; // 其中員工人數
+  bots: number; // 其中協定層機器人人數
+  iterations: number;
+  counters: Record<string, number>;
+}
+
+/**
+ * 負載階段時間窗（由 orchestrator 依負載模型產生，相對於 Session 開始的毫秒數）
+ */
+export interface ReportPhaseWindow {
+  name: string;
+  kind: string; // ramp-up / hold / spike / ramp-down
+  startMs: number;
+  endMs: number;
+  targetUsers: number;
+}
+
+/**
+ * 單一負載階段的統計（僅統計該階段內開始的 Action）
+ */
+export interface ReportPhase extends ReportPhaseWindow {
+  count: number; // Action 總呼叫次數
+  successRate: number; // 成功率 (0-1)
+  p50: number; // 所有 Action 合併的延遲百分位（毫秒）
+  p90: number;
+  p99: number;
+  actions: ActionStats[]; // 依 Action 彙總
+  apiP50: number; // 該階段內送出的後端 API 呼叫延遲百分位（毫秒）
+  apiP90: number;
+  api: ApiStats[]; // 依 API 端點彙總
+}
+
+/**
+ * 錯誤紀錄（對應一次失敗的 Action 呼叫）
+ */
+export interface ReportError {
+  time: string; // ISO 8601
+  userIndex: number;
+  actionId: number;
+  actionName: string;
+  kind: ActionFailureKind; // 失敗分類（拒絕 / 逾時 / 錯誤）
+  reason: string;
+  screenshots: string[]; // 相對於報告目錄的截圖路徑
+}
+
+/**
+ * 一致性失敗紀錄（後端帳務變化與 Action 預期不符）
+ */
+export interface ReportConsistencyFailure {
+  time: string; // ISO 8601
+  userIndex: number;
+  actionId: number;
+  actionName: string;
+  expected: string; // 預期變化
+  mismatches: string[]; // 不符項目
+}
+
+/**
+ * 資產守恆違規紀錄
+ */
+export interface ReportInvariantViolation {
+  time: string; // ISO 8601
+  day: number; // 遊戲天數
+  userIndex?: number; // 跨使用者的規則（總股數守恆）不存在
+  username?: string;
+  rule: string;
+  detail: string;
+}
+
+/**
+ * 停滯紀錄（虛擬使用者超過停滯門檻沒有成功的 Action）
+ */
+export interface ReportStall {
+  time: string; // ISO 8601
+  userIndex: number;
+  username?: string;
+  idleMs: number; // 距最近一次成功 Action 的時間（毫秒）
+  action?: string; // 停滯時進行中的 Action
+  decision: StallDecision; // 重新啟動 / 放棄
+  artifacts: string[]; // 相對於報告目錄的截圖與 Trace 路徑
+}
+
+/**
+ * report.json 的完整結構
+ */
+export interface RunReport {
+  startedAt: string;
+  endedAt: string;
+  durationMs: number;
+  seed: number; // 隨機種子（STRESS_SEED，重跑可重現決策序列）
+  config: Record<string, unknown>;
+  users: ReportUser[];
+  personas: ReportPersonaSummary[];
+  actions: ActionStats[];
+  api: ApiStats[]; // 後端 API 端點統計（依 NetworkRecorder 紀錄）
+  socket: SocketSummary; // Socket.io 流量統計（依 SocketRecorder 紀錄）
+  phases: ReportPhase[]; // 負載階段統計（未使用負載模型時為空陣列）
+  errors: ReportError[];
+  consistency: ConsistencyStats[]; // 後端狀態驗證統計（未開啟 VERIFY_STATE 時為空陣列）
+  consistencyFailures: ReportConsistencyFailure[];
+  invariantChecks: InvariantCheckRecord[]; // 資產守恆檢查（每個遊戲日一筆，未開啟 INVARIANT_CHECK 時為空陣列）
+  invariantViolations: ReportInvariantViolation[];
+  stalls: ReportStall[]; // 停滯紀錄（未開啟 SUPERVISOR_ENABLED 或沒有停滯時為空陣列）
+  abortReason?: string; // 執行監控中止整場壓測的原因（未中止時不存在）
+  error?: string; // Session 準備失敗的原因（UI 契約、開始遊戲等；未失敗時不存在）
+}
+
+/**
+ * 產生報告所需的輸入
+ */
+export interface RunReportInput {
+  startedAt: number; // 毫秒時間戳
+  endedAt: number;
+  seed: number; // 隨機種子
+  config: Record<string, unknown>; // config.ts 快照
+  users: ReportUser[];
+  metrics: MetricsCollector;
+  phases?: ReportPhaseWindow[]; // 負載階段（未使用負載模型時省略）
+  abortReason?: string; // 執行監控中止整場壓測的原因（未中止時省略）
+  error?: string; // Session 準備失敗的原因（未失敗時省略）
+}
+
+/**
+ * 報告根目錄（每次執行建立一個子目錄）
+ * 不放在 test-results/，避免被 Playwright 於下次執行時清空
+ */
+export const REPORT_ROOT = path.join(__dirname, "../../../stress-reports");
+
+// ==================== 報告組裝 ====================
+
+/**
+ * 依角色加總迭代次數與計數器
+ */
+function summarizePersonas(users: ReportUser[]): ReportPersonaSummary[] {
+  const summaries = new Map<string, ReportPersonaSummary>();
+
+  for (const user of users) {
+    const summary = summaries.get(user.persona) || {
+      persona: user.persona,
+      users: 0,
+      employees: 0,
+      bots: 0,
+      iterations: 0,
+      counters: {},
+    };
+
+    summary.users++;
+    if (user.employee) summary.employees++;
+    if (user.driver === "protocol") summary.bots++;
+    summary.iterations += user.iterations;
+    for (const [name, value] of Object.entries(user.counters)) {
+      summary.counters[name] = (summary.counters[name] || 0) + value;
+    }
+
+    summaries.set(user.persona, summary);
+  }
+
+  return Array.from(summaries.values()).sort((a, b) => a.persona.localeCompare(b.persona));
+}
+
+/**
+ * 依負載階段統計 Action 延遲、成功率與後端 API 延遲
+ */
+function summarizePhases(windows: ReportPhaseWindow[], metrics: MetricsCollector): ReportPhase[] {
+  const records = metrics.getRecords();
+  const apiCalls = metrics.getApiCalls();
+
+  return windows.map((window) => {
+    const inPhase = records.filter((r) => r.phase === window.name);
+    const durations = inPhase.map((r) => r.durationMs).sort((a, b) => a - b);
+    const successCount = inPhase.filter((r) => r.outcome === "success").length;
+    const apiDurations = apiCalls.filter((c) => c.phase === window.name).map((c) => c.durationMs).sort((a, b) => a - b);
+
+    return {
+      ...window,
+      count: inPhase.length,
+      successRate: inPhase.length > 0 ? successCount / inPhase.length : 0,
+      p50: percentile(durations, 50),
+      p90: percentile(durations, 90),
+      p99: percentile(durations, 99),
+      actions: metrics.summarize(window.name),
+      apiP50: percentile(apiDurations, 50),
+      apiP90: percentile(apiDurations, 90),
+      api: metrics.summarizeApi(window.name),
+    };
+  });
+}
+
+/**
+ * 整理錯誤清單，並將截圖複製到報告目錄內（讓報告目錄可獨立保存）
+ */
+function collectErrors(metrics: MetricsCollector, reportDir: string): ReportError[] {
+  const screenshotDir = path.join(reportDir, "screenshots");
+
+  return metrics
+    .getRecords()
+    .filter((r) => r.outcome === "failure")
+    .map((r) => {
+      const screenshots: string[] = [];
+
+      for (const artifact of r.artifacts || []) {
+        if (!fs.existsSync(artifact)) continue;
+
+        if (!fs.existsSync(screenshotDir)) {
+          fs.mkdirSync(screenshotDir, { recursive: true });
+        }
+        const target = path.join(screenshotDir, path.basename(artifact));
+        fs.copyFileSync(artifact, target);
+        screenshots.push(path.relative(reportDir, target).split(path.sep).join("/"));
+      }
+
+      return {
+        time: new Date(r.endTime).toISOString(),
+        userIndex: r.userIndex,
+        actionId: r.actionId,
+        actionName: r.actionName,
+        kind: r.failureKind ?? "error",
+        reason: r.reason || "",
+        screenshots,
+      };
+    });
+}
+
+/**
+ * 整理一致性失敗清單
+ */
+function collectConsistencyFailures(metrics: MetricsCollector): ReportConsistencyFailure[] {
+  return metrics
+    .getConsistencyRecords()
+    .filter((r) => r.status === "mismatch")
+    .map((r) => ({
+      time: new Date(r.time).toISOString(),
+      userIndex: r.userIndex,
+      actionId: r.actionId,
+      actionName: r.actionName,
+      expected: r.expected,
+      mismatches: r.mismatches,
+    }));
+}
+
+/**
+ * 整理資產守恆違規清單（附上帳號）
+ */
+function collectInvariantViolations(metrics: MetricsCollector, users: ReportUser[]): ReportInvariantViolation[] {
+  const usernames = new Map(users.map((u) => [u.userIndex, u.username]));
+  return metrics.getInvariantViolations().map((v) => ({
+    time: new Date(v.time).toISOString(),
+    day: v.day,
+    ...(v.userIndex !== undefined ? { userIndex: v.userIndex, username: usernames.get(v.userIndex) } : {}),
+    rule: v.rule,
+    detail: v.detail,
+  }));
+}
+
+/**
+ * 整理停滯清單（附上帳號），並將截圖與 Trace 複製到報告目錄內
+ */
+function collectStalls(metrics: MetricsCollector, users: ReportUser[], reportDir: string): ReportStall[] {
+  const usernames = new Map(users.map((u) => [u.userIndex, u.username]));
+  const stallDir = path.join(reportDir, "stalls");
+
+  return metrics.getStalls().map((s) => {
+    const artifacts: string[] = [];
+    for (const artifact of s.artifacts) {
+      if (!fs.existsSync(artifact)) continue;
+
+      fs.mkdirSync(stallDir, { recursive: true });
+      const target = path.join(stallDir, path.basename(artifact));
+      fs.copyFileSync(artifact, target);
+      artifacts.push(path.relative(reportDir, target).split(path.sep).join("/"));
+    }
+
+    return {
+      time: new Date(s.time).toISOString(),
+      userIndex: s.userIndex,
+      username: usernames.get(s.userIndex),
+      idleMs: s.idleMs,
+      ...(s.action ? { action: s.action } : {}),
+      decision: s.decision,
+      artifacts,
+    };
+  });
+}
+
+// ==================== HTML 輸出 ====================
+
+/**
+ * HTML 跳脫
+ */
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * 產生 HTML 表格
+ */
+function renderTable(headers: string[], rows: unknown[][]): string {
+  if (rows.length === 0) {
+    return `<p class="empty">（無資料）</p>`;
+  }
+
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${cell}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${body}\n</tbody>\n</table>`;
+}
+
+/**
+ * 格式化計數器（例如 "buyCount=3, cancelCount=1"）
+ */
+function formatCounters(counters: Record<string, number>): string {
+  return escapeHtml(
+    Object.entries(counters)
+      .map(([name, value]) => `${name}=${value}`)
+      .join(", ")
+  );
+}
+
+/**
+ * 產生靜態 HTML 摘要頁（不依賴外部資源）
+ */
+function renderHtml(report: RunReport): string {
+  const failedUsers = report.users.filter((u) => !u.success).length;
+
+  const configRows = Object.entries(report.config).map(([key, value]) => [
+    escapeHtml(key),
+    `<code>${escapeHtml(JSON.stringify(value))}</code>`,
+  ]);
+
+  const personaRows = report.personas.map((p) => [
+    escapeHtml(p.persona),
+    `${p.users}（員工 ${p.employees}，機器人 ${p.bots}）`,
+    p.iterations,
+    formatCounters(p.counters),
+  ]);
+
+  const userRows = report.users.map((u) => [
+    u.userIndex,
+    escapeHtml(u.persona),
+    escapeHtml(u.username),
+    u.employee ? "員工" : "訪客",
+    u.driver === "protocol" ? "機器人" : "瀏覽器",
+    escapeHtml(u.strategy),
+    u.success ? `<span class="ok">成功</span>` : `<span class="fail">失敗</span> ${escapeHtml(u.error || "")}`,
+    (u.elapsedMs / 1000).toFixed(1),
+    u.restarts,
+    u.iterations,
+    formatCounters(u.counters),
+  ]);
+
+  const actionRows = report.actions.map((a) => [
+    `${a.actionId.toString().padStart(2, "0")} ${escapeHtml(a.actionName)}`,
+    a.count,
+    `${(a.successRate * 100).toFixed(1)}%`,
+    `${a.rejectedCount} / ${a.timeoutCount} / ${a.errorCount}`,
+    a.p50,
+    a.p90,
+    a.p99,
+    a.max,
+    a.apiP50,
+    a.apiP90,
+  ]);
+
+  const apiRows = report.api.map((a) => [
+    `<code>${escapeHtml(a.method)} ${escapeHtml(a.endpoint)}</code>`,
+    a.count,
+    a.errorCount > 0 ? `<span class="fail">${(a.errorRate * 100).toFixed(1)}%</span>` : "0.0%",
+    a.p50,
+    a.p90,
+    a.p99,
+    a.max,
+  ]);
+
+  const socketRows = report.socket.events.map((e) => [
+    e.direction === "received" ? "⬇ 收到" : "⬆ 送出",
+    `<code>${escapeHtml(e.event)}</code>`,
+    e.count,
+    e.users,
+    e.ratePerSec,
+    e.avgBytes,
+    e.maxBytes,
+    e.lagP50,
+    e.lagP90,
+    e.lagMax,
+  ]);
+
+  const phaseRows = report.phases.map((p) => [
+    escapeHtml(p.name),
+    (p.startMs / 1000).toFixed(0),
+    ((p.endMs - p.startMs) / 1000).toFixed(0),
+    p.targetUsers,
+    p.count,
+    `${(p.successRate * 100).toFixed(1)}%`,
+    p.p50,
+    p.p90,
+    p.p99,
+    p.apiP50,
+    p.apiP90,
+  ]);
+
+  const errorRows = report.errors.map((e) => [
+    escapeHtml(e.time),
+    e.userIndex,
+    `${e.actionId.toString().padStart(2, "0")} ${escapeHtml(e.actionName)}`,
+    ACTION_STATUS_LABELS[e.kind],
+    escapeHtml(e.reason),
+    e.screenshots.map((s) => `<a href="${escapeHtml(s)}">${escapeHtml(path.basename(s))}</a>`).join("<br>"),
+  ]);
+
+  const consistencyRows = report.consistency.map((c) => [
+    `${c.actionId.toString().padStart(2, "0")} ${escapeHtml(c.actionName)}`,
+    c.checks,
+    c.matchCount,
+    c.mismatchCount > 0 ? `<span class="fail">${c.mismatchCount}</span>` : 0,
+    c.skippedCount,
+  ]);
+
+  const consistencyFailureRows = report.consistencyFailures.map((f) => [
+    escapeHtml(f.time),
+    f.userIndex,
+    `${f.actionId.toString().padStart(2, "0")} ${escapeHtml(f.actionName)}`,
+    escapeHtml(f.expected),
+    f.mismatches.map(escapeHtml).join("<br>"),
+  ]);
+
+  const invariantRows = report.invariantViolations.map((v) => [
+    escapeHtml(v.time),
+    v.day,
+    v.userIndex !== undefined ? `${v.userIndex}（${escapeHtml(v.username ?? "")}）` : "全體",
+    escapeHtml(v.rule),
+    escapeHtml(v.detail),
+  ]);
+
+  const stallRows = report.stalls.map((s) => [
+    escapeHtml(s.time),
+    `${s.userIndex}（${escapeHtml(s.username ?? "")}）`,
+    (s.idleMs / 1000).toFixed(0),
+    escapeHtml(s.action ?? "-"),
+    s.decision === "restart" ? "重新啟動" : `<span class="fail">放棄</span>`,
+    s.artifacts.map((a) => `<a href="${escapeHtml(a)}">${escapeHtml(path.basename(a))}</a>`).join("<br>"),
+  ]);
+
+  return `<!DOCTYPE html>
+<html lang="zh-Hant">
+<head>
+<meta charset="utf-8">
+<title>StockSprint 壓力測試報告 ${escapeHtml(report.startedAt)}</title>
+<style>
+  body { font-family: -apple-system, "Noto Sans TC", sans-serif; margin: 24px; color: #222; }
+  h1 { font-size: 22px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #ddd; padding-bottom: 4px; }
+  table { border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f5f5f5; }
+  code { font-size: 12px; }
+  .ok { color: #1a7f37; }
+  .fail { color: #cf222e; }
+  .empty { color: #888; }
+</style>
+</head>
+<body>
+<h1>📊 StockSprint 壓力測試報告</h1>
+${report.error ? `<p class="fail">❌ Session 準備失敗：${escapeHtml(report.error)}</p>` : ""}
+${report.abortReason ? `<p class="fail">🛑 壓測已由執行監控中止：${escapeHtml(report.abortReason)}</p>` : ""}
+<p>
+  開始：${escapeHtml(report.startedAt)}<br>
+  結束：${escapeHtml(report.endedAt)}<br>
+  耗時：${(report.durationMs / 1000).toFixed(1)} 秒<br>
+  隨機種子：<code>${report.seed}</code>（重跑：<code>STRESS_SEED=${report.seed}</code>）<br>
+  虛擬使用者：${report.users.length} 位（失敗 ${failedUsers} 位）<br>
+  Action 錯誤：${report.errors.length} 筆<br>
+  一致性失敗：${report.consistencyFailures.length > 0 ? `<span class="fail">${report.consistencyFailures.length} 筆</span>` : "0 筆"}<br>
+  資產守恆違規：${report.invariantViolations.length > 0 ? `<span class="fail">${report.invariantViolations.length} 筆</span>` : "0 筆"}<br>
+  停滯：${report.stalls.length > 0 ? `<span class="fail">${report.stalls.length} 次</span>` : "0 次"}
+</p>
+
+<h2>⚙️ 配置快照</h2>
+${renderTable(["參數", "值"], configRows)}
+
+<h2>👥 角色統計</h2>
+${renderTable(["角色", "人數", "迭代次數", "計數器"], personaRows)}
+
+<h2>📶 負載階段</h2>
+${renderTable(["階段", "開始 (秒)", "時長 (秒)", "目標人數", "次數", "成功率", "p50", "p90", "p99", "API p50", "API p90"], phaseRows)}
+
+<h2>⏱️ Action 延遲（毫秒）</h2>
+<p>後端 p50 / p90：Action 期間後端 API 呼叫的耗時總和；與 Action 延遲相近表示後端瓶頸，差距大表示前端渲染或推播延遲</p>
+${renderTable(["Action", "次數", "成功率", "拒絕 / 逾時 / 錯誤", "p50", "p90", "p99", "max", "後端 p50", "後端 p90"], actionRows)}
+
+<h2>🌐 後端 API 延遲（毫秒）</h2>
+${renderTable(["API", "次數", "錯誤率", "p50", "p90", "p99", "max"], apiRows)}
+
+<h2>📡 Socket.io 推播</h2>
+<p>
+  連線：${report.socket.connects} 次，斷線：${report.socket.disconnects > 0 ? `<span class="fail">${report.socket.disconnects} 次</span>` : "0 次"}，重新連線：${report.socket.reconnects} 次<br>
+  推播延遲：股價 tick 為伺服器送出至收到的時間；其他事件為距上一個 tick 的時間（每個 tick 後每種事件取第一筆）
+</p>
+${renderTable(["方向", "事件", "訊框數", "使用者", "每秒", "平均大小 (B)", "最大 (B)", "延遲 p50", "延遲 p90", "延遲 max"], socketRows)}
+
+<h2>🧑 虛擬使用者</h2>
+${renderTable(["#", "角色", "帳號", "身分", "執行方式", "策略", "結果", "耗時 (秒)", "重新啟動", "迭代次數", "計數器"], userRows)}
+
+<h2>❌ 錯誤列表</h2>
+${renderTable(["時間", "User", "Action", "分類", "原因", "截圖"], errorRows)}
+
+<h2>🧾 後端狀態一致性</h2>
+<p>開啟 <code>STRESS_VERIFY_STATE=1</code> 時，每次成功的交易 / 借還款後以後端 API 比對現金、持股、負債與合約的變化量</p>
+${renderTable(["Action", "驗證次數", "一致", "不一致", "略過"], consistencyRows)}
+${consistencyFailureRows.length > 0 ? renderTable(["時間", "User", "Action", "預期變化", "不符項目"], consistencyFailureRows) : ""}
+
+<h2>⚖️ 資產守恆</h2>
+<p>開啟 <code>STRESS_INVARIANT_CHECK=1</code> 時，每個遊戲日開始時檢查所有虛擬使用者（共檢查 ${report.invariantChecks.length} 個遊戲日）</p>
+${renderTable(["時間", "天數", "User", "規則", "內容"], invariantRows)}
+
+<h2>⏸️ 停滯偵測</h2>
+<p>執行監控開啟時（預設，<code>STRESS_SUPERVISOR=0</code> 關閉），超過停滯門檻沒有成功 Action 的虛擬使用者會被截圖、保存 Trace，並重新啟動或放棄</p>
+${renderTable(["時間", "User", "停滯 (秒)", "進行中的 Action", "處置", "截圖 / Trace"], stallRows)}
+</body>
+</html>
+`;
+}
+
+// ==================== 寫入報告 ====================
+
+/**
+ * 寫入一次壓力測試 Session 的報告
+ *
+ * 輸出目錄結構：
+ * stress-reports/<開始時間>/
+ * ├── report.json      # 機器可讀（跨版本比較用）
+ * ├── index.html       # 靜態摘要頁
+ * ├── screenshots/     # 錯誤截圖副本
+ * └── stalls/          # 停滯截圖與 Trace 副本
+ *
+ * @param input 報告資料
+ * @param root 報告根目錄（預設 REPORT_ROOT）
+ * @returns 報告目錄路徑
+ */
+export function writeRunReport(input: RunReportInput, root: string = REPORT_ROOT): string {
+  const dirName = new Date(input.startedAt).toISOString().replace(/[:.]/g, "-");
+  const reportDir = path.join(root, dirName);
+  fs.mkdirSync(reportDir, { recursive: true });
+
+  const report: RunReport = {
+    startedAt: new Date(input.startedAt).toISOString(),
+    endedAt: new Date(input.endedAt).toISOString(),
+    durationMs: input.endedAt - input.startedAt,
+    seed: input.seed,
+    config: input.config,
+    users: input.users,
+    personas: summarizePersonas(input.users),
+    actions: input.metrics.summarize(),
+    api: input.metrics.summarizeApi(),
+    socket: input.metrics.summarizeSocket(),
+    phases: summarizePhases(input.phases || [], input.metrics),
+    errors: collectErrors(input.metrics, reportDir),
+    consistency: input.metrics.summarizeConsistency(),
+    consistencyFailures: collectConsistencyFailures(input.metrics),
+    invariantChecks: input.metrics.getInvariantChecks(),
+    invariantViolations: collectInvariantViolations(input.metrics, input.users),
+    stalls: collectStalls(input.metrics, input.users, reportDir),
+    ...(input.abortReason ? { abortReason: input.abortReason } : {}),
+    ...(input.error ? { error: input.error } : {}),
+  };
+
+  fs.writeFileSync(path.join(reportDir, "report.json"), JSON.stringify(report, null, 2), "utf-8");
+  fs.writeFileSync(path.join(reportDir, "index.html"), renderHtml(report), "utf-8");
+
+  console.log(`[Report] 📁 報告已寫入：${reportDir}`);
+  return reportDir;
+}
@@ -0,0 +1,286 @@
+// tests/stress/core/RunSupervisor.ts
+import * as fs from "fs";
+import * as path from "path";
+import { BrowserContext, Page } from "@playwright/test";
+import { GAME_START_TIMEOUT_MS, STALL_ABORT_SHARE, STALL_MAX_RESTARTS, STALL_TIMEOUT_MS, TOTAL_USERS } from "../config";
+import { MetricsCollector, StallDecision, StallRecord } from "./MetricsCollector";
+
+/**
+ * 執行監控
+ *
+ * 一位虛擬使用者卡在永遠不會出現的畫面上，整場壓測就會停在 Promise.all，終端機沒有任何輸出也不會結束。
+ * 開啟 SUPERVISOR_ENABLED（預設開啟，STRESS_SUPERVISOR=0 關閉）後，RunSupervisor 於背景輪詢每位虛擬使用者
+ * 最近一次成功的 Action（MetricsCollector.lastSuccessAt），超過 STALL_TIMEOUT_MS 即判定停滯
+ * （等待遊戲開始期間門檻放寬為 GAME_START_TIMEOUT_MS + STALL_TIMEOUT_MS）：
+ * - 閒置達門檻一半時開始錄製 Trace（恢復活動即捨棄），停滯時截圖並儲存 Trace 至 test-results/stalls/
+ * - 重新啟動次數未達 STALL_MAX_RESTARTS 時中斷並重新啟動該使用者，否則放棄
+ * - 放棄的使用者達 STALL_ABORT_SHARE 時中止整場壓測（signal），其餘使用者於下一次迭代前結束，照常寫入執行報告
+ * 停滯紀錄（使用者、閒置時間、進行中的 Action、處置、截圖與 Trace）寫入 MetricsCollector，並列入執行報告。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * RunSupervisor 參數
+ */
+export interface RunSupervisorOptions {
+  stallMs?: number; // 停滯門檻（預設 config.ts 的 STALL_TIMEOUT_MS）
+  gameStartMs?: number; // 等待遊戲開始的上限，Action 00 進行中時加到停滯門檻上（預設 GAME_START_TIMEOUT_MS）
+  maxRestarts?: number; // 每位使用者的重新啟動次數上限（預設 STALL_MAX_RESTARTS）
+  abortShare?: number; // 放棄人數達此比例時中止整場壓測（預設 STALL_ABORT_SHARE）
+  totalUsers?: number; // 計算中止門檻的總人數（預設 TOTAL_USERS）
+  pollMs?: number; // 輪詢間隔（預設 5000 毫秒）
+  artifactDir?: string; // 截圖與 Trace 的輸出目錄（預設 test-results/stalls）
+}
+
+/**
+ * 受監控的虛擬使用者
+ * 瀏覽器使用者提供 page / context（停滯時截圖、錄製 Trace）；機器人沒有畫面，只提供 interrupt
+ */
+export interface SupervisedUser {
+  page?: Page;
+  context?: BrowserContext;
+  interrupt: () => void | Promise<void>; // 中斷執行中的角色（關閉 Context / 機器人並觸發中止訊號）
+}
+
+/**
+ * 監控中的使用者狀態
+ */
+interface WatchedUser extends SupervisedUser {
+  since: number; // 開始監控的時間，尚未有成功 Action 時以此計算閒置時間
+  tracing: boolean; // 是否正在錄製 Trace
+}
+
+/**
+ * 等待遊戲開始（Action 00）：等待 Admin 開始遊戲可能長達數分鐘，停滯門檻加上 gameStartMs
+ */
+const GAME_START_ACTION = 0;
+
+// ==================== 監控器 ====================
+
+/**
+ * RunSupervisor 類別
+ * 由 Orchestrator 在每位虛擬使用者開始執行時 watch()、結束時取消監控；
+ * start() 後於背景輪詢，停滯時中斷該使用者，並以 takeDecision() 告知 Orchestrator 重新啟動或放棄
+ */
+export class RunSupervisor {
+  private users = new Map<number, WatchedUser>();
+  private restarts = new Map<number, number>(); // 使用者編號 → 已重新啟動次數
+  private decisions = new Map<number, StallDecision>(); // 使用者編號 → 尚未被 Orchestrator 取走的處置
+  private givenUp = new Set<number>();
+  private controller = new AbortController();
+  private reason?: string;
+  private stallMs: number;
+  private gameStartMs: number;
+  private maxRestarts: number;
+  private abortThreshold: number;
+  private pollMs: number;
+  private artifactDir: string;
+  private stalls = 0;
+  private stopped = false;
+  private loop?: Promise<void>;
+
+  /**
+   * @param metrics 指標收集器（提供最近一次成功 Action 的時間，停滯紀錄寫入執行報告）
+   * @param options 監控參數
+   */
+  constructor(private metrics: MetricsCollector, options: RunSupervisorOptions = {}) {
+    this.stallMs = options.stallMs ?? STALL_TIMEOUT_MS;
+    this.gameStartMs = options.gameStartMs ?? GAME_START_TIMEOUT_MS;
+    this.maxRestarts = options.maxRestarts ?? STALL_MAX_RESTARTS;
+    this.abortThreshold = Math.max(1, Math.ceil((options.totalUsers ?? TOTAL_USERS) * (options.abortShare ?? STALL_ABORT_SHARE)));
+    this.pollMs = options.pollMs ?? 5000;
+    this.artifactDir = options.artifactDir ?? path.join(__dirname, "../../../test-results/stalls");
+  }
+
+  /**
+   * 整場壓測的中止訊號（放棄的使用者達中止門檻時觸發）
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * 中止原因（未中止時為 undefined）
+   */
+  get abortReason(): string | undefined {
+    return this.reason;
+  }
+
+  /**
+   * 開始監控虛擬使用者（每次重新啟動都重新監控）
+   * @returns 取消監控函式（角色結束、關閉 Context 前呼叫；錄製中的 Trace 一併捨棄）
+   */
+  watch(userIndex: number, user: SupervisedUser, now: number = Date.now()): () => Promise<void> {
+    const watched: WatchedUser = { ...user, since: now, tracing: false };
+    this.users.set(userIndex, watched);
+    return async () => {
+      if (this.users.get(userIndex) === watched) this.users.delete(userIndex);
+      if (watched.tracing) await this.stopTracing(watched);
+    };
+  }
+
+  /**
+   * 取走 Orchestrator 尚未處理的停滯處置（沒有停滯時返回 undefined）
+   */
+  takeDecision(userIndex: number): StallDecision | undefined {
+    const decision = this.decisions.get(userIndex);
+    this.decisions.delete(userIndex);
+    return decision;
+  }
+
+  /**
+   * 開始於背景輪詢所有受監控的使用者
+   */
+  start(): void {
+    if (this.loop) return;
+    console.log(
+      `[Supervisor] 🩺 執行監控啟動（停滯門檻 ${this.stallMs / 1000} 秒，每位最多重新啟動 ${this.maxRestarts} 次，` +
+        `放棄 ${this.abortThreshold} 位即中止）`
+    );
+
+    this.loop = (async () => {
+      while (!this.stopped) {
+        await this.check();
+        await new Promise((resolve) => setTimeout(resolve, this.pollMs));
+      }
+    })();
+  }
+
+  /**
+   * 停止輪詢（等待進行中的檢查完成）
+   * @returns 停滯次數
+   */
+  async stop(): Promise<number> {
+    this.stopped = true;
+    await this.loop;
+    console.log(`[Supervisor] ⏹️ 執行監控停止：停滯 ${this.stalls} 次，放棄 ${this.givenUp.size} 位`);
+    return this.stalls;
+  }
+
+  /**
+   * 檢查所有受監控的使用者：閒置達門檻一半時開始錄製 Trace，達門檻時處理停滯
+   * 等待遊戲開始期間的門檻為 gameStartMs + stallMs（有上限的等待本身逾時後仍無回應才判定停滯）
+   * @param now 檢查時間（預設為目前時間）
+   * @returns 本次判定的停滯紀錄
+   */
+  async check(now: number = Date.now()): Promise<StallRecord[]> {
+    const records: StallRecord[] = [];
+    for (const [userIndex, user] of [...this.users]) {
+      const current = this.metrics.currentAction(userIndex);
+      const limit = current?.actionId === GAME_START_ACTION ? this.gameStartMs + this.stallMs : this.stallMs;
+
+      const idleMs = now - Math.max(this.metrics.lastSuccessAt(userIndex) ?? 0, user.since);
+      if (idleMs >= limit) {
+        records.push(await this.handleStall(userIndex, user, idleMs, now));
+      } else if (idleMs >= limit / 2 && !user.tracing) {
+        await this.startTracing(userIndex, user, idleMs);
+      } else if (idleMs < limit / 2 && user.tracing) {
+        await this.stopTracing(user);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * 中止整場壓測（重複呼叫時保留第一次的原因）
+   */
+  abort(reason: string): void {
+    if (this.reason !== undefined) return;
+    this.reason = reason;
+    console.error(`[Supervisor] 🛑 中止壓測：${reason}`);
+    this.controller.abort();
+  }
+
+  /**
+   * 處理停滯：保存截圖與 Trace → 決定處置 → 寫入紀錄 → 中斷使用者 → 必要時中止整場壓測
+   */
+  private async handleStall(userIndex: number, user: WatchedUser, idleMs: number, now: number): Promise<StallRecord> {
+    const tag = userIndex.toString().padStart(2, "0");
+    this.users.delete(userIndex);
+    this.stalls++;
+
+    const current = this.metrics.currentAction(userIndex);
+    const action = current ? `${current.actionId.toString().padStart(2, "0")} ${current.actionName}` : undefined;
+    const artifacts = await this.saveArtifacts(userIndex, user, now);
+
+    const restarts = this.restarts.get(userIndex) ?? 0;
+    const decision: StallDecision = !this.signal.aborted && restarts < this.maxRestarts ? "restart" : "give-up";
+    if (decision === "restart") {
+      this.restarts.set(userIndex, restarts + 1);
+    } else {
+      this.givenUp.add(userIndex);
+    }
+    this.decisions.set(userIndex, decision);
+
+    const record: StallRecord = { userIndex, time: now, idleMs, ...(action ? { action } : {}), decision, artifacts };
+    this.metrics.recordStall(record);
+    console.error(
+      `[Supervisor][User ${tag}] ⏸️ 停滯 ${Math.round(idleMs / 1000)} 秒${action ? `（進行中：${action}）` : ""}，` +
+        (decision === "restart" ? `重新啟動（第 ${restarts + 1}/${this.maxRestarts} 次）` : "放棄")
+    );
+
+    try {
+      await user.interrupt();
+    } catch (error: any) {
+      console.warn(`[Supervisor][User ${tag}] ⚠️ 中斷失敗：${error.message}`);
+    }
+
+    if (decision === "give-up" && this.givenUp.size >= this.abortThreshold) {
+      this.abort(`${this.givenUp.size} 位虛擬使用者停滯後放棄（門檻 ${this.abortThreshold} 位）`);
+    }
+    return record;
+  }
+
+  /**
+   * 保存停滯當下的截圖與 Trace（頁面已關閉或沒有畫面時略過）
+   * @returns 檔案路徑
+   */
+  private async saveArtifacts(userIndex: number, user: WatchedUser, now: number): Promise<string[]> {
+    if (!user.page || user.page.isClosed()) return [];
+
+    const artifacts: string[] = [];
+    const base = path.join(this.artifactDir, `stall-user-${userIndex.toString().padStart(2, "0")}-${now}`);
+    fs.mkdirSync(this.artifactDir, { recursive: true });
+
+    try {
+      await user.page.screenshot({ path: `${base}.png`, fullPage: true, timeout: 10000 });
+      artifacts.push(`${base}.png`);
+    } catch {
+      // 截圖失敗不影響停滯處理
+    }
+
+    if (user.tracing && user.context) {
+      user.tracing = false;
+      try {
+        await user.context.tracing.stop({ path: `${base}-trace.zip` });
+        artifacts.push(`${base}-trace.zip`);
+      } catch {
+        // Trace 儲存失敗不影響停滯處理
+      }
+    }
+    return artifacts;
+  }
+
+  /**
+   * 開始錄製 Trace（Context 已在錄製時略過）
+   */
+  private async startTracing(userIndex: number, user: WatchedUser, idleMs: number): Promise<void> {
+    if (!user.context) return;
+    try {
+      await user.context.tracing.start({ screenshots: true, snapshots: true });
+      user.tracing = true;
+      console.warn(`[Supervisor][User ${userIndex.toString().padStart(2, "0")}] ⚠️ 閒置 ${Math.round(idleMs / 1000)} 秒，開始錄製 Trace`);
+    } catch {
+      // Context 已關閉或已在錄製中
+    }
+  }
+
+  /**
+   * 停止錄製並捨棄 Trace（恢復活動或取消監控時）
+   */
+  private async stopTracing(user: WatchedUser): Promise<void> {
+    user.tracing = false;
+    await user.context?.tracing.stop().catch(() => {});
+  }
+}
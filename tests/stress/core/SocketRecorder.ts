@@ -0,0 +1,203 @@
+// tests/stress/core/SocketRecorder.ts
+import { SOCKET_TICK_EVENT } from "../config";
+import { MetricsCollector, SocketDirection } from "./MetricsCollector";
+
+/**
+ * Socket.io 流量紀錄器
+ *
+ * 前端的股價、資產與小遊戲狀態皆由 Socket.io 推播，是 50 人同時在線時最容易先出問題的環節。
+ * 本模組監聽每個頁面的 WebSocket 訊框（page.on("websocket")），解碼 Socket.io 事件名稱後累計至 MetricsCollector：
+ * - 每個事件的訊框數、每秒訊框數與訊框大小
+ * - 推播延遲：股價 tick（SOCKET_TICK_EVENT）為 payload.serverTime 至收到的時間（僅模擬伺服器等同機時鐘可信）；
+ *   其他收到的事件為「距上一個 tick」的時間，每個 tick 之後每種事件只取第一個（例如 tick 觸發的 player:assets 扇出延遲）
+ * - 頁面仍開啟時的斷線與之後的重新連線（並輸出警告 Log）
+ */
+
+// ==================== Socket.io 解碼 ====================
+
+/**
+ * 解碼後的 Socket.io 封包
+ */
+export interface SocketIoPacket {
+  event: string; // 事件名稱（ack 回應為 "(ack)"，連線 / 斷線封包為 "(connect)" / "(disconnect)"）
+  args: unknown[]; // 事件參數（二進位附件不解碼）
+  namespace: string; // 命名空間（預設 "/"）
+}
+
+/**
+ * Socket.io 封包類型（Engine.io message 封包 "4" 之後的第一個字元）
+ */
+const SOCKET_IO_PACKET_TYPES: Record<string, string> = {
+  "0": "(connect)",
+  "1": "(disconnect)",
+  "3": "(ack)",
+  "4": "(connect_error)",
+  "6": "(ack)",
+};
+
+/**
+ * 解碼 Socket.io over Engine.io 的文字訊框
+ * 例如 42["game:state",{"price":50}]、42/admin,7["quiz:answer",{...}]、430[{"ok":true}]
+ *
+ * @param payload WebSocket 訊框內容
+ * @returns 解碼結果；Engine.io 控制封包（open / ping / pong 等）、二進位訊框或無法解析時返回 null
+ */
+export function decodeSocketIoFrame(payload: string | Buffer): SocketIoPacket | null {
+  if (typeof payload !== "string" || payload[0] !== "4") return null;
+
+  const match = payload.slice(1).match(/^([0-6])(?:\d+-)?(\/[^,]*,)?(\d*)(.*)$/s);
+  if (!match) return null;
+  const [, type, namespacePart, , body] = match;
+  const namespace = namespacePart ? namespacePart.slice(0, -1) : "/";
+
+  let args: unknown[] = [];
+  if (body) {
+    try {
+      const parsed = JSON.parse(body);
+      args = Array.isArray(parsed) ? parsed : [parsed];
+    } catch {
+      return null;
+    }
+  }
+
+  if (type === "2" || type === "5") {
+    const [event, ...rest] = args;
+    if (typeof event !== "string") return null;
+    return { event, args: rest, namespace };
+  }
+  return { event: SOCKET_IO_PACKET_TYPES[type], args, namespace };
+}
+
+// ==================== SocketRecorder ====================
+
+/**
+ * SocketRecorder 監聽的 WebSocket（Playwright WebSocket 的子集）
+ */
+export interface RecordedWebSocket {
+  url(): string;
+  on(event: "framesent", listener: (frame: { payload: string | Buffer }) => void): unknown;
+  on(event: "framereceived", listener: (frame: { payload: string | Buffer }) => void): unknown;
+  on(event: "socketerror", listener: (error: string) => void): unknown;
+  on(event: "close", listener: () => void): unknown;
+}
+
+/**
+ * SocketRecorder 監聽的頁面（Playwright Page 的子集）
+ */
+export interface RecordedPage {
+  isClosed(): boolean;
+  on(event: "websocket", listener: (ws: RecordedWebSocket) => void): unknown;
+}
+
+/**
+ * SocketRecorder 掛載的 BrowserContext（Playwright BrowserContext 皆符合；測試可傳入以事件模擬的假 Context）
+ */
+export interface RecordedContext {
+  pages(): RecordedPage[];
+  on(event: "page", listener: (page: RecordedPage) => void): unknown;
+}
+
+/**
+ * SocketRecorder 類別
+ * 每位虛擬使用者的 BrowserContext 各掛載一個，彙總值寫入共用的 MetricsCollector
+ */
+export class SocketRecorder {
+  private open = new Set<RecordedWebSocket>();
+  private lastTickAt?: number; // 最近一次收到股價 tick 的時間
+  private seenSinceTick = new Set<string>(); // 最近一次 tick 之後已計算延遲的事件
+  private disconnected = false; // 是否有尚未重新連線的斷線
+  private stopped = false;
+  private label: string;
+
+  /**
+   * 建構函式
+   * @param userIndex 使用者編號（用於 Log 識別與使用者數統計）
+   * @param metrics 指標收集器（與 GameActions 共用同一個實例）
+   * @param tickEvent 股價 tick 事件名稱（預設 config.ts 的 SOCKET_TICK_EVENT）
+   */
+  constructor(
+    private userIndex: number,
+    private metrics: MetricsCollector,
+    private tickEvent: string = SOCKET_TICK_EVENT
+  ) {
+    this.label = `[Socket][User ${userIndex.toString().padStart(2, "0")}]`;
+  }
+
+  /**
+   * 監聽 BrowserContext 內所有頁面（含之後開啟的頁面）的 WebSocket
+   */
+  attach(context: RecordedContext): void {
+    context.pages().forEach((page) => this.attachPage(page));
+    context.on("page", (page) => this.attachPage(page));
+  }
+
+  /**
+   * 停止紀錄（於關閉 Context 前呼叫，之後的連線關閉不視為斷線）
+   */
+  stop(): void {
+    this.stopped = true;
+  }
+
+  private attachPage(page: RecordedPage): void {
+    page.on("websocket", (ws) => this.onWebSocket(page, ws));
+  }
+
+  private onWebSocket(page: RecordedPage, ws: RecordedWebSocket): void {
+    if (this.stopped) return;
+    this.open.add(ws);
+    this.metrics.recordSocketConnection("connect");
+    if (this.disconnected) {
+      this.disconnected = false;
+      this.metrics.recordSocketConnection("reconnect");
+      console.log(`${this.label} 🔄 重新連線：${ws.url()}`);
+    }
+
+    const openedAt = Date.now();
+    ws.on("framesent", (frame) => this.onFrame("sent", frame.payload));
+    ws.on("framereceived", (frame) => this.onFrame("received", frame.payload));
+    ws.on("socketerror", (error) => console.warn(`${this.label} ⚠️ WebSocket 錯誤：${error}`));
+    ws.on("close", () => {
+      this.open.delete(ws);
+      // 頁面關閉、換頁或停止紀錄時的關閉屬正常結束
+      if (this.stopped || page.isClosed() || this.open.size > 0) return;
+      this.disconnected = true;
+      this.metrics.recordSocketConnection("disconnect");
+      console.warn(`${this.label} ⚠️ 連線中斷（已連線 ${((Date.now() - openedAt) / 1000).toFixed(1)} 秒）：${ws.url()}`);
+    });
+  }
+
+  private onFrame(direction: SocketDirection, payload: string | Buffer): void {
+    if (this.stopped) return;
+    const packet = decodeSocketIoFrame(payload);
+    if (!packet) return;
+
+    const time = Date.now();
+    const lagMs = direction === "received" ? this.pushLag(packet, time) : undefined;
+    this.metrics.recordSocketFrame({
+      userIndex: this.userIndex,
+      direction,
+      event: packet.event,
+      bytes: Buffer.byteLength(payload),
+      time,
+      ...(lagMs !== undefined ? { lagMs } : {}),
+    });
+  }
+
+  /**
+   * 計算推播延遲（見檔案開頭說明）
+   */
+  private pushLag(packet: SocketIoPacket, time: number): number | undefined {
+    if (packet.event === this.tickEvent) {
+      this.lastTickAt = time;
+      this.seenSinceTick.clear();
+      const serverTime = (packet.args[0] as { serverTime?: unknown } | undefined)?.serverTime;
+      return typeof serverTime === "number" ? Math.max(0, time - serverTime) : undefined;
+    }
+
+    if (this.lastTickAt === undefined || packet.event.startsWith("(") || this.seenSinceTick.has(packet.event)) {
+      return undefined;
+    }
+    this.seenSinceTick.add(packet.event);
+    return time - this.lastTickAt;
+  }
+}
@@ -0,0 +1,288 @@
+// tests/stress/core/StateVerifier.ts
+import { Page } from "@playwright/test";
+import { API_URL } from "../config";
+import { ConsistencyStatus, MetricsCollector } from "./MetricsCollector";
+import { LoginPage } from "./pages/LoginPage";
+
+/**
+ * 後端狀態驗證
+ *
+ * 交易與借還款 Action 以 Toast 與畫面數值判斷成功，但畫面顯示成功不代表後端帳務正確。
+ * 開啟 VERIFY_STATE（STRESS_VERIFY_STATE=1）後，GameActions 在每次變更資產的 Action 前後
+ * 以玩家 localStorage 的 Token 直接查詢後端（API_URL），確認現金、持股、負債與合約的變化量符合預期，
+ * 不符時記錄為「一致性失敗」寫入執行報告（不影響 Action 本身的成功 / 失敗判定）。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 後端合約資料（GET /api/user/me 的 assets.contracts）
+ */
+export interface LedgerContract {
+  type: "LONG" | "SHORT";
+  leverage: number;
+  amount: number; // 張數
+  margin: number; // 保證金
+  day: number; // 下單天數
+}
+
+/**
+ * 某一時間點的後端帳務快照
+ */
+export interface LedgerSnapshot {
+  cash: number;
+  stockCount: number;
+  debt: number;
+  contracts: LedgerContract[];
+  price: number; // 當前股價（GET /api/game/status）
+  day: number; // 當前天數
+}
+
+/**
+ * Action 預期造成的帳務變化
+ */
+export type ExpectedChange =
+  | { kind: "stock"; side: "BUY" | "SELL"; amount: number } // 現貨買賣 amount 張
+  | { kind: "contractOpen"; type: "LONG" | "SHORT"; leverage: number; amount: number } // 開一筆合約
+  | { kind: "contractCancel" } // 撤銷今日所有合約
+  | { kind: "loan"; action: "BORROW" | "REPAY"; amount: number }; // 借 / 還 amount 元
+
+/**
+ * 比對結果（mismatches 為不符的項目；skipped 時為略過原因）
+ */
+export interface LedgerComparison {
+  status: ConsistencyStatus;
+  mismatches: string[];
+}
+
+// ==================== 比對規則 ====================
+
+/**
+ * 金額比對容許誤差（後端以分為單位四捨五入）
+ */
+const CASH_EPSILON = 0.01;
+
+/**
+ * 成交價容許範圍：Action 前後股價區間再放寬 5%（Action 期間股價仍在跳動）
+ */
+export const PRICE_TOLERANCE = 0.05;
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatDelta(value: number): string {
+  return `${value >= 0 ? "+" : ""}${round2(value)}`;
+}
+
+/**
+ * 比對 Action 前後的帳務快照
+ * 張數、負債與合約數量要求完全相符；現貨的現金變化以前後股價區間推算成交價，
+ * 成交價需落在 PRICE_TOLERANCE 放寬後的區間內
+ *
+ * @param before Action 前的快照
+ * @param after Action 後的快照
+ * @param change 預期的變化
+ */
+export function compareLedger(before: LedgerSnapshot, after: LedgerSnapshot, change: ExpectedChange): LedgerComparison {
+  if (after.day !== before.day) {
+    return { status: "skipped", mismatches: [`Action 期間跨日結算（第 ${before.day} → ${after.day} 天）`] };
+  }
+
+  const mismatches: string[] = [];
+  const cashDelta = round2(after.cash - before.cash);
+  const stockDelta = after.stockCount - before.stockCount;
+  const debtDelta = round2(after.debt - before.debt);
+  const contractDelta = after.contracts.length - before.contracts.length;
+
+  const expectEqual = (label: string, actual: number, expected: number, epsilon: number = 0) => {
+    if (Math.abs(actual - expected) > epsilon) {
+      mismatches.push(`${label}變化 ${formatDelta(actual)}，預期 ${formatDelta(expected)}`);
+    }
+  };
+
+  switch (change.kind) {
+    case "stock": {
+      const sign = change.side === "BUY" ? 1 : -1;
+      expectEqual("持股", stockDelta, sign * change.amount);
+      expectEqual("負債", debtDelta, 0, CASH_EPSILON);
+      expectEqual("合約數", contractDelta, 0);
+
+      // 現金變化推算成交價（買入為負、賣出為正）
+      const impliedPrice = (-sign * cashDelta) / change.amount;
+      const low = Math.min(before.price, after.price) * (1 - PRICE_TOLERANCE);
+      const high = Math.max(before.price, after.price) * (1 + PRICE_TOLERANCE);
+      if (!(impliedPrice >= low - CASH_EPSILON && impliedPrice <= high + CASH_EPSILON)) {
+        mismatches.push(
+          `現金變化 ${formatDelta(cashDelta)}，推算成交價 ${round2(impliedPrice)} 不在股價區間 ${round2(low)} ~ ${round2(high)}`
+        );
+      }
+      break;
+    }
+
+    case "contractOpen": {
+      expectEqual("合約數", contractDelta, 1);
+      expectEqual("持股", stockDelta, 0);
+      expectEqual("負債", debtDelta, 0, CASH_EPSILON);
+
+      const opened = after.contracts[after.contracts.length - 1];
+      if (contractDelta === 1 && opened) {
+        if (opened.type !== change.type || opened.leverage !== change.leverage || opened.amount !== change.amount) {
+          mismatches.push(
+            `新合約為 ${opened.type} ${opened.leverage}倍 ${opened.amount}張，預期 ${change.type} ${change.leverage}倍 ${change.amount}張`
+          );
+        }
+        expectEqual("現金", cashDelta, -opened.margin, CASH_EPSILON);
+      }
+      break;
+    }
+
+    case "contractCancel": {
+      const today = before.contracts.filter((c) => c.day === before.day);
+      const refund = round2(today.reduce((sum, c) => sum + c.margin, 0));
+      expectEqual("合約數", contractDelta, -today.length);
+      expectEqual("現金", cashDelta, refund, CASH_EPSILON);
+      expectEqual("持股", stockDelta, 0);
+      expectEqual("負債", debtDelta, 0, CASH_EPSILON);
+      break;
+    }
+
+    case "loan": {
+      const sign = change.action === "BORROW" ? 1 : -1;
+      expectEqual("現金", cashDelta, sign * change.amount, CASH_EPSILON);
+      expectEqual("負債", debtDelta, sign * change.amount, CASH_EPSILON);
+      expectEqual("持股", stockDelta, 0);
+      break;
+    }
+  }
+
+  return { status: mismatches.length > 0 ? "mismatch" : "match", mismatches };
+}
+
+/**
+ * 描述預期變化（用於 Log 與報告）
+ */
+export function describeChange(change: ExpectedChange): string {
+  switch (change.kind) {
+    case "stock":
+      return `${change.side === "BUY" ? "買入" : "賣出"} ${change.amount} 張`;
+    case "contractOpen":
+      return `${change.type === "LONG" ? "做多" : "做空"} ${change.leverage}倍 ${change.amount}張`;
+    case "contractCancel":
+      return "撤銷今日合約";
+    case "loan":
+      return `${change.action === "BORROW" ? "借款" : "還款"} $${change.amount}`;
+  }
+}
+
+// ==================== 後端查詢 ====================
+
+/**
+ * 讀取帳務所需的後端 API
+ */
+const LEDGER_ENDPOINTS = {
+  profile: "/api/user/me", // 玩家資料與資產（assets）
+  game: "/api/game/status", // 遊戲狀態（day、price）
+} as const;
+
+/**
+ * StateVerifier 類別
+ * 由 GameActions 在變更資產的 Action 前後呼叫（snapshot → Action → verify）
+ * 查詢使用 Page 所屬 BrowserContext 的 APIRequestContext，不經過頁面，也不會被 NetworkRecorder 計入 Action 的後端耗時
+ */
+export class StateVerifier {
+  private loginPage: LoginPage;
+
+  /**
+   * @param page Playwright Page 實例（已登入，Token 存於 localStorage）
+   * @param userIndex 使用者編號（用於 Log 識別）
+   * @param metrics 指標收集器（可選，一致性結果寫入執行報告）
+   * @param apiUrl 後端 API 網址（預設 config.ts 的 API_URL）
+   */
+  constructor(
+    private page: Page,
+    private userIndex: number,
+    private metrics?: MetricsCollector,
+    private apiUrl: string = API_URL
+  ) {
+    this.loginPage = new LoginPage(page);
+  }
+
+  private log(id: number, name: string, msg: string) {
+    const userStr = this.userIndex.toString().padStart(2, "0");
+    const idStr = id.toString().padStart(2, "0");
+    console.log(`[User ${userStr}][Action ${idStr}] ${name}: 後端驗證 ${msg}`);
+  }
+
+  private async getJson(pathname: string, token: string): Promise<any> {
+    const response = await this.page.request.get(`${this.apiUrl}${pathname}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!response.ok()) {
+      throw new Error(`${pathname} → ${response.status()}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * 讀取後端帳務快照
+   * @returns 快照（未登入或查詢失敗時為 null，該次 Action 不驗證）
+   */
+  async snapshot(): Promise<LedgerSnapshot | null> {
+    try {
+      const token = await this.loginPage.readToken();
+      if (!token) return null;
+
+      const [profile, game] = await Promise.all([
+        this.getJson(LEDGER_ENDPOINTS.profile, token),
+        this.getJson(LEDGER_ENDPOINTS.game, token),
+      ]);
+      const assets = profile.assets || {};
+      return {
+        cash: Number(assets.cash) || 0,
+        stockCount: Number(assets.stockCount) || 0,
+        debt: Number(assets.debt) || 0,
+        contracts: Array.isArray(assets.contracts) ? assets.contracts : [],
+        price: Number(game.price) || 0,
+        day: Number(game.day) || 0,
+      };
+    } catch (error: any) {
+      console.warn(`[User ${this.userIndex.toString().padStart(2, "0")}] ⚠️ 後端帳務快照讀取失敗：${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Action 成功後讀取快照並與 Action 前的快照比對，結果寫入 MetricsCollector
+   * @param id Action ID
+   * @param name Action 名稱
+   * @param before Action 前的快照（null 表示無法驗證，記為 skipped）
+   * @param change 預期的變化
+   * @returns 比對結果
+   */
+  async verify(id: number, name: string, before: LedgerSnapshot | null, change: ExpectedChange): Promise<LedgerComparison> {
+    const after = before ? await this.snapshot() : null;
+    const comparison: LedgerComparison =
+      before && after ? compareLedger(before, after, change) : { status: "skipped", mismatches: ["無法讀取後端帳務快照"] };
+
+    const expected = describeChange(change);
+    if (comparison.status === "match") {
+      this.log(id, name, `✅ 一致（${expected}）`);
+    } else if (comparison.status === "skipped") {
+      this.log(id, name, `⏭️ 略過（${comparison.mismatches.join("；")}）`);
+    } else {
+      this.log(id, name, `❌ 不一致（${expected}）：${comparison.mismatches.join("；")}`);
+    }
+
+    this.metrics?.recordConsistency({
+      userIndex: this.userIndex,
+      actionId: id,
+      actionName: name,
+      time: Date.now(),
+      expected,
+      status: comparison.status,
+      mismatches: comparison.mismatches,
+    });
+    return comparison;
+  }
+}
@@ -0,0 +1,338 @@
+// tests/stress/core/UiContract.ts
+import { Browser, BrowserContextOptions, Locator, Page } from "@playwright/test";
+import { USE_MOCK } from "../config";
+import { AssetLabel, AssetPanel } from "./pages/AssetPanel";
+import { LoanSharkModal } from "./pages/LoanSharkModal";
+import { LoginPage } from "./pages/LoginPage";
+import { FRONTEND_VERSION } from "./pages/PageObject";
+import { StatusBar } from "./pages/StatusBar";
+import { TradingBar } from "./pages/TradingBar";
+
+/**
+ * UI 契約檢查（Selector 漂移偵測）
+ *
+ * 壓測開始前以一個帳號登入，依序進入 GameActions 會操作的畫面
+ * （登入頁、主頁狀態列與資產面板、現貨 / 合約 Tab、地下錢莊 Modal、使用者選單、頭像選擇），
+ * 確認每個頁面物件的 Selector 都能找到元素，並輸出逐項通過 / 失敗表格。
+ * 前端改版導致 Selector 失效時，在開始負載前即中止，而不是讓所有虛擬使用者逾時。
+ *
+ * 小遊戲 Overlay（問答、少數決）需由 Admin 發布才會出現，不在檢查範圍內；
+ * 使用者選單的「員工身分」只對應 mock 前端，僅在 STRESS_MOCK=1 時檢查。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 檢查用的頁面物件組
+ */
+export interface ContractPages {
+  login: LoginPage;
+  statusBar: StatusBar;
+  assetPanel: AssetPanel;
+  tradingBar: TradingBar;
+  loanShark: LoanSharkModal;
+}
+
+/**
+ * 單一 Selector 檢查項目
+ */
+export interface ContractCheck {
+  name: string; // 顯示名稱（頁面物件.屬性）
+  locate: (pages: ContractPages) => Locator;
+  minCount?: number; // 至少需要幾個元素（預設 1，只檢查第一個是否可見）
+}
+
+/**
+ * 畫面：進入方式與該畫面上需要存在的 Selector
+ */
+export interface ContractScreen {
+  name: string;
+  enter?: (pages: ContractPages, page: Page, account: ContractAccount) => Promise<void>; // 進入畫面（未設定表示停留在目前畫面）
+  checks: ContractCheck[];
+  leave?: (pages: ContractPages, page: Page) => Promise<void>; // 檢查完後離開（例如關閉 Modal）
+}
+
+/**
+ * 單一 Selector 檢查結果
+ */
+export interface ContractCheckResult {
+  screen: string;
+  selector: string;
+  ok: boolean;
+  detail: string; // 通過時為找到的元素數量，失敗時為原因
+}
+
+/**
+ * 整體檢查報告
+ */
+export interface ContractReport {
+  frontendVersion: string; // 頁面物件對應的前端版本
+  results: ContractCheckResult[];
+  passed: boolean;
+}
+
+/**
+ * 檢查用的帳號
+ */
+export interface ContractAccount {
+  username: string;
+  password: string;
+}
+
+// ==================== 契約內容 ====================
+
+/**
+ * 每個 Selector 的等待上限（毫秒）
+ */
+export const CONTRACT_CHECK_TIMEOUT = 5000;
+
+/**
+ * 主頁資產面板必定顯示的項目（合約保證金只在有未結算合約時出現）
+ */
+const ASSET_LABELS: AssetLabel[] = ["現金", "股票", "股票現值", "負債"];
+
+/**
+ * 切換交易 Tab
+ */
+function switchTab(name: "現貨" | "合約") {
+  return async (pages: ContractPages) => {
+    await pages.tradingBar.tab(name).click({ timeout: CONTRACT_CHECK_TIMEOUT });
+  };
+}
+
+/**
+ * 依畫面順序排列的 UI 契約（與 GameActions 的操作順序一致）
+ */
+export const UI_CONTRACT: ContractScreen[] = [
+  {
+    name: "登入頁",
+    enter: (pages) => pages.login.goto(),
+    checks: [
+      { name: "LoginPage.usernameInput", locate: (p) => p.login.usernameInput },
+      { name: "LoginPage.passwordInput", locate: (p) => p.login.passwordInput },
+      { name: "LoginPage.loginButton", locate: (p) => p.login.loginButton },
+      { name: "LoginPage.registerButton", locate: (p) => p.login.registerButton },
+    ],
+  },
+  {
+    name: "主頁",
+    enter: async (pages, page, account) => {
+      await pages.login.usernameInput.fill(account.username, { timeout: CONTRACT_CHECK_TIMEOUT });
+      await pages.login.passwordInput.fill(account.password, { timeout: CONTRACT_CHECK_TIMEOUT });
+      await pages.login.loginButton.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+      await page.waitForURL(pages.login.homeUrl, { timeout: 10000 });
+    },
+    checks: [
+      { name: "StatusBar.countdown", locate: (p) => p.statusBar.countdown },
+      { name: "StatusBar.day", locate: (p) => p.statusBar.day },
+      { name: "StatusBar.currentPrice", locate: (p) => p.statusBar.currentPrice },
+      { name: "StatusBar.avatar", locate: (p) => p.statusBar.avatar },
+      { name: "AssetPanel.totalAssets", locate: (p) => p.assetPanel.totalAssets },
+      ...ASSET_LABELS.map((label) => ({ name: `AssetPanel.value("${label}")`, locate: (p: ContractPages) => p.assetPanel.value(label) })),
+    ],
+  },
+  {
+    name: "現貨 Tab",
+    enter: switchTab("現貨"),
+    checks: [
+      { name: "TradingBar.tradeSwitch", locate: (p) => p.tradingBar.tradeSwitch },
+      { name: "TradingBar.stockAmountInput", locate: (p) => p.tradingBar.stockAmountInput },
+      { name: 'TradingBar.stockButton("BUY")', locate: (p) => p.tradingBar.stockButton("BUY") },
+      { name: 'TradingBar.stockButton("SELL")', locate: (p) => p.tradingBar.stockButton("SELL") },
+      { name: "TradingBar.loanSharkButton", locate: (p) => p.tradingBar.loanSharkButton },
+    ],
+  },
+  {
+    name: "合約 Tab",
+    enter: switchTab("合約"),
+    checks: [
+      { name: 'TradingBar.contractDirection("LONG")', locate: (p) => p.tradingBar.contractDirection("LONG") },
+      { name: 'TradingBar.contractDirection("SHORT")', locate: (p) => p.tradingBar.contractDirection("SHORT") },
+      { name: "TradingBar.contractInputs（槓桿、張數）", locate: (p) => p.tradingBar.contractInputs, minCount: 2 },
+      { name: "TradingBar.contractSubmitButton", locate: (p) => p.tradingBar.contractSubmitButton },
+      { name: "TradingBar.marginPreview", locate: (p) => p.tradingBar.marginPreview },
+      { name: "TradingBar.cancelContractsButton", locate: (p) => p.tradingBar.cancelContractsButton },
+    ],
+    leave: switchTab("現貨"),
+  },
+  {
+    name: "地下錢莊",
+    enter: async (pages) => {
+      await pages.tradingBar.loanSharkButton.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+      await pages.loanShark.title.waitFor({ state: "visible", timeout: CONTRACT_CHECK_TIMEOUT });
+    },
+    checks: [
+      { name: "LoanSharkModal.title", locate: (p) => p.loanShark.title },
+      { name: "LoanSharkModal.closeButton", locate: (p) => p.loanShark.closeButton },
+      { name: "LoanSharkModal.merchantImage", locate: (p) => p.loanShark.merchantImage },
+      { name: "LoanSharkModal.modeSwitch", locate: (p) => p.loanShark.modeSwitch },
+      { name: "LoanSharkModal.amountInputs", locate: (p) => p.loanShark.amountInputs },
+      { name: 'LoanSharkModal.submitButton("BORROW")', locate: (p) => p.loanShark.submitButton("BORROW") },
+    ],
+    leave: async (pages) => {
+      await pages.loanShark.closeButton.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+      await pages.loanShark.title.waitFor({ state: "hidden", timeout: CONTRACT_CHECK_TIMEOUT });
+    },
+  },
+  {
+    name: "使用者選單",
+    enter: async (pages) => {
+      await pages.statusBar.avatar.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+    },
+    checks: [
+      { name: "StatusBar.changeAvatarOption", locate: (p) => p.statusBar.changeAvatarOption },
+      ...(USE_MOCK ? [{ name: "StatusBar.employeeOption", locate: (p: ContractPages) => p.statusBar.employeeOption }] : []),
+    ],
+    leave: async (pages) => {
+      await pages.statusBar.avatar.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+    },
+  },
+  {
+    name: "頭像選擇",
+    enter: async (pages) => {
+      await pages.statusBar.avatar.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+      await pages.statusBar.changeAvatarOption.click({ timeout: CONTRACT_CHECK_TIMEOUT });
+    },
+    checks: [
+      { name: 'StatusBar.avatarOption("avatar_00.webp")', locate: (p) => p.statusBar.avatarOption("avatar_00.webp") },
+      { name: "StatusBar.saveAvatarButton", locate: (p) => p.statusBar.saveAvatarButton },
+    ],
+  },
+];
+
+// ==================== 檢查流程 ====================
+
+/**
+ * 檢查單一 Selector：等待第一個元素可見，並確認數量達到 minCount
+ */
+async function runCheck(screen: string, check: ContractCheck, pages: ContractPages): Promise<ContractCheckResult> {
+  const minCount = check.minCount ?? 1;
+  const locator = check.locate(pages);
+  try {
+    await locator.first().waitFor({ state: "visible", timeout: CONTRACT_CHECK_TIMEOUT });
+    const count = await locator.count();
+    if (count < minCount) {
+      return { screen, selector: check.name, ok: false, detail: `只找到 ${count} 個（需要 ${minCount} 個）` };
+    }
+    return { screen, selector: check.name, ok: true, detail: `找到 ${count} 個` };
+  } catch {
+    return { screen, selector: check.name, ok: false, detail: `${CONTRACT_CHECK_TIMEOUT / 1000} 秒內未出現` };
+  }
+}
+
+/**
+ * 以已開啟的 Page 依序檢查 UI 契約
+ * 進入主頁時以該帳號登入；無法進入的畫面，其所有項目皆記為失敗，之後的畫面仍繼續檢查
+ * @param page 尚未登入的 Page（BrowserContext 需設定 baseURL）
+ * @param account 檢查用的帳號
+ * @param contract 要檢查的畫面（預設 UI_CONTRACT）
+ */
+export async function checkUiContract(
+  page: Page,
+  account: ContractAccount,
+  contract: ContractScreen[] = UI_CONTRACT
+): Promise<ContractReport> {
+  const pages: ContractPages = {
+    login: new LoginPage(page),
+    statusBar: new StatusBar(page),
+    assetPanel: new AssetPanel(page),
+    tradingBar: new TradingBar(page),
+    loanShark: new LoanSharkModal(page),
+  };
+  const results: ContractCheckResult[] = [];
+
+  for (const screen of contract) {
+    try {
+      await screen.enter?.(pages, page, account);
+    } catch (error: any) {
+      const reason = `無法進入畫面：${error.message.split("\n")[0]}`;
+      results.push(...screen.checks.map((check) => ({ screen: screen.name, selector: check.name, ok: false, detail: reason })));
+      console.error(`[Contract] ❌ ${screen.name}：${reason}`);
+      continue;
+    }
+
+    for (const check of screen.checks) {
+      results.push(await runCheck(screen.name, check, pages));
+    }
+
+    try {
+      await screen.leave?.(pages, page);
+    } catch (error: any) {
+      console.warn(`[Contract] ⚠️ ${screen.name}：離開畫面失敗（${error.message.split("\n")[0]}）`);
+    }
+  }
+
+  return summarizeContract(results);
+}
+
+/**
+ * 彙整檢查結果
+ */
+export function summarizeContract(results: ContractCheckResult[]): ContractReport {
+  return { frontendVersion: FRONTEND_VERSION, results, passed: results.length > 0 && results.every((r) => r.ok) };
+}
+
+/**
+ * 開啟獨立的 BrowserContext 檢查 UI 契約（檢查完即關閉，不影響之後的虛擬使用者）
+ */
+export async function runUiContractCheck(
+  browser: Browser,
+  account: ContractAccount,
+  contextOptions?: BrowserContextOptions
+): Promise<ContractReport> {
+  const context = await browser.newContext(contextOptions);
+  const page = await context.newPage();
+  try {
+    return await checkUiContract(page, account);
+  } finally {
+    await context.close().catch(() => {});
+  }
+}
+
+// ==================== 報表 ====================
+
+/**
+ * 字串的顯示寬度（中日韓全形字元以 2 格計算，讓表格在終端機上對齊）
+ */
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const ch of text) {
+    width += /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(ch) ? 2 : 1;
+  }
+  return width;
+}
+
+function pad(text: string, width: number): string {
+  return text + " ".repeat(Math.max(0, width - displayWidth(text)));
+}
+
+/**
+ * 將檢查結果格式化為逐項通過 / 失敗表格（最後一行為統計）
+ */
+export function formatContractTable(report: ContractReport): string {
+  const rows = report.results.map((r) => [r.screen, r.selector, r.ok ? "✅ 通過" : "❌ 失敗", r.detail]);
+  const header = ["畫面", "Selector", "結果", "說明"];
+  const widths = header.map((h, i) => Math.max(displayWidth(h), ...rows.map((row) => displayWidth(row[i]))));
+  const line = (cells: string[]) => cells.map((cell, i) => pad(cell, widths[i])).join(" | ").trimEnd();
+
+  const failed = report.results.filter((r) => !r.ok).length;
+  return [
+    line(header),
+    widths.map((w) => "-".repeat(w)).join("-|-"),
+    ...rows.map(line),
+    "",
+    `前端版本 ${report.frontendVersion}：共 ${report.results.length} 項，通過 ${report.results.length - failed} 項，失敗 ${failed} 項`,
+  ].join("\n");
+}
+
+/**
+ * 契約不符時拋出錯誤（訊息列出失敗的 Selector），供壓測開始前中止
+ */
+export function assertUiContract(report: ContractReport): void {
+  if (report.passed) return;
+  const failed = report.results.filter((r) => !r.ok).map((r) => `${r.screen} / ${r.selector}（${r.detail}）`);
+  throw new Error(
+    `❌ UI 契約檢查失敗：${failed.length} 個 Selector 無法對應前端畫面（頁面物件版本 ${report.frontendVersion}），` +
+      `請更新 core/pages/ 後再執行壓測：\n   ${failed.join("\n   ")}`
+  );
+}
@@ -0,0 +1,261 @@
+// tests/stress/core/UserRegistry.ts
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * 測試帳號登錄表（data/users.json）
+ *
+ * 所有讀寫 users.json 的程式（GameActions.register、provision_users.ts、orchestrator、測試案例）皆透過此模組：
+ * - 寫入：先取得檔案鎖（users.json.lock），再寫入暫存檔後 rename，避免多個 BrowserContext 同時註冊時互相覆蓋
+ * - 租用：同一時間一個帳號只會租給一位虛擬使用者，結束時歸還；
+ *   租用紀錄寫在帳號的 lease 欄位，逾期或持有者程序已結束（同一台機器）時視為已歸還
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 帳號租用紀錄
+ */
+export interface AccountLease {
+  owner: string; // 租用者（例如 "orchestrator-1234-1700000000000"、"actions.spec:Action 02: Login"）
+  pid: number; // 租用者的程序 ID
+  leasedAt: number; // 租用時間（毫秒時間戳）
+  expiresAt: number; // 到期時間（毫秒時間戳）
+}
+
+/**
+ * 測試帳號
+ */
+export interface User {
+  username: string;
+  password: string;
+  registered: boolean;
+  lease?: AccountLease; // 目前的租用紀錄（未租用時不存在）
+}
+
+/**
+ * 登錄表參數
+ */
+export interface UserRegistryOptions {
+  lockTimeoutMs?: number; // 等待檔案鎖的上限（預設 10 秒）
+  staleLockMs?: number; // 檔案鎖超過此時間未釋放視為殘留（預設 30 秒）
+  leaseTtlMs?: number; // 租用期限（預設 2 小時，涵蓋最長的 Full Game 測試）
+}
+
+/**
+ * 預設 users.json 路徑
+ */
+export const USERS_FILE = path.join(__dirname, "../data/users.json");
+
+const DEFAULT_OPTIONS: Required<UserRegistryOptions> = {
+  lockTimeoutMs: 10 * 1000,
+  staleLockMs: 30 * 1000,
+  leaseTtlMs: 2 * 60 * 60 * 1000,
+};
+
+// ==================== 工具函數 ====================
+
+/**
+ * 檢查程序是否仍在執行（僅限同一台機器）
+ */
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error.code === "EPERM"; // 程序存在但無權限送出訊號
+  }
+}
+
+/**
+ * 等待指定毫秒數
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// ==================== UserRegistry ====================
+
+/**
+ * UserRegistry 類別
+ * 封裝 users.json 的讀取、原子寫入、檔案鎖與帳號租用
+ */
+export class UserRegistry {
+  private options: Required<UserRegistryOptions>;
+
+  /**
+   * 建構函式
+   * @param filePath users.json 路徑（預設 USERS_FILE）
+   * @param options 鎖定與租用參數
+   */
+  constructor(
+    private filePath: string = USERS_FILE,
+    options: UserRegistryOptions = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // ==================== 查詢 ====================
+
+  /**
+   * 讀取所有帳號（檔案不存在時返回空陣列）
+   * 寫入一律以 rename 完成，因此讀取不需要檔案鎖
+   */
+  read(): User[] {
+    if (!fs.existsSync(this.filePath)) return [];
+    const users = JSON.parse(fs.readFileSync(this.filePath, "utf-8"));
+    if (!Array.isArray(users)) {
+      throw new Error(`❌ ${path.basename(this.filePath)} 格式錯誤：最外層必須為陣列`);
+    }
+    return users;
+  }
+
+  /**
+   * 依帳號查詢
+   */
+  find(username: string): User | undefined {
+    return this.read().find((u) => u.username === username);
+  }
+
+  /**
+   * 帳號目前是否被租用（逾期或持有者程序已結束的租用視為已歸還）
+   */
+  isLeased(user: User, now: number = Date.now()): boolean {
+    if (!user.lease) return false;
+    return user.lease.expiresAt > now && isProcessAlive(user.lease.pid);
+  }
+
+  /**
+   * 已註冊且未被租用的帳號（依 users.json 中的順序）
+   */
+  available(now: number = Date.now()): User[] {
+    return this.read().filter((u) => u.registered && !this.isLeased(u, now));
+  }
+
+  // ==================== 寫入 ====================
+
+  /**
+   * 新增或更新帳號（以 username 比對，保留既有的租用紀錄，重複的紀錄合併為一筆）
+   */
+  async upsert(user: Omit<User, "lease">): Promise<void> {
+    await this.update((users) => {
+      const index = users.findIndex((u) => u.username === user.username);
+      const merged: User = { ...(index >= 0 ? users[index] : {}), ...user };
+      const rest = users.filter((u) => u.username !== user.username);
+      if (index >= 0) {
+        rest.splice(index, 0, merged);
+      } else {
+        rest.push(merged);
+      }
+      return { users: rest, result: undefined };
+    });
+  }
+
+  /**
+   * 租用帳號（已註冊且未被租用者，依 users.json 中的順序）
+   * @param owner 租用者識別字串（歸還時使用）
+   * @param count 租用數量
+   * @returns 租用到的帳號
+   * @throws 可用帳號不足時拋出錯誤（不會租用任何帳號）
+   */
+  async lease(owner: string, count: number = 1): Promise<User[]> {
+    return this.update((users) => {
+      const now = Date.now();
+      const candidates = users.filter((u) => u.registered && !this.isLeased(u, now));
+      if (candidates.length < count) {
+        const leased = users.filter((u) => u.registered && this.isLeased(u, now)).length;
+        throw new Error(
+          `❌ 可用帳號不足：需要 ${count} 個，已註冊且未被租用的只有 ${candidates.length} 個（另有 ${leased} 個租用中），` +
+            `請先執行 provision_users.ts 批次建立帳號`
+        );
+      }
+
+      const lease: AccountLease = { owner, pid: process.pid, leasedAt: now, expiresAt: now + this.options.leaseTtlMs };
+      const picked = candidates.slice(0, count);
+      picked.forEach((u) => {
+        u.lease = { ...lease };
+      });
+      return { users, result: picked.map((u) => ({ ...u })) };
+    });
+  }
+
+  /**
+   * 歸還租用者的所有帳號
+   * @returns 歸還數量
+   */
+  async release(owner: string): Promise<number> {
+    return this.update((users) => {
+      let released = 0;
+      users.forEach((u) => {
+        if (u.lease?.owner === owner) {
+          delete u.lease;
+          released++;
+        }
+      });
+      return { users, result: released };
+    });
+  }
+
+  // ==================== 檔案鎖與原子寫入 ====================
+
+  /**
+   * 在檔案鎖內讀取 → 修改 → 寫回
+   * mutate 拋出錯誤時不寫回
+   */
+  private async update<T>(mutate: (users: User[]) => { users: User[]; result: T }): Promise<T> {
+    const release = await this.acquireLock();
+    try {
+      const { users, result } = mutate(this.read());
+      this.writeAtomic(users);
+      return result;
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 取得檔案鎖（以 O_EXCL 建立 .lock 檔）
+   * @returns 釋放函式
+   */
+  private async acquireLock(): Promise<() => void> {
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + this.options.lockTimeoutMs;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    while (true) {
+      try {
+        const fd = fs.openSync(lockPath, "wx");
+        fs.writeSync(fd, String(process.pid));
+        fs.closeSync(fd);
+        return () => fs.rmSync(lockPath, { force: true });
+      } catch (error: any) {
+        if (error.code !== "EEXIST") throw error;
+      }
+
+      // 殘留的鎖（持有者異常結束）：超過 staleLockMs 後移除
+      try {
+        if (Date.now() - fs.statSync(lockPath).mtimeMs > this.options.staleLockMs) {
+          console.warn(`[UserRegistry] ⚠️ 移除殘留的檔案鎖：${lockPath}`);
+          fs.rmSync(lockPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue; // 鎖已被釋放，立即重試
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(`❌ 等待 ${path.basename(lockPath)} 逾時（${this.options.lockTimeoutMs / 1000} 秒）`);
+      }
+      await sleep(20 + Math.floor(Math.random() * 30));
+    }
+  }
+
+  /**
+   * 寫入暫存檔後 rename（同一檔案系統內為原子操作，讀取端不會讀到寫一半的檔案）
+   */
+  private writeAtomic(users: User[]): void {
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(users, null, 2), "utf-8");
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,37 @@
+// tests/stress/core/fixtures.ts
+import { test as base } from "@playwright/test";
+import * as path from "path";
+import { AdminActions, openAdminSession } from "./AdminActions";
+import { User, UserRegistry } from "./UserRegistry";
+
+/**
+ * 壓測共用的 Playwright Fixture
+ */
+export interface StressFixtures {
+  admin: AdminActions | null;
+  account: User;
+}
+
+/**
+ * 擴充 test：
+ * - admin fixture（已登入 /admin 後台的獨立 BrowserContext）
+ *   未設定 Admin 密碼（STRESS_ADMIN_PASSWORD）時為 null，測試改為印出手動操作提示或等待手動發布小遊戲
+ * - account fixture（自 users.json 租用一個已註冊帳號，測試結束後歸還）
+ *   平行執行的測試不會拿到相同帳號；帳號不足時拋出錯誤，請先執行 Action 01 或 provision_users.ts 建立帳號
+ */
+export const test = base.extend<StressFixtures>({
+  admin: async ({ browser, baseURL }, use) => {
+    const session = await openAdminSession(browser, { baseURL });
+    await use(session ? session.admin : null);
+    await session?.close();
+  },
+  account: async ({}, use, testInfo) => {
+    const registry = new UserRegistry();
+    const owner = `${path.basename(testInfo.file)}:${testInfo.title}`;
+    const [user] = await registry.lease(owner);
+    await use(user);
+    await registry.release(owner);
+  },
+});
+
+export { expect } from "@playwright/test";
@@ -0,0 +1,106 @@
+// tests/stress/core/pages/AssetPanel.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 資產細項標籤（標籤 div 的下一個兄弟 div 為數值）
+ */
+export type AssetLabel = "現金" | "股票" | "股票現值" | "負債" | "合約保證金";
+
+/**
+ * 主頁（/home）資產區塊：總資產、現金 / 股票 / 負債細項與合約保證金列表
+ */
+export class AssetPanel extends PageObject {
+  // ==================== 資產 ====================
+
+  /**
+   * 「總資產」標籤（資產區域已載入的標記）
+   */
+  get totalAssetsLabel(): Locator {
+    return this.label(/^總資產$/);
+  }
+
+  /**
+   * 總資產數值（前端以 fontSize: '36px'、fontWeight: 'bold' 顯示）
+   */
+  get totalAssets(): Locator {
+    return this.page.locator('div[style*="font-size: 36px"]').first();
+  }
+
+  /**
+   * 已渲染出數字的總資產（載入前為空白或佔位文字）
+   */
+  get renderedTotalAssets(): Locator {
+    return this.page.locator('div[style*="font-size: 36px"]').filter({ hasText: /\d/ }).first();
+  }
+
+  /**
+   * 細項數值（標籤所在容器內的第二個 div）
+   * @param label 細項標籤
+   */
+  value(label: AssetLabel): Locator {
+    return this.label(new RegExp(`^${label}$`)).locator("..").locator("div").nth(1);
+  }
+
+  // ==================== 合約 ====================
+
+  /**
+   * 「合約保證金」標籤（無合約時不顯示）
+   */
+  get marginLabel(): Locator {
+    return this.label(/^合約保證金$/);
+  }
+
+  /**
+   * 合約卡片的第一行（「做多 2倍」），位於合約保證金區塊內
+   */
+  get contractHeaders(): Locator {
+    return this.marginLabel.locator("../..").locator("div").filter({ hasText: /^(做多|做空)\s+\d+(\.\d+)?倍$/ });
+  }
+
+  /**
+   * 合約卡片的張數（「3張」，與第一行位於同一個卡片容器）
+   * @param header 合約卡片的第一行（contractHeaders.nth(i)）
+   */
+  contractAmount(header: Locator): Locator {
+    return header.locator("..").locator("div").filter({ hasText: /^\d+張$/ }).first();
+  }
+
+  private label(text: RegExp): Locator {
+    return this.page.locator("div").filter({ hasText: text }).first();
+  }
+}
+
+// ==================== 解析 ====================
+
+/**
+ * 貨幣解析
+ * 將 UI 顯示的字串（如 "$197.20", "1,000 股", "-$50.00"）轉換為數字
+ * @param text UI 文字內容
+ * @returns 解析後的數值（失敗時返回 0）
+ */
+export function parseCurrency(text: string | null): number {
+  if (!text) return 0;
+
+  // 移除所有非數字字符（保留負號和小數點）
+  // 範例：
+  //   "$1,234.56" -> "1234.56"
+  //   "100 股" -> "100"
+  //   "-$50.00" -> "-50.00"
+  const cleaned = text.replace(/[^0-9.-]/g, "");
+
+  const value = parseFloat(cleaned);
+  return isNaN(value) ? 0 : value; // 容錯處理：解析失敗時返回 0
+}
+
+/**
+ * 解析合約卡片第一行（格式：「做多 2倍」、「做空 2.5倍」）
+ * @returns 合約方向與槓桿倍數；格式不符時為 null
+ */
+export function parseContractHeader(text: string | null): { type: "LONG" | "SHORT"; leverage: number } | null {
+  // - (做多|做空)：合約方向
+  // - (\d+(\.\d+)?)：整數或小數倍數（如 2 或 2.5）
+  const match = text?.match(/(做多|做空)\s+(\d+(\.\d+)?)倍/);
+  if (!match) return null;
+  return { type: match[1] === "做多" ? "LONG" : "SHORT", leverage: parseFloat(match[2]) };
+}
@@ -0,0 +1,108 @@
+// tests/stress/core/pages/LoanSharkModal.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 地下錢莊 Modal（URL Hash: #loanshark）
+ * 商人頭像與對話、借 / 還切換、金額輸入（寬度 60px）與借款 / 還款按鈕
+ */
+export class LoanSharkModal extends PageObject {
+  /**
+   * Modal 開啟時的 URL Hash 錨點
+   */
+  readonly hash = "loanshark";
+
+  /**
+   * Modal 標題（可見表示 Modal 已開啟）
+   */
+  get title(): Locator {
+    return this.page.locator("span").filter({ hasText: /^地下錢莊$/ }).first();
+  }
+
+  /**
+   * 右上角關閉按鈕（CloseOutline 圖示）
+   */
+  get closeButton(): Locator {
+    return this.page
+      .locator('span[role="img"]')
+      .filter({ hasText: /close/i })
+      .or(this.page.locator("svg").filter({ has: this.page.locator('path[d*="M"]') }))
+      .first();
+  }
+
+  // ==================== 商人 ====================
+
+  /**
+   * 商人頭像（點擊後切換對話）
+   */
+  get merchantImage(): Locator {
+    return this.page.locator('img[alt="黑心商人"]').first();
+  }
+
+  /**
+   * 讀取商人目前的對話
+   * 對話框沒有固定的 class，以文字特徵辨識：
+   * 1. 長度在 15-80 字之間（對話通常不會太短或太長）
+   * 2. 不包含 UI 關鍵字、金額、額度或新聞條目
+   * 3. 包含中文標點符號且至少 5 個中文字
+   * 多個候選時優先選擇出現次數多的（巢狀 div 會重複包含同一段對話）
+   * @returns 對話內容（無法辨識時為空字串）
+   */
+  async readDialogue(): Promise<string> {
+    // 以字串傳入瀏覽器執行（避免 Node 端的型別檢查依賴 DOM lib）
+    const script = `(() => {
+      const excluded = ["模式", "日利率", "今日額度", "借款", "還款", "上限", "當前負債", "總資產", "測試員工", "(你)", "•"];
+      const counts = new Map();
+      document.querySelectorAll("div").forEach((div) => {
+        const text = (div.textContent || "").trim();
+        if (text.length < 15 || text.length > 80) return;
+        if (excluded.some((word) => text.includes(word))) return;
+        if (/\\$\\d+/.test(text) || /\\d+\\/\\d+/.test(text)) return;
+        if (!/[，。！？、：；]/.test(text) || !/[\\u4e00-\\u9fa5]{5,}/.test(text)) return;
+        counts.set(text, (counts.get(text) || 0) + 1);
+      });
+      const sorted = [...counts.entries()].sort((a, b) => b[1] - a[1]);
+      return sorted.length > 0 ? sorted[0][0] : "";
+    })()`;
+    return this.page.evaluate<string>(script);
+  }
+
+  // ==================== 借還款 ====================
+
+  /**
+   * 借 / 還切換（DualColorSwitch 自定義 div 元件，顯示「借」或「還」表示當前模式）
+   */
+  get modeSwitch(): Locator {
+    return this.page.locator("div").filter({ hasText: /^(借|還)$/ }).first();
+  }
+
+  /**
+   * 「金額 (元)」區塊內可見的數字輸入框（包含 Slider 的輸入框）
+   */
+  get amountInputs(): Locator {
+    return this.page.locator("div").filter({ hasText: /金額.*元/ }).locator('input[type="number"]:visible');
+  }
+
+  /**
+   * 金額輸入框的寬度（用於與 Slider 的輸入框區分）
+   */
+  readonly amountInputWidth = "60px";
+
+  /**
+   * 借款 / 還款按鈕（超過額度或現金 / 負債不足時停用）
+   */
+  submitButton(action: "BORROW" | "REPAY"): Locator {
+    return this.button(action === "BORROW" ? /^借款$/ : /^還款$/);
+  }
+
+  /**
+   * 借還款結果 Toast
+   */
+  get successToast(): Locator {
+    return this.toast(/成功/);
+  }
+
+  get errorToast(): Locator {
+    return this.toast(/失敗|不足|錯誤/);
+  }
+}
@@ -0,0 +1,78 @@
+// tests/stress/core/pages/LoginPage.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 登入頁（/）與「線上開戶」註冊 Modal
+ */
+export class LoginPage extends PageObject {
+  // ==================== 登入 ====================
+
+  /**
+   * 導航至登入頁（使用相對路徑，由 baseURL 決定前端網址）
+   */
+  async goto(): Promise<void> {
+    await this.page.goto("/");
+  }
+
+  get usernameInput(): Locator {
+    return this.page.locator('input[id*="username"]');
+  }
+
+  get passwordInput(): Locator {
+    return this.page.locator('input[id*="password"]');
+  }
+
+  get loginButton(): Locator {
+    return this.page.locator('button[type="submit"]').first();
+  }
+
+  /**
+   * 登入成功後跳轉的網址
+   */
+  readonly homeUrl = "**/home";
+
+  /**
+   * 讀取 localStorage 中的登入 Token（未登入時為 null）
+   */
+  async readToken(): Promise<string | null> {
+    return this.page.evaluate<string | null>('localStorage.getItem("token")');
+  }
+
+  // ==================== 註冊 ====================
+
+  get registerButton(): Locator {
+    return this.page.locator('button:has-text("線上開戶")').first();
+  }
+
+  /**
+   * 註冊 Modal 容器（表單欄位皆在 Modal 內查找，避免與背景的登入表單衝突）
+   */
+  get registerModal(): Locator {
+    return this.page.locator(".adm-center-popup-body");
+  }
+
+  /**
+   * 註冊表單欄位
+   */
+  get registerFields(): { displayName: Locator; username: Locator; password: Locator; confirmPassword: Locator } {
+    const modal = this.registerModal;
+    return {
+      displayName: modal.locator('input[id*="displayName"]'),
+      username: modal.locator('input[id*="username"]'),
+      password: modal.locator('input[id*="password"]').first(), // id 包含 password 的第一個欄位
+      confirmPassword: modal.locator('input[id*="confirmPassword"]'),
+    };
+  }
+
+  get registerSubmitButton(): Locator {
+    return this.page.locator('button:has-text("送出")').first();
+  }
+
+  /**
+   * 註冊成功訊息（antd 的 message 元件）
+   */
+  get registerSuccessMessage(): Locator {
+    return this.page.locator(".ant-message-notice-content").filter({ hasText: "註冊成功" });
+  }
+}
@@ -0,0 +1,73 @@
+// tests/stress/core/pages/MiniGameOverlay.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 小遊戲選項
+ */
+export type MiniGameOption = "A" | "B" | "C" | "D";
+
+/**
+ * 小遊戲 Overlay 共用結構（全螢幕覆蓋層，z-index: 9999）
+ * COUNTDOWN 階段顯示大數字 3 → 2 → 1，GAMING 階段顯示「A. 」～「D. 」選項按鈕
+ */
+export abstract class MiniGameOverlay extends PageObject {
+  /**
+   * Overlay 標題文字（例如「🧠 機智問答」）
+   */
+  protected abstract readonly titleText: string;
+
+  /**
+   * Overlay 標題（可見表示 Overlay 已彈出）
+   */
+  get title(): Locator {
+    return this.page.getByText(this.titleText).first();
+  }
+
+  /**
+   * Overlay 容器（最前層的全螢幕覆蓋層）
+   */
+  get container(): Locator {
+    return this.page.locator('[style*="z-index: 9999"]').filter({ has: this.title }).first();
+  }
+
+  /**
+   * COUNTDOWN 階段的倒數數字（全螢幕置中的大數字 1-3）
+   */
+  get countdownNumber(): Locator {
+    return this.page.locator("text=/^[1-3]$/").first();
+  }
+
+  /**
+   * GAMING 階段的所有選項按鈕
+   */
+  get optionButtons(): Locator {
+    return this.page.locator("button").filter({ hasText: /^[A-D]\.\s/ });
+  }
+
+  /**
+   * 指定選項的按鈕
+   */
+  optionButton(option: MiniGameOption): Locator {
+    return this.button(new RegExp(`^${option}\\.\\s`));
+  }
+
+  /**
+   * 已鎖定（disabled）的選項按鈕（表示答案已提交）
+   */
+  lockedOption(option: MiniGameOption): Locator {
+    return this.page.locator("button:disabled").filter({ hasText: new RegExp(`^${option}\\.\\s`) }).first();
+  }
+
+  /**
+   * 「收起」按鈕（最小化 Overlay，之後由交易列的「小遊戲」按鈕重新開啟）
+   */
+  get collapseButton(): Locator {
+    return this.button(/^收起$/);
+  }
+
+  /**
+   * RESULT 階段的標記（無論輸贏都會顯示）
+   */
+  abstract get resultIndicator(): Locator;
+}
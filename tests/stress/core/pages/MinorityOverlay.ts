@@ -0,0 +1,37 @@
+// tests/stress/core/pages/MinorityOverlay.ts
+import { Locator } from "@playwright/test";
+import { MiniGameOverlay } from "./MiniGameOverlay";
+
+/**
+ * 全場少數決 Overlay（前端 MinorityUserView.tsx）
+ * GAMING 階段選擇選項後解除金額輸入框（寬度 70px）的 disabled，RESULT 階段顯示「你選擇了 [X]」
+ */
+export class MinorityOverlay extends MiniGameOverlay {
+  protected readonly titleText = "⚖️ 全場少數決";
+
+  /**
+   * 頁面上可見的數字輸入框（包含交易列的輸入框）
+   */
+  get amountInputs(): Locator {
+    return this.page.locator('input[type="number"]:visible');
+  }
+
+  /**
+   * 下注金額輸入框的寬度（用於與其他輸入框區分）
+   */
+  readonly amountInputWidth = "70px";
+
+  /**
+   * 下注金額提示（「下注金額: $X」，輸入後更新）
+   */
+  betAmountText(amount: number): Locator {
+    return this.page.locator("div").filter({ hasText: new RegExp(`下注金額:\\s*\\$${amount}`) }).first();
+  }
+
+  /**
+   * RESULT 階段的「你選擇了 [X]」
+   */
+  get resultIndicator(): Locator {
+    return this.page.locator("div").filter({ hasText: /你選擇了\s*\[/ }).first();
+  }
+}
@@ -0,0 +1,127 @@
+// tests/stress/core/pages/PageObject.ts
+import { Locator, Page } from "@playwright/test";
+
+/**
+ * 頁面物件（Page Object）共用基底
+ *
+ * StockSprint 前端的選擇器集中在 core/pages/，GameActions 只組合頁面物件、不直接撰寫選擇器。
+ * 前端 DOM 結構變動時只需修改對應的頁面物件（一處修正），並更新 FRONTEND_VERSION。
+ */
+
+// ==================== 前端版本 ====================
+
+/**
+ * 頁面物件對應的前端版本（記錄於壓測報告的參數表，方便比對報告與前端版本）
+ * 前端改版後核對所有頁面物件時更新；只修正單一頁面物件時，更新該頁面物件的 version
+ */
+export const FRONTEND_VERSION = "2026-10"; // 格式：YYYY-MM
+
+/**
+ * Ant Design Mobile Button 的 fill="solid" 對應的 class（Tab / 方向按鈕的選中狀態）
+ */
+const ACTIVE_BUTTON_CLASS = "adm-button-fill-solid";
+
+// ==================== PageObject ====================
+
+/**
+ * PageObject 類別
+ * 每個頁面物件對應前端的一個區塊（元件），只負責定位元素與讀寫元素，不記錄 Log 與指標
+ */
+export abstract class PageObject {
+  /**
+   * 選擇器最後一次與前端 DOM 結構核對的版本（預設為 FRONTEND_VERSION）
+   */
+  readonly version: string = FRONTEND_VERSION;
+
+  /**
+   * 建構函式
+   * @param page Playwright Page 實例
+   */
+  constructor(protected page: Page) {}
+
+  // ==================== 共用元件 ====================
+
+  /**
+   * 確認對話框（antd-mobile Dialog.confirm，按鈕依序為「取消」、「確定」）
+   */
+  get confirmDialog(): Locator {
+    return this.page.locator(".adm-center-popup-body").or(this.page.locator('[role="dialog"]')).first();
+  }
+
+  /**
+   * 確認對話框的「確定」按鈕（第二個按鈕）
+   */
+  get confirmButton(): Locator {
+    return this.confirmDialog.locator(".adm-dialog-footer button").nth(1);
+  }
+
+  /**
+   * 交易結果 Toast（antd-mobile Toast）
+   * @param text 訊息文字（例如 /成功/）
+   */
+  toast(text: RegExp): Locator {
+    return this.page.locator(".adm-toast").filter({ hasText: text }).first();
+  }
+
+  /**
+   * 文字完全相符的按鈕
+   */
+  protected button(text: RegExp): Locator {
+    return this.page.locator("button").filter({ hasText: text }).first();
+  }
+
+  /**
+   * 選中狀態的按鈕（fill="solid"）
+   * @param text 按鈕文字
+   */
+  activeButton(text: RegExp): Locator {
+    return this.page.locator(`button.${ACTIVE_BUTTON_CLASS}`).filter({ hasText: text }).first();
+  }
+
+  /**
+   * 按鈕是否為選中狀態（fill="solid"）
+   */
+  async isActive(button: Locator): Promise<boolean> {
+    const className = await button.getAttribute("class");
+    return (className ?? "").split(/\s+/).includes(ACTIVE_BUTTON_CLASS);
+  }
+
+  // ==================== 輸入框 ====================
+
+  /**
+   * 依寬度找出輸入框（前端以 style 固定寬度區分金額輸入框與 Slider 的隱藏輸入框）
+   * @param inputs 候選輸入框
+   * @param width 寬度（例如 "60px"）
+   * @returns 第一個寬度相符的輸入框；找不到時為 null
+   */
+  async inputByWidth(inputs: Locator, width: string): Promise<Locator | null> {
+    const count = await inputs.count();
+    for (let i = 0; i < count; i++) {
+      const input = inputs.nth(i);
+      const inputWidth = await input.evaluate("(el) => getComputedStyle(el).width");
+      if (inputWidth === width) return input;
+    }
+    return null;
+  }
+
+  /**
+   * 直接設定受控輸入框的值並觸發 input / change / blur 事件
+   * 繞過 Playwright 的點擊遮擋檢查，並確保 React 狀態隨之更新
+   */
+  async setInputValue(input: Locator, value: string): Promise<void> {
+    await input.evaluate((el: any, next: string) => {
+      // 使用原生 setter（React 會忽略直接指定 el.value 的變動）
+      const setValue = Object.getOwnPropertyDescriptor(Object.getPrototypeOf(el), "value")?.set;
+      const fire = (type: string) => el.dispatchEvent(new el.ownerDocument.defaultView.Event(type, { bubbles: true }));
+
+      if (setValue) {
+        setValue.call(el, "");
+        fire("input");
+        setValue.call(el, next);
+      }
+      fire("input");
+      fire("change");
+      fire("blur");
+    }, value);
+  }
+}
@@ -0,0 +1,25 @@
+// tests/stress/core/pages/QuizOverlay.ts
+import { Locator } from "@playwright/test";
+import { MiniGameOverlay } from "./MiniGameOverlay";
+
+/**
+ * 機智問答 Overlay（前端 QuizUserView.tsx）
+ * GAMING 階段點擊選項後發送 Socket.io 事件並鎖定按鈕，RESULT 階段顯示「正確答案：X」
+ */
+export class QuizOverlay extends MiniGameOverlay {
+  protected readonly titleText = "🧠 機智問答";
+
+  /**
+   * 作答後的提示（「已提交答案，等待結算...」）
+   */
+  get submittedHint(): Locator {
+    return this.page.getByText(/已提交答案|等待結算/).first();
+  }
+
+  /**
+   * RESULT 階段的「正確答案：X」
+   */
+  get resultIndicator(): Locator {
+    return this.page.locator("div").filter({ hasText: /正確答案：[A-D]/ }).first();
+  }
+}
@@ -0,0 +1,109 @@
+// tests/stress/core/pages/StatusBar.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 主頁（/home）頂部狀態列：倒數計時、遊戲天數、股價，以及右上角頭像選單與頭像選擇器
+ */
+export class StatusBar extends PageObject {
+  // ==================== 遊戲狀態 ====================
+
+  /**
+   * 倒數計時器（格式「00:30」，遊戲進行中每秒更新）
+   */
+  get countdown(): Locator {
+    return this.page.locator("span").filter({ hasText: /\d{2}:\d{2}/ }).first();
+  }
+
+  /**
+   * 遊戲天數（「第 X 天」或「Day X」）
+   */
+  get day(): Locator {
+    return this.page.getByText(/第\s*\d+\s*天|Day\s*\d+/i).first();
+  }
+
+  /**
+   * 圖表下方的當前股價（「當前: $XX.XX」）
+   */
+  get currentPrice(): Locator {
+    return this.page.locator("div").filter({ hasText: /^當前: \$\d/ }).first();
+  }
+
+  // ==================== 頭像 ====================
+
+  /**
+   * 右上角頭像（點擊開啟使用者選單）
+   */
+  get avatar(): Locator {
+    return this.page.locator(".adm-avatar").first();
+  }
+
+  /**
+   * 右上角頭像圖片
+   * @param fileName 頭像檔名（省略時為目前顯示的頭像）
+   */
+  avatarImage(fileName?: string): Locator {
+    return this.page.locator(fileName ? `.adm-avatar img[src*="${fileName}"]` : ".adm-avatar img").first();
+  }
+
+  /**
+   * 使用者選單的「更改頭像」選項
+   */
+  get changeAvatarOption(): Locator {
+    return this.page.locator("div").filter({ hasText: /^更改頭像$/ }).first();
+  }
+
+  /**
+   * 頭像選擇器的 URL Hash 錨點
+   */
+  readonly avatarSelectorHash = "avatar-selector";
+
+  /**
+   * 頭像選擇器中的頭像（點擊包含該圖片的 Grid.Item 容器，避免被子元素擋住）
+   * @param fileName 頭像檔名（例如 avatar_07.webp）
+   */
+  avatarOption(fileName: string): Locator {
+    return this.page.locator(".adm-grid-item").filter({ has: this.page.locator(`img[alt="${fileName}"]`) });
+  }
+
+  get saveAvatarButton(): Locator {
+    return this.button(/^儲存$/);
+  }
+
+  // ==================== 員工身分 ====================
+  // 以下 Selector 只對應 mock 前端（mock/public/app.js），正式前端尚未確認
+
+  /**
+   * 使用者選單的「員工身分」選項（點擊後以確認對話框切換身分）
+   */
+  get employeeOption(): Locator {
+    return this.page.locator("div").filter({ hasText: /^員工身分$/ }).first();
+  }
+
+  /**
+   * 名稱旁的「員工」標籤（可見表示目前為員工）
+   */
+  get employeeTag(): Locator {
+    return this.page.locator(".employee-tag").first();
+  }
+}
+
+// ==================== 解析 ====================
+
+/**
+ * 解析股價文字（格式：「當前: $123.45」）
+ * @returns 股價（無法解析時為 0）
+ */
+export function parsePrice(text: string | null): number {
+  const match = text?.match(/\$([0-9,.]+)/);
+  return match ? parseFloat(match[1].replace(/,/g, "")) : 0;
+}
+
+/**
+ * 解析天數文字（格式：「第 3 天」或「Day 3」）
+ * @returns 天數（無法解析時為 0）
+ */
+export function parseDay(text: string | null): number {
+  const match = text?.match(/第\s*(\d+)\s*天|Day\s*(\d+)/i);
+  return match ? parseInt(match[1] ?? match[2], 10) : 0;
+}
@@ -0,0 +1,109 @@
+// tests/stress/core/pages/TradingBar.ts
+import { Locator } from "@playwright/test";
+import { PageObject } from "./PageObject";
+
+/**
+ * 交易 Tab
+ */
+export type TradingTab = "現貨" | "合約";
+
+/**
+ * 主頁（/home）交易列（前端 TradingBar.tsx）
+ * 現貨 / 合約 Tab、買賣切換、張數與槓桿輸入、下單按鈕，以及地下錢莊與小遊戲入口
+ */
+export class TradingBar extends PageObject {
+  // ==================== Tab ====================
+
+  /**
+   * 現貨 / 合約 Tab（選中時為 fill="solid"）
+   */
+  tab(name: TradingTab): Locator {
+    return this.button(new RegExp(`^${name}$`));
+  }
+
+  // ==================== 現貨 ====================
+
+  /**
+   * 買賣切換（DualColorSwitch 自定義 div 元件，顯示「買」或「賣」表示當前模式）
+   */
+  get tradeSwitch(): Locator {
+    return this.page.locator("div").filter({ hasText: /^(買|賣)$/ }).first();
+  }
+
+  /**
+   * 現貨張數輸入框
+   */
+  get stockAmountInput(): Locator {
+    return this.page.locator('input[type="number"]').first();
+  }
+
+  /**
+   * 現貨下單按鈕（「買入」或「賣出」，資金 / 持股不足時停用）
+   */
+  stockButton(side: "BUY" | "SELL"): Locator {
+    return this.button(side === "BUY" ? /^買入$/ : /^賣出$/);
+  }
+
+  // ==================== 合約 ====================
+
+  /**
+   * 合約方向按鈕（「做多」或「做空」，選中時為 fill="solid"）
+   */
+  contractDirection(type: "LONG" | "SHORT"): Locator {
+    return this.button(this.directionText(type));
+  }
+
+  /**
+   * 合約方向按鈕文字（用於等待選中狀態）
+   */
+  directionText(type: "LONG" | "SHORT"): RegExp {
+    return type === "LONG" ? /^做多/ : /^做空/;
+  }
+
+  /**
+   * 合約區塊內可見的數字輸入框（依序為槓桿、張數；過濾掉 Slider 隱藏的輸入框）
+   */
+  get contractInputs(): Locator {
+    return this.page
+      .locator("div")
+      .filter({ has: this.page.locator('button:has-text("下單")') })
+      .locator('input[type="number"]:visible');
+  }
+
+  /**
+   * 「下單 (隔日結算)」按鈕（保證金不足時停用）
+   */
+  get contractSubmitButton(): Locator {
+    return this.button(/下單/);
+  }
+
+  /**
+   * 保證金試算（「保證金: $XX」）
+   */
+  get marginPreview(): Locator {
+    return this.page.locator("div").filter({ hasText: /保證金:/ }).first();
+  }
+
+  /**
+   * 「撤銷今日訂單」按鈕（無未結算合約時停用）
+   */
+  get cancelContractsButton(): Locator {
+    return this.button(/撤銷今日訂單/);
+  }
+
+  // ==================== 入口 ====================
+
+  /**
+   * 地下錢莊入口按鈕
+   */
+  get loanSharkButton(): Locator {
+    return this.page.locator("button").filter({ has: this.page.locator('img[alt="地下錢莊"]') }).first();
+  }
+
+  /**
+   * 小遊戲入口按鈕（小遊戲 Overlay 收起後由此重新開啟）
+   */
+  get miniGameButton(): Locator {
+    return this.page.locator("button").filter({ has: this.page.locator('img[alt="小遊戲"]') }).first();
+  }
+}
@@ -0,0 +1,799 @@
+// tests/stress/mock/MockGame.ts
+import { EventEmitter } from "events";
+import { randomBytes } from "crypto";
+
+/**
+ * StockSprint 離線模擬遊戲引擎
+ *
+ * 以記憶體保存所有狀態，模擬正式後端的遊戲規則（簡化版）：
+ * - 每秒一次股價跳動（隨機漫步），每天倒數結束自動換日
+ * - 現貨買賣、合約下單（隔日結算）、地下錢莊借還款（每日計息）
+ * - 機智問答 / 全場少數決（COUNTDOWN → GAMING → SETTLING → RESULT）
+ *
+ * 只負責遊戲規則，不處理 HTTP / Socket.io（見 server.ts）
+ */
+
+// ==================== 型別定義 ====================
+
+export type GameStatus = "WAITING" | "RUNNING" | "PAUSED" | "ENDED";
+export type ContractType = "LONG" | "SHORT";
+export type MiniGameType = "QUIZ" | "MINORITY";
+export type MiniGamePhase = "IDLE" | "COUNTDOWN" | "GAMING" | "SETTLING" | "RESULT";
+export type MiniGameOption = "A" | "B" | "C" | "D";
+
+export interface MockContract {
+  type: ContractType;
+  leverage: number;
+  amount: number; // 張數
+  entryPrice: number; // 下單時股價
+  margin: number; // 保證金（名目價值 / 槓桿）
+  day: number; // 下單天數（隔日結算）
+}
+
+export interface MockPlayer {
+  username: string;
+  password: string;
+  displayName: string;
+  avatar: string; // 頭像檔名（例如 avatar_05.webp）
+  token: string;
+  cash: number;
+  stockCount: number; // 持有張數
+  debt: number;
+  borrowedToday: number; // 今日已借金額（每日重置）
+  contracts: MockContract[];
+  isEmployee: boolean;
+}
+
+/**
+ * 與前端 Action 04 / Action 05 對應的資產資料
+ */
+export interface MockAssets {
+  totalAssets: number;
+  cash: number;
+  stockCount: number;
+  stockValue: number;
+  debt: number;
+  margin: number;
+  contracts: MockContract[];
+  borrowedToday: number;
+  dailyLoanLimit: number;
+  loanInterestRate: number;
+}
+
+/**
+ * 廣播給所有人的遊戲狀態
+ */
+export interface MockGameState {
+  status: GameStatus;
+  day: number;
+  totalDays: number;
+  countdown: number; // 今日剩餘秒數
+  price: number;
+  serverTime: number; // 產生此狀態的伺服器時間（毫秒時間戳）
+}
+
+/**
+ * 單一玩家看到的小遊戲狀態
+ */
+export interface MiniGameView {
+  type: MiniGameType | null;
+  phase: MiniGamePhase;
+  round: number;
+  question: string;
+  options: string[]; // 選項內容（依 A–D 順序）
+  remaining: number; // 當前階段剩餘秒數
+  selectedOption: MiniGameOption | null; // 該玩家的選擇
+  betAmount: number; // 少數決下注金額
+  correctOption: MiniGameOption | null; // 問答正確答案（RESULT 階段）
+  winningOptions: MiniGameOption[]; // 少數決勝出選項（RESULT 階段）
+  reward: number; // 該玩家本局損益（RESULT 階段）
+}
+
+export interface MockGameOptions {
+  secondsPerDay: number; // 每天秒數
+  totalDays: number; // 總天數（超過即結束）
+  initialCash: number;
+  initialPrice: number;
+  dailyLoanLimit: number; // 每日借款額度
+  loanInterestRate: number; // 日利率（換日時計入負債）
+  quizReward: number; // 問答答對獎金
+  countdownSeconds: number; // 小遊戲倒數秒數（3 → 1）
+  gamingSeconds: number; // 小遊戲作答秒數
+  resultSeconds: number; // 結果畫面停留秒數
+  autoSettle: boolean; // 作答時間結束後自動結算（否則等待 Admin 按「結算」）
+  autoMiniGameSeconds: number; // 遊戲進行中每隔此秒數自動輪流發布問答 / 少數決（0 表示關閉，由 Admin 發布）
+  adminUsername: string;
+  adminPassword: string;
+}
+
+export const DEFAULT_MOCK_OPTIONS: MockGameOptions = {
+  secondsPerDay: 60,
+  totalDays: 30,
+  initialCash: 1000,
+  initialPrice: 50,
+  dailyLoanLimit: 1000,
+  loanInterestRate: 0.05,
+  quizReward: 100,
+  countdownSeconds: 3,
+  gamingSeconds: 15,
+  resultSeconds: 8,
+  autoSettle: true,
+  autoMiniGameSeconds: 0,
+  adminUsername: "admin",
+  adminPassword: "admin",
+};
+
+/**
+ * 遊戲規則錯誤（由 server.ts 轉為 HTTP 狀態碼與錯誤訊息）
+ */
+export class MockGameError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MockGameError";
+  }
+}
+
+// ==================== 題庫 ====================
+
+const QUIZ_QUESTIONS: { question: string; options: string[]; answer: MiniGameOption }[] = [
+  { question: "股票市場中「多頭」代表什麼？", options: ["看漲", "看跌", "盤整", "停牌"], answer: "A" },
+  { question: "槓桿 5 倍時，股價下跌 20% 會如何？", options: ["獲利 100%", "虧損 20%", "保證金歸零", "不受影響"], answer: "C" },
+  { question: "下列何者屬於分散風險的作法？", options: ["全押一檔", "借錢加碼", "資產配置", "追高殺低"], answer: "C" },
+  { question: "日利率 5% 借款 1000 元，隔日負債為？", options: ["1000", "1005", "1050", "1500"], answer: "C" },
+  { question: "做空合約在什麼情況下獲利？", options: ["股價上漲", "股價下跌", "股價不變", "任何情況"], answer: "B" },
+];
+
+const MINORITY_QUESTIONS: { question: string; options: string[] }[] = [
+  { question: "明天股價會怎麼走？", options: ["大漲", "小漲", "小跌", "大跌"] },
+  { question: "你最想把資金放在哪裡？", options: ["現貨", "合約", "現金", "還債"] },
+  { question: "下一位被地下錢莊追債的會是？", options: ["你", "我", "他", "大家"] },
+];
+
+const OPTION_LETTERS: MiniGameOption[] = ["A", "B", "C", "D"];
+
+// ==================== 工具函數 ====================
+
+/**
+ * 四捨五入至小數點後兩位（金額）
+ */
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function newToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+// ==================== 遊戲引擎 ====================
+
+interface MiniGameRound {
+  type: MiniGameType;
+  round: number;
+  question: string;
+  options: string[];
+  answer: MiniGameOption | null; // 問答正確答案（少數決為 null）
+  phase: MiniGamePhase;
+  phaseEndsAt: number; // 當前階段結束時間（毫秒時間戳，SETTLING 為 0）
+  picks: Map<string, { option: MiniGameOption; amount: number }>; // username → 選擇
+  winners: MiniGameOption[];
+  rewards: Map<string, number>; // username → 本局損益
+}
+
+/**
+ * MockGame 類別
+ *
+ * 事件：
+ * - "state"：遊戲狀態變化（每秒一次）→ MockGameState
+ * - "assets"：玩家資產變化 → username
+ * - "minigame"：小遊戲階段變化 → 無參數（各玩家視角需以 getMiniGameView() 取得）
+ */
+export class MockGame extends EventEmitter {
+  readonly options: MockGameOptions;
+
+  private players = new Map<string, MockPlayer>(); // username → 玩家
+  private tokens = new Map<string, string>(); // token → username
+  private adminTokens = new Set<string>();
+
+  private status: GameStatus = "WAITING";
+  private day = 1;
+  private countdown: number;
+  private price: number;
+  private miniGame: MiniGameRound | null = null;
+  private miniGameRounds = 0;
+  private lastMiniGameAt = 0; // 上一局小遊戲發布或結束的時間（自動發布用）
+  private minorityOrder = MINORITY_QUESTIONS.map((_, i) => i); // 少數決出題順序（洗牌後重排）
+  private minorityCursor = 0; // 下一題在 minorityOrder 中的位置
+
+  constructor(options: Partial<MockGameOptions> = {}) {
+    super();
+    this.options = { ...DEFAULT_MOCK_OPTIONS, ...options };
+    this.countdown = this.options.secondsPerDay;
+    this.price = this.options.initialPrice;
+  }
+
+  // ==================== 帳號 ====================
+
+  /**
+   * 註冊新玩家
+   */
+  register(username: string, password: string, displayName: string = username): MockPlayer {
+    if (!username || !password) {
+      throw new MockGameError("帳號與密碼不可為空");
+    }
+    if (this.players.has(username)) {
+      throw new MockGameError("帳號已存在", 409);
+    }
+
+    const player: MockPlayer = {
+      username,
+      password,
+      displayName: displayName || username,
+      avatar: "avatar_00.webp",
+      token: "",
+      cash: this.options.initialCash,
+      stockCount: 0,
+      debt: 0,
+      borrowedToday: 0,
+      contracts: [],
+      isEmployee: false,
+    };
+    this.players.set(username, player);
+    return player;
+  }
+
+  /**
+   * 登入並發放新 Token（同一帳號重複登入時，舊 Token 仍然有效）
+   */
+  login(username: string, password: string): MockPlayer {
+    const player = this.players.get(username);
+    if (!player || player.password !== password) {
+      throw new MockGameError("帳號或密碼錯誤", 401);
+    }
+
+    player.token = newToken();
+    this.tokens.set(player.token, username);
+    return player;
+  }
+
+  /**
+   * 以 Token 取得玩家
+   */
+  authenticate(token: string | undefined): MockPlayer {
+    const username = token ? this.tokens.get(token) : undefined;
+    const player = username ? this.players.get(username) : undefined;
+    if (!player) {
+      throw new MockGameError("未登入或 Token 已失效", 401);
+    }
+    return player;
+  }
+
+  adminLogin(username: string, password: string): string {
+    if (username !== this.options.adminUsername || password !== this.options.adminPassword) {
+      throw new MockGameError("管理員帳號或密碼錯誤", 401);
+    }
+    const token = newToken();
+    this.adminTokens.add(token);
+    return token;
+  }
+
+  authenticateAdmin(token: string | undefined): void {
+    if (!token || !this.adminTokens.has(token)) {
+      throw new MockGameError("需要管理員權限", 403);
+    }
+  }
+
+  getPlayer(username: string): MockPlayer | undefined {
+    return this.players.get(username);
+  }
+
+  listPlayers(): MockPlayer[] {
+    return Array.from(this.players.values());
+  }
+
+  setAvatar(player: MockPlayer, avatar: string): void {
+    if (!/^avatar_\d{2}\.webp$/.test(avatar)) {
+      throw new MockGameError(`頭像檔名不合法: ${avatar}`);
+    }
+    player.avatar = avatar;
+    this.emit("assets", player.username);
+  }
+
+  setEmployee(username: string, isEmployee: boolean): MockPlayer {
+    const player = this.players.get(username);
+    if (!player) {
+      throw new MockGameError(`找不到玩家: ${username}`, 404);
+    }
+    player.isEmployee = isEmployee;
+    this.emit("assets", player.username);
+    return player;
+  }
+
+  // ==================== 狀態查詢 ====================
+
+  getState(): MockGameState {
+    return {
+      status: this.status,
+      day: this.day,
+      totalDays: this.options.totalDays,
+      countdown: this.countdown,
+      price: this.price,
+      serverTime: Date.now(),
+    };
+  }
+
+  getAssets(player: MockPlayer): MockAssets {
+    const stockValue = round2(player.stockCount * this.price);
+    const margin = round2(player.contracts.reduce((sum, c) => sum + c.margin, 0));
+
+    return {
+      totalAssets: round2(player.cash + stockValue + margin - player.debt),
+      cash: round2(player.cash),
+      stockCount: player.stockCount,
+      stockValue,
+      debt: round2(player.debt),
+      margin,
+      contracts: player.contracts.map((c) => ({ ...c })),
+      borrowedToday: round2(player.borrowedToday),
+      dailyLoanLimit: this.options.dailyLoanLimit,
+      loanInterestRate: this.options.loanInterestRate,
+    };
+  }
+
+  getMiniGameView(player: MockPlayer | null): MiniGameView {
+    const game = this.miniGame;
+    if (!game) {
+      return {
+        type: null,
+        phase: "IDLE",
+        round: this.miniGameRounds,
+        question: "",
+        options: [],
+        remaining: 0,
+        selectedOption: null,
+        betAmount: 0,
+        correctOption: null,
+        winningOptions: [],
+        reward: 0,
+      };
+    }
+
+    const pick = player ? game.picks.get(player.username) : undefined;
+    const showResult = game.phase === "RESULT";
+    return {
+      type: game.type,
+      phase: game.phase,
+      round: game.round,
+      question: game.question,
+      options: [...game.options],
+      remaining: game.phaseEndsAt ? Math.max(0, Math.ceil((game.phaseEndsAt - Date.now()) / 1000)) : 0,
+      selectedOption: pick?.option ?? null,
+      betAmount: pick?.amount ?? 0,
+      correctOption: showResult ? game.answer : null,
+      winningOptions: showResult ? [...game.winners] : [],
+      reward: showResult && player ? game.rewards.get(player.username) ?? 0 : 0,
+    };
+  }
+
+  // ==================== 遊戲流程（Admin） ====================
+
+  start(): void {
+    if (this.status === "ENDED") {
+      throw new MockGameError("遊戲已結束，請先重置");
+    }
+    this.status = "RUNNING";
+    this.emitState();
+  }
+
+  pause(): void {
+    if (this.status !== "RUNNING") {
+      throw new MockGameError("遊戲未在進行中");
+    }
+    this.status = "PAUSED";
+    this.emitState();
+  }
+
+  /**
+   * 立即進入下一天：結算合約、計算利息、重置借款額度
+   */
+  nextDay(): void {
+    if (this.day >= this.options.totalDays) {
+      this.status = "ENDED";
+      this.emitState();
+      return;
+    }
+
+    this.day++;
+    this.countdown = this.options.secondsPerDay;
+
+    for (const player of this.players.values()) {
+      this.settleContracts(player);
+      player.debt = round2(player.debt * (1 + this.options.loanInterestRate));
+      player.borrowedToday = 0;
+      this.emit("assets", player.username);
+    }
+
+    this.emitState();
+  }
+
+  /**
+   * 重置遊戲（保留帳號，清空資產）
+   */
+  reset(): void {
+    this.status = "WAITING";
+    this.day = 1;
+    this.countdown = this.options.secondsPerDay;
+    this.price = this.options.initialPrice;
+    this.miniGame = null;
+    this.minorityCursor = 0;
+
+    for (const player of this.players.values()) {
+      player.cash = this.options.initialCash;
+      player.stockCount = 0;
+      player.debt = 0;
+      player.borrowedToday = 0;
+      player.contracts = [];
+      this.emit("assets", player.username);
+    }
+
+    this.emit("minigame");
+    this.emitState();
+  }
+
+  /**
+   * 每秒呼叫一次：股價跳動、倒數計時、小遊戲階段推進
+   */
+  tick(): void {
+    if (this.status === "RUNNING") {
+      this.price = round2(Math.max(1, this.price * (1 + (Math.random() - 0.5) * 0.04)));
+      this.countdown--;
+
+      if (this.countdown <= 0) {
+        this.nextDay();
+      } else {
+        this.emitState();
+      }
+
+      // 股價變動會影響所有人的股票現值
+      for (const username of this.players.keys()) {
+        this.emit("assets", username);
+      }
+    } else {
+      this.emitState();
+    }
+
+    this.advanceMiniGame();
+    this.autoPublishMiniGame();
+  }
+
+  private emitState(): void {
+    this.emit("state", this.getState());
+  }
+
+  private requireRunning(): void {
+    if (this.status !== "RUNNING") {
+      throw new MockGameError("遊戲尚未開始");
+    }
+  }
+
+  // ==================== 現貨 ====================
+
+  buyStock(player: MockPlayer, amount: number): void {
+    this.requireRunning();
+    this.requirePositiveInteger(amount, "張數");
+
+    const cost = round2(amount * this.price);
+    if (cost > player.cash) {
+      throw new MockGameError("現金不足");
+    }
+
+    player.cash = round2(player.cash - cost);
+    player.stockCount += amount;
+    this.emit("assets", player.username);
+  }
+
+  sellStock(player: MockPlayer, amount: number): void {
+    this.requireRunning();
+    this.requirePositiveInteger(amount, "張數");
+
+    if (amount > player.stockCount) {
+      throw new MockGameError("持股不足");
+    }
+
+    player.cash = round2(player.cash + amount * this.price);
+    player.stockCount -= amount;
+    this.emit("assets", player.username);
+  }
+
+  // ==================== 合約 ====================
+
+  buyContract(player: MockPlayer, type: ContractType, leverage: number, amount: number): void {
+    this.requireRunning();
+    this.requirePositiveInteger(amount, "張數");
+    if (!(leverage >= 1 && leverage <= 100)) {
+      throw new MockGameError(`槓桿倍數不合法: ${leverage}`);
+    }
+
+    const margin = round2((amount * this.price) / leverage);
+    if (margin > player.cash) {
+      throw new MockGameError("保證金不足");
+    }
+
+    player.cash = round2(player.cash - margin);
+    player.contracts.push({ type, leverage, amount, entryPrice: this.price, margin, day: this.day });
+    this.emit("assets", player.username);
+  }
+
+  /**
+   * 撤銷今日下單的所有合約（退還保證金）
+   * @returns 撤銷的合約數量
+   */
+  cancelTodayContracts(player: MockPlayer): number {
+    this.requireRunning();
+
+    const today = player.contracts.filter((c) => c.day === this.day);
+    if (today.length === 0) {
+      throw new MockGameError("今日無可撤銷的訂單");
+    }
+
+    const refund = today.reduce((sum, c) => sum + c.margin, 0);
+    player.cash = round2(player.cash + refund);
+    player.contracts = player.contracts.filter((c) => c.day !== this.day);
+    this.emit("assets", player.username);
+    return today.length;
+  }
+
+  /**
+   * 結算前一天（含）以前的合約：損益 = 價差 × 張數（做空取反），最多虧光保證金
+   */
+  private settleContracts(player: MockPlayer): void {
+    const due = player.contracts.filter((c) => c.day < this.day);
+    for (const contract of due) {
+      const direction = contract.type === "LONG" ? 1 : -1;
+      const pnl = (this.price - contract.entryPrice) * contract.amount * direction;
+      player.cash = round2(player.cash + Math.max(0, contract.margin + pnl));
+    }
+    player.contracts = player.contracts.filter((c) => c.day >= this.day);
+  }
+
+  // ==================== 地下錢莊 ====================
+
+  borrow(player: MockPlayer, amount: number): void {
+    this.requireRunning();
+    this.requirePositive(amount, "金額");
+
+    if (player.borrowedToday + amount > this.options.dailyLoanLimit) {
+      throw new MockGameError("超過今日借款上限");
+    }
+
+    player.cash = round2(player.cash + amount);
+    player.debt = round2(player.debt + amount);
+    player.borrowedToday = round2(player.borrowedToday + amount);
+    this.emit("assets", player.username);
+  }
+
+  repay(player: MockPlayer, amount: number): void {
+    this.requireRunning();
+    this.requirePositive(amount, "金額");
+
+    if (amount > player.debt) {
+      throw new MockGameError("還款金額超過負債");
+    }
+    if (amount > player.cash) {
+      throw new MockGameError("現金不足");
+    }
+
+    player.cash = round2(player.cash - amount);
+    player.debt = round2(player.debt - amount);
+    this.emit("assets", player.username);
+  }
+
+  private requirePositive(value: number, label: string): void {
+    if (!(typeof value === "number" && value > 0)) {
+      throw new MockGameError(`${label}必須為正數: ${value}`);
+    }
+  }
+
+  private requirePositiveInteger(value: number, label: string): void {
+    if (!(Number.isInteger(value) && value > 0)) {
+      throw new MockGameError(`${label}必須為正整數: ${value}`);
+    }
+  }
+
+  // ==================== 小遊戲 ====================
+
+  /**
+   * 問答題庫題目列表（Admin 後台下拉選單用）
+   */
+  getQuizQuestions(): string[] {
+    return QUIZ_QUESTIONS.map((q) => q.question);
+  }
+
+  /**
+   * 發布機智問答
+   * @param index 題庫索引（未指定時依序出題）
+   */
+  publishQuiz(index?: number): void {
+    if (index !== undefined && !(Number.isInteger(index) && index >= 0 && index < QUIZ_QUESTIONS.length)) {
+      throw new MockGameError(`題目索引不合法: ${index}`);
+    }
+    const entry = QUIZ_QUESTIONS[index ?? this.miniGameRounds % QUIZ_QUESTIONS.length];
+    this.beginMiniGame("QUIZ", entry.question, entry.options, entry.answer);
+  }
+
+  /**
+   * 少數決洗牌：重新打亂出題順序，下一題從新順序的第一題開始
+   */
+  shuffleMinority(): void {
+    const order = this.minorityOrder;
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    this.minorityCursor = 0;
+  }
+
+  /**
+   * 發布全場少數決（依洗牌後順序出下一題）
+   */
+  publishMinority(): void {
+    const entry = MINORITY_QUESTIONS[this.minorityOrder[this.minorityCursor % this.minorityOrder.length]];
+    this.beginMiniGame("MINORITY", entry.question, entry.options, null);
+    this.minorityCursor++;
+  }
+
+  private beginMiniGame(type: MiniGameType, question: string, options: string[], answer: MiniGameOption | null): void {
+    const game = this.miniGame;
+    if (game && game.phase !== "RESULT") {
+      throw new MockGameError("上一局小遊戲尚未結束");
+    }
+
+    this.miniGameRounds++;
+    this.lastMiniGameAt = Date.now();
+    this.miniGame = {
+      type,
+      round: this.miniGameRounds,
+      question,
+      options,
+      answer,
+      phase: "COUNTDOWN",
+      phaseEndsAt: Date.now() + this.options.countdownSeconds * 1000,
+      picks: new Map(),
+      winners: [],
+      rewards: new Map(),
+    };
+    this.emit("minigame");
+  }
+
+  answerQuiz(player: MockPlayer, option: MiniGameOption): void {
+    const game = this.requireGaming("QUIZ");
+    if (game.picks.has(player.username)) {
+      throw new MockGameError("已提交答案");
+    }
+    game.picks.set(player.username, { option, amount: 0 });
+    this.emit("minigame");
+  }
+
+  /**
+   * 少數決下注（作答時間內可重複修改，以最後一次為準）
+   */
+  betMinority(player: MockPlayer, option: MiniGameOption, amount: number): void {
+    const game = this.requireGaming("MINORITY");
+    if (!OPTION_LETTERS.includes(option)) {
+      throw new MockGameError(`選項不合法: ${option}`);
+    }
+    if (!(amount >= 0)) {
+      throw new MockGameError(`金額不合法: ${amount}`);
+    }
+    game.picks.set(player.username, { option, amount: Math.min(amount, player.cash) });
+    this.emit("minigame");
+  }
+
+  /**
+   * 結算當前小遊戲（Admin 按下「結算」）
+   * GAMING 階段也可提前結算
+   */
+  settleMiniGame(): void {
+    const game = this.miniGame;
+    if (!game || (game.phase !== "GAMING" && game.phase !== "SETTLING")) {
+      throw new MockGameError("目前沒有可結算的小遊戲");
+    }
+
+    if (game.type === "QUIZ") {
+      for (const [username, pick] of game.picks) {
+        const player = this.players.get(username);
+        if (!player) continue;
+        const reward = pick.option === game.answer ? this.options.quizReward : 0;
+        player.cash = round2(player.cash + reward);
+        game.rewards.set(username, reward);
+        this.emit("assets", username);
+      }
+    } else {
+      // 少數決：選擇人數最少的選項勝出（贏得下注金額），其餘輸掉下注金額
+      // 所有有人選的選項人數相同時視為平手，退回下注
+      const counts = new Map<MiniGameOption, number>();
+      for (const pick of game.picks.values()) {
+        counts.set(pick.option, (counts.get(pick.option) || 0) + 1);
+      }
+      const values = Array.from(counts.values());
+      const fewest = Math.min(...values);
+      const tie = values.every((v) => v === fewest);
+      game.winners = tie ? [] : Array.from(counts.keys()).filter((o) => counts.get(o) === fewest);
+
+      for (const [username, pick] of game.picks) {
+        const player = this.players.get(username);
+        if (!player) continue;
+        let reward = 0;
+        if (!tie) {
+          reward = game.winners.includes(pick.option) ? pick.amount : -Math.min(pick.amount, player.cash);
+        }
+        player.cash = round2(player.cash + reward);
+        game.rewards.set(username, reward);
+        this.emit("assets", username);
+      }
+    }
+
+    game.phase = "RESULT";
+    game.phaseEndsAt = Date.now() + this.options.resultSeconds * 1000;
+    this.emit("minigame");
+  }
+
+  private requireGaming(type: MiniGameType): MiniGameRound {
+    const game = this.miniGame;
+    if (!game || game.type !== type || game.phase !== "GAMING") {
+      throw new MockGameError("目前不在作答時間");
+    }
+    return game;
+  }
+
+  /**
+   * 依時間推進小遊戲階段
+   */
+  private advanceMiniGame(): void {
+    const game = this.miniGame;
+    if (!game) return;
+
+    // 倒數與作答階段每秒更新剩餘秒數
+    if (game.phase === "COUNTDOWN" || game.phase === "GAMING") {
+      this.emit("minigame");
+    }
+
+    if (!game.phaseEndsAt || Date.now() < game.phaseEndsAt) return;
+
+    switch (game.phase) {
+      case "COUNTDOWN":
+        game.phase = "GAMING";
+        game.phaseEndsAt = Date.now() + this.options.gamingSeconds * 1000;
+        this.emit("minigame");
+        break;
+      case "GAMING":
+        if (this.options.autoSettle) {
+          this.settleMiniGame();
+        } else {
+          game.phase = "SETTLING";
+          game.phaseEndsAt = 0;
+          this.emit("minigame");
+        }
+        break;
+      case "RESULT":
+        this.miniGame = null;
+        this.lastMiniGameAt = Date.now();
+        this.emit("minigame");
+        break;
+    }
+  }
+
+  /**
+   * 自動輪流發布問答與少數決（僅在 autoMiniGameSeconds > 0 且遊戲進行中）
+   */
+  private autoPublishMiniGame(): void {
+    const interval = this.options.autoMiniGameSeconds;
+    if (interval <= 0 || this.status !== "RUNNING" || this.miniGame) return;
+    if (Date.now() - this.lastMiniGameAt < interval * 1000) return;
+
+    if (this.miniGameRounds % 2 === 0) {
+      this.publishQuiz();
+    } else {
+      this.publishMinority();
+    }
+  }
+}
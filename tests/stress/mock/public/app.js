@@ -0,0 +1,1184 @@
+// tests/stress/mock/public/app.js
+// StockSprint 模擬前端
+// 以原生 DOM 重現正式前端（React + antd-mobile）中 GameActions 依賴的結構與 class 名稱：
+// - 登入頁與「線上開戶」Modal（input id 含 username / password / confirmPassword / displayName）
+// - 主頁資產面板（總資產 / 現金 / 股票 / 股票現值 / 負債 / 合約保證金）
+// - 使用者選單（更改頭像、員工身分）與頭像選擇器
+// - 現貨 / 合約 Tab、地下錢莊 Popup、機智問答 / 全場少數決 Overlay（z-index: 9999）
+// - Admin 後台（/admin）：開始 / 暫停 / 下一天、發布問答 / 少數決、結算（AdminActions 依賴）
+// 元素建立一次後只更新文字與狀態，避免每秒重繪清空測試正在輸入的欄位。
+(function () {
+  "use strict";
+
+  var root = document.getElementById("root");
+  var socket = null;
+
+  // 全域狀態（由 Socket.io 推送更新）
+  var state = {
+    game: { status: "WAITING", day: 1, countdown: 0, price: 0 },
+    assets: null,
+    minigame: { type: null, phase: "IDLE", round: 0 },
+    profile: null,
+  };
+
+  // ==================== 工具函數 ====================
+
+  /**
+   * 建立 DOM 元素
+   * attrs：class / style 為字串；on* 為事件；其餘寫入 attribute
+   */
+  function h(tag, attrs) {
+    var el = document.createElement(tag);
+    Object.keys(attrs || {}).forEach(function (key) {
+      var value = attrs[key];
+      if (value === undefined || value === null || value === false) return;
+      if (key.indexOf("on") === 0) {
+        el.addEventListener(key.slice(2), value);
+      } else if (key === "class") {
+        el.className = value;
+      } else {
+        el.setAttribute(key, value === true ? "" : value);
+      }
+    });
+    for (var i = 2; i < arguments.length; i++) {
+      var child = arguments[i];
+      if (child === null || child === undefined) continue;
+      el.appendChild(typeof child === "string" ? document.createTextNode(child) : child);
+    }
+    return el;
+  }
+
+  function formatMoney(value) {
+    var abs = Math.abs(value).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return (value < 0 ? "-$" : "$") + abs;
+  }
+
+  function formatCountdown(seconds) {
+    var s = Math.max(0, seconds);
+    return String(Math.floor(s / 60)).padStart(2, "0") + ":" + String(s % 60).padStart(2, "0");
+  }
+
+  function setText(el, text) {
+    if (el.textContent !== text) el.textContent = text;
+  }
+
+  function token() {
+    return localStorage.getItem("token");
+  }
+
+  function adminToken() {
+    return localStorage.getItem("adminToken");
+  }
+
+  /**
+   * 呼叫後端 API，失敗時以後端訊息拋出錯誤
+   * @param bearer 覆寫 Authorization Token（Admin API 使用 adminToken）
+   */
+  function api(method, url, body, bearer) {
+    var headers = { "Content-Type": "application/json" };
+    var auth = bearer || token();
+    if (auth) headers.Authorization = "Bearer " + auth;
+    return fetch(url, { method: method, headers: headers, body: body ? JSON.stringify(body) : undefined }).then(
+      function (res) {
+        return res.json().then(function (data) {
+          if (!res.ok) throw new Error(data.message || "請求失敗");
+          return data;
+        });
+      }
+    );
+  }
+
+  // ==================== 通用元件 ====================
+
+  /**
+   * antd-mobile Toast（.adm-toast）
+   */
+  function showToast(text) {
+    var toast = h("div", { class: "adm-toast" }, text);
+    document.body.appendChild(toast);
+    setTimeout(function () {
+      toast.remove();
+    }, 2000);
+  }
+
+  /**
+   * antd message（.ant-message-notice-content），註冊流程使用
+   */
+  function showMessage(text) {
+    var message = h("div", { class: "ant-message" }, h("div", { class: "ant-message-notice-content" }, text));
+    document.body.appendChild(message);
+    setTimeout(function () {
+      message.remove();
+    }, 3000);
+  }
+
+  /**
+   * antd-mobile Dialog.confirm（按鈕順序：取消、确定）
+   * @returns Promise<boolean> 是否按下确定
+   */
+  function confirmDialog(content) {
+    return new Promise(function (resolve) {
+      var mask = h("div", { class: "adm-mask" });
+      var close = function (result) {
+        mask.remove();
+        wrap.remove();
+        resolve(result);
+      };
+      var wrap = h(
+        "div",
+        { class: "adm-center-popup-wrap", role: "dialog" },
+        h(
+          "div",
+          { class: "adm-center-popup-body adm-dialog-body" },
+          h("div", { class: "adm-dialog-content" }, content),
+          h(
+            "div",
+            { class: "adm-dialog-footer" },
+            h(
+              "div",
+              { class: "adm-dialog-action-row" },
+              h("button", { class: "adm-button adm-dialog-button", onclick: function () { close(false); } }, "取消"),
+              h("button", { class: "adm-button adm-button-fill-solid adm-dialog-button", onclick: function () { close(true); } }, "确定")
+            )
+          )
+        )
+      );
+      document.body.appendChild(mask);
+      document.body.appendChild(wrap);
+    });
+  }
+
+  /**
+   * 紅綠雙色切換開關（DualColorSwitch），文字為目前模式
+   */
+  function dualSwitch(leftText, rightText, onChange) {
+    var el = h("div", { class: "dual-switch left" }, leftText);
+    el.addEventListener("click", function () {
+      var isLeft = el.textContent === leftText;
+      el.textContent = isLeft ? rightText : leftText;
+      el.className = "dual-switch " + (isLeft ? "right" : "left");
+      onChange(!isLeft);
+    });
+    return el;
+  }
+
+  function numberInput(attrs) {
+    return h("input", Object.assign({ type: "number", inputmode: "decimal" }, attrs));
+  }
+
+  // ==================== 路由 ====================
+
+  function navigate(pathname) {
+    history.pushState(null, "", pathname);
+    render();
+  }
+
+  function render() {
+    root.innerHTML = "";
+    if (socket) {
+      socket.disconnect();
+      socket = null;
+    }
+
+    if (location.pathname === "/home") {
+      if (!token()) return navigate("/");
+      renderHome();
+    } else if (location.pathname === "/admin") {
+      if (adminToken()) renderAdmin();
+      else renderAdminLogin();
+    } else {
+      renderLogin();
+    }
+  }
+
+  function pageName() {
+    if (location.pathname === "/home") return "home";
+    if (location.pathname === "/admin") return adminToken() ? "admin" : "admin-login";
+    return "login";
+  }
+
+  window.addEventListener("popstate", function () {
+    // 僅 Hash 變化（Modal 開關）時不重繪整頁
+    if (root.getAttribute("data-page") !== pageName()) render();
+  });
+
+  // ==================== 登入頁 ====================
+
+  function renderLogin() {
+    root.setAttribute("data-page", "login");
+
+    var username = h("input", { id: "login_username", class: "adm-input-element", autocomplete: "username" });
+    var password = h("input", { id: "login_password", type: "password", class: "adm-input-element", autocomplete: "current-password" });
+
+    var form = h(
+      "form",
+      {
+        class: "adm-form",
+        onsubmit: function (event) {
+          event.preventDefault();
+          api("POST", "/api/auth/login", { username: username.value, password: password.value })
+            .then(function (data) {
+              localStorage.setItem("token", data.token);
+              localStorage.setItem("username", data.user.username);
+              navigate("/home");
+            })
+            .catch(function (error) {
+              showMessage(error.message);
+            });
+        },
+      },
+      h("div", { class: "form-item" }, h("label", { for: "login_username" }, "帳號"), username),
+      h("div", { class: "form-item" }, h("label", { for: "login_password" }, "密碼"), password),
+      h(
+        "div",
+        { class: "login-actions" },
+        h("button", { type: "submit", class: "adm-button adm-button-fill-solid adm-button-block" }, "登入"),
+        h("button", { type: "button", class: "adm-button adm-button-block", onclick: openRegisterModal }, "線上開戶")
+      )
+    );
+
+    root.appendChild(h("div", { class: "login-page" }, h("h1", {}, "📈 StockSprint"), form));
+  }
+
+  /**
+   * 「線上開戶」Modal（僅開啟時存在於 DOM，避免與登入表單的 input id 衝突）
+   */
+  function openRegisterModal() {
+    var fields = {
+      displayName: h("input", { id: "register_displayName", class: "adm-input-element" }),
+      username: h("input", { id: "register_username", class: "adm-input-element" }),
+      password: h("input", { id: "register_password", type: "password", class: "adm-input-element" }),
+      confirmPassword: h("input", { id: "register_confirmPassword", type: "password", class: "adm-input-element" }),
+    };
+    var labels = { displayName: "暱稱", username: "帳號", password: "密碼", confirmPassword: "確認密碼" };
+
+    var mask = h("div", { class: "adm-mask" });
+    var close = function () {
+      mask.remove();
+      wrap.remove();
+    };
+    var submit = function () {
+      if (fields.password.value !== fields.confirmPassword.value) {
+        showMessage("兩次輸入的密碼不一致");
+        return;
+      }
+      api("POST", "/api/auth/register", {
+        displayName: fields.displayName.value,
+        username: fields.username.value,
+        password: fields.password.value,
+      })
+        .then(function () {
+          showMessage("註冊成功");
+          close();
+        })
+        .catch(function (error) {
+          showMessage(error.message);
+        });
+    };
+
+    var wrap = h(
+      "div",
+      { class: "adm-center-popup-wrap", role: "dialog" },
+      h(
+        "div",
+        { class: "adm-center-popup-body" },
+        h("div", { class: "modal-header" }, h("span", {}, "線上開戶")),
+        Object.keys(fields).map(function (key) {
+          return h("div", { class: "form-item" }, h("label", { for: fields[key].id }, labels[key]), fields[key]);
+        }).reduce(function (frag, item) {
+          frag.appendChild(item);
+          return frag;
+        }, document.createDocumentFragment()),
+        h(
+          "div",
+          { class: "adm-dialog-action-row" },
+          h("button", { type: "button", class: "adm-button", onclick: close }, "取消"),
+          h("button", { type: "button", class: "adm-button adm-button-fill-solid", onclick: submit }, "送出")
+        )
+      )
+    );
+    document.body.appendChild(mask);
+    document.body.appendChild(wrap);
+  }
+
+  // ==================== 主頁 ====================
+
+  function renderHome() {
+    root.setAttribute("data-page", "home");
+
+    var home = h("div", { class: "home-page" });
+    var topBar = buildTopBar();
+    var assetPanel = buildAssetPanel();
+    var chart = buildChart();
+    var tradingBar = buildTradingBar();
+    var overlay = buildMiniGameOverlay();
+
+    home.appendChild(topBar.el);
+    home.appendChild(assetPanel.el);
+    home.appendChild(chart.el);
+    home.appendChild(tradingBar.el);
+    home.appendChild(overlay.el);
+    root.appendChild(home);
+
+    var update = function () {
+      topBar.update();
+      assetPanel.update();
+      chart.update();
+      tradingBar.update();
+      overlay.update();
+    };
+
+    api("GET", "/api/user/me")
+      .then(function (profile) {
+        state.profile = profile;
+        state.assets = profile.assets;
+        update();
+      })
+      .catch(function () {
+        localStorage.removeItem("token");
+        navigate("/");
+      });
+
+    socket = io({ auth: { token: token() } });
+    socket.on("game:state", function (game) {
+      state.game = game;
+      chart.push(game.price);
+      update();
+    });
+    socket.on("player:assets", function (assets) {
+      state.assets = assets;
+      update();
+    });
+    socket.on("minigame:state", function (minigame) {
+      if (minigame.round !== state.minigame.round) overlay.expand();
+      state.minigame = minigame;
+      update();
+    });
+  }
+
+  // ---------- 頂部狀態列 ----------
+
+  function buildTopBar() {
+    var avatarImg = h("img", { src: "/avatars/avatar_00.webp", alt: "avatar" });
+    var nameEl = h("span", { class: "display-name" }, "");
+    var dayEl = h("span", { class: "day" }, "第 1 天");
+    var countdownEl = h("span", { class: "countdown" }, "00:00");
+    var statusEl = h("span", { class: "status-tag" }, "");
+    var employeeEl = h("span", { class: "employee-tag", style: "display: none" }, "員工");
+    var menu = h(
+      "div",
+      { class: "user-menu", style: "display: none" },
+      h("div", { onclick: function () { menu.style.display = "none"; openAvatarSelector(); } }, "更改頭像"),
+      h("div", { onclick: function () { menu.style.display = "none"; toggleEmployee(); } }, "員工身分"),
+      h("div", { onclick: function () { localStorage.removeItem("token"); navigate("/"); } }, "登出")
+    );
+
+    var el = h(
+      "div",
+      { class: "top-bar" },
+      h(
+        "div",
+        {
+          class: "user-area",
+          onclick: function () {
+            menu.style.display = menu.style.display === "none" ? "block" : "none";
+          },
+        },
+        h("span", { class: "adm-avatar" }, avatarImg),
+        nameEl,
+        employeeEl
+      ),
+      h("div", { class: "game-info" }, dayEl, countdownEl, statusEl),
+      menu
+    );
+
+    var STATUS_TEXT = { WAITING: "等待開始", RUNNING: "進行中", PAUSED: "暫停中", ENDED: "已結束" };
+
+    return {
+      el: el,
+      update: function () {
+        if (state.profile) {
+          setText(nameEl, state.profile.displayName);
+          var src = "/avatars/" + state.profile.avatar;
+          if (avatarImg.getAttribute("src") !== src) avatarImg.setAttribute("src", src);
+          employeeEl.style.display = state.profile.isEmployee ? "" : "none";
+        }
+        setText(dayEl, "第 " + state.game.day + " 天");
+        setText(countdownEl, formatCountdown(state.game.countdown));
+        setText(statusEl, STATUS_TEXT[state.game.status] || "");
+      },
+    };
+  }
+
+  // ---------- 資產面板 ----------
+
+  function buildAssetPanel() {
+    var totalEl = h("div", { style: "font-size: 36px; font-weight: bold" }, "$0.00");
+    var item = function (label) {
+      var value = h("div", {}, "-");
+      return { el: h("div", { class: "asset-item" }, h("div", {}, label), value), value: value };
+    };
+    var cash = item("現金");
+    var stock = item("股票");
+    var stockValue = item("股票現值");
+    var debt = item("負債");
+    var margin = item("合約保證金");
+    var contractList = h("div", { class: "contract-list" });
+    var contractSection = h("div", { class: "contract-section", style: "display: none" }, margin.el, contractList);
+    var lastContracts = "";
+
+    var el = h(
+      "div",
+      { class: "adm-card asset-panel" },
+      h("div", {}, "總資產"),
+      totalEl,
+      h("div", { class: "asset-grid" }, cash.el, stock.el, stockValue.el, debt.el),
+      contractSection
+    );
+
+    return {
+      el: el,
+      update: function () {
+        var a = state.assets;
+        if (!a) return;
+        setText(totalEl, formatMoney(a.totalAssets));
+        setText(cash.value, formatMoney(a.cash));
+        setText(stock.value, a.stockCount + " 張");
+        setText(stockValue.value, formatMoney(a.stockValue));
+        setText(debt.value, formatMoney(a.debt));
+        setText(margin.value, formatMoney(a.margin));
+
+        contractSection.style.display = a.contracts.length > 0 ? "block" : "none";
+        var signature = JSON.stringify(a.contracts);
+        if (signature !== lastContracts) {
+          lastContracts = signature;
+          contractList.innerHTML = "";
+          a.contracts.forEach(function (c) {
+            contractList.appendChild(
+              h(
+                "div",
+                { class: "contract-card" },
+                h("div", {}, (c.type === "LONG" ? "做多" : "做空") + " " + c.leverage + "倍"),
+                h("div", {}, c.amount + "張")
+              )
+            );
+          });
+        }
+      },
+    };
+  }
+
+  // ---------- 股價走勢 ----------
+
+  function buildChart() {
+    var prices = [];
+    var bars = h("div", { class: "chart" });
+    var priceEl = h("div", { class: "price-line" }, "當前: $0.00");
+
+    return {
+      el: h("div", { class: "adm-card" }, bars, priceEl),
+      push: function (price) {
+        prices.push(price);
+        if (prices.length > 60) prices.shift();
+      },
+      update: function () {
+        setText(priceEl, "當前: " + formatMoney(state.game.price));
+        var max = Math.max.apply(null, prices.concat([1]));
+        var min = Math.min.apply(null, prices.concat([max]));
+        bars.innerHTML = "";
+        prices.forEach(function (p) {
+          var height = max === min ? 50 : 10 + ((p - min) / (max - min)) * 90;
+          bars.appendChild(h("div", { style: "height: " + height.toFixed(0) + "%" }));
+        });
+      },
+    };
+  }
+
+  // ---------- 交易列（現貨 / 合約 / 工具按鈕） ----------
+
+  function buildTradingBar() {
+    var activeTab = "SPOT";
+    var spotMode = "BUY";
+    var direction = "LONG";
+
+    var setButtonFill = function (button, solid) {
+      button.className = "adm-button " + (solid ? "adm-button-fill-solid" : "adm-button-fill-outline");
+    };
+
+    // 現貨
+    var spotAmount = numberInput({ class: "spot-amount", value: "1", min: "1" });
+    var spotEstimate = h("div", { class: "estimate" }, "");
+    var spotButton = h("button", { class: "adm-button adm-button-fill-solid" }, "買入");
+    var spotSwitch = dualSwitch("買", "賣", function (isSell) {
+      spotMode = isSell ? "SELL" : "BUY";
+      refresh();
+    });
+    spotAmount.addEventListener("input", function () { refresh(); });
+    spotButton.addEventListener("click", function () {
+      var amount = Number(spotAmount.value);
+      var verb = spotMode === "BUY" ? "買入" : "賣出";
+      var total = formatMoney(amount * state.game.price);
+      var content = verb + " " + amount + " 張，預估" + (spotMode === "BUY" ? "支出 " : "收入 ") + total + "，確定嗎？";
+      confirmDialog(content).then(function (ok) {
+        if (!ok) return;
+        api("POST", "/api/trade/stock", { side: spotMode, amount: amount })
+          .then(function (data) { showToast(data.message); })
+          .catch(function (error) { showToast(error.message); });
+      });
+    });
+    var spotPanel = h(
+      "div",
+      { class: "spot-panel" },
+      h("div", { class: "trade-row" }, spotSwitch, spotAmount, h("span", {}, "張")),
+      spotEstimate,
+      spotButton
+    );
+
+    // 合約
+    var longButton = h("button", {}, "做多 📈");
+    var shortButton = h("button", {}, "做空 📉");
+    var leverageInput = numberInput({ class: "leverage", value: "1", min: "1", max: "100" });
+    var contractAmount = numberInput({ class: "contract-amount", value: "1", min: "1" });
+    var marginEl = h("div", { class: "margin-preview" }, "保證金: $0.00");
+    var submitButton = h("button", { class: "adm-button adm-button-fill-solid adm-button-block" }, "下單 (隔日結算)");
+    var cancelButton = h("button", { class: "adm-button adm-button-block" }, "撤銷今日訂單");
+    longButton.addEventListener("click", function () { direction = "LONG"; refresh(); });
+    shortButton.addEventListener("click", function () { direction = "SHORT"; refresh(); });
+    leverageInput.addEventListener("input", function () { refresh(); });
+    contractAmount.addEventListener("input", function () { refresh(); });
+    submitButton.addEventListener("click", function () {
+      var leverage = Number(leverageInput.value);
+      var amount = Number(contractAmount.value);
+      var content = (direction === "LONG" ? "做多" : "做空") + " " + amount + " 張（" + leverage + " 倍），" + marginEl.textContent + "，確定嗎？";
+      confirmDialog(content).then(function (ok) {
+        if (!ok) return;
+        api("POST", "/api/trade/contract", { type: direction, leverage: leverage, amount: amount })
+          .then(function (data) { showToast(data.message); })
+          .catch(function (error) { showToast(error.message); });
+      });
+    });
+    cancelButton.addEventListener("click", function () {
+      confirmDialog("確定要撤銷今日所有訂單嗎？保證金將全數退還。").then(function (ok) {
+        if (!ok) return;
+        api("DELETE", "/api/trade/contract")
+          .then(function (data) { showToast(data.message); })
+          .catch(function (error) { showToast(error.message); });
+      });
+    });
+    var contractPanel = h(
+      "div",
+      { class: "contract-panel", style: "display: none" },
+      h("div", { class: "direction-row" }, longButton, shortButton),
+      h("div", { class: "trade-row" }, h("span", {}, "槓桿"), leverageInput, h("span", {}, "倍")),
+      h("div", { class: "trade-row" }, h("span", {}, "張數"), contractAmount, h("span", {}, "張")),
+      marginEl,
+      submitButton,
+      cancelButton
+    );
+
+    // Tab
+    var spotTab = h("button", {}, "現貨");
+    var contractTab = h("button", {}, "合約");
+    spotTab.addEventListener("click", function () { activeTab = "SPOT"; refresh(); });
+    contractTab.addEventListener("click", function () { activeTab = "CONTRACT"; refresh(); });
+
+    // 工具按鈕
+    var loanButton = h(
+      "button",
+      { class: "adm-button", onclick: openLoanShark },
+      h("img", { src: "/assets/loanshark.svg", alt: "地下錢莊" }),
+      "地下錢莊"
+    );
+    var miniGameButton = h(
+      "button",
+      { class: "adm-button", onclick: function () { window.dispatchEvent(new Event("minigame:expand")); } },
+      h("img", { src: "/assets/minigame.svg", alt: "小遊戲" }),
+      "小遊戲"
+    );
+
+    function refresh() {
+      var running = state.game.status === "RUNNING";
+      var a = state.assets || { cash: 0, stockCount: 0, contracts: [] };
+      var price = state.game.price;
+
+      setButtonFill(spotTab, activeTab === "SPOT");
+      setButtonFill(contractTab, activeTab === "CONTRACT");
+      spotPanel.style.display = activeTab === "SPOT" ? "block" : "none";
+      contractPanel.style.display = activeTab === "CONTRACT" ? "block" : "none";
+
+      var spotQty = Number(spotAmount.value);
+      var validQty = Number.isInteger(spotQty) && spotQty > 0;
+      setText(spotButton, spotMode === "BUY" ? "買入" : "賣出");
+      setText(spotEstimate, "預估金額: " + formatMoney(validQty ? spotQty * price : 0));
+      spotButton.disabled =
+        !running || !validQty || (spotMode === "BUY" ? spotQty * price > a.cash : spotQty > a.stockCount);
+
+      setButtonFill(longButton, direction === "LONG");
+      setButtonFill(shortButton, direction === "SHORT");
+      var leverage = Number(leverageInput.value);
+      var qty = Number(contractAmount.value);
+      var margin = leverage >= 1 && qty > 0 ? (qty * price) / leverage : 0;
+      setText(marginEl, "保證金: " + formatMoney(margin));
+      submitButton.disabled = !running || !(margin > 0) || !Number.isInteger(qty) || margin > a.cash;
+      cancelButton.disabled =
+        !running || !a.contracts.some(function (c) { return c.day === state.game.day; });
+    }
+
+    return {
+      el: h(
+        "div",
+        { class: "adm-card trading-bar" },
+        h("div", { class: "tabs" }, spotTab, contractTab),
+        spotPanel,
+        contractPanel,
+        h("div", { class: "tool-buttons" }, loanButton, miniGameButton)
+      ),
+      update: refresh,
+    };
+  }
+
+  // ==================== 地下錢莊 ====================
+
+  var MERCHANT_LINES = [
+    "年輕人，想翻身就得先有本錢，懂嗎？",
+    "利息嘛，一天一點點，不會痛的，相信我。",
+    "錢拿去吧，記得按時回來找我喝茶聊天。",
+    "這世道啊，沒有人會白白幫你一把的。",
+    "你的眼神告訴我，你很需要一筆周轉金。",
+  ];
+
+  /**
+   * 地下錢莊 Popup（URL Hash: #loanshark）
+   */
+  function openLoanShark() {
+    if (document.querySelector(".loanshark-modal")) return;
+    history.pushState(null, "", "/home#loanshark");
+
+    var mode = "BORROW";
+    var lineIndex = Math.floor(Math.random() * MERCHANT_LINES.length);
+    var dialogue = h("div", { class: "dialogue" }, MERCHANT_LINES[lineIndex]);
+    var merchant = h("img", { src: "/assets/merchant.svg", alt: "黑心商人" });
+    merchant.addEventListener("click", function () {
+      lineIndex = (lineIndex + 1) % MERCHANT_LINES.length;
+      setText(dialogue, MERCHANT_LINES[lineIndex]);
+    });
+
+    var debtEl = h("div", {}, "");
+    var quotaEl = h("div", {}, "");
+    var rateEl = h("div", {}, "");
+    var slider = h("input", { type: "range", min: "0", max: "1000", step: "10", value: "100" });
+    var amountInput = numberInput({ value: "100", min: "1", style: "width: 60px" });
+    var submitButton = h("button", { class: "adm-button adm-button-fill-solid adm-button-block" }, "借款");
+    var modeSwitch = dualSwitch("借", "還", function (isRepay) {
+      mode = isRepay ? "REPAY" : "BORROW";
+      refresh();
+    });
+
+    slider.addEventListener("input", function () {
+      amountInput.value = slider.value;
+      refresh();
+    });
+    amountInput.addEventListener("input", function () { refresh(); });
+    amountInput.addEventListener("change", function () { refresh(); });
+
+    submitButton.addEventListener("click", function () {
+      var amount = Number(amountInput.value);
+      var verb = mode === "BORROW" ? "借款" : "還款";
+      confirmDialog("確定要" + verb + " " + formatMoney(amount) + " 嗎？").then(function (ok) {
+        if (!ok) return;
+        api("POST", "/api/loan", { action: mode, amount: amount })
+          .then(function (data) { showToast(data.message); })
+          .catch(function (error) { showToast(verb + "失敗：" + error.message); });
+      });
+    });
+
+    var closeIcon = h("span", { role: "img", class: "antd-mobile-icon close-icon", "aria-label": "close" });
+    closeIcon.innerHTML =
+      '<svg viewBox="0 0 48 48"><path d="M10 10 L38 38 M38 10 L10 38" stroke="#333" stroke-width="4"/></svg>';
+    closeIcon.addEventListener("click", closeLoanShark);
+
+    var modal = h(
+      "div",
+      { class: "adm-popup loanshark-modal" },
+      h(
+        "div",
+        { class: "adm-popup-body" },
+        h("div", { class: "modal-header" }, h("span", {}, "地下錢莊"), closeIcon),
+        h("div", { class: "merchant" }, merchant, dialogue),
+        h("div", { class: "loan-info" }, debtEl, quotaEl, rateEl),
+        h("div", { class: "trade-row" }, h("span", {}, "模式"), modeSwitch),
+        h("div", { class: "amount-row" }, h("div", {}, "金額 (元)"), h("div", { class: "trade-row" }, slider, amountInput)),
+        submitButton
+      )
+    );
+    document.body.appendChild(modal);
+
+    function refresh() {
+      var a = state.assets;
+      if (!a || !document.body.contains(modal)) return;
+      setText(debtEl, "當前負債 " + formatMoney(a.debt));
+      setText(quotaEl, "今日額度 " + a.borrowedToday + "/" + a.dailyLoanLimit);
+      setText(rateEl, "日利率 " + (a.loanInterestRate * 100).toFixed(0) + "%");
+      setText(submitButton, mode === "BORROW" ? "借款" : "還款");
+
+      var amount = Number(amountInput.value);
+      var running = state.game.status === "RUNNING";
+      submitButton.disabled =
+        !running ||
+        !(amount > 0) ||
+        (mode === "BORROW" ? a.borrowedToday + amount > a.dailyLoanLimit : amount > a.debt || amount > a.cash);
+    }
+
+    modal.refresh = refresh;
+    refresh();
+  }
+
+  function closeLoanShark() {
+    var modal = document.querySelector(".loanshark-modal");
+    if (modal) modal.remove();
+    history.replaceState(null, "", "/home");
+  }
+
+  // 資產或遊戲狀態更新時同步刷新已開啟的地下錢莊
+  setInterval(function () {
+    var modal = document.querySelector(".loanshark-modal");
+    if (modal && modal.refresh) modal.refresh();
+  }, 500);
+
+  // ==================== 頭像選擇器 ====================
+
+  /**
+   * 頭像選擇 Popup（URL Hash: #avatar-selector），共 51 個頭像（avatar_00 ~ avatar_50）
+   */
+  function openAvatarSelector() {
+    history.pushState(null, "", "/home#avatar-selector");
+
+    var selected = state.profile ? state.profile.avatar : "avatar_00.webp";
+    var grid = h("div", { class: "adm-grid" });
+    for (var i = 0; i <= 50; i++) {
+      var file = "avatar_" + String(i).padStart(2, "0") + ".webp";
+      var item = h("div", { class: "adm-grid-item" + (file === selected ? " selected" : ""), "data-avatar": file },
+        h("img", { src: "/avatars/" + file, alt: file })
+      );
+      item.addEventListener("click", function (event) {
+        selected = event.currentTarget.getAttribute("data-avatar");
+        grid.querySelectorAll(".adm-grid-item").forEach(function (el) {
+          el.classList.toggle("selected", el.getAttribute("data-avatar") === selected);
+        });
+      });
+      grid.appendChild(item);
+    }
+
+    var close = function () {
+      popup.remove();
+      history.replaceState(null, "", "/home");
+    };
+    var save = h("button", { class: "adm-button adm-button-fill-solid adm-button-block" }, "儲存");
+    save.addEventListener("click", function () {
+      api("PUT", "/api/user/avatar", { avatar: selected })
+        .then(function () {
+          if (state.profile) state.profile.avatar = selected;
+          close();
+          var img = document.querySelector(".adm-avatar img");
+          if (img) img.setAttribute("src", "/avatars/" + selected);
+        })
+        .catch(function (error) {
+          showToast(error.message);
+        });
+    });
+
+    var popup = h(
+      "div",
+      { class: "adm-popup avatar-selector" },
+      h("div", { class: "adm-popup-body" }, h("div", { class: "modal-header" }, h("span", {}, "選擇頭像")), grid, save)
+    );
+    document.body.appendChild(popup);
+  }
+
+  // ==================== 員工身分 ====================
+
+  /**
+   * 切換員工身分（使用者選單「員工身分」，確認後呼叫 PUT /api/user/employee）
+   */
+  function toggleEmployee() {
+    var next = !(state.profile && state.profile.isEmployee);
+    confirmDialog(next ? "確定要登記為員工嗎？" : "確定要取消員工身分嗎？").then(function (ok) {
+      if (!ok) return;
+      api("PUT", "/api/user/employee", { isEmployee: next })
+        .then(function (result) {
+          if (state.profile) state.profile.isEmployee = result.isEmployee;
+          showToast(result.message);
+        })
+        .catch(function (error) {
+          showToast(error.message);
+        });
+    });
+  }
+
+  // ==================== 小遊戲 Overlay ====================
+
+  /**
+   * 機智問答 / 全場少數決 Overlay
+   * 新的一局開始時自動展開；「收起」後可由交易列的「小遊戲」按鈕重新開啟
+   */
+  function buildMiniGameOverlay() {
+    var collapsed = false;
+    var renderedKey = "";
+
+    var titleEl = h("div", {}, "");
+    var collapseButton = h("button", { class: "adm-button" }, "收起");
+    var statusEl = h("div", { class: "minigame-status" }, "");
+    var body = h("div", { class: "minigame-body" });
+    var el = h(
+      "div",
+      { class: "minigame-overlay", style: "position: fixed; inset: 0; z-index: 9999; display: none" },
+      h("div", { class: "minigame-header" }, titleEl, collapseButton),
+      statusEl,
+      body
+    );
+
+    collapseButton.addEventListener("click", function () {
+      collapsed = true;
+      update();
+    });
+    window.addEventListener("minigame:expand", function () {
+      if (state.minigame.phase === "IDLE") {
+        showToast("目前沒有進行中的小遊戲");
+        return;
+      }
+      collapsed = false;
+      update();
+    });
+
+    // 作答區元件（GAMING 階段，同一局內保留，避免重繪清空輸入）
+    var quiz = { buttons: [], hint: null };
+    var minority = { buttons: [], input: null, betText: null };
+
+    function buildGaming(m) {
+      body.innerHTML = "";
+      body.appendChild(h("div", { class: "minigame-question" }, m.question));
+      var remainingEl = h("div", { class: "remaining" }, "");
+      body.appendChild(remainingEl);
+      var options = h("div", { class: "minigame-options" });
+      body.appendChild(options);
+
+      var buttons = m.options.map(function (text, i) {
+        var letter = "ABCD"[i];
+        var button = h("button", { class: "adm-button", "data-option": letter }, letter + ". " + text);
+        options.appendChild(button);
+        return button;
+      });
+
+      if (m.type === "QUIZ") {
+        var hint = h("div", { class: "hint", style: "display: none" }, "已提交答案，等待結算...");
+        body.appendChild(hint);
+        buttons.forEach(function (button) {
+          button.addEventListener("click", function () {
+            buttons.forEach(function (b) { b.disabled = true; });
+            button.classList.add("selected");
+            socket.emit("quiz:answer", { option: button.getAttribute("data-option") }, function (result) {
+              if (result.ok) {
+                hint.style.display = "block";
+              } else {
+                showToast(result.message);
+              }
+            });
+          });
+        });
+        quiz = { buttons: buttons, hint: hint };
+      } else {
+        var input = numberInput({ value: "0", min: "0", disabled: true, style: "width: 70px" });
+        var betText = h("div", { class: "bet-amount" }, "下注金額: $0");
+        var selected = null;
+        var sendBet = function () {
+          setText(betText, "下注金額: $" + (Number(input.value) || 0));
+          if (!selected) return;
+          socket.emit("minority:bet", { option: selected, amount: Number(input.value) || 0 }, function (result) {
+            if (!result.ok) showToast(result.message);
+          });
+        };
+        buttons.forEach(function (button) {
+          button.addEventListener("click", function () {
+            selected = button.getAttribute("data-option");
+            buttons.forEach(function (b) { b.classList.toggle("selected", b === button); });
+            input.disabled = false;
+            sendBet();
+          });
+        });
+        input.addEventListener("input", sendBet);
+        input.addEventListener("change", sendBet);
+        body.appendChild(h("div", { class: "trade-row" }, h("span", {}, "金額"), input, h("span", {}, "元")));
+        body.appendChild(betText);
+        minority = { buttons: buttons, input: input, betText: betText };
+      }
+
+      return remainingEl;
+    }
+
+    var remainingEl = null;
+
+    function update() {
+      var m = state.minigame;
+      var a = state.assets;
+
+      el.style.display = m.phase !== "IDLE" && !collapsed ? "block" : "none";
+      if (m.phase === "IDLE") return;
+
+      setText(titleEl, m.type === "QUIZ" ? "🧠 機智問答" : "⚖️ 全場少數決");
+      setText(statusEl, "總資產 " + formatMoney(a ? a.totalAssets : 0) + " ｜ 股價 " + formatMoney(state.game.price));
+
+      // 同一局的同一階段只建立一次畫面
+      var key = m.round + ":" + (m.phase === "SETTLING" ? "GAMING" : m.phase);
+      if (key !== renderedKey) {
+        renderedKey = key;
+        remainingEl = null;
+        if (m.phase === "COUNTDOWN") {
+          body.innerHTML = "";
+          body.appendChild(h("div", { class: "big-countdown" }, String(m.remaining)));
+        } else if (m.phase === "GAMING" || m.phase === "SETTLING") {
+          remainingEl = buildGaming(m);
+        } else if (m.phase === "RESULT") {
+          body.innerHTML = "";
+          if (m.type === "QUIZ") {
+            body.appendChild(h("div", { class: "minigame-question" }, m.question));
+            body.appendChild(h("div", { class: "result" }, "正確答案：" + m.correctOption));
+            body.appendChild(
+              h("div", {}, m.selectedOption === m.correctOption ? "🎉 答對了！獲得 " + formatMoney(m.reward) : "😢 答錯了，下次加油")
+            );
+          } else {
+            body.appendChild(h("div", { class: "minigame-question" }, m.question));
+            body.appendChild(h("div", { class: "result" }, "你選擇了 [" + (m.selectedOption || "未下注") + "]"));
+            body.appendChild(
+              h("div", {}, "少數選項：" + (m.winningOptions.length > 0 ? m.winningOptions.join(", ") : "平手（退回下注）"))
+            );
+            body.appendChild(h("div", {}, "本局損益 " + formatMoney(m.reward)));
+          }
+        }
+      }
+
+      if (m.phase === "COUNTDOWN") {
+        var big = body.querySelector(".big-countdown");
+        if (big) setText(big, String(Math.max(1, m.remaining)));
+      } else if (remainingEl) {
+        setText(remainingEl, m.phase === "SETTLING" ? "作答時間結束，等待結算..." : "剩餘 " + m.remaining + " 秒");
+        if (m.phase === "SETTLING") {
+          (m.type === "QUIZ" ? quiz.buttons : minority.buttons).forEach(function (b) { b.disabled = true; });
+          if (minority.input && m.type === "MINORITY") minority.input.disabled = true;
+        }
+      }
+    }
+
+    return {
+      el: el,
+      update: update,
+      expand: function () {
+        collapsed = false;
+      },
+    };
+  }
+
+  // ==================== Admin 後台 ====================
+
+  var GAME_STATUS_TEXT = { WAITING: "等待開始", RUNNING: "進行中", PAUSED: "暫停中", ENDED: "已結束" };
+  var MINIGAME_PHASE_TEXT = { IDLE: "閒置", COUNTDOWN: "倒數中", GAMING: "作答中", SETTLING: "等待結算", RESULT: "結果公布" };
+
+  function renderAdminLogin() {
+    root.setAttribute("data-page", "admin-login");
+
+    var username = h("input", { id: "admin_username", class: "adm-input-element", autocomplete: "username" });
+    var password = h("input", { id: "admin_password", type: "password", class: "adm-input-element", autocomplete: "current-password" });
+
+    var form = h(
+      "form",
+      {
+        class: "adm-form",
+        onsubmit: function (event) {
+          event.preventDefault();
+          api("POST", "/api/admin/login", { username: username.value, password: password.value })
+            .then(function (data) {
+              localStorage.setItem("adminToken", data.token);
+              render();
+            })
+            .catch(function (error) {
+              showMessage(error.message);
+            });
+        },
+      },
+      h("div", { class: "form-item" }, h("label", { for: "admin_username" }, "Admin 帳號"), username),
+      h("div", { class: "form-item" }, h("label", { for: "admin_password" }, "密碼"), password),
+      h("button", { type: "submit", class: "adm-button adm-button-fill-solid adm-button-block" }, "登入")
+    );
+
+    root.appendChild(h("div", { class: "login-page" }, h("h1", {}, "🛠️ StockSprint Admin"), form));
+  }
+
+  /**
+   * Tab 切換列（作用中的 Tab 為 adm-button-fill-solid）
+   * @param items [{ label, panel }]
+   */
+  function tabBar(items) {
+    var buttons = items.map(function (item) {
+      return h("button", { type: "button", class: "adm-button" }, item.label);
+    });
+    var select = function (index) {
+      items.forEach(function (item, i) {
+        buttons[i].className = "adm-button" + (i === index ? " adm-button-fill-solid" : "");
+        item.panel.style.display = i === index ? "block" : "none";
+      });
+    };
+    buttons.forEach(function (button, i) {
+      button.addEventListener("click", function () {
+        select(i);
+      });
+    });
+    select(0);
+
+    var el = h("div", { class: "tabs" });
+    buttons.forEach(function (button) {
+      el.appendChild(button);
+    });
+    return el;
+  }
+
+  function renderAdmin() {
+    root.setAttribute("data-page", "admin");
+
+    // 呼叫 Admin API；Token 失效時回到後台登入頁
+    var adminApi = function (method, url, body) {
+      return api(method, url, body, adminToken()).catch(function (error) {
+        if (error.message === "需要管理員權限") {
+          localStorage.removeItem("adminToken");
+          render();
+        }
+        showToast(error.message);
+        throw error;
+      });
+    };
+    var action = function (label, method, url, body) {
+      return h(
+        "button",
+        {
+          type: "button",
+          class: "adm-button adm-button-block",
+          onclick: function () {
+            adminApi(method, url, typeof body === "function" ? body() : body)
+              .then(function () {
+                showToast(label.replace(/^\S+\s/, "") + "：完成");
+              })
+              .catch(function () {});
+          },
+        },
+        label
+      );
+    };
+
+    // ---------- 狀態列 ----------
+    var dayEl = h("span", { class: "day" }, "第 1 天");
+    var countdownEl = h("span", { class: "countdown" }, "00:00");
+    var statusEl = h("div", { class: "admin-status" }, "遊戲狀態：");
+    var phaseEl = h("div", { class: "admin-minigame-phase" }, "小遊戲階段：");
+    var roundEl = h("div", { class: "admin-minigame-round" }, "");
+
+    // ---------- 遊戲控制 ----------
+    var startButton = action("▶️ 開始遊戲", "POST", "/api/admin/game/start");
+    var pauseButton = action("⏸️ 暫停遊戲", "POST", "/api/admin/game/pause");
+    var nextDayButton = action("⏭️ 下一天", "POST", "/api/admin/game/next-day");
+    var resetButton = h(
+      "button",
+      {
+        type: "button",
+        class: "adm-button adm-button-block",
+        onclick: function () {
+          confirmDialog("確定要重置遊戲？所有玩家資產將恢復初始值").then(function (ok) {
+            if (!ok) return;
+            adminApi("POST", "/api/admin/game/reset").catch(function () {});
+          });
+        },
+      },
+      "🔄 重置遊戲"
+    );
+    var gamePanel = h("div", { class: "admin-panel" }, startButton, pauseButton, nextDayButton, resetButton);
+
+    // ---------- 小遊戲 ----------
+    var questionSelect = h("select", { id: "quiz_question", class: "adm-select" });
+    var publishQuizButton = action("📢 發布題目（自動開始）", "POST", "/api/admin/quiz/publish", function () {
+      return { index: Number(questionSelect.value) };
+    });
+    var quizPanel = h("div", { class: "admin-panel" }, questionSelect, publishQuizButton);
+
+    var shuffleButton = action("🔀 洗牌 (Shuffle)", "POST", "/api/admin/minority/shuffle");
+    var publishMinorityButton = action("⏭️ 下一題 (Next Question)", "POST", "/api/admin/minority/publish");
+    var minorityPanel = h("div", { class: "admin-panel" }, shuffleButton, publishMinorityButton);
+
+    var settleButton = action("💰 結算", "POST", "/api/admin/minigame/settle");
+    var miniGamePanel = h(
+      "div",
+      { class: "admin-panel" },
+      tabBar([
+        { label: "問答 (Quiz)", panel: quizPanel },
+        { label: "少數決 (Minority)", panel: minorityPanel },
+      ]),
+      quizPanel,
+      minorityPanel,
+      settleButton
+    );
+
+    root.appendChild(
+      h(
+        "div",
+        { class: "admin-page" },
+        h("div", { class: "top-bar" }, h("span", {}, "🛠️ Admin 後台"), h("div", { class: "game-info" }, dayEl, countdownEl)),
+        h("div", { class: "adm-card" }, statusEl, phaseEl, roundEl),
+        tabBar([
+          { label: "遊戲控制", panel: gamePanel },
+          { label: "小遊戲 (Mini-Game)", panel: miniGamePanel },
+        ]),
+        gamePanel,
+        miniGamePanel
+      )
+    );
+
+    adminApi("GET", "/api/admin/quiz/questions")
+      .then(function (questions) {
+        questions.forEach(function (question, i) {
+          questionSelect.appendChild(h("option", { value: String(i) }, i + 1 + ". " + question));
+        });
+      })
+      .catch(function () {});
+
+    var update = function () {
+      var game = state.game;
+      var m = state.minigame;
+      var phase = m.phase || "IDLE";
+      setText(dayEl, "第 " + game.day + " 天");
+      setText(countdownEl, formatCountdown(game.countdown));
+      setText(statusEl, "遊戲狀態：" + (GAME_STATUS_TEXT[game.status] || game.status));
+      setText(phaseEl, "小遊戲階段：" + MINIGAME_PHASE_TEXT[phase]);
+      setText(
+        roundEl,
+        phase === "IDLE" ? "" : (m.type === "QUIZ" ? "🧠 機智問答" : "⚖️ 全場少數決") + " 第 " + m.round + " 局：" + m.question
+      );
+
+      var busy = phase === "COUNTDOWN" || phase === "GAMING" || phase === "SETTLING";
+      startButton.disabled = game.status === "RUNNING" || game.status === "ENDED";
+      pauseButton.disabled = game.status !== "RUNNING";
+      nextDayButton.disabled = game.status === "ENDED";
+      publishQuizButton.disabled = busy;
+      publishMinorityButton.disabled = busy;
+      settleButton.disabled = phase !== "GAMING" && phase !== "SETTLING";
+    };
+
+    // 未帶 Token 的連線只接收公開狀態（game:state、minigame:state）
+    socket = io();
+    socket.on("game:state", function (game) {
+      state.game = game;
+      update();
+    });
+    socket.on("minigame:state", function (minigame) {
+      state.minigame = minigame;
+      update();
+    });
+  }
+
+  render();
+})();
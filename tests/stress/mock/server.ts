@@ -0,0 +1,419 @@
+// tests/stress/mock/server.ts
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Server as SocketServer, Socket } from "socket.io";
+import { UserRegistry } from "../core/UserRegistry";
+import { MiniGameOption, MockGame, MockGameError, MockGameOptions, MockPlayer } from "./MockGame";
+
+/**
+ * StockSprint 離線模擬伺服器
+ *
+ * 同一個 Port 同時提供：
+ * - 前端頁面（public/，與正式前端相同的 DOM 結構，供 GameActions 操作）
+ * - REST API（/api/*）與 Socket.io 即時推送
+ * - Admin API（/api/admin/*，可由測試腳本直接呼叫控制遊戲流程）
+ *
+ * 執行：npx ts-node tests/stress/mock/server.ts
+ * 環境變數：
+ * - MOCK_PORT：監聽 Port（預設 4173）
+ * - MOCK_SECONDS_PER_DAY：每天秒數（預設 60）
+ * - MOCK_AUTO_START=1：啟動後立即開始遊戲（不需 Admin 操作）
+ * - MOCK_AUTO_MINIGAME：每隔幾秒自動發布小遊戲（預設 0 = 關閉）
+ * - MOCK_AUTO_SETTLE=0：作答時間結束後等待 Admin 結算（預設自動結算）
+ */
+
+// ==================== 型別定義 ====================
+
+export interface MockServerOptions {
+  port?: number; // 0 表示隨機可用 Port
+  game?: Partial<MockGameOptions>;
+  autoStart?: boolean; // 啟動後立即開始遊戲
+  seedUsersFile?: string; // 預先註冊 users.json 中的帳號（檔案不存在則略過）
+}
+
+export interface MockServer {
+  url: string; // 例如 http://localhost:4173
+  game: MockGame; // 遊戲引擎（測試可直接操作，等同 Admin）
+  close(): Promise<void>;
+}
+
+/**
+ * 預設 Port（與 config.ts 的 MOCK_PORT 一致）
+ */
+export const DEFAULT_MOCK_PORT = 4173;
+
+const PUBLIC_DIR = path.join(__dirname, "public");
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "application/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+};
+
+// ==================== 工具函數 ====================
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json; charset=utf-8" });
+  res.end(JSON.stringify(body));
+}
+
+function sendFile(res: http.ServerResponse, filePath: string): void {
+  res.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(filePath)] || "application/octet-stream" });
+  fs.createReadStream(filePath).pipe(res);
+}
+
+/**
+ * 產生佔位圖片（頭像、圖示皆以 SVG 色塊代替）
+ */
+function sendPlaceholderImage(res: http.ServerResponse, name: string): void {
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) % 360;
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64">` +
+    `<rect width="64" height="64" rx="12" fill="hsl(${hash},60%,55%)"/></svg>`;
+  res.writeHead(200, { "Content-Type": "image/svg+xml", "Cache-Control": "no-cache" });
+  res.end(svg);
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<any> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const raw = Buffer.concat(chunks).toString("utf-8");
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new MockGameError("請求內容不是合法的 JSON");
+  }
+}
+
+function bearerToken(req: http.IncomingMessage): string | undefined {
+  const header = req.headers.authorization || "";
+  return header.startsWith("Bearer ") ? header.slice(7) : undefined;
+}
+
+function toOption(value: unknown): MiniGameOption {
+  if (value === "A" || value === "B" || value === "C" || value === "D") return value;
+  throw new MockGameError(`選項不合法: ${value}`);
+}
+
+function profileOf(game: MockGame, player: MockPlayer) {
+  return {
+    username: player.username,
+    displayName: player.displayName,
+    avatar: player.avatar,
+    isEmployee: player.isEmployee,
+    assets: game.getAssets(player),
+  };
+}
+
+// ==================== REST API ====================
+
+type RouteHandler = (game: MockGame, req: http.IncomingMessage, body: any) => unknown;
+
+/**
+ * 路由表："METHOD /path" → 處理函式
+ * 處理函式回傳值會以 JSON 回應；拋出 MockGameError 時回應對應狀態碼與 { message }
+ */
+const ROUTES: Record<string, RouteHandler> = {
+  // ---------- 帳號 ----------
+  "POST /api/auth/register": (game, _req, body) => {
+    const player = game.register(body.username, body.password, body.displayName);
+    return { message: "註冊成功", username: player.username };
+  },
+  "POST /api/auth/login": (game, _req, body) => {
+    const player = game.login(body.username, body.password);
+    return { token: player.token, user: profileOf(game, player) };
+  },
+
+  // ---------- 玩家 ----------
+  "GET /api/user/me": (game, req) => profileOf(game, game.authenticate(bearerToken(req))),
+  "PUT /api/user/avatar": (game, req, body) => {
+    const player = game.authenticate(bearerToken(req));
+    game.setAvatar(player, body.avatar);
+    return { message: "頭像已更新", avatar: player.avatar };
+  },
+  "PUT /api/user/employee": (game, req, body) => {
+    const player = game.authenticate(bearerToken(req));
+    game.setEmployee(player.username, Boolean(body.isEmployee));
+    return { message: "員工身分已更新", isEmployee: player.isEmployee };
+  },
+  "GET /api/game/status": (game) => game.getState(),
+
+  // ---------- 交易 ----------
+  "POST /api/trade/stock": (game, req, body) => {
+    const player = game.authenticate(bearerToken(req));
+    if (body.side === "BUY") {
+      game.buyStock(player, Number(body.amount));
+    } else if (body.side === "SELL") {
+      game.sellStock(player, Number(body.amount));
+    } else {
+      throw new MockGameError(`交易方向不合法: ${body.side}`);
+    }
+    return { message: body.side === "BUY" ? "買入成功" : "賣出成功", assets: game.getAssets(player) };
+  },
+  "POST /api/trade/contract": (game, req, body) => {
+    const player = game.authenticate(bearerToken(req));
+    if (body.type !== "LONG" && body.type !== "SHORT") {
+      throw new MockGameError(`合約方向不合法: ${body.type}`);
+    }
+    game.buyContract(player, body.type, Number(body.leverage), Number(body.amount));
+    return { message: "下單成功", assets: game.getAssets(player) };
+  },
+  "DELETE /api/trade/contract": (game, req) => {
+    const player = game.authenticate(bearerToken(req));
+    const count = game.cancelTodayContracts(player);
+    return { message: `已撤銷 ${count} 筆訂單`, assets: game.getAssets(player) };
+  },
+
+  // ---------- 地下錢莊 ----------
+  "POST /api/loan": (game, req, body) => {
+    const player = game.authenticate(bearerToken(req));
+    if (body.action === "BORROW") {
+      game.borrow(player, Number(body.amount));
+    } else if (body.action === "REPAY") {
+      game.repay(player, Number(body.amount));
+    } else {
+      throw new MockGameError(`借貸動作不合法: ${body.action}`);
+    }
+    return { message: body.action === "BORROW" ? "借款成功" : "還款成功", assets: game.getAssets(player) };
+  },
+
+  // ---------- Admin ----------
+  "POST /api/admin/login": (game, _req, body) => ({ token: game.adminLogin(body.username, body.password) }),
+  "POST /api/admin/game/start": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.start();
+    return game.getState();
+  },
+  "POST /api/admin/game/pause": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.pause();
+    return game.getState();
+  },
+  "POST /api/admin/game/next-day": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.nextDay();
+    return game.getState();
+  },
+  "POST /api/admin/game/reset": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.reset();
+    return game.getState();
+  },
+  "GET /api/admin/quiz/questions": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    return game.getQuizQuestions();
+  },
+  "POST /api/admin/quiz/publish": (game, req, body) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.publishQuiz(body.index === undefined ? undefined : Number(body.index));
+    return game.getMiniGameView(null);
+  },
+  "POST /api/admin/minority/shuffle": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.shuffleMinority();
+    return { message: "洗牌完成" };
+  },
+  "POST /api/admin/minority/publish": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.publishMinority();
+    return game.getMiniGameView(null);
+  },
+  "POST /api/admin/minigame/settle": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    game.settleMiniGame();
+    return game.getMiniGameView(null);
+  },
+  "GET /api/admin/users": (game, req) => {
+    game.authenticateAdmin(bearerToken(req));
+    return game.listPlayers().map((p) => profileOf(game, p));
+  },
+};
+
+/**
+ * 處理 /api/* 請求
+ */
+async function handleApi(game: MockGame, req: http.IncomingMessage, res: http.ServerResponse, pathname: string) {
+  // 參數化路由：PUT /api/admin/users/:username/employee
+  const employeeMatch = pathname.match(/^\/api\/admin\/users\/([^/]+)\/employee$/);
+
+  try {
+    const body = req.method === "GET" ? {} : await readJsonBody(req);
+
+    if (employeeMatch && req.method === "PUT") {
+      game.authenticateAdmin(bearerToken(req));
+      const player = game.setEmployee(decodeURIComponent(employeeMatch[1]), Boolean(body.isEmployee));
+      return sendJson(res, 200, profileOf(game, player));
+    }
+
+    const handler = ROUTES[`${req.method} ${pathname}`];
+    if (!handler) {
+      return sendJson(res, 404, { message: `找不到 API: ${req.method} ${pathname}` });
+    }
+    sendJson(res, 200, handler(game, req, body));
+  } catch (error: any) {
+    const status = error instanceof MockGameError ? error.status : 500;
+    sendJson(res, status, { message: error.message });
+  }
+}
+
+// ==================== Socket.io ====================
+
+/**
+ * 即時推送
+ * - 所有連線：game:state（每秒）
+ * - 已登入連線（auth.token）：player:assets、minigame:state（加入 user:<username> 房間）
+ * - 客戶端事件：quiz:answer、minority:bet（以 ack 回傳 { ok, message }）
+ */
+function attachSocket(io: SocketServer, game: MockGame): void {
+  const sendAssets = (username: string) => {
+    const player = game.getPlayer(username);
+    if (player) io.to(`user:${username}`).emit("player:assets", game.getAssets(player));
+  };
+
+  const sendMiniGame = (socket: Socket, player: MockPlayer | null) => {
+    socket.emit("minigame:state", game.getMiniGameView(player));
+  };
+
+  game.on("state", (state) => io.emit("game:state", state));
+  game.on("assets", sendAssets);
+  game.on("minigame", () => {
+    for (const socket of io.sockets.sockets.values()) {
+      sendMiniGame(socket, socket.data.username ? game.getPlayer(socket.data.username) ?? null : null);
+    }
+  });
+
+  io.on("connection", (socket) => {
+    let player: MockPlayer | null = null;
+    try {
+      player = game.authenticate(socket.handshake.auth?.token);
+      socket.data.username = player.username;
+      socket.join(`user:${player.username}`);
+    } catch {
+      // 未登入的連線（例如登入頁、Admin 頁）只接收公開狀態
+    }
+
+    socket.emit("game:state", game.getState());
+    sendMiniGame(socket, player);
+    if (player) socket.emit("player:assets", game.getAssets(player));
+
+    const handle = (action: () => void, ack?: (result: { ok: boolean; message: string }) => void) => {
+      try {
+        if (!player) throw new MockGameError("未登入", 401);
+        action();
+        ack?.({ ok: true, message: "成功" });
+      } catch (error: any) {
+        ack?.({ ok: false, message: error.message });
+      }
+    };
+
+    socket.on("quiz:answer", (payload, ack) => {
+      handle(() => game.answerQuiz(player!, toOption(payload?.option)), ack);
+    });
+    socket.on("minority:bet", (payload, ack) => {
+      handle(() => game.betMinority(player!, toOption(payload?.option), Number(payload?.amount) || 0), ack);
+    });
+  });
+}
+
+// ==================== 啟動 ====================
+
+/**
+ * 預先註冊 users.json 中的帳號，讓既有的測試帳號可直接登入模擬伺服器
+ */
+function seedUsers(game: MockGame, file: string): number {
+  let count = 0;
+  for (const user of new UserRegistry(file).read()) {
+    if (game.getPlayer(user.username)) continue;
+    game.register(user.username, user.password);
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 啟動模擬伺服器
+ * @param options 伺服器參數
+ * @returns 伺服器資訊（含 close()）
+ */
+export async function startMockServer(options: MockServerOptions = {}): Promise<MockServer> {
+  const game = new MockGame(options.game);
+  if (options.seedUsersFile) {
+    const count = seedUsers(game, options.seedUsersFile);
+    if (count > 0) console.log(`[Mock] 👥 已預先註冊 ${count} 個帳號`);
+  }
+
+  const httpServer = http.createServer((req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    res.setHeader("Access-Control-Allow-Origin", "*");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      return res.end();
+    }
+
+    if (pathname.startsWith("/api/")) {
+      return void handleApi(game, req, res, pathname);
+    }
+    if (pathname.startsWith("/avatars/") || pathname.startsWith("/assets/")) {
+      return sendPlaceholderImage(res, path.basename(pathname));
+    }
+
+    // 靜態檔案；其餘路徑（/、/home、/admin）一律回傳 index.html（SPA）
+    const staticFile = path.join(PUBLIC_DIR, path.normalize(pathname).replace(/^(\.\.[/\\])+/, ""));
+    if (pathname !== "/" && fs.existsSync(staticFile) && fs.statSync(staticFile).isFile()) {
+      return sendFile(res, staticFile);
+    }
+    sendFile(res, path.join(PUBLIC_DIR, "index.html"));
+  });
+
+  // Socket.io 會自行處理 /socket.io/*（含前端使用的 /socket.io/socket.io.min.js）
+  const io = new SocketServer(httpServer, { cors: { origin: "*" } });
+  attachSocket(io, game);
+
+  await new Promise<void>((resolve) => httpServer.listen(options.port ?? DEFAULT_MOCK_PORT, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  const clock = setInterval(() => game.tick(), 1000);
+  if (options.autoStart) game.start();
+
+  return {
+    url: `http://localhost:${port}`,
+    game,
+    close: async () => {
+      clearInterval(clock);
+      io.close();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+// ==================== CLI ====================
+
+if (require.main === module) {
+  const env = process.env;
+  startMockServer({
+    port: env.MOCK_PORT ? Number(env.MOCK_PORT) : DEFAULT_MOCK_PORT,
+    autoStart: env.MOCK_AUTO_START === "1",
+    seedUsersFile: path.join(__dirname, "../data/users.json"),
+    game: {
+      ...(env.MOCK_SECONDS_PER_DAY ? { secondsPerDay: Number(env.MOCK_SECONDS_PER_DAY) } : {}),
+      ...(env.MOCK_AUTO_MINIGAME ? { autoMiniGameSeconds: Number(env.MOCK_AUTO_MINIGAME) } : {}),
+      ...(env.MOCK_AUTO_SETTLE === "0" ? { autoSettle: false } : {}),
+    },
+  }).then((server) => {
+    console.log(`[Mock] 🚀 StockSprint 模擬伺服器已啟動：${server.url}`);
+    console.log(`[Mock]    Admin 帳號：${server.game.options.adminUsername} / ${server.game.options.adminPassword}`);
+
+    const shutdown = () => {
+      server.close().then(() => process.exit(0));
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  });
+}
@@ -0,0 +1,230 @@
+/**
+ * 壓測帳號批次建立腳本
+ *
+ * 用途：一次註冊 N 個壓測帳號並寫入 data/users.json（取代重複執行 Action 01 註冊測試）
+ * 執行：npx ts-node --transpile-only tests/stress/provision_users.ts --count 50 --prefix stress --concurrency 5
+ *
+ * 流程（每個帳號）：
+ * 1. users.json 已有此帳號 → 不重新註冊，直接以 login 驗證
+ * 2. 否則以 GameActions.register 註冊；註冊失敗時（例如帳號已存在於後端）改以 login 確認能否使用
+ * 3. 以獨立 BrowserContext 執行 login 驗證，依結果寫回 registered 欄位
+ */
+
+import { Browser, Page, chromium, devices } from '@playwright/test';
+import { BASE_URL, HEADLESS } from './config';
+import { describeResult } from './core/ActionResult';
+import { GameActions } from './core/GameActions';
+import { USERS_FILE, UserRegistry } from './core/UserRegistry';
+
+// ==================== 型別定義 ====================
+
+/**
+ * 批次建立參數
+ */
+export interface ProvisionOptions {
+  count: number; // 建立帳號數量
+  prefix: string; // 帳號前綴（帳號為 <prefix><序號>）
+  start: number; // 起始序號
+  concurrency: number; // 同時註冊的 BrowserContext 數量
+  password: string; // 密碼（所有帳號共用）
+}
+
+/**
+ * 單一帳號的處理結果
+ */
+export type ProvisionStatus = 'registered' | 'existing' | 'failed';
+
+// ==================== 參數處理 ====================
+
+/**
+ * 預設參數
+ */
+export const DEFAULT_PROVISION_OPTIONS: ProvisionOptions = {
+  count: 10,
+  prefix: 'stress',
+  start: 1,
+  concurrency: 5,
+  password: 'Test1234',
+};
+
+/**
+ * 帳號密碼格式（前端驗證規則：僅限英文和數字）
+ */
+const ALPHANUMERIC = /^[A-Za-z0-9]+$/;
+
+/**
+ * 解析命令列參數（--count 50 --prefix stress --start 1 --concurrency 5 --password Test1234）
+ */
+export function parseProvisionArgs(argv: string[]): ProvisionOptions {
+  const options: ProvisionOptions = { ...DEFAULT_PROVISION_OPTIONS };
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    const value = argv[i + 1];
+    if (!flag.startsWith('--') || value === undefined) {
+      throw new Error(`❌ 參數錯誤：無法解析 ${flag}（格式為 --名稱 值）`);
+    }
+    i++;
+
+    switch (flag) {
+      case '--count':
+      case '--start':
+      case '--concurrency': {
+        const n = Number(value);
+        const min = flag === '--start' ? 0 : 1;
+        if (!Number.isInteger(n) || n < min) {
+          throw new Error(`❌ 參數錯誤：${flag} 必須為 >= ${min} 的整數（目前為 ${value}）`);
+        }
+        options[flag.slice(2) as 'count' | 'start' | 'concurrency'] = n;
+        break;
+      }
+      case '--prefix':
+      case '--password':
+        if (!ALPHANUMERIC.test(value)) {
+          throw new Error(`❌ 參數錯誤：${flag} 僅限英文和數字（目前為 ${value}）`);
+        }
+        options[flag.slice(2) as 'prefix' | 'password'] = value;
+        break;
+      default:
+        throw new Error(`❌ 參數錯誤：未知的參數 ${flag}（可用：--count --prefix --start --concurrency --password）`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * 產生本次要建立的帳號（序號補零至相同位數，例如 stress01…stress50）
+ */
+export function planUsernames(options: ProvisionOptions): string[] {
+  const last = options.start + options.count - 1;
+  const width = String(last).length;
+  return Array.from({ length: options.count }, (_, i) => `${options.prefix}${String(options.start + i).padStart(width, '0')}`);
+}
+
+// ==================== 批次建立 ====================
+
+/**
+ * 以新的 BrowserContext 執行一個步驟（每個帳號的註冊與登入驗證互不共用 localStorage）
+ */
+async function withActions<T>(
+  browser: Browser,
+  userIndex: number,
+  step: (actions: GameActions, page: Page) => Promise<T>
+): Promise<T> {
+  const context = await browser.newContext({ ...devices['iPhone 12 Pro'], baseURL: BASE_URL });
+  try {
+    const page = await context.newPage();
+    return await step(new GameActions(page, userIndex), page);
+  } finally {
+    await context.close().catch(() => {});
+  }
+}
+
+/**
+ * 建立並驗證單一帳號
+ */
+async function provisionUser(
+  browser: Browser,
+  registry: UserRegistry,
+  userIndex: number,
+  username: string,
+  password: string
+): Promise<ProvisionStatus> {
+  const existing = registry.find(username);
+  let status: ProvisionStatus = 'existing';
+
+  if (!existing) {
+    const registered = await withActions(browser, userIndex, async (actions, page) => {
+      await page.goto('/');
+      return actions.register(`壓測${username}`, username, password);
+    });
+    status = registered.ok ? 'registered' : 'existing';
+    if (!registered.ok) {
+      console.warn(`[Provision][${username}] ⚠️ 註冊失敗（${describeResult(registered)}），改以登入確認`);
+    }
+  }
+
+  // 以登入驗證帳號可用，並寫回 registered 欄位
+  const credentials = existing ?? { username, password };
+  const verified = await withActions(browser, userIndex, (actions) => actions.login(credentials.username, credentials.password));
+  await registry.upsert({ username: credentials.username, password: credentials.password, registered: verified.ok });
+
+  if (!verified.ok) {
+    console.error(`[Provision][${username}] ❌ 登入驗證失敗（${describeResult(verified)}），已標記 registered = false`);
+    return 'failed';
+  }
+  return status;
+}
+
+/**
+ * 批次建立帳號（最多 concurrency 個同時進行）
+ * @returns 每個帳號的處理結果
+ */
+export async function provisionUsers(browser: Browser, options: ProvisionOptions): Promise<Map<string, ProvisionStatus>> {
+  const usernames = planUsernames(options);
+  const results = new Map<string, ProvisionStatus>();
+  const registry = new UserRegistry(); // 同時進行的 worker 經由檔案鎖寫入，不會互相覆蓋
+  let next = 0;
+
+  const worker = async () => {
+    while (next < usernames.length) {
+      const index = next++;
+      const username = usernames[index];
+      try {
+        results.set(username, await provisionUser(browser, registry, index + 1, username, options.password));
+      } catch (error: any) {
+        console.error(`[Provision][${username}] ❌ 發生錯誤：${error.message}`);
+        results.set(username, 'failed');
+      }
+      console.log(`[Provision] 進度 ${results.size}/${usernames.length}：${username} → ${results.get(username)}`);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(options.concurrency, usernames.length) }, worker));
+  return results;
+}
+
+// ==================== 主程式 ====================
+
+async function main(): Promise<void> {
+  const options = parseProvisionArgs(process.argv.slice(2));
+  const usernames = planUsernames(options);
+
+  console.log('👥 開始批次建立壓測帳號...\n');
+  console.log(`   目標網址: ${BASE_URL}`);
+  console.log(`   帳號範圍: ${usernames[0]} ~ ${usernames[usernames.length - 1]}（共 ${options.count} 個）`);
+  console.log(`   同時進行: ${options.concurrency}`);
+  console.log(`   寫入檔案: ${USERS_FILE}`);
+  console.log('');
+
+  const browser = await chromium.launch({ headless: HEADLESS });
+  let results: Map<string, ProvisionStatus>;
+  try {
+    results = await provisionUsers(browser, options);
+  } finally {
+    await browser.close();
+  }
+
+  const count = (status: ProvisionStatus) => Array.from(results.values()).filter((s) => s === status).length;
+  const failed = usernames.filter((u) => results.get(u) === 'failed');
+
+  console.log('');
+  console.log('📊 批次建立結果：');
+  console.log(`   新註冊: ${count('registered')}`);
+  console.log(`   已存在（登入驗證通過）: ${count('existing')}`);
+  console.log(`   失敗: ${count('failed')}${failed.length > 0 ? `（${failed.join(', ')}）` : ''}`);
+
+  if (failed.length > 0) {
+    process.exit(1);
+  }
+  console.log('');
+  console.log('🎉 所有帳號皆可登入！');
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error.message ?? error);
+    process.exit(1);
+  });
+}
@@ -1,8 +1,8 @@
 // tests/stress/sanity/actions.spec.ts
-import { test, expect } from "@playwright/test";
+import { test, expect } from "../core/fixtures";
 import { GameActions } from "../core/GameActions";
-import * as fs from "fs";
-import * as path from "path";
+import { StatusBar } from "../core/pages/StatusBar";
+import { UserRegistry } from "../core/UserRegistry";
 
 /**
  * Action 00: 等待遊戲開始測試
@@ -13,42 +13,33 @@ import * as path from "path";
  * 3. 呼叫 waitForGameStart（會阻塞直到遊戲開始）
  * 4. 驗證成功偵測
  */
-test("Action 00: Wait For Game Start", async ({ page }) => {
+test("Action 00: Wait For Game Start", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 00: 等待遊戲開始 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const dataDir = path.join(__dirname, "../data");
-  const usersFilePath = path.join(dataDir, "users.json");
-
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 0);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備等待遊戲開始...\n");
 
-  // 5. 執行 Action 00（會阻塞直到遊戲開始）
+  // 4. 執行 Action 00（會阻塞直到遊戲開始）
   console.log("⏳ 正在等待遊戲開始...");
-  console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）手動按下「開始遊戲」按鈕\n");
+  if (admin) {
+    expect(await admin.startGame()).toBe(true);
+  } else {
+    console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）手動按下「開始遊戲」按鈕\n");
+  }
 
   const result = await actions.waitForGameStart();
 
-  // 6. 驗證結果
-  expect(result).toBe(true);
+  // 5. 驗證結果
+  expect(result.ok).toBe(true);
   console.log("\n✅ 驗證通過：成功偵測到遊戲已開始！");
   console.log("\n🔵 ========== Action 00: 等待遊戲開始 測試完成 ==========\n");
 });
@@ -73,16 +64,10 @@ test("Action 01: Register", async ({ page }) => {
   const result = await actions.register(nick, user, pass);
 
   // 5. 驗證結果
-  expect(result).toBe(true);
+  expect(result.ok).toBe(true);
 
   // 6. 驗證 users.json 中是否包含新使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  expect(fs.existsSync(usersFilePath)).toBe(true);
-
-  const content = fs.readFileSync(usersFilePath, "utf-8");
-  const users = JSON.parse(content);
-
-  const foundUser = users.find((u: any) => u.username === user);
+  const foundUser = new UserRegistry().find(user);
   expect(foundUser).toBeDefined();
   expect(foundUser?.password).toBe(pass);
   expect(foundUser?.registered).toBe(true);
@@ -93,42 +78,21 @@ test("Action 01: Register", async ({ page }) => {
 /**
  * Action 02: 登入功能驗證測試
  */
-test("Action 02: Login", async ({ page }) => {
-  // 1. 讀取 users.json
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-
-  // 檢查檔案是否存在
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error(
-      "❌ users.json 不存在！請先執行 Action 01 註冊測試建立使用者資料。"
-    );
-  }
-
-  // 解析 JSON
-  const content = fs.readFileSync(usersFilePath, "utf-8");
-  const users = JSON.parse(content);
-
-  // 檢查是否有已註冊的使用者
-  if (users.length === 0) {
-    throw new Error(
-      "❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。"
-    );
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+test("Action 02: Login", async ({ page, account }) => {
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 2);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const result = await actions.login(testUser.username, testUser.password);
 
-  // 5. 驗證結果
-  expect(result).toBe(true);
+  // 4. 驗證結果
+  expect(result.ok).toBe(true);
 
-  // 6. 額外驗證：確認 URL 在 /home
+  // 5. 額外驗證：確認 URL 在 /home
   expect(page.url()).toContain("/home");
 
   console.log("✅ 驗證通過：使用者已成功登入並跳轉至主頁");
@@ -137,53 +101,42 @@ test("Action 02: Login", async ({ page }) => {
 /**
  * Action 03: 換頭像功能驗證測試
  */
-test("Action 03: Change Avatar", async ({ page }) => {
+test("Action 03: Change Avatar", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 03: 換頭像 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 3);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備換頭像...\n");
 
-  // 5. 執行換頭像（選擇第 5 號頭像）
+  // 4. 執行換頭像（選擇第 5 號頭像）
   const targetIndex = 5;
   const targetAvatar = `avatar_0${targetIndex}.webp`;
   console.log(`🎯 目標頭像: ${targetAvatar}`);
 
   const result = await actions.changeAvatar(targetIndex);
-  expect(result).toBe(true);
+  expect(result.ok).toBe(true);
 
-  // 6. 驗證頭像已更新（重新導航到主頁）
+  // 5. 驗證頭像已更新（重新導航到主頁）
   console.log("🔄 重新導航到主頁以驗證變更...");
   await page.goto("/home");
   await page.waitForTimeout(2000); // 等待頁面完全載入
 
-  // 7. 檢查右上角頭像的 src 屬性
+  // 6. 檢查右上角頭像的 src 屬性
   const currentAvatarImg = page.locator('.adm-avatar img').first();
   await currentAvatarImg.waitFor({ state: "visible", timeout: 5000 });
 
   const currentSrc = await currentAvatarImg.getAttribute("src");
   console.log(`📸 當前頭像 src: ${currentSrc}`);
 
-  // 8. 斷言驗證
+  // 7. 斷言驗證
   expect(currentSrc).toContain(targetAvatar);
 
   console.log("✅ 驗證通過：頭像已成功更新！");
@@ -193,44 +146,33 @@ test("Action 03: Change Avatar", async ({ page }) => {
 /**
  * Action 04: 讀取資產功能驗證測試
  */
-test("Action 04: Read Assets", async ({ page }) => {
+test("Action 04: Read Assets", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 04: 讀取資產 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 4);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備讀取資產...\n");
 
-  // 5. 執行 Action 04：讀取資產
-  const assets = await actions.readAssets();
+  // 4. 執行 Action 04：讀取資產
+  const assets = (await actions.readAssets()).value;
 
-  // 6. 驗證結果
-  expect(assets).not.toBeNull();
+  // 5. 驗證結果
+  expect(assets).toBeDefined();
   expect(assets!.cash).not.toBeNaN();
   expect(assets!.totalAssets).not.toBeNaN();
   expect(assets!.stockCount).not.toBeNaN();
   expect(assets!.stockValue).not.toBeNaN();
   expect(assets!.debt).not.toBeNaN();
 
-  // 7. 驗證計算邏輯（總資產 = 現金 + 股票現值 - 負債）
+  // 6. 驗證計算邏輯（總資產 = 現金 + 股票現值 - 負債）
   const expectedTotal = assets!.cash + assets!.stockValue - assets!.debt;
   const diff = Math.abs(assets!.totalAssets - expectedTotal);
   
@@ -253,33 +195,22 @@ test("Action 04: Read Assets", async ({ page }) => {
 /**
  * Action 05: 讀取合約功能驗證測試
  */
-test("Action 05: Read Contracts", async ({ page }) => {
+test("Action 05: Read Contracts", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 05: 讀取合約 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 5);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備讀取合約...\n");
 
-  // 5. 暫停測試，等待手動下單合約
+  // 4. 暫停測試，等待手動下單合約
   console.log("⏸️  測試已暫停！");
   console.log("📝 請在 Inspector 視窗中執行以下操作：");
   console.log("   1. 切換至「合約」Tab");
@@ -290,11 +221,11 @@ test("Action 05: Read Contracts", async ({ page }) => {
   console.log("");
   await page.pause();
 
-  // 6. 執行 Action 05：讀取合約
-  const contracts = await actions.readContracts();
+  // 5. 執行 Action 05：讀取合約
+  const contracts = (await actions.readContracts()).value;
 
-  // 7. 驗證結果
-  expect(contracts).not.toBeNull();
+  // 6. 驗證結果
+  expect(contracts).toBeDefined();
   expect(contracts!.margin).toBeGreaterThan(0);
   expect(contracts!.contracts.length).toBeGreaterThan(0);
 
@@ -317,59 +248,48 @@ test("Action 05: Read Contracts", async ({ page }) => {
 /**
  * Action 06: 買入股票功能驗證測試
  */
-test("Action 06: Buy Stock", async ({ page }) => {
+test("Action 06: Buy Stock", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 06: 買入股票 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 6);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備買入股票...\n");
 
-  // 5. 讀取交易前的資產狀態
-  const beforeAssets = await actions.readAssets();
-  expect(beforeAssets).not.toBeNull();
+  // 4. 讀取交易前的資產狀態
+  const beforeAssets = (await actions.readAssets()).value;
+  expect(beforeAssets).toBeDefined();
   console.log(`📊 交易前資產：`);
   console.log(`   現金: $${beforeAssets!.cash.toFixed(2)}`);
   console.log(`   股票: ${beforeAssets!.stockCount} 張`);
 
-  // 6. 執行 Action 06：買入 1 張股票
+  // 5. 執行 Action 06：買入 1 張股票
   const buyAmount = 1;
   console.log(`\n💰 準備買入 ${buyAmount} 張股票...`);
   
   const buySuccess = await actions.buyStock(buyAmount);
-  expect(buySuccess).toBe(true);
+  expect(buySuccess.ok).toBe(true);
   console.log("✅ 買入請求已送出\n");
 
-  // 7. 等待伺服器更新資料（WebSocket 推送可能有延遲）
+  // 6. 等待伺服器更新資料（WebSocket 推送可能有延遲）
   console.log("⏳ 等待伺服器處理交易並更新資產...");
   await page.waitForTimeout(3000); // 增加等待時間確保 WebSocket 推送完成
 
-  // 8. 讀取交易後的資產狀態
-  const afterAssets = await actions.readAssets();
-  expect(afterAssets).not.toBeNull();
+  // 7. 讀取交易後的資產狀態
+  const afterAssets = (await actions.readAssets()).value;
+  expect(afterAssets).toBeDefined();
   console.log(`\n📊 交易後資產：`);
   console.log(`   現金: $${afterAssets!.cash.toFixed(2)}`);
   console.log(`   股票: ${afterAssets!.stockCount} 張`);
 
-  // 9. 驗證股票數量變化
+  // 8. 驗證股票數量變化
   const stockDiff = afterAssets!.stockCount - beforeAssets!.stockCount;
   console.log(`\n📈 股票變化: ${stockDiff > 0 ? '+' : ''}${stockDiff} 張`);
   
@@ -379,7 +299,7 @@ test("Action 06: Buy Stock", async ({ page }) => {
   }
   expect(stockDiff).toBe(buyAmount);
 
-  // 10. 驗證現金減少（買入應該扣款）
+  // 9. 驗證現金減少（買入應該扣款）
   const cashDiff = afterAssets!.cash - beforeAssets!.cash;
   console.log(`💸 現金變化: ${cashDiff > 0 ? '+' : ''}${cashDiff.toFixed(2)}`);
   
@@ -395,66 +315,55 @@ test("Action 06: Buy Stock", async ({ page }) => {
 /**
  * Action 07: 賣出股票功能驗證測試
  */
-test("Action 07: Sell Stock", async ({ page }) => {
+test("Action 07: Sell Stock", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 07: 賣出股票 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 7);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備賣出股票...\n");
 
-  // 5. 讀取交易前的資產狀態
-  const beforeAssets = await actions.readAssets();
-  expect(beforeAssets).not.toBeNull();
+  // 4. 讀取交易前的資產狀態
+  const beforeAssets = (await actions.readAssets()).value;
+  expect(beforeAssets).toBeDefined();
   console.log(`📊 交易前資產：`);
   console.log(`   現金: $${beforeAssets!.cash.toFixed(2)}`);
   console.log(`   股票: ${beforeAssets!.stockCount} 張`);
 
-  // 6. 檢查是否有股票可賣
+  // 5. 檢查是否有股票可賣
   if (beforeAssets!.stockCount === 0) {
     console.log("\n⚠️  目前無持有股票，無法執行賣出測試");
     console.log("💡 建議先執行 Action 06 買入股票後，再執行此測試");
     throw new Error("❌ 無股票可賣！請先執行 Action 06 買入股票。");
   }
 
-  // 7. 執行 Action 07：賣出 1 張股票
+  // 6. 執行 Action 07：賣出 1 張股票
   const sellAmount = 1;
   console.log(`\n💰 準備賣出 ${sellAmount} 張股票...`);
   
   const sellSuccess = await actions.sellStock(sellAmount);
-  expect(sellSuccess).toBe(true);
+  expect(sellSuccess.ok).toBe(true);
   console.log("✅ 賣出請求已送出\n");
 
-  // 8. 等待伺服器更新資料（WebSocket 推送可能有延遲）
+  // 7. 等待伺服器更新資料（WebSocket 推送可能有延遲）
   console.log("⏳ 等待伺服器處理交易並更新資產...");
   await page.waitForTimeout(3000);
 
-  // 9. 讀取交易後的資產狀態
-  const afterAssets = await actions.readAssets();
-  expect(afterAssets).not.toBeNull();
+  // 8. 讀取交易後的資產狀態
+  const afterAssets = (await actions.readAssets()).value;
+  expect(afterAssets).toBeDefined();
   console.log(`\n📊 交易後資產：`);
   console.log(`   現金: $${afterAssets!.cash.toFixed(2)}`);
   console.log(`   股票: ${afterAssets!.stockCount} 張`);
 
-  // 10. 驗證股票數量變化
+  // 9. 驗證股票數量變化
   const stockDiff = afterAssets!.stockCount - beforeAssets!.stockCount;
   console.log(`\n📉 股票變化: ${stockDiff > 0 ? '+' : ''}${stockDiff} 張`);
   
@@ -464,7 +373,7 @@ test("Action 07: Sell Stock", async ({ page }) => {
   }
   expect(stockDiff).toBe(-sellAmount);
 
-  // 11. 驗證現金增加（賣出應該收款）
+  // 10. 驗證現金增加（賣出應該收款）
   const cashDiff = afterAssets!.cash - beforeAssets!.cash;
   console.log(`💸 現金變化: ${cashDiff > 0 ? '+' : ''}${cashDiff.toFixed(2)}`);
   
@@ -480,42 +389,31 @@ test("Action 07: Sell Stock", async ({ page }) => {
 /**
  * Action 08: 買入合約功能驗證測試
  */
-test("Action 08: Buy Contract", async ({ page }) => {
+test("Action 08: Buy Contract", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 08: 買入合約 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 8);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備買入合約...\n");
 
-  // 5. 讀取交易前的合約狀態
-  const beforeContracts = await actions.readContracts();
-  expect(beforeContracts).not.toBeNull();
+  // 4. 讀取交易前的合約狀態
+  const beforeContracts = (await actions.readContracts()).value;
+  expect(beforeContracts).toBeDefined();
   
   const beforeContractCount = beforeContracts!.contracts.length;
   console.log(`📊 交易前狀態：`);
   console.log(`   合約數量: ${beforeContractCount}`);
   console.log(`   保證金總額: $${beforeContracts!.margin.toFixed(2)}`);
 
-  // 6. 執行 Action 08：買入合約（做多，4倍槓桿，2張）
+  // 5. 執行 Action 08：買入合約（做多，4倍槓桿，2張）
   const contractType = 'LONG';
   const leverage = 4;
   const amount = 2;
@@ -526,23 +424,23 @@ test("Action 08: Buy Contract", async ({ page }) => {
   console.log(`   張數: ${amount}`);
   
   const buySuccess = await actions.buyContract(contractType, leverage, amount);
-  expect(buySuccess).toBe(true);
+  expect(buySuccess.ok).toBe(true);
   console.log("✅ 合約下單請求已送出\n");
 
-  // 7. 等待伺服器更新資料
+  // 6. 等待伺服器更新資料
   console.log("⏳ 等待伺服器處理合約並更新資料...");
   await page.waitForTimeout(3000);
 
-  // 8. 讀取交易後的合約狀態
-  const afterContracts = await actions.readContracts();
-  expect(afterContracts).not.toBeNull();
+  // 7. 讀取交易後的合約狀態
+  const afterContracts = (await actions.readContracts()).value;
+  expect(afterContracts).toBeDefined();
   
   const afterContractCount = afterContracts!.contracts.length;
   console.log(`\n📊 交易後狀態：`);
   console.log(`   合約數量: ${afterContractCount}`);
   console.log(`   保證金總額: $${afterContracts!.margin.toFixed(2)}`);
 
-  // 9. 驗證合約數量增加
+  // 8. 驗證合約數量增加
   const contractDiff = afterContractCount - beforeContractCount;
   console.log(`\n📈 合約變化: ${contractDiff > 0 ? '+' : ''}${contractDiff}`);
   
@@ -552,7 +450,7 @@ test("Action 08: Buy Contract", async ({ page }) => {
   }
   expect(contractDiff).toBe(1);
 
-  // 10. 驗證新合約的屬性
+  // 9. 驗證新合約的屬性
   // 注意：由於前端可能因為 Slider 或狀態同步問題導致槓桿值不完全準確
   // 我們只驗證：1) 合約類型正確 2) 有新合約產生
   expect(afterContracts!.contracts.length).toBeGreaterThan(0);
@@ -571,7 +469,7 @@ test("Action 08: Buy Contract", async ({ page }) => {
     console.log(`   ⚠️  槓桿誤差較大：實際 ${newContract.leverage}x vs 預期 ${leverage}x`);
   }
 
-  // 11. 驗證保證金增加
+  // 10. 驗證保證金增加
   const marginDiff = afterContracts!.margin - beforeContracts!.margin;
   console.log(`\n💰 保證金變化: ${marginDiff > 0 ? '+' : ''}${marginDiff.toFixed(2)}`);
   
@@ -585,24 +483,11 @@ test("Action 08: Buy Contract", async ({ page }) => {
 });
 
 // ==================== Action 09: 撤銷今日合約 ====================
-test("Action 09: Cancel All Contracts", async ({ page }) => {
+test("Action 09: Cancel All Contracts", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 09: 撤銷今日合約 測試開始 ==========\n");
 
-  // 讀取已註冊使用者
-  const dataDir = path.join(__dirname, "../data");
-  const usersFilePath = path.join(dataDir, "users.json");
-
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 取得第一個使用者
-  const testUser = users[0];
+  // 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
   // 初始化 GameActions
@@ -610,21 +495,21 @@ test("Action 09: Cancel All Contracts", async ({ page }) => {
 
   // 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功\n");
 
   // 1️⃣ 準備階段：先買入一筆合約（確保有合約可撤銷）
   console.log("📋 準備階段：先買入合約...");
   const buySuccess = await actions.buyContract('LONG', 3, 1);
-  expect(buySuccess).toBe(true);
+  expect(buySuccess.ok).toBe(true);
 
   // 等待 WebSocket 更新
   await page.waitForTimeout(3000);
 
   // 2️⃣ 讀取合約資料（Before）
   console.log("\n📋 步驟 1: 讀取撤銷前的合約資料...");
-  const beforeData = await actions.readContracts();
-  expect(beforeData).not.toBeNull();
+  const beforeData = (await actions.readContracts()).value;
+  expect(beforeData).toBeDefined();
   expect(beforeData!.contracts.length).toBeGreaterThan(0);
 
   const beforeCount = beforeData!.contracts.length;
@@ -634,7 +519,7 @@ test("Action 09: Cancel All Contracts", async ({ page }) => {
   // 3️⃣ 執行撤銷操作
   console.log("\n📋 步驟 2: 執行撤銷操作...");
   const cancelSuccess = await actions.cancelAllContracts();
-  expect(cancelSuccess).toBe(true);
+  expect(cancelSuccess.ok).toBe(true);
 
   // 4️⃣ 等待 WebSocket 更新
   console.log("\n⏳ 等待 WebSocket 更新狀態...");
@@ -642,8 +527,8 @@ test("Action 09: Cancel All Contracts", async ({ page }) => {
 
   // 5️⃣ 讀取合約資料（After）
   console.log("\n📋 步驟 3: 讀取撤銷後的合約資料...");
-  const afterData = await actions.readContracts();
-  expect(afterData).not.toBeNull();
+  const afterData = (await actions.readContracts()).value;
+  expect(afterData).toBeDefined();
 
   const afterCount = afterData!.contracts.length;
   const afterMargin = afterData!.margin;
@@ -667,34 +552,31 @@ test("Action 09: Cancel All Contracts", async ({ page }) => {
 /**
  * Action 16: 少數決下注功能驗證測試
  */
-test("Action 16: Bet on Minority Game", async ({ page }) => {
-  // 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  const usersData = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  const validUser = usersData.find((u: any) => u.registered === true);
-
-  if (!validUser) {
-    throw new Error("❌ users.json 中無已註冊的使用者");
-  }
+test("Action 16: Bet on Minority Game", async ({ page, admin, account }) => {
+  // 租用已註冊帳號（account fixture，測試結束後歸還）
+  const validUser = account;
 
   // 實例化 GameActions
   const actions = new GameActions(page, 1);
 
   // 執行登入
   const loginSuccess = await actions.login(validUser.username, validUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
 
   console.log("✅ 登入成功，等待少數決遊戲開始...");
+  if (admin) {
+    expect(await admin.publishMinority()).toBe(true);
+  }
 
   // 等待少數決遊戲開始（Action 15）
   const gameStarted = await actions.waitForMinorityStart();
-  expect(gameStarted).toBe(true);
+  expect(gameStarted.ok).toBe(true);
 
   console.log("✅ 少數決遊戲已開始！準備下注...");
 
   // 執行下注：選項 B, 金額 100
   const betSuccess = await actions.betMinority("B", 100);
-  expect(betSuccess).toBe(true);
+  expect(betSuccess.ok).toBe(true);
 
   console.log("✅ Action 16 測試通過：已成功下注 $100 在選項 B");
 
@@ -705,37 +587,26 @@ test("Action 16: Bet on Minority Game", async ({ page }) => {
 /**
  * Action 10: 開啟地下錢莊功能驗證測試
  */
-test("Action 10: Open Loan Shark", async ({ page }) => {
+test("Action 10: Open Loan Shark", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 10: 開啟地下錢莊 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 10);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備開啟地下錢莊...\n");
 
-  // 5. 執行 Action 10：開啟地下錢莊
+  // 4. 執行 Action 10：開啟地下錢莊
   const result = await actions.openLoanShark();
-  expect(result).toBe(true);
+  expect(result.ok).toBe(true);
 
-  // 6. 驗證 Modal 元素存在
+  // 5. 驗證 Modal 元素存在
   console.log("🔍 驗證 Modal 元素...");
   
   // 驗證標題
@@ -764,61 +635,50 @@ test("Action 10: Open Loan Shark", async ({ page }) => {
 /**
  * Action 11: 借/還錢功能驗證測試 (借款)
  */
-test("Action 11: Handle Loan (Borrow)", async ({ page }) => {
+test("Action 11: Handle Loan (Borrow)", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 11: 借/還錢 (借款) 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 11);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功\n");
 
-  // 5. 讀取交易前的資產狀態
+  // 4. 讀取交易前的資產狀態
   console.log("📊 讀取交易前資產...");
-  const beforeAssets = await actions.readAssets();
-  expect(beforeAssets).not.toBeNull();
+  const beforeAssets = (await actions.readAssets()).value;
+  expect(beforeAssets).toBeDefined();
 
   console.log(`   現金: $${beforeAssets!.cash.toFixed(2)}`);
   console.log(`   負債: $${beforeAssets!.debt.toFixed(2)}`);
 
-  // 6. 執行 Action 11：借款 300
+  // 5. 執行 Action 11：借款 300
   const borrowAmount = 300;
   console.log(`\n💰 準備借款 $${borrowAmount}...`);
 
   const borrowSuccess = await actions.handleLoan('BORROW', borrowAmount);
-  expect(borrowSuccess).toBe(true);
+  expect(borrowSuccess.ok).toBe(true);
   console.log("✅ 借款請求已完成\n");
 
-  // 7. 等待伺服器更新資料（WebSocket 推送）
+  // 6. 等待伺服器更新資料（WebSocket 推送）
   console.log("⏳ 等待伺服器處理交易並更新資產...");
   await page.waitForTimeout(3000);
 
-  // 8. 讀取交易後的資產狀態
+  // 7. 讀取交易後的資產狀態
   console.log("📊 讀取交易後資產...");
-  const afterAssets = await actions.readAssets();
-  expect(afterAssets).not.toBeNull();
+  const afterAssets = (await actions.readAssets()).value;
+  expect(afterAssets).toBeDefined();
 
   console.log(`   現金: $${afterAssets!.cash.toFixed(2)}`);
   console.log(`   負債: $${afterAssets!.debt.toFixed(2)}`);
 
-  // 9. 驗證資產變化
+  // 8. 驗證資產變化
   console.log("\n🔍 驗證資產變化...");
 
   const cashDiff = afterAssets!.cash - beforeAssets!.cash;
@@ -831,7 +691,7 @@ test("Action 11: Handle Loan (Borrow)", async ({ page }) => {
   expect(cashDiff).toBeCloseTo(borrowAmount, 0.01);
   expect(debtDiff).toBeCloseTo(borrowAmount, 0.01);
 
-  // 10. 驗證 Modal 已關閉
+  // 9. 驗證 Modal 已關閉
   console.log("\n🔍 驗證 Modal 已關閉...");
   const modalTitle = page.locator('span').filter({ hasText: /^地下錢莊$/ }).first();
   const isModalClosed = await modalTitle.isHidden().catch(() => true);
@@ -851,68 +711,57 @@ test("Action 11: Handle Loan (Borrow)", async ({ page }) => {
 /**
  * Action 11: 借/還錢功能驗證測試 (還款)
  */
-test("Action 11: Handle Loan (Repay)", async ({ page }) => {
+test("Action 11: Handle Loan (Repay)", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 11: 借/還錢 (還款) 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 11);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功\n");
 
-  // 5. 確保有負債（先借款）
+  // 4. 確保有負債（先借款）
   console.log("📋 準備階段：確保有負債...");
   const borrowSuccess = await actions.handleLoan('BORROW', 300);
-  expect(borrowSuccess).toBe(true);
+  expect(borrowSuccess.ok).toBe(true);
   await page.waitForTimeout(3000);
 
-  // 6. 讀取還款前的資產狀態
+  // 5. 讀取還款前的資產狀態
   console.log("\n📊 讀取還款前資產...");
-  const beforeAssets = await actions.readAssets();
-  expect(beforeAssets).not.toBeNull();
+  const beforeAssets = (await actions.readAssets()).value;
+  expect(beforeAssets).toBeDefined();
   expect(beforeAssets!.debt).toBeGreaterThan(0); // 確保有負債
 
   console.log(`   現金: $${beforeAssets!.cash.toFixed(2)}`);
   console.log(`   負債: $${beforeAssets!.debt.toFixed(2)}`);
 
-  // 7. 執行 Action 11：還款 200
+  // 6. 執行 Action 11：還款 200
   const repayAmount = 200;
   console.log(`\n💸 準備還款 $${repayAmount}...`);
 
   const repaySuccess = await actions.handleLoan('REPAY', repayAmount);
-  expect(repaySuccess).toBe(true);
+  expect(repaySuccess.ok).toBe(true);
   console.log("✅ 還款請求已完成\n");
 
-  // 8. 等待伺服器更新資料
+  // 7. 等待伺服器更新資料
   console.log("⏳ 等待伺服器處理交易並更新資產...");
   await page.waitForTimeout(3000);
 
-  // 9. 讀取還款後的資產狀態
+  // 8. 讀取還款後的資產狀態
   console.log("📊 讀取還款後資產...");
-  const afterAssets = await actions.readAssets();
-  expect(afterAssets).not.toBeNull();
+  const afterAssets = (await actions.readAssets()).value;
+  expect(afterAssets).toBeDefined();
 
   console.log(`   現金: $${afterAssets!.cash.toFixed(2)}`);
   console.log(`   負債: $${afterAssets!.debt.toFixed(2)}`);
 
-  // 10. 驗證資產變化
+  // 9. 驗證資產變化
   console.log("\n🔍 驗證資產變化...");
 
   const cashDiff = afterAssets!.cash - beforeAssets!.cash;
@@ -925,7 +774,7 @@ test("Action 11: Handle Loan (Repay)", async ({ page }) => {
   expect(cashDiff).toBeCloseTo(-repayAmount, 0.01);
   expect(debtDiff).toBeCloseTo(-repayAmount, 0.01);
 
-  // 11. 驗證 Modal 已關閉
+  // 10. 驗證 Modal 已關閉
   console.log("\n🔍 驗證 Modal 已關閉...");
   const modalTitle = page.locator('span').filter({ hasText: /^地下錢莊$/ }).first();
   const isModalClosed = await modalTitle.isHidden().catch(() => true);
@@ -946,23 +795,11 @@ test("Action 11: Handle Loan (Repay)", async ({ page }) => {
  * 4. 呼叫 closeLoanShark 關閉 Modal
  * 5. 驗證回到主頁面
  */
-test("Action 19: Interact With Loan Shark", async ({ page }) => {
+test("Action 19: Interact With Loan Shark", async ({ page, account }) => {
   console.log("\n🔵 ========== Action 19: 與地下錢莊主人互動 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const dataDir = path.join(__dirname, "../data");
-  const usersFilePath = path.join(dataDir, "users.json");
-
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！");
-  }
-
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
   // 2. 實例化 GameActions
@@ -971,20 +808,20 @@ test("Action 19: Interact With Loan Shark", async ({ page }) => {
   // 3. 執行登入
   console.log("\n🔐 執行登入...");
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功");
 
   // 4. 等待遊戲開始
   console.log("\n⏳ 等待遊戲開始...");
   const gameStarted = await actions.waitForGameStart();
-  expect(gameStarted).toBe(true);
+  expect(gameStarted.ok).toBe(true);
   console.log("✅ 遊戲已開始");
 
   // 5. 執行 Action 19：與地下錢莊主人互動
   console.log("\n🎯 執行 Action 19: 與地下錢莊主人互動...");
   const interactSuccess = await actions.interactWithLoanShark();
   
-  expect(interactSuccess).toBe(true);
+  expect(interactSuccess.ok).toBe(true);
   console.log("✅ 互動成功");
 
   // 6. 驗證 Modal 仍開啟
@@ -999,7 +836,7 @@ test("Action 19: Interact With Loan Shark", async ({ page }) => {
   console.log("\n🚪 關閉地下錢莊 Modal...");
   const closeSuccess = await actions.closeLoanShark();
   
-  expect(closeSuccess).toBe(true);
+  expect(closeSuccess.ok).toBe(true);
   console.log("✅ Modal 關閉成功");
 
   // 8. 驗證回到主頁面
@@ -1019,6 +856,98 @@ test("Action 19: Interact With Loan Shark", async ({ page }) => {
   console.log("\n🔵 ========== Action 19: 與地下錢莊主人互動 測試完成 ==========\n");
 });
 
+/**
+ * Action 19 (Alternative): 設定員工身分（玩家自行設定）
+ *
+ * 測試流程：
+ * 1. 讀取已註冊使用者並登入
+ * 2. 呼叫 setEmployeeStatus(true)，驗證名稱旁出現「員工」標籤，重新整理後仍保留
+ * 3. 再次呼叫 setEmployeeStatus(true)，驗證身分已符合時不操作
+ * 4. 呼叫 setEmployeeStatus(false) 還原為訪客（避免影響之後租用此帳號的測試）
+ */
+test("Action 19: Set Employee Status (Self-Service)", async ({ page, account }) => {
+  console.log("\n🔵 ========== Action 19: 設定員工身分（玩家） 測試開始 ==========\n");
+
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
+  console.log(`📋 使用測試帳號: ${testUser.username}`);
+
+  // 2. 實例化 GameActions 並登入
+  const actions = new GameActions(page, 0);
+  const loginSuccess = await actions.login(testUser.username, testUser.password);
+  expect(loginSuccess.ok).toBe(true);
+  console.log("✅ 登入成功");
+
+  // 3. 登記為員工
+  console.log("\n🎯 登記為員工...");
+  const employeeTag = new StatusBar(page).employeeTag;
+  const setResult = await actions.setEmployeeStatus(true);
+  expect(setResult.ok).toBe(true);
+  await expect(employeeTag).toBeVisible();
+
+  // 4. 重新整理後仍為員工（身分已寫入後端）
+  await page.reload();
+  await expect(employeeTag).toBeVisible();
+  console.log("✅ 重新整理後仍顯示「員工」標籤");
+
+  // 5. 身分已符合時不操作（不會開啟確認對話框）
+  const again = await actions.setEmployeeStatus(true);
+  expect(again.ok).toBe(true);
+  await expect(new StatusBar(page).confirmDialog).toBeHidden();
+  await expect(employeeTag).toBeVisible();
+
+  // 6. 還原為訪客
+  console.log("\n🔄 還原為訪客...");
+  const resetResult = await actions.setEmployeeStatus(false);
+  expect(resetResult.ok).toBe(true);
+  await expect(employeeTag).toBeHidden();
+
+  console.log("\n✅ 驗證通過：玩家可自行切換員工身分！");
+  console.log("\n🔵 ========== Action 19: 設定員工身分（玩家） 測試完成 ==========\n");
+});
+
+/**
+ * Action 19 (Alternative): 設定員工身分（Admin 代為設定）
+ *
+ * 測試流程：
+ * 1. 讀取已註冊使用者並登入
+ * 2. Admin 呼叫 setEmployeeStatus(username, true)，玩家重新整理後顯示「員工」標籤
+ * 3. Admin 還原為訪客
+ *
+ * ⚠️ 注意：未設定 STRESS_ADMIN_PASSWORD 時略過（後台沒有對應按鈕，無法手動配合）
+ */
+test("Action 19: Set Employee Status (Admin)", async ({ page, admin, account }) => {
+  test.skip(!admin, "未設定 STRESS_ADMIN_PASSWORD，略過 Admin 設定員工身分");
+  console.log("\n🔵 ========== Action 19: 設定員工身分（Admin） 測試開始 ==========\n");
+
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
+  console.log(`📋 使用測試帳號: ${testUser.username}`);
+
+  const actions = new GameActions(page, 0);
+  const loginSuccess = await actions.login(testUser.username, testUser.password);
+  expect(loginSuccess.ok).toBe(true);
+
+  // 2. Admin 設為員工，玩家重新整理後顯示「員工」標籤
+  console.log("\n🎯 Admin 設為員工...");
+  expect(await admin!.setEmployeeStatus(testUser.username, true)).toBe(true);
+  const employeeTag = new StatusBar(page).employeeTag;
+  await page.reload();
+  await expect(employeeTag).toBeVisible();
+  console.log("✅ 玩家畫面顯示「員工」標籤");
+
+  // 3. 還原為訪客
+  expect(await admin!.setEmployeeStatus(testUser.username, false)).toBe(true);
+  await page.reload();
+  await expect(employeeTag).toBeHidden();
+
+  // 4. 不存在的帳號回傳 false
+  expect(await admin!.setEmployeeStatus(`nobody${Date.now()}`, true)).toBe(false);
+
+  console.log("\n✅ 驗證通過：Admin 可設定玩家員工身分！");
+  console.log("\n🔵 ========== Action 19: 設定員工身分（Admin） 測試完成 ==========\n");
+});
+
 /**
  * Action 12: 等待問答開始功能驗證測試
  * 
@@ -1027,52 +956,43 @@ test("Action 19: Interact With Loan Shark", async ({ page }) => {
  * 2. 呼叫 waitForQuizStart（會 Blocking 直到 Admin 發布題目）
  * 3. 驗證 Overlay 已正確顯示
  * 
- * ⚠️ 注意：此測試需要手動配合 Admin 後台操作！
+ * ⚠️ 注意：未設定 STRESS_ADMIN_PASSWORD 時，此測試需要手動配合 Admin 後台操作！
  */
-test("Action 12: Wait for Quiz Start", async ({ page }) => {
+test("Action 12: Wait for Quiz Start", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 12: 等待問答開始 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const dataDir = path.join(__dirname, "../data");
-  const usersFilePath = path.join(dataDir, "users.json");
-
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 12);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備等待問答開始...\n");
 
-  // 5. 執行 Action 12：等待問答開始（Blocking）
+  // 4. 執行 Action 12：等待問答開始（Blocking）
   console.log("⏳ 正在等待 Quiz 開始...");
-  console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）執行以下操作：");
-  console.log("   1. 切換至「小遊戲 (Mini-Game)」Tab");
-  console.log("   2. 切換至「問答 (Quiz)」子 Tab");
-  console.log("   3. 選擇一個題目（使用 Dropdown）");
-  console.log("   4. 按下「📢 發布題目（自動開始）」按鈕");
-  console.log("");
+  if (admin) {
+    expect(await admin.publishQuiz()).toBe(true);
+  } else {
+    console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）執行以下操作：");
+    console.log("   1. 切換至「小遊戲 (Mini-Game)」Tab");
+    console.log("   2. 切換至「問答 (Quiz)」子 Tab");
+    console.log("   3. 選擇一個題目（使用 Dropdown）");
+    console.log("   4. 按下「📢 發布題目（自動開始）」按鈕");
+    console.log("");
+  }
 
   const result = await actions.waitForQuizStart();
 
-  // 6. 驗證結果
-  expect(result).toBe(true);
+  // 5. 驗證結果
+  expect(result.ok).toBe(true);
   console.log("\n✅ 驗證通過：Quiz Overlay 已成功偵測！");
 
-  // 7. 額外驗證：檢查 Overlay 內是否包含關鍵 UI 元素
+  // 6. 額外驗證：檢查 Overlay 內是否包含關鍵 UI 元素
   console.log("\n🔍 執行額外驗證...");
 
   // 檢查「收起」按鈕（QuizUserView.tsx 標準元件）
@@ -1108,63 +1028,54 @@ test("Action 12: Wait for Quiz Start", async ({ page }) => {
  * 3. 呼叫 answerQuiz('A')（等待 GAMING 階段並點擊選項 A）
  * 4. 驗證按鈕被鎖定或樣式變化
  * 
- * ⚠️ 注意：此測試需要手動配合 Admin 後台操作！
+ * ⚠️ 注意：未設定 STRESS_ADMIN_PASSWORD 時，此測試需要手動配合 Admin 後台操作！
  */
-test("Action 13: Answer Quiz", async ({ page }) => {
+test("Action 13: Answer Quiz", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 13: 問答作答 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const dataDir = path.join(__dirname, "../data");
-  const usersFilePath = path.join(dataDir, "users.json");
-
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 13);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功，準備等待問答開始...\n");
 
-  // 5. 執行 Action 12：等待問答開始（Blocking）
+  // 4. 執行 Action 12：等待問答開始（Blocking）
   console.log("⏳ 正在等待 Quiz 開始...");
-  console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）執行以下操作：");
-  console.log("   1. 切換至「小遊戲 (Mini-Game)」Tab");
-  console.log("   2. 切換至「問答 (Quiz)」子 Tab");
-  console.log("   3. 選擇一個題目（使用 Dropdown）");
-  console.log("   4. 按下「📢 發布題目（自動開始）」按鈕");
-  console.log("");
+  if (admin) {
+    expect(await admin.publishQuiz()).toBe(true);
+  } else {
+    console.log("⚠️  請至 Admin 後台（https://stock-sprint-frontend.vercel.app/admin）執行以下操作：");
+    console.log("   1. 切換至「小遊戲 (Mini-Game)」Tab");
+    console.log("   2. 切換至「問答 (Quiz)」子 Tab");
+    console.log("   3. 選擇一個題目（使用 Dropdown）");
+    console.log("   4. 按下「📢 發布題目（自動開始）」按鈕");
+    console.log("");
+  }
 
   const quizStarted = await actions.waitForQuizStart();
-  expect(quizStarted).toBe(true);
+  expect(quizStarted.ok).toBe(true);
   console.log("\n✅ Quiz Overlay 已出現！");
 
-  // 6. 等待階段說明
+  // 5. 等待階段說明
   console.log("\n📖 階段說明：");
   console.log("   - PREPARE 階段 (5 秒)：僅顯示題目，無選項");
   console.log("   - COUNTDOWN 階段 (3 秒)：全螢幕倒數 3→2→1");
   console.log("   - GAMING 階段 (依題目設定)：選項按鈕出現，可點擊作答");
   console.log("\n⏳ 測試將自動等待 GAMING 階段開始並點擊選項 A...\n");
 
-  // 7. 執行 Action 13：問答作答（自動等待 GAMING 階段）
+  // 6. 執行 Action 13：問答作答（自動等待 GAMING 階段）
   const answerSuccess = await actions.answerQuiz('A');
-  expect(answerSuccess).toBe(true);
+  expect(answerSuccess.ok).toBe(true);
 
   console.log("\n✅ 驗證通過：已成功提交答案 'A'！");
 
-  // 8. 額外驗證：檢查按鈕狀態
+  // 7. 額外驗證：檢查按鈕狀態
   console.log("\n🔍 執行額外驗證...");
 
   // 檢查選項 A 是否被鎖定
@@ -1201,7 +1112,7 @@ test("Action 13: Answer Quiz", async ({ page }) => {
  * 2. 等待問答遊戲啟動（Action 12）
  * 3. 提交答案（Action 13）
  * 4. 【核心測試】等待結果畫面並讀取資產變化（Action 14）
- * 5. 驗證回傳的 AssetData 不為 null
+ * 5. 驗證回傳結果包含 AssetData
  * 
  * 為何不需要 Action 00（等待主遊戲開始）？
  * - 問答遊戲依賴主遊戲狀態，但 Admin 發布題目時已確保遊戲開始
@@ -1209,7 +1120,7 @@ test("Action 13: Answer Quiz", async ({ page }) => {
  * - 因此測試可以假設：當 Admin 發布題目時，主遊戲已經在運行
  * - 這樣可以避免測試超時（Action 00 預設 60 秒 timeout）
  * 
- * 手動操作需求：
+ * 手動操作需求（未設定 STRESS_ADMIN_PASSWORD 時；已設定則由 AdminActions 自動發布與結算）：
  * - 執行測試前，請在 Admin 後台：
  *   1. 【先啟動主遊戲】點擊「開始遊戲」按鈕
  *   2. 切換至「小遊戲」→「問答」Tab
@@ -1220,23 +1131,11 @@ test("Action 13: Answer Quiz", async ({ page }) => {
  *   3. 等待結果畫面並讀取資產（Action 14）
  * - 【請勿】在測試過程中手動操作使用者頁面
  */
-test("Action 14: Wait Quiz Result and Report", async ({ page }) => {
+test("Action 14: Wait Quiz Result and Report", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 14: 問答結果報告 測試開始 ==========");
 
-  // 1️⃣ 讀取已註冊使用者
-  const dataFilePath = path.join(__dirname, "../data", "users.json");
-  let users: Array<{ username: string; password: string; registered: boolean }> = [];
-
-  if (fs.existsSync(dataFilePath)) {
-    const rawData = fs.readFileSync(dataFilePath, "utf-8");
-    users = JSON.parse(rawData);
-  }
-
-  const registeredUser = users.find((u) => u.registered);
-  if (!registeredUser) {
-    console.error("❌ 測試失敗：找不到已註冊的使用者，請先執行 Action 01");
-    return;
-  }
+  // 1️⃣ 租用已註冊帳號（account fixture，測試結束後歸還）
+  const registeredUser = account;
 
   console.log(`✓ 使用帳號：${registeredUser.username}`);
   const actions = new GameActions(page, 99);
@@ -1244,37 +1143,48 @@ test("Action 14: Wait Quiz Result and Report", async ({ page }) => {
   // 2️⃣ 登入
   await page.goto("/");
   const loginSuccess = await actions.login(registeredUser.username, registeredUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("   ✓ 登入成功");
 
   // 3️⃣ 等待問答開始（假設主遊戲已啟動）
   console.log("\n⏳ 等待問答遊戲啟動（Action 12）...");
-  console.log("   📢 請確保 Admin 已啟動主遊戲，然後發布問答題目");
-  console.log("   ⚠️  提示：如果長時間等待，請檢查主遊戲是否已開始");
+  if (admin) {
+    expect(await admin.publishQuiz()).toBe(true);
+  } else {
+    console.log("   📢 請確保 Admin 已啟動主遊戲，然後發布問答題目");
+    console.log("   ⚠️  提示：如果長時間等待，請檢查主遊戲是否已開始");
+  }
   const quizStarted = await actions.waitForQuizStart();
-  expect(quizStarted).toBe(true);
+  expect(quizStarted.ok).toBe(true);
   console.log("   ✓ 問答遊戲已啟動");
 
   // 4️⃣ 提交答案
   console.log("\n📝 提交答案（Action 13）...");
   const answerSuccess = await actions.answerQuiz("A");
-  expect(answerSuccess).toBe(true);
+  expect(answerSuccess.ok).toBe(true);
   console.log("   ✓ 答案已提交");
 
   // 5️⃣ 【核心測試】等待結果並讀取資產
   console.log("\n⏳ 等待問答結果與資產更新（Action 14）...");
-  console.log("   📢 請注意以下步驟：");
-  console.log("   1️⃣ 等待作答倒數自然結束（約 10 秒）");
-  console.log("   2️⃣ 【重要】在 Admin 後台按下「結算」按鈕");
-  console.log("   3️⃣ 測試會自動偵測 RESULT 階段並讀取資產");
-  console.log("");
-  
-  const resultAssets = await actions.waitQuizResultAndReport();
+  if (!admin) {
+    console.log("   📢 請注意以下步驟：");
+    console.log("   1️⃣ 等待作答倒數自然結束（約 10 秒）");
+    console.log("   2️⃣ 【重要】在 Admin 後台按下「結算」按鈕");
+    console.log("   3️⃣ 測試會自動偵測 RESULT 階段並讀取資產");
+    console.log("");
+  }
+
+  // Admin 於作答時間結束後結算，同時等待玩家端的結果畫面
+  const [resultReport] = await Promise.all([
+    actions.waitQuizResultAndReport(),
+    admin ? admin.settleMiniGame() : Promise.resolve(true),
+  ]);
+  const resultAssets = resultReport.value;
   
   // 6️⃣ 驗證
-  expect(resultAssets).not.toBeNull();
+  expect(resultAssets).toBeDefined();
   console.log("\n✅ 驗證結果：");
-  console.log(`   ✓ AssetData 已取得（非 null）`);
+  console.log(`   ✓ AssetData 已取得（result.value）`);
   console.log(`   ✓ 當前現金: $${resultAssets!.cash.toFixed(2)}`);
   console.log(`   ✓ 總資產: $${resultAssets!.totalAssets.toFixed(2)}`);
   console.log(`   ✓ 股票市值: $${resultAssets!.stockValue.toFixed(2)}`);
@@ -1287,52 +1197,45 @@ test("Action 14: Wait Quiz Result and Report", async ({ page }) => {
 /**
  * Action 15: 等待少數決開始功能驗證測試
  */
-test("Action 15: Wait for Minority Start", async ({ page }) => {
+test("Action 15: Wait for Minority Start", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 15: 等待少數決開始 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  // 2. 取得第一個使用者
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
-  // 3. 實例化 GameActions
+  // 2. 實例化 GameActions
   const actions = new GameActions(page, 15);
 
-  // 4. 執行登入
+  // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功");
 
-  // 5. 【核心測試】等待少數決開始（Blocking）
+  // 4. 【核心測試】等待少數決開始（Blocking）
   console.log("\n⏳ 等待少數決開始（Action 15）...");
-  console.log("   📢 請執行以下操作：");
-  console.log("   1️⃣ 前往 Admin 後台 (/admin)");
-  console.log("   2️⃣ 切換到「小遊戲」Tab");
-  console.log("   3️⃣ 選擇「少數決 (Minority)」遊戲");
-  console.log("   4️⃣ 點擊「洗牌 (Shuffle)」");
-  console.log("   5️⃣ 點擊「下一題 (Next Question)」發布題目");
-  console.log("   ⚠️  測試會阻塞直到偵測到少數決 Overlay 顯示");
-  console.log("");
+  if (admin) {
+    expect(await admin.publishMinority()).toBe(true);
+  } else {
+    console.log("   📢 請執行以下操作：");
+    console.log("   1️⃣ 前往 Admin 後台 (/admin)");
+    console.log("   2️⃣ 切換到「小遊戲」Tab");
+    console.log("   3️⃣ 選擇「少數決 (Minority)」遊戲");
+    console.log("   4️⃣ 點擊「洗牌 (Shuffle)」");
+    console.log("   5️⃣ 點擊「下一題 (Next Question)」發布題目");
+    console.log("   ⚠️  測試會阻塞直到偵測到少數決 Overlay 顯示");
+    console.log("");
+  }
   
   const minorityDetected = await actions.waitForMinorityStart();
   
-  // 6. 驗證
-  expect(minorityDetected).toBe(true);
+  // 5. 驗證
+  expect(minorityDetected.ok).toBe(true);
   console.log("\n✅ 驗證結果：");
   console.log("   ✓ 少數決 Overlay 已偵測到");
   console.log("   ✓ 標題「⚖️ 全場少數決」已顯示");
 
-  // 7. 額外驗證：確認 Overlay 元素存在
+  // 6. 額外驗證：確認 Overlay 元素存在
   console.log("\n🔍 額外驗證 Overlay 元素...");
   const minorityTitle = page.getByText("⚖️ 全場少數決").first();
   await expect(minorityTitle).toBeVisible({ timeout: 3000 });
@@ -1344,21 +1247,11 @@ test("Action 15: Wait for Minority Start", async ({ page }) => {
 /**
  * Action 17: 借錢週轉流程功能驗證測試
  */
-test("Action 17: Borrow and Return Flow", async ({ page }) => {
+test("Action 17: Borrow and Return Flow", async ({ page, admin, account }) => {
   console.log("\n🟢 ========== Action 17: 借錢週轉流程 測試開始 ==========\n");
 
-  // 1. 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  if (users.length === 0) {
-    throw new Error("❌ users.json 為空！請先執行 Action 01 註冊測試建立使用者資料。");
-  }
-
-  const testUser = users[0];
+  // 1. 租用已註冊帳號（account fixture，測試結束後歸還）
+  const testUser = account;
   console.log(`📋 使用測試帳號: ${testUser.username}`);
 
   // 2. 實例化 GameActions
@@ -1366,40 +1259,44 @@ test("Action 17: Borrow and Return Flow", async ({ page }) => {
 
   // 3. 執行登入
   const loginSuccess = await actions.login(testUser.username, testUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("✅ 登入成功");
 
   // 4. 等待少數決開始（Action 15）
   console.log("\n⏳ 等待少數決開始（Action 15）...");
-  console.log("   📢 請執行以下操作：");
-  console.log("   1️⃣ 前往 Admin 後台 (/admin)");
-  console.log("   2️⃣ 切換到「小遊戲」Tab");
-  console.log("   3️⃣ 選擇「少數決 (Minority)」遊戲");
-  console.log("   4️⃣ 點擊「洗牌 (Shuffle)」");
-  console.log("   5️⃣ 點擊「下一題 (Next Question)」發布題目");
-  console.log("");
+  if (admin) {
+    expect(await admin.publishMinority()).toBe(true);
+  } else {
+    console.log("   📢 請執行以下操作：");
+    console.log("   1️⃣ 前往 Admin 後台 (/admin)");
+    console.log("   2️⃣ 切換到「小遊戲」Tab");
+    console.log("   3️⃣ 選擇「少數決 (Minority)」遊戲");
+    console.log("   4️⃣ 點擊「洗牌 (Shuffle)」");
+    console.log("   5️⃣ 點擊「下一題 (Next Question)」發布題目");
+    console.log("");
+  }
 
   const minorityDetected = await actions.waitForMinorityStart();
-  expect(minorityDetected).toBe(true);
+  expect(minorityDetected.ok).toBe(true);
   console.log("✅ 少數決遊戲已開始");
 
   // 5. 讀取借款前的資產
   console.log("\n📊 讀取借款前資產...");
-  const beforeAssets = await actions.readAssets();
-  expect(beforeAssets).not.toBeNull();
+  const beforeAssets = (await actions.readAssets()).value;
+  expect(beforeAssets).toBeDefined();
   console.log(`   💰 借款前現金: $${beforeAssets!.cash}`);
   console.log(`   💸 借款前負債: $${beforeAssets!.debt}`);
 
   // 6. 執行 Action 17：借錢週轉流程
   console.log("\n🔄 執行 Action 17：借錢週轉流程...");
   const flowSuccess = await actions.closeBorrowAndReturn();
-  expect(flowSuccess).toBe(true);
+  expect(flowSuccess.ok).toBe(true);
   console.log("✅ 借錢週轉流程完成");
 
   // 7. 讀取借款後的資產
   console.log("\n📊 讀取借款後資產...");
-  const afterAssets = await actions.readAssets();
-  expect(afterAssets).not.toBeNull();
+  const afterAssets = (await actions.readAssets()).value;
+  expect(afterAssets).toBeDefined();
   console.log(`   💰 借款後現金: $${afterAssets!.cash}`);
   console.log(`   💸 借款後負債: $${afterAssets!.debt}`);
 
@@ -1435,21 +1332,11 @@ test("Action 17: Borrow and Return Flow", async ({ page }) => {
 /**
  * Action 18: 少數決結果報告功能驗證測試
  */
-test("Action 18: Wait Minority Result", async ({ page }) => {
+test("Action 18: Wait Minority Result", async ({ page, admin, account }) => {
   console.log("\n🔵 ========== Action 18: 少數決結果報告 測試開始 ==========\n");
 
-  // 1️⃣ 讀取已註冊使用者
-  const usersFilePath = path.join(__dirname, "../data/users.json");
-  if (!fs.existsSync(usersFilePath)) {
-    throw new Error("❌ users.json 不存在！請先執行 Action 01 註冊測試。");
-  }
-
-  const users = JSON.parse(fs.readFileSync(usersFilePath, "utf-8"));
-  const registeredUser = users.find((u) => u.registered);
-  if (!registeredUser) {
-    console.error("❌ 測試失敗：找不到已註冊的使用者，請先執行 Action 01");
-    return;
-  }
+  // 1️⃣ 租用已註冊帳號（account fixture，測試結束後歸還）
+  const registeredUser = account;
 
   console.log(`✓ 使用帳號：${registeredUser.username}`);
   const actions = new GameActions(page, 18);
@@ -1457,38 +1344,49 @@ test("Action 18: Wait Minority Result", async ({ page }) => {
   // 2️⃣ 登入
   await page.goto("/");
   const loginSuccess = await actions.login(registeredUser.username, registeredUser.password);
-  expect(loginSuccess).toBe(true);
+  expect(loginSuccess.ok).toBe(true);
   console.log("   ✓ 登入成功");
 
   // 3️⃣ 等待少數決開始（假設主遊戲已啟動）
   console.log("\n⏳ 等待少數決遊戲啟動（Action 15）...");
-  console.log("   📢 請確保 Admin 已啟動主遊戲，然後發布少數決題目");
-  console.log("   ⚠️  提示：如果長時間等待，請檢查主遊戲是否已開始");
+  if (admin) {
+    expect(await admin.publishMinority()).toBe(true);
+  } else {
+    console.log("   📢 請確保 Admin 已啟動主遊戲，然後發布少數決題目");
+    console.log("   ⚠️  提示：如果長時間等待，請檢查主遊戲是否已開始");
+  }
   const minorityStarted = await actions.waitForMinorityStart();
-  expect(minorityStarted).toBe(true);
+  expect(minorityStarted.ok).toBe(true);
   console.log("   ✓ 少數決遊戲已啟動");
 
   // 4️⃣ 下注
   console.log("\n💰 執行下注（Action 16）...");
   console.log("   選項: B, 金額: $100");
   const betSuccess = await actions.betMinority("B", 100);
-  expect(betSuccess).toBe(true);
+  expect(betSuccess.ok).toBe(true);
   console.log("   ✓ 下注成功");
 
   // 5️⃣ 【核心測試】等待結果並讀取資產
   console.log("\n⏳ 等待少數決結果與資產更新（Action 18）...");
-  console.log("   📢 請注意以下步驟：");
-  console.log("   1️⃣ 等待下注倒數自然結束（約 15 秒）");
-  console.log("   2️⃣ 【重要】在 Admin 後台按下「結算」按鈕");
-  console.log("   3️⃣ 測試會自動偵測 RESULT 階段並讀取資產");
-  console.log("");
-  
-  const resultAssets = await actions.waitMinorityResultAndReport();
+  if (!admin) {
+    console.log("   📢 請注意以下步驟：");
+    console.log("   1️⃣ 等待下注倒數自然結束（約 15 秒）");
+    console.log("   2️⃣ 【重要】在 Admin 後台按下「結算」按鈕");
+    console.log("   3️⃣ 測試會自動偵測 RESULT 階段並讀取資產");
+    console.log("");
+  }
+
+  // Admin 於下注時間結束後結算，同時等待玩家端的結果畫面
+  const [resultReport] = await Promise.all([
+    actions.waitMinorityResultAndReport(),
+    admin ? admin.settleMiniGame() : Promise.resolve(true),
+  ]);
+  const resultAssets = resultReport.value;
   
   // 6️⃣ 驗證
-  expect(resultAssets).not.toBeNull();
+  expect(resultAssets).toBeDefined();
   console.log("\n✅ 驗證結果：");
-  console.log(`   ✓ AssetData 已取得（非 null）`);
+  console.log(`   ✓ AssetData 已取得（result.value）`);
   console.log(`   ✓ 當前現金: $${resultAssets!.cash.toFixed(2)}`);
   console.log(`   ✓ 總資產: $${resultAssets!.totalAssets.toFixed(2)}`);
   console.log(`   ✓ 股票市值: $${resultAssets!.stockValue.toFixed(2)}`);
@@ -0,0 +1,54 @@
+// tests/stress/sanity/contract.spec.ts
+import { test, expect } from "@playwright/test";
+import { UI_CONTRACT, assertUiContract, formatContractTable, summarizeContract } from "../core/UiContract";
+import { FRONTEND_VERSION } from "../core/pages/PageObject";
+
+/**
+ * UI 契約檢查驗證測試
+ * 目的：確認契約涵蓋 GameActions 操作的畫面，以及結果彙整、表格輸出與中止條件（不需要瀏覽器）
+ */
+
+test("UI 契約: 涵蓋 GameActions 操作的畫面", async () => {
+  const screens = UI_CONTRACT.map((s) => s.name);
+  expect(screens).toEqual(["登入頁", "主頁", "現貨 Tab", "合約 Tab", "地下錢莊", "使用者選單", "頭像選擇"]);
+
+  // 每個畫面至少有一個 Selector，且名稱不重複（表格以名稱辨識失敗項目）
+  const names = UI_CONTRACT.flatMap((s) => s.checks.map((c) => c.name));
+  expect(UI_CONTRACT.every((s) => s.checks.length > 0)).toBe(true);
+  expect(new Set(names).size).toBe(names.length);
+
+  console.log(`✅ UI 契約共 ${screens.length} 個畫面、${names.length} 個 Selector`);
+});
+
+test("UI 契約: 結果表格與中止條件", async () => {
+  const passed = summarizeContract([
+    { screen: "登入頁", selector: "LoginPage.usernameInput", ok: true, detail: "找到 1 個" },
+    { screen: "合約 Tab", selector: "TradingBar.contractInputs（槓桿、張數）", ok: true, detail: "找到 2 個" },
+  ]);
+  expect(passed.passed).toBe(true);
+  expect(passed.frontendVersion).toBe(FRONTEND_VERSION);
+  expect(() => assertUiContract(passed)).not.toThrow();
+
+  const broken = summarizeContract([
+    ...passed.results,
+    { screen: "地下錢莊", selector: "LoanSharkModal.title", ok: false, detail: "無法進入畫面：Timeout" },
+  ]);
+  expect(broken.passed).toBe(false);
+  expect(() => assertUiContract(broken)).toThrow(/1 個 Selector.*\n.*地下錢莊 \/ LoanSharkModal\.title（無法進入畫面：Timeout）/);
+
+  // 沒有任何檢查結果不視為通過
+  expect(summarizeContract([]).passed).toBe(false);
+
+  // 表格：標題、分隔線、每項一行，最後一行為統計；全形字元以 2 格計算，欄位分隔對齊
+  const lines = formatContractTable(broken).split("\n");
+  expect(lines).toHaveLength(2 + 3 + 2);
+  expect(lines[2]).toContain("✅ 通過");
+  expect(lines[4]).toContain("❌ 失敗");
+  expect(lines[lines.length - 1]).toBe(`前端版本 ${FRONTEND_VERSION}：共 3 項，通過 2 項，失敗 1 項`);
+
+  const width = (text: string) => [...text].reduce((w, ch) => w + (/[　-鿿＀-｠]/.test(ch) ? 2 : 1), 0);
+  const firstSeparator = (line: string) => width(line.slice(0, line.indexOf("|")));
+  expect(new Set(lines.slice(0, 5).map(firstSeparator)).size).toBe(1);
+
+  console.log("✅ UI 契約結果表格與中止條件驗證通過");
+});
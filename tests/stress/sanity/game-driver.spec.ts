@@ -0,0 +1,161 @@
+// tests/stress/sanity/game-driver.spec.ts
+import { test, expect } from "@playwright/test";
+import { ActionResult } from "../core/ActionResult";
+import { AssetData, ContractData, GameDriver, MiniGameKind } from "../core/GameDriver";
+import { Persona, TickOutcome } from "../scenarios/Persona";
+import { runUserA } from "../scenarios/personas";
+import { DEFAULT_STRATEGIES } from "../scenarios/strategies";
+
+/**
+ * GameDriver 介面驗證測試
+ * 目的：確認角色只依賴 GameDriver，換成記憶體中的假 Driver 也能執行（不需要瀏覽器與後端）；
+ * 並確認新增角色只需繼承 Persona 撰寫決策邏輯，Hook 順序、統計與小遊戲 Overlay 處理由框架負責
+ */
+
+function ok<T = void>(value?: T): ActionResult<T> {
+  return { ok: true, status: "ok", value: value as T, elapsedMs: 0, artifacts: [] };
+}
+
+function rejected(message: string): ActionResult {
+  return { ok: false, status: "rejected", message, elapsedMs: 0, artifacts: [] };
+}
+
+/**
+ * 記憶體中的假 Driver：固定股價 50，每讀取 3 次天數換日一次，並記錄呼叫順序
+ * miniGames 為依序彈出的小遊戲 Overlay，收起後換下一個
+ */
+class FakeDriver implements GameDriver {
+  calls: string[] = [];
+  cash = 1000;
+  stockCount = 0;
+  miniGames: MiniGameKind[] = [];
+  private dayReads = 0;
+
+  async register() { return ok(); }
+  async login(user: string) { this.calls.push(`login ${user}`); return ok(); }
+  async setEmployeeStatus() { return ok(); }
+  async waitForGameStart() { this.calls.push("waitForGameStart"); return ok(); }
+
+  async readAssets(): Promise<ActionResult<AssetData>> {
+    const stockValue = this.stockCount * 50;
+    return ok({ totalAssets: this.cash + stockValue, cash: this.cash, stockValue, stockCount: this.stockCount, debt: 0 });
+  }
+  async readContracts(): Promise<ActionResult<ContractData>> { return ok({ margin: 0, contracts: [] }); }
+  async getCurrentStockPrice() { return 50; }
+  async getCurrentDay() { return 1 + Math.floor(this.dayReads++ / 3); }
+
+  async buyStock(amount: number) {
+    this.calls.push(`buyStock ${amount}`);
+    if (this.cash < amount * 50) return rejected("現金不足");
+    this.cash -= amount * 50;
+    this.stockCount += amount;
+    return ok();
+  }
+  async sellStock(amount: number) { this.calls.push(`sellStock ${amount}`); return ok(); }
+  async buyContract() { return ok(); }
+  async cancelAllContracts() { return ok(); }
+  async interactWithLoanShark() { return ok(); }
+  async handleLoan() { return ok(); }
+  async waitForQuizStart() { return ok(); }
+  async answerQuiz() { this.calls.push("answerQuiz"); return ok(); }
+  async waitQuizResultAndReport() { return this.readAssets(); }
+  async waitForMinorityStart() { return ok(); }
+  async betMinority(_option: string, amount: number) { this.calls.push(`betMinority ${amount}`); return ok(); }
+  async waitMinorityResultAndReport() { return this.readAssets(); }
+  async detectMiniGame() { return this.miniGames[0] ?? null; }
+  async collapseMiniGame() { this.calls.push(`collapse ${this.miniGames.shift()}`); return ok(); }
+}
+
+const FIXED_SPOT = { ...DEFAULT_STRATEGIES.typeA, name: "fixed", buyMin: 2, buyMax: 2, intervalMs: 0 };
+
+test("GameDriver: 角色以假 Driver 執行", async () => {
+  const driver = new FakeDriver();
+  const stats = await runUserA(driver, 1, "fake01", "x", { endDay: 2 }, FIXED_SPOT);
+
+  // 第 1 天共 3 次迭代，每次現金充足皆買入 2 張
+  expect(driver.calls).toEqual(["login fake01", "waitForGameStart", "buyStock 2", "buyStock 2", "buyStock 2"]);
+  expect(driver.stockCount).toBe(6);
+  expect(stats.iterations).toBe(3);
+  expect(stats.counters).toMatchObject({ buyCount: 3, sellCount: 0, rejectedCount: 0 });
+
+  console.log("✅ 假 Driver 執行角色驗證通過");
+});
+
+/**
+ * 第六種角色（僅供測試）：每次迭代買入 1 張，換日時全部賣出
+ */
+class DayTrader extends Persona<{ name: string; intervalMs: number }> {
+  protected readonly code = "F";
+  protected readonly title = "當沖策略";
+  protected readonly counterLabels = { buyCount: "買入", flattenCount: "換日清倉" };
+  hooks: string[] = [];
+
+  protected async onStart() { this.hooks.push("start"); }
+
+  protected async tick(): Promise<TickOutcome> {
+    this.hooks.push(`tick ${this.iteration}`);
+    if ((this.track(await this.actions.buyStock(1))).ok) this.count("buyCount");
+  }
+
+  protected async onDayChange(day: number, previousDay: number) {
+    this.hooks.push(`day ${previousDay}→${day}`);
+    const assets = this.track(await this.actions.readAssets());
+    if (assets.ok && this.track(await this.actions.sellStock(assets.value.stockCount)).ok) this.count("flattenCount");
+  }
+
+  protected async onStop() { this.hooks.push("stop"); }
+}
+
+test("Persona: 新角色只需實作決策邏輯", async () => {
+  const driver = new FakeDriver();
+  const persona = new DayTrader(driver, 6, "fake06", { name: "fixed", intervalMs: 0 }, Math.random);
+
+  const stats = await persona.run("x", { endDay: 3 });
+
+  // 第 1、2 天各 3 次迭代；進入第 3 天即結束，不觸發換日 Hook
+  expect(persona.hooks).toEqual(["start", "tick 1", "tick 2", "tick 3", "day 1→2", "tick 4", "tick 5", "tick 6", "stop"]);
+  expect(driver.calls.filter((c) => c.startsWith("sellStock"))).toEqual(["sellStock 3"]);
+  expect(stats.iterations).toBe(6);
+  expect(Object.keys(stats.counters)).toEqual([
+    "buyCount",
+    "flattenCount",
+    "lateCount",
+    "miniGamePlayCount",
+    "miniGameCollapseCount",
+    "rejectedCount",
+    "timeoutCount",
+    "errorCount",
+  ]);
+  expect(stats.counters).toMatchObject({ buyCount: 6, flattenCount: 1, rejectedCount: 0, timeoutCount: 0, errorCount: 0 });
+
+  console.log("✅ Persona 框架 Hook 順序驗證通過");
+});
+
+test("Persona: 交易中依策略處理小遊戲 Overlay", async () => {
+  const driver = new FakeDriver();
+  driver.miniGames = ["quiz", "minority"];
+
+  // 預設策略：問答作答、少數決收起
+  const stats = await runUserA(driver, 1, "fake01", "x", { endDay: 2 }, FIXED_SPOT);
+
+  // 每次 tick 前先處理 Overlay：作答後收起問答，少數決直接收起，交易迴圈不中斷
+  expect(driver.calls).toEqual([
+    "login fake01",
+    "waitForGameStart",
+    "answerQuiz",
+    "collapse quiz",
+    "buyStock 2",
+    "collapse minority",
+    "buyStock 2",
+    "buyStock 2",
+  ]);
+  expect(stats.counters).toMatchObject({ buyCount: 3, miniGamePlayCount: 1, miniGameCollapseCount: 1 });
+
+  // 少數決改為參加：以 minorityBetAmount 下注後收起
+  const betting = new FakeDriver();
+  betting.miniGames = ["minority"];
+  await runUserA(betting, 1, "fake01", "x", { endDay: 2 }, { ...FIXED_SPOT, minorityPolicy: "play", minorityBetAmount: 80 });
+  expect(betting.calls.slice(2, 4)).toEqual(["betMinority 80", "collapse minority"]);
+
+  console.log("✅ 小遊戲 Overlay 處理驗證通過");
+});
@@ -0,0 +1,71 @@
+// tests/stress/sanity/invariants.spec.ts
+import { test, expect } from "@playwright/test";
+import { UserLedger, checkLedger, checkShareConservation } from "../core/InvariantChecker";
+import { MetricsCollector } from "../core/MetricsCollector";
+
+/**
+ * 資產守恆檢查驗證測試
+ * 目的：確認每位使用者的守恆規則、總股數守恆與違規紀錄正確（不需要瀏覽器）
+ */
+
+const LEDGER: UserLedger = {
+  userIndex: 3,
+  day: 2,
+  time: 0,
+  assets: { totalAssets: 10950.5, cash: 9000, stockValue: 2050.5, stockCount: 20, debt: 500 },
+  contracts: { margin: 400, contracts: [{ type: "LONG", leverage: 10, amount: 4 }] },
+};
+
+test("InvariantChecker: 總資產 = 現金 + 股票現值 + 保證金 − 負債", async () => {
+  expect(checkLedger(LEDGER)).toEqual([]);
+
+  // 各數值四捨五入造成的誤差在容許範圍內
+  expect(checkLedger({ ...LEDGER, assets: { ...LEDGER.assets, totalAssets: 10950.53 } })).toEqual([]);
+
+  // 錢憑空出現：總資產多出 100
+  const inflated = checkLedger({ ...LEDGER, assets: { ...LEDGER.assets, totalAssets: 11050.5 } });
+  expect(inflated).toEqual([
+    {
+      userIndex: 3,
+      day: 2,
+      time: 0,
+      rule: "總資產",
+      detail: "總資產 11050.5，現金 9000 + 股票現值 2050.5 + 保證金 400 − 負債 500 = 10950.5",
+    },
+  ]);
+
+  console.log("✅ 總資產守恆規則驗證通過");
+});
+
+test("InvariantChecker: 負債、持股、保證金不為負數", async () => {
+  const broken = checkLedger({
+    ...LEDGER,
+    assets: { totalAssets: 8600, cash: 9000, stockValue: -100, stockCount: -1, debt: -100 },
+    contracts: { margin: -400, contracts: [] },
+  });
+  expect(broken.map((v) => v.rule)).toEqual(["負債非負", "持股非負", "保證金非負"]);
+
+  console.log("✅ 非負規則驗證通過");
+});
+
+test("InvariantChecker: 總股數守恆與違規紀錄", async () => {
+  const holdings = new Map([
+    [1, 30],
+    [2, 70],
+  ]);
+  expect(checkShareConservation(holdings, 100, 4, 0)).toEqual([]);
+
+  holdings.set(3, 5);
+  const violations = checkShareConservation(holdings, 100, 4, 0);
+  expect(violations).toEqual([{ day: 4, time: 0, rule: "總股數守恆", detail: "3 位玩家持股合計 105 張，發行 100 張" }]);
+
+  const metrics = new MetricsCollector();
+  metrics.setPhase("hold");
+  metrics.recordInvariantCheck({ day: 3, time: 0, users: 3, violations: 0 }, []);
+  metrics.recordInvariantCheck({ day: 4, time: 0, users: 3, violations: 1 }, violations);
+
+  expect(metrics.getInvariantChecks().map((c) => c.day)).toEqual([3, 4]);
+  expect(metrics.getInvariantViolations()).toEqual([{ ...violations[0], phase: "hold" }]);
+
+  console.log("✅ 總股數守恆與違規紀錄驗證通過");
+});
@@ -0,0 +1,75 @@
+// tests/stress/sanity/load-profile.spec.ts
+import { test, expect } from "@playwright/test";
+import { buildLoadSchedule } from "../scenarios/loadProfile";
+
+/**
+ * 負載模型排程驗證測試
+ * 目的：確認各階段的加入 / 離開時間計算正確（不需要瀏覽器）
+ */
+
+/**
+ * 計算指定時間點的同時在線人數
+ */
+function concurrentAt(slots: { joinAtMs: number; leaveAtMs: number }[], time: number): number {
+  return slots.filter((s) => s.joinAtMs <= time && time < s.leaveAtMs).length;
+}
+
+test("LoadProfile: ramp-up / hold / spike / ramp-down 排程", async () => {
+  const schedule = buildLoadSchedule([
+    { kind: "ramp-up", users: 4, durationMs: 40000 },
+    { kind: "hold", durationMs: 60000 },
+    { kind: "spike", users: 2, durationMs: 20000 },
+    { kind: "ramp-down", durationMs: 40000 },
+  ]);
+
+  expect(schedule.phases.map((p) => p.name)).toEqual(["1-ramp-up", "2-hold", "3-spike", "4-ramp-down"]);
+  expect(schedule.phases.map((p) => [p.startMs, p.endMs, p.targetUsers])).toEqual([
+    [0, 40000, 4],
+    [40000, 100000, 4],
+    [100000, 120000, 6],
+    [120000, 160000, 0],
+  ]);
+  expect(schedule.totalMs).toBe(160000);
+  expect(schedule.peakUsers).toBe(6);
+
+  // ramp-up：每 10 秒加入 1 人（第一位立即加入）
+  expect(schedule.slots.slice(0, 4).map((s) => s.joinAtMs)).toEqual([0, 10000, 20000, 30000]);
+  // spike：2 人同時加入、同時離開
+  expect(schedule.slots.slice(4).map((s) => [s.joinAtMs, s.leaveAtMs])).toEqual([
+    [100000, 120000],
+    [100000, 120000],
+  ]);
+  // ramp-down：後加入者先離開，最後一位於階段結束時離開
+  expect(schedule.slots.slice(0, 4).map((s) => s.leaveAtMs)).toEqual([160000, 150000, 140000, 130000]);
+
+  expect(concurrentAt(schedule.slots, 5000)).toBe(1);
+  expect(concurrentAt(schedule.slots, 50000)).toBe(4);
+  expect(concurrentAt(schedule.slots, 110000)).toBe(6);
+  expect(concurrentAt(schedule.slots, 135000)).toBe(3);
+  expect(concurrentAt(schedule.slots, 160000)).toBe(0);
+
+  console.log("✅ 負載排程計算驗證通過");
+});
+
+test("LoadProfile: 排程結束時仍在線者一併離開，錯誤設定拋出錯誤", async () => {
+  const schedule = buildLoadSchedule([
+    { kind: "ramp-up", users: 2, durationMs: 10000, name: "暖身" },
+    { kind: "hold", durationMs: 5000 },
+  ]);
+  expect(schedule.phases.map((p) => p.name)).toEqual(["暖身", "2-hold"]);
+  expect(schedule.slots.map((s) => s.leaveAtMs)).toEqual([15000, 15000]);
+
+  expect(() => buildLoadSchedule([])).toThrow(/至少需要一個階段/);
+  expect(() => buildLoadSchedule([{ kind: "ramp-up", durationMs: 1000 }])).toThrow(/users 必須為非負整數/);
+  expect(() =>
+    buildLoadSchedule([
+      { kind: "ramp-up", users: 3, durationMs: 1000 },
+      { kind: "ramp-up", users: 1, durationMs: 1000 },
+    ])
+  ).toThrow(/目標人數 1 少於目前在線人數 3/);
+  expect(() => buildLoadSchedule([{ kind: "ramp-down", users: 2, durationMs: 1000 }])).toThrow(/多於目前在線人數/);
+  expect(() => buildLoadSchedule([{ kind: "spike", users: 0, durationMs: 1000 }])).toThrow(/users 必須大於 0/);
+  expect(() => buildLoadSchedule([{ kind: "hold", durationMs: -1 }])).toThrow(/durationMs 必須為非負數/);
+
+  console.log("✅ 負載設定驗證通過");
+});
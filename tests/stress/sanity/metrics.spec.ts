@@ -0,0 +1,150 @@
+// tests/stress/sanity/metrics.spec.ts
+import { test, expect } from "@playwright/test";
+import { describeResult, failureKindOf } from "../core/ActionResult";
+import { ApiCallRecord, MetricsCollector, percentile } from "../core/MetricsCollector";
+import { normalizeEndpoint } from "../core/NetworkRecorder";
+
+/**
+ * 指標收集器驗證測試
+ * 目的：確認延遲百分位與成功率計算正確（不需要瀏覽器）
+ */
+test("MetricsCollector: 百分位數計算", async () => {
+  const sorted = Array.from({ length: 100 }, (_, i) => i + 1); // 1..100
+
+  expect(percentile(sorted, 50)).toBe(50);
+  expect(percentile(sorted, 90)).toBe(90);
+  expect(percentile(sorted, 99)).toBe(99);
+  expect(percentile([42], 99)).toBe(42);
+  expect(percentile([], 50)).toBe(0);
+
+  console.log("✅ 百分位數計算驗證通過");
+});
+
+test("MetricsCollector: 依 Action 彙總延遲與成功率", async () => {
+  const metrics = new MetricsCollector();
+
+  // User 1 買入兩次（成功），User 2 買入一次（失敗）
+  metrics.begin(1, 6, "買入股票", 0);
+  metrics.end(1, 6, "買入股票", "success", undefined, 100);
+  metrics.begin(1, 6, "買入股票", 1000);
+  metrics.end(1, 6, "買入股票", "success", undefined, 1300);
+  metrics.begin(2, 6, "買入股票", 500);
+  metrics.end(2, 6, "買入股票", "failure", "買入按鈕被停用", 700);
+
+  // User 2 借款一次（成功）；逾時的等待不列入統計
+  metrics.begin(2, 11, "借/還錢", 0);
+  metrics.end(2, 11, "借/還錢", "success", undefined, 50);
+  metrics.begin(3, 12, "等待問答開始", 0);
+  metrics.discard(3, 12, "等待問答開始");
+
+  const stats = metrics.summarize();
+  expect(stats.map((s) => s.actionId)).toEqual([6, 11]);
+
+  const buy = stats[0];
+  expect(buy.count).toBe(3);
+  expect(buy.successCount).toBe(2);
+  expect(buy.failureCount).toBe(1);
+  expect(buy.successRate).toBeCloseTo(2 / 3);
+  expect(buy.p50).toBe(200);
+  expect(buy.p99).toBe(300);
+  expect(buy.max).toBe(300);
+
+  const failure = metrics.getRecords().find((r) => r.outcome === "failure");
+  expect(failure?.userIndex).toBe(2);
+  expect(failure?.reason).toBe("買入按鈕被停用");
+  expect(failure?.failureKind).toBe("error"); // 未標記分類的失敗視為錯誤
+
+  console.log("✅ Action 彙總統計驗證通過");
+});
+
+test("MetricsCollector: 依失敗分類統計", async () => {
+  const metrics = new MetricsCollector();
+
+  metrics.begin(1, 11, "借/還錢", 0);
+  metrics.end(1, 11, "借/還錢", "failure", "超過今日借款上限", 100, "rejected");
+  metrics.begin(2, 11, "借/還錢", 0);
+  metrics.end(2, 11, "借/還錢", "failure", "Timeout 3000ms exceeded", 3000, "timeout");
+  metrics.begin(3, 11, "借/還錢", 0);
+  metrics.end(3, 11, "借/還錢", "success", undefined, 200, "rejected"); // 成功時忽略分類
+
+  expect(metrics.summarize()[0]).toMatchObject({ count: 3, failureCount: 2, rejectedCount: 1, timeoutCount: 1, errorCount: 0 });
+  expect(metrics.getRecords().find((r) => r.userIndex === 3)?.failureKind).toBeUndefined();
+
+  // ActionResult：例外分類與描述
+  const timeoutError = Object.assign(new Error("Timeout 3000ms exceeded"), { name: "TimeoutError" });
+  expect(failureKindOf(timeoutError)).toBe("timeout");
+  expect(failureKindOf(new Error("Target closed"))).toBe("error");
+  expect(failureKindOf(null)).toBe("error");
+  expect(describeResult({ ok: false, status: "rejected", message: "現金不足", elapsedMs: 10, artifacts: [] })).toBe("拒絕：現金不足");
+  expect(describeResult({ ok: true, status: "ok", value: undefined, elapsedMs: 10, artifacts: [] })).toBe("成功");
+
+  console.log("✅ 失敗分類統計驗證通過");
+});
+
+test("MetricsCollector: 依負載階段標記與統計", async () => {
+  const metrics = new MetricsCollector();
+
+  // 未設定階段：不標記
+  metrics.begin(1, 6, "買入股票", 0);
+  metrics.end(1, 6, "買入股票", "success", undefined, 100);
+
+  // 以 Action「開始」時的階段為準（跨階段結束仍歸屬開始時的階段）
+  metrics.setPhase("1-ramp-up");
+  metrics.begin(1, 6, "買入股票", 1000);
+  metrics.setPhase("2-hold");
+  metrics.end(1, 6, "買入股票", "success", undefined, 1200);
+  metrics.begin(2, 6, "買入股票", 1500);
+  metrics.end(2, 6, "買入股票", "failure", "逾時", 2500);
+
+  expect(metrics.getRecords().map((r) => r.phase)).toEqual([undefined, "1-ramp-up", "2-hold"]);
+  expect(metrics.summarize("1-ramp-up")[0]).toMatchObject({ count: 1, successRate: 1, max: 200 });
+  expect(metrics.summarize("2-hold")[0]).toMatchObject({ count: 1, failureCount: 1, max: 1000 });
+  expect(metrics.summarize()[0].count).toBe(3);
+
+  console.log("✅ 負載階段標記驗證通過");
+});
+
+test("MetricsCollector: 後端 API 呼叫歸屬至進行中的 Action", async () => {
+  const metrics = new MetricsCollector();
+  const call = (userIndex: number, durationMs: number, status = 200): ApiCallRecord => ({
+    userIndex,
+    method: "POST",
+    endpoint: "/api/trade/stock",
+    url: "http://localhost/api/trade/stock",
+    status,
+    startTime: 0,
+    endTime: durationMs,
+    durationMs,
+    ...metrics.currentAction(userIndex),
+    phase: metrics.getPhase(),
+  });
+
+  // Action 之外的呼叫不歸屬任何 Action
+  metrics.recordApiCall(call(1, 30));
+  expect(metrics.getApiCalls()[0].actionId).toBeUndefined();
+
+  // 買入期間兩次呼叫：後端 80ms，UI 共 500ms → 前端約 420ms
+  metrics.begin(1, 6, "買入股票", 0);
+  metrics.recordApiCall(call(1, 50));
+  metrics.recordApiCall(call(1, 30, 500));
+  metrics.end(1, 6, "買入股票", "success", undefined, 500);
+  expect(metrics.getRecords()[0]).toMatchObject({ durationMs: 500, apiCalls: 2, apiMs: 80 });
+
+  // 多個進行中時歸屬最後開始者；其他使用者的 Action 不受影響
+  metrics.begin(2, 4, "讀取資產", 0);
+  metrics.begin(2, 6, "買入股票", 10);
+  expect(metrics.currentAction(2)).toEqual({ actionId: 6, actionName: "買入股票" });
+  expect(metrics.currentAction(1)).toBeUndefined();
+
+  const api = metrics.summarizeApi();
+  expect(api).toHaveLength(1);
+  expect(api[0]).toMatchObject({ method: "POST", endpoint: "/api/trade/stock", count: 3, errorCount: 1, max: 50 });
+  expect(metrics.summarize()[0]).toMatchObject({ apiP50: 80, apiP90: 80 });
+
+  // 端點正規化：去除 origin / query，參數化路由與數字 ID 以佔位符取代
+  expect(normalizeEndpoint("https://backend.example.com/api/trade/stock?x=1")).toBe("/api/trade/stock");
+  expect(normalizeEndpoint("http://localhost:4173/api/admin/users/stress01/employee")).toBe("/api/admin/users/:username/employee");
+  expect(normalizeEndpoint("http://localhost:4173/api/orders/42/")).toBe("/api/orders/:id");
+
+  console.log("✅ 後端 API 歸屬驗證通過");
+});
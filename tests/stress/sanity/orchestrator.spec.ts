@@ -0,0 +1,97 @@
+// tests/stress/sanity/orchestrator.spec.ts
+import { test, expect } from "@playwright/test";
+import { User } from "../core/UserRegistry";
+import { VirtualUser, interleaveByPersona, planVirtualUsers } from "../scenarios/orchestrator";
+
+/**
+ * 虛擬使用者編排驗證測試
+ * 目的：確認角色分配、帳號指派、員工 / 機器人比例與加入順序正確（不需要瀏覽器）
+ */
+
+/**
+ * 產生 count 個測試帳號（u1、u2…）
+ */
+function accountsOf(count: number, registered: boolean = true): User[] {
+  return Array.from({ length: count }, (_, i) => ({ username: `u${i + 1}`, password: "x", registered }));
+}
+
+test("Orchestrator: 依角色分配帳號", async () => {
+  const distribution = { typeA: 2, typeB: 1, typeC: 0, typeD: 1, typeE: 1 };
+  const users = planVirtualUsers(distribution, accountsOf(6));
+
+  // 依 typeA → typeE 順序指派，使用者編號與帳號連續
+  expect(users.map((u) => `${u.userIndex} ${u.persona} ${u.account.username}`)).toEqual([
+    "1 typeA u1",
+    "2 typeA u2",
+    "3 typeB u3",
+    "4 typeD u4",
+    "5 typeE u5",
+  ]);
+
+  // 未註冊的帳號略過
+  const mixed = [{ username: "pending", password: "x", registered: false }, ...accountsOf(3)];
+  expect(planVirtualUsers({ typeA: 3, typeB: 0, typeC: 0, typeD: 0, typeE: 0 }, mixed).map((u) => u.account.username)).toEqual([
+    "u1",
+    "u2",
+    "u3",
+  ]);
+
+  // 已註冊帳號不足時拋出錯誤
+  expect(() => planVirtualUsers(distribution, [...accountsOf(4), ...accountsOf(1, false)])).toThrow(
+    /需要 5 個，users.json 中只有 4 個/
+  );
+
+  console.log("✅ 角色與帳號分配驗證通過");
+});
+
+test("Orchestrator: 虛擬使用者依角色輪流加入", async () => {
+  const user = (userIndex: number, persona: VirtualUser["persona"]): VirtualUser => ({
+    userIndex,
+    persona,
+    account: { username: `u${userIndex}`, password: "x", registered: true },
+    employee: false,
+    driver: "browser",
+  });
+  const users = [user(1, "typeA"), user(2, "typeA"), user(3, "typeB"), user(4, "typeC"), user(5, "typeC")];
+
+  expect(interleaveByPersona(users).map((u) => u.userIndex)).toEqual([1, 3, 4, 2, 5]);
+
+  console.log("✅ 角色輪流排序驗證通過");
+});
+
+test("Orchestrator: 依員工比例分配員工與訪客", async () => {
+  const accounts = accountsOf(8);
+  const distribution = { typeA: 4, typeB: 2, typeC: 1, typeD: 1, typeE: 0 };
+
+  // 每個角色的前 round(人數 × 比例) 位為員工
+  const users = planVirtualUsers(distribution, accounts, { typeA: 0.5, typeB: 1, typeC: 0.4 });
+  const employees = (persona: VirtualUser["persona"]) => users.filter((u) => u.persona === persona).map((u) => u.employee);
+  expect(employees("typeA")).toEqual([true, true, false, false]);
+  expect(employees("typeB")).toEqual([true, true]);
+  expect(employees("typeC")).toEqual([false]);
+  expect(employees("typeD")).toEqual([false]);
+
+  // 未設定比例時全為訪客
+  expect(planVirtualUsers(distribution, accounts).every((u) => !u.employee)).toBe(true);
+
+  console.log("✅ 員工比例分配驗證通過");
+});
+
+test("Orchestrator: 依機器人比例分配瀏覽器與協定層機器人", async () => {
+  const accounts = accountsOf(8);
+  const distribution = { typeA: 4, typeB: 2, typeC: 1, typeD: 1, typeE: 0 };
+
+  const users = planVirtualUsers(distribution, accounts, { typeA: 0.5 }, { typeA: 0.5, typeB: 1, typeC: 0.4 });
+  const drivers = (persona: VirtualUser["persona"]) => users.filter((u) => u.persona === persona).map((u) => u.driver);
+  expect(drivers("typeA")).toEqual(["browser", "browser", "protocol", "protocol"]);
+  expect(drivers("typeB")).toEqual(["protocol", "protocol"]);
+  expect(drivers("typeC")).toEqual(["browser"]);
+
+  // 員工與機器人比例各自獨立：前 2 位員工為瀏覽器，後 2 位機器人為訪客
+  expect(users.filter((u) => u.persona === "typeA").map((u) => u.employee)).toEqual([true, true, false, false]);
+
+  // 未設定比例時全為瀏覽器
+  expect(planVirtualUsers(distribution, accounts).every((u) => u.driver === "browser")).toBe(true);
+
+  console.log("✅ 機器人比例分配驗證通過");
+});
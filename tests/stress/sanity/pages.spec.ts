@@ -0,0 +1,73 @@
+// tests/stress/sanity/pages.spec.ts
+import { test, expect, Page } from "@playwright/test";
+import { AssetPanel, parseContractHeader, parseCurrency } from "../core/pages/AssetPanel";
+import { LoanSharkModal } from "../core/pages/LoanSharkModal";
+import { LoginPage } from "../core/pages/LoginPage";
+import { MinorityOverlay } from "../core/pages/MinorityOverlay";
+import { FRONTEND_VERSION } from "../core/pages/PageObject";
+import { QuizOverlay } from "../core/pages/QuizOverlay";
+import { StatusBar, parseDay, parsePrice } from "../core/pages/StatusBar";
+import { TradingBar } from "../core/pages/TradingBar";
+
+/**
+ * 頁面物件驗證測試
+ * 目的：確認畫面文字的解析結果，以及每個頁面物件皆標示對應的前端版本（不需要瀏覽器）
+ */
+
+/**
+ * 不可操作的 Page：頁面物件建構時只記錄 Page，任何存取都視為錯誤
+ */
+function untouchedPage(): Page {
+  return new Proxy({} as Page, {
+    get: (_target, property) => {
+      throw new Error(`頁面物件建構時不應操作 Page（存取了 page.${String(property)}）`);
+    },
+  });
+}
+
+test("頁面物件: 畫面文字解析", async () => {
+  // 資產數值
+  expect(parseCurrency("$1,234.56")).toBe(1234.56);
+  expect(parseCurrency("-$50.00")).toBe(-50);
+  expect(parseCurrency("100 股")).toBe(100);
+  expect(parseCurrency("3張")).toBe(3);
+  expect(parseCurrency(null)).toBe(0);
+  expect(parseCurrency("--")).toBe(0);
+
+  // 合約卡片第一行
+  expect(parseContractHeader("做多 2倍")).toEqual({ type: "LONG", leverage: 2 });
+  expect(parseContractHeader("做空 2.5倍")).toEqual({ type: "SHORT", leverage: 2.5 });
+  expect(parseContractHeader("3張")).toBeNull();
+
+  // 股價與天數
+  expect(parsePrice("當前: $1,023.45")).toBe(1023.45);
+  expect(parsePrice("當前: --")).toBe(0);
+  expect(parseDay("第 3 天")).toBe(3);
+  expect(parseDay("Day 12")).toBe(12);
+  expect(parseDay(null)).toBe(0);
+
+  console.log("✅ 畫面文字解析驗證通過");
+});
+
+test("頁面物件: 皆標示對應的前端版本", async () => {
+  // 建構時不會操作頁面，只記錄 Page 供之後建立 Locator
+  const page = untouchedPage();
+  const pages = [
+    new LoginPage(page),
+    new StatusBar(page),
+    new AssetPanel(page),
+    new TradingBar(page),
+    new LoanSharkModal(page),
+    new QuizOverlay(page),
+    new MinorityOverlay(page),
+  ];
+
+  // 版本格式為 YYYY-MM；單獨修正的頁面物件版本不會早於整體核對的版本
+  expect(FRONTEND_VERSION).toMatch(/^\d{4}-\d{2}$/);
+  for (const pageObject of pages) {
+    expect(pageObject.version).toMatch(/^\d{4}-\d{2}$/);
+    expect(pageObject.version >= FRONTEND_VERSION).toBe(true);
+  }
+
+  console.log(`✅ ${pages.length} 個頁面物件皆標示前端版本（整體核對版本 ${FRONTEND_VERSION}）`);
+});
@@ -0,0 +1,96 @@
+// tests/stress/sanity/protocol-bot.spec.ts
+import { test, expect } from "@playwright/test";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { ProtocolBot } from "../core/ProtocolBot";
+import { MockServer, startMockServer } from "../mock/server";
+
+/**
+ * 協定層機器人驗證測試
+ * 目的：確認 ProtocolBot 直接呼叫模擬伺服器的 REST API 與 Socket.io，結果與後端狀態一致（不需要瀏覽器）
+ */
+
+let server: MockServer;
+let bot: ProtocolBot;
+let metrics: MetricsCollector;
+
+test.beforeEach(async () => {
+  server = await startMockServer({ port: 0, autoStart: true, game: { countdownSeconds: 1, autoSettle: false } });
+  server.game.register("bot01", "secret");
+  metrics = new MetricsCollector();
+  bot = new ProtocolBot(1, metrics, server.url);
+});
+
+test.afterEach(async () => {
+  bot.close();
+  await server.close();
+});
+
+test("ProtocolBot: 登入、交易與借款", async () => {
+  expect((await bot.login("bot01", "wrong")).status).toBe("rejected");
+  expect((await bot.login("bot01", "secret")).ok).toBe(true);
+  expect((await bot.waitForGameStart()).ok).toBe(true);
+  expect(await bot.getCurrentDay()).toBe(1);
+  expect(await bot.getCurrentStockPrice()).toBeGreaterThan(0);
+
+  expect((await bot.buyStock(2)).ok).toBe(true);
+  expect((await bot.sellStock(5)).status).toBe("rejected"); // 持股不足
+  expect((await bot.handleLoan("BORROW", 100)).ok).toBe(true);
+  expect((await bot.buyContract("LONG", 2, 1)).ok).toBe(true);
+
+  const player = server.game.getPlayer("bot01")!;
+  expect(player.stockCount).toBe(2);
+  expect(player.debt).toBe(100);
+
+  const assets = await bot.readAssets();
+  expect(assets.ok && assets.value).toMatchObject({ cash: player.cash, stockCount: 2, debt: 100 });
+  const contracts = await bot.readContracts();
+  expect(contracts.ok && contracts.value.contracts).toEqual([{ type: "LONG", leverage: 2, amount: 1 }]);
+
+  expect((await bot.cancelAllContracts()).ok).toBe(true);
+  expect(player.contracts).toEqual([]);
+
+  // Action 以「名稱（協定）」統計，REST 呼叫與推播寫入同一個 MetricsCollector
+  const names = metrics.getRecords().map((r) => r.actionName);
+  expect(names).toContain("買入股票（協定）");
+  expect(metrics.getApiCalls().some((c) => c.endpoint === "/api/trade/stock" && c.actionName === "買入股票（協定）")).toBe(true);
+  const socket = metrics.summarizeSocket();
+  expect(socket.connects).toBe(1);
+  expect(socket.events.some((e) => e.direction === "received" && e.event === "player:assets")).toBe(true);
+
+  console.log("✅ 協定層交易驗證通過");
+});
+
+test("ProtocolBot: 問答作答、結果與收起", async () => {
+  expect((await bot.login("bot01", "secret")).ok).toBe(true);
+
+  // 沒有小遊戲時，有限等待回傳逾時
+  expect((await bot.waitForQuizStart(500)).status).toBe("timeout");
+
+  // 中止訊號觸發時立即結束等待（無限等待也一樣），回傳逾時
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 100);
+  const startedAt = Date.now();
+  expect((await bot.waitForMinorityStart(0, controller.signal)).status).toBe("timeout");
+  expect(Date.now() - startedAt).toBeLessThan(2000);
+
+  const cashBefore = server.game.getPlayer("bot01")!.cash;
+  server.game.publishQuiz(0);
+  expect((await bot.waitForQuizStart(5000)).ok).toBe(true);
+  expect(await bot.detectMiniGame()).toBe("quiz");
+  expect((await bot.answerQuiz("A")).ok).toBe(true);
+  expect((await bot.answerQuiz("B")).status).toBe("rejected"); // 已提交答案
+
+  server.game.settleMiniGame();
+  const result = await bot.waitQuizResultAndReport();
+  const view = server.game.getMiniGameView(server.game.getPlayer("bot01")!);
+  expect(result.ok && result.value.cash).toBe(cashBefore + (view.correctOption === "A" ? 100 : 0));
+
+  // 收起後同一局不再回報；下一局重新偵測
+  expect(await bot.detectMiniGame()).toBeNull(); // 已結算
+  server.game.publishQuiz(1);
+  expect((await bot.waitForQuizStart(5000)).ok).toBe(true);
+  expect((await bot.collapseMiniGame()).ok).toBe(true);
+  expect(await bot.detectMiniGame()).toBeNull();
+
+  console.log("✅ 協定層問答驗證通過");
+});
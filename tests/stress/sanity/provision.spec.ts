@@ -0,0 +1,29 @@
+// tests/stress/sanity/provision.spec.ts
+import { test, expect } from "@playwright/test";
+import { DEFAULT_PROVISION_OPTIONS, parseProvisionArgs, planUsernames } from "../provision_users";
+
+/**
+ * 帳號批次建立參數驗證測試
+ * 目的：確認命令列參數解析與帳號命名正確（不需要瀏覽器）
+ */
+test("Provision: 命令列參數解析與帳號命名", async () => {
+  expect(parseProvisionArgs([])).toEqual(DEFAULT_PROVISION_OPTIONS);
+
+  const options = parseProvisionArgs(["--count", "50", "--prefix", "load", "--concurrency", "8", "--password", "Pass1234"]);
+  expect(options).toEqual({ count: 50, prefix: "load", start: 1, concurrency: 8, password: "Pass1234" });
+
+  // 序號補零至相同位數，方便排序與辨識
+  const usernames = planUsernames(options);
+  expect(usernames).toHaveLength(50);
+  expect(usernames[0]).toBe("load01");
+  expect(usernames[49]).toBe("load50");
+  expect(planUsernames({ ...options, count: 3, start: 99 })).toEqual(["load099", "load100", "load101"]);
+
+  // 帳號僅限英文和數字（前端驗證規則）
+  expect(() => parseProvisionArgs(["--prefix", "stress_"])).toThrow(/僅限英文和數字/);
+  expect(() => parseProvisionArgs(["--count", "0"])).toThrow(/--count 必須為 >= 1 的整數/);
+  expect(() => parseProvisionArgs(["--users", "5"])).toThrow(/未知的參數 --users/);
+  expect(() => parseProvisionArgs(["--count"])).toThrow(/無法解析 --count/);
+
+  console.log("✅ 批次建立參數驗證通過");
+});
@@ -0,0 +1,82 @@
+// tests/stress/sanity/random.spec.ts
+import { test, expect } from "@playwright/test";
+import { RandomSource, createRandom, deriveSeed, randomInt, userRandom } from "../core/Random";
+import { DEFAULT_STRATEGIES, decideContract, decideSpot, pickChoice } from "../scenarios/strategies";
+
+/**
+ * 種子隨機數驗證測試
+ * 目的：確認相同 STRESS_SEED 會產生相同的角色決策序列（不需要瀏覽器）
+ */
+
+/**
+ * 取出前 n 個隨機數
+ */
+function take(random: RandomSource, n: number): number[] {
+  return Array.from({ length: n }, () => random());
+}
+
+/**
+ * 模擬 User B 連續 n 次決策（與 runUserB 相同的呼叫方式）
+ */
+function contractSequence(random: RandomSource, n: number): string[] {
+  return Array.from({ length: n }, () => {
+    const d = decideContract(DEFAULT_STRATEGIES.typeB, random);
+    return d.action === "CANCEL" ? "CANCEL" : `${d.type}x${d.leverage}`;
+  });
+}
+
+test("Random: 相同種子產生相同序列", async () => {
+  const values = take(createRandom(12345), 1000);
+
+  expect(take(createRandom(12345), 1000)).toEqual(values);
+  expect(take(createRandom(54321), 1000)).not.toEqual(values);
+  expect(values.every((v) => v >= 0 && v < 1)).toBe(true);
+
+  // 分佈大致均勻（1000 個樣本平均值接近 0.5）
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  expect(mean).toBeGreaterThan(0.45);
+  expect(mean).toBeLessThan(0.55);
+
+  // randomInt 涵蓋上下限且不超出範圍
+  const ints = take(createRandom(7), 500).map((r) => randomInt(1, 5, () => r));
+  expect(new Set(ints)).toEqual(new Set([1, 2, 3, 4, 5]));
+
+  console.log("✅ 種子隨機數序列驗證通過");
+});
+
+test("Random: 每位使用者與每個串流互相獨立", async () => {
+  const seed = 20240601;
+
+  // 子種子推導結果固定（32-bit 非負整數）
+  expect(deriveSeed(seed, 1, "actions")).toBe(deriveSeed(seed, 1, "actions"));
+  expect(deriveSeed(seed, 1, "actions")).toBeGreaterThanOrEqual(0);
+  expect(deriveSeed(seed, 1, "actions")).toBeLessThanOrEqual(0xffffffff);
+
+  const user1 = take(userRandom(1, "actions", seed), 20);
+  expect(take(userRandom(1, "actions", seed), 20)).toEqual(user1);
+  expect(take(userRandom(2, "actions", seed), 20)).not.toEqual(user1);
+  expect(take(userRandom(1, "strategy", seed), 20)).not.toEqual(user1);
+  expect(take(userRandom(1, "actions", seed + 1), 20)).not.toEqual(user1);
+
+  console.log("✅ 使用者串流獨立性驗證通過");
+});
+
+test("Random: 相同種子重現角色決策序列", async () => {
+  const seed = 987654321;
+
+  // User B：做多 / 做空、槓桿、撤單的順序完全相同
+  const contracts = contractSequence(userRandom(2, "actions", seed), 50);
+  expect(contractSequence(userRandom(2, "actions", seed), 50)).toEqual(contracts);
+  expect(contractSequence(userRandom(2, "actions", seed + 1), 50)).not.toEqual(contracts);
+
+  // User A：買入張數相同
+  const spot = (random: RandomSource) =>
+    Array.from({ length: 20 }, () => decideSpot(DEFAULT_STRATEGIES.typeA, { cash: 1000, stockCount: 0, stockPrice: 50 }, random));
+  expect(spot(userRandom(1, "actions", seed))).toEqual(spot(userRandom(1, "actions", seed)));
+
+  // User D/E：小遊戲選項相同
+  const choices = (random: RandomSource) => Array.from({ length: 20 }, () => pickChoice(DEFAULT_STRATEGIES.typeD.optionWeights, random));
+  expect(choices(userRandom(4, "actions", seed))).toEqual(choices(userRandom(4, "actions", seed)));
+
+  console.log("✅ 角色決策重現驗證通過");
+});
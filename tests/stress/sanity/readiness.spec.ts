@@ -0,0 +1,156 @@
+// tests/stress/sanity/readiness.spec.ts
+import { test, expect } from "@playwright/test";
+import { EventEmitter } from "events";
+import { API_ENDPOINTS, Readiness, ReadinessPage, formatApiResult, resolveApiEndpoints } from "../core/Readiness";
+
+/**
+ * 就緒條件驗證測試
+ * 目的：確認 Socket.io 事件等待與 API 回應等待在事件到達時立即返回、逾時時回傳 false / null，
+ * 名稱不符（從未出現）的事件與端點只逾時一次
+ * （以假的 Page / WebSocket 事件模擬，不需要瀏覽器）
+ */
+
+/**
+ * 模擬 Playwright Response（只實作 Readiness 用到的部分）
+ */
+function fakeResponse(method: string, url: string, status: number, body?: unknown) {
+  return {
+    url: () => url,
+    status: () => status,
+    request: () => ({ method: () => method }),
+    json: async () => (body === undefined ? Promise.reject(new Error("not json")) : body),
+  };
+}
+
+type FakeResponse = ReturnType<typeof fakeResponse>;
+
+/**
+ * 模擬 Playwright Page（實作 ReadinessPage；DOM 相關的 evaluate 不模擬）
+ */
+class FakePage extends EventEmitter implements ReadinessPage {
+  connect(): EventEmitter {
+    const ws = new EventEmitter();
+    this.emit("websocket", ws);
+    return ws;
+  }
+  respond(method: string, url: string, status: number, body?: unknown): void {
+    this.emit("response", fakeResponse(method, url, status, body));
+  }
+  waitForResponse(predicate: (response: FakeResponse) => boolean, options: { timeout: number }): Promise<FakeResponse> {
+    return new Promise((resolve, reject) => {
+      const onResponse = (response: FakeResponse) => {
+        if (!predicate(response)) return;
+        clearTimeout(timer);
+        this.off("response", onResponse);
+        resolve(response);
+      };
+      const timer = setTimeout(() => {
+        this.off("response", onResponse);
+        reject(new Error("Timeout"));
+      }, options.timeout);
+      this.on("response", onResponse);
+    });
+  }
+  async evaluate<R>(): Promise<R> {
+    throw new Error("FakePage 不支援 evaluate");
+  }
+}
+
+test("Readiness: 等待 Socket.io 事件", async () => {
+  const page = new FakePage();
+  const ready = new Readiness(page);
+  const ws = page.connect();
+  const receive = (payload: string) => ws.emit("framereceived", { payload });
+
+  // 尚未收到過的事件：逾時回傳 false
+  expect(await ready.waitForSocketEvent("player:assets", { since: 0, timeout: 50 })).toBe(false);
+
+  // 等待下一個事件：其他事件不會觸發，收到後立即返回
+  const waiting = ready.waitForSocketEvent("player:assets", { timeout: 1000 });
+  receive('42["game:state",{"price":50}]');
+  receive('42["player:assets",{"cash":1000}]');
+  expect(await waiting).toBe(true);
+  expect(ready.lastSocketEvent("game:state")).toBeDefined();
+
+  // since: 0 表示收到過即可；預設只接受呼叫之後的事件
+  expect(await ready.waitForSocketEvent("player:assets", { since: 0, timeout: 50 })).toBe(true);
+  expect(await ready.waitForSocketEvent("player:assets", { timeout: 50 })).toBe(false);
+
+  console.log("✅ Socket.io 事件等待驗證通過");
+});
+
+test("Readiness: 等待後端 API 回應", async () => {
+  const page = new FakePage();
+  const ready = new Readiness(page);
+
+  // 觸發操作後回應：方法與路徑皆須相符（忽略 query）
+  const result = await ready.withApiResponse(API_ENDPOINTS.loan, async () => {
+    page.respond("GET", "http://localhost:4000/api/loan", 200);
+    page.respond("POST", "http://localhost:4000/api/loan?dry=1", 400, { message: "已達借款上限" });
+  });
+  expect(result).toMatchObject({ status: 400, message: "已達借款上限" });
+  expect(formatApiResult(API_ENDPOINTS.loan, result)).toMatch(/^POST \/api\/loan → 400（\d+ms） 已達借款上限$/);
+
+  // 回應內容不是 JSON 時不含 message
+  const plain = await ready.withApiResponse(API_ENDPOINTS.avatar, async () => {
+    page.respond("PUT", "http://localhost:4000/api/user/avatar", 200);
+  });
+  expect(plain).not.toHaveProperty("message");
+
+  // 未回應：逾時回傳 null
+  const missing = await ready.withApiResponse(API_ENDPOINTS.contractCancel, async () => {
+    page.respond("POST", "http://localhost:4000/api/trade/contract", 200);
+  }, 50);
+  expect(missing).toBeNull();
+  expect(formatApiResult(API_ENDPOINTS.contractCancel, missing)).toBe("DELETE /api/trade/contract 未在時限內回應");
+
+  console.log("✅ API 回應等待驗證通過");
+});
+
+test("Readiness: 從未出現的事件與端點只逾時一次", async () => {
+  const page = new FakePage();
+  const ready = new Readiness(page);
+  const ws = page.connect();
+  const receive = (payload: string) => ws.emit("framereceived", { payload });
+
+  // 連線已有其他事件、player:assets 從未出現：逾時一次後立即回傳 false，收到後恢復等待
+  receive('42["game:state",{"price":50}]');
+  expect(await ready.waitForSocketEvent("player:assets", { since: 0, timeout: 50 })).toBe(false);
+  let startedAt = Date.now();
+  expect(await ready.waitForSocketEvent("player:assets", { since: 0, timeout: 5000 })).toBe(false);
+  expect(Date.now() - startedAt).toBeLessThan(1000);
+  receive('42["player:assets",{"cash":1000}]');
+  expect(await ready.waitForSocketEvent("player:assets", { since: 0, timeout: 50 })).toBe(true);
+
+  // 從未回應過的端點：逾時一次後觸發即回傳 null；背景收到回應後恢復等待
+  expect(await ready.withApiResponse(API_ENDPOINTS.loan, async () => {}, 50)).toBeNull();
+  startedAt = Date.now();
+  expect(await ready.withApiResponse(API_ENDPOINTS.loan, async () => {}, 5000)).toBeNull();
+  expect(Date.now() - startedAt).toBeLessThan(1000);
+  await ready.withApiResponse(API_ENDPOINTS.loan, async () => {
+    page.respond("POST", "http://localhost:4000/api/loan", 200);
+  });
+  await new Promise((resolve) => setImmediate(resolve));
+  const recovered = ready.withApiResponse(API_ENDPOINTS.loan, async () => {
+    setTimeout(() => page.respond("POST", "http://localhost:4000/api/loan", 200), 20);
+  });
+  expect(await recovered).toMatchObject({ status: 200 });
+
+  // 曾經回應過的端點逾時（後端變慢）不記為缺漏
+  expect(await ready.withApiResponse(API_ENDPOINTS.loan, async () => {}, 50)).toBeNull();
+  const slow = ready.withApiResponse(API_ENDPOINTS.loan, async () => {
+    setTimeout(() => page.respond("POST", "http://localhost:4000/api/loan", 200), 20);
+  });
+  expect(await slow).toMatchObject({ status: 200 });
+
+  console.log("✅ 缺漏事件與端點驗證通過");
+});
+
+test("Readiness: 以 STRESS_API_ROUTES 覆寫端點", async () => {
+  const endpoints = resolveApiEndpoints({ stockTrade: { method: "POST", path: "/api/stock/trade" } });
+  expect(endpoints.stockTrade).toEqual({ method: "POST", path: "/api/stock/trade" });
+  expect(endpoints.loan).toEqual(API_ENDPOINTS.loan);
+  expect(() => resolveApiEndpoints({ trade: { method: "POST", path: "/api/trade" } })).toThrow(/不存在的端點 trade/);
+
+  console.log("✅ 端點覆寫驗證通過");
+});
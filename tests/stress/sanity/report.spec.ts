@@ -0,0 +1,188 @@
+// tests/stress/sanity/report.spec.ts
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { ReportUser, RunReport, writeRunReport } from "../core/ReportWriter";
+
+/**
+ * 執行報告驗證測試
+ * 目的：確認 report.json 的欄位、index.html 的摘要，以及截圖與停滯檔案複製到報告目錄（不需要瀏覽器）
+ */
+
+const STARTED_AT = Date.UTC(2026, 0, 2, 3, 4, 5);
+
+/**
+ * 在暫存目錄執行，測試結束後刪除
+ */
+function withTempDir(run: (dir: string) => void): void {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "stress-report-"));
+  try {
+    run(dir);
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * 產生報告用的虛擬使用者
+ */
+function reportUser(userIndex: number, overrides: Partial<ReportUser> = {}): ReportUser {
+  return {
+    userIndex,
+    persona: "typeA",
+    username: `stress${userIndex}`,
+    employee: false,
+    driver: "browser",
+    strategy: "default",
+    success: true,
+    elapsedMs: 60000,
+    restarts: 0,
+    iterations: 10,
+    counters: { buyCount: 4 },
+    ...overrides,
+  };
+}
+
+test("ReportWriter: 寫入 report.json、index.html 並複製截圖與停滯檔案", async () => {
+  withTempDir((dir) => {
+    // 模擬 GameActions 的失敗截圖與 RunSupervisor 的停滯截圖 / Trace
+    const artifactDir = path.join(dir, "test-results");
+    fs.mkdirSync(artifactDir);
+    const screenshot = path.join(artifactDir, "action-07-buy-error-1.png");
+    const stallShot = path.join(artifactDir, "stall-user-02-1.png");
+    const stallTrace = path.join(artifactDir, "stall-user-02-1-trace.zip");
+    for (const file of [screenshot, stallShot, stallTrace]) fs.writeFileSync(file, "x");
+
+    const metrics = new MetricsCollector();
+    metrics.begin(1, 7, "買入股票", STARTED_AT);
+    metrics.end(1, 7, "買入股票", "success", undefined, STARTED_AT + 100);
+    metrics.begin(2, 7, "買入股票", STARTED_AT + 200);
+    metrics.end(2, 7, "買入股票", "failure", "現金不足", STARTED_AT + 500, "rejected");
+    metrics.attachArtifact(2, 7, "買入股票", screenshot);
+    metrics.recordApiCall({
+      userIndex: 1,
+      method: "POST",
+      endpoint: "/api/trade/buy",
+      url: "http://localhost/api/trade/buy",
+      status: 200,
+      startTime: STARTED_AT,
+      endTime: STARTED_AT + 80,
+      durationMs: 80,
+    });
+    metrics.recordStall({
+      userIndex: 2,
+      time: STARTED_AT + 1000,
+      idleMs: 180000,
+      action: "07 買入股票",
+      decision: "give-up",
+      artifacts: [stallShot, stallTrace, path.join(artifactDir, "missing.png")],
+    });
+
+    const reportRoot = path.join(dir, "reports");
+    const reportDir = writeRunReport(
+      {
+        startedAt: STARTED_AT,
+        endedAt: STARTED_AT + 90000,
+        seed: 42,
+        config: { TOTAL_USERS: 2 },
+        users: [reportUser(1), reportUser(2, { success: false, error: "停滯", restarts: 1, iterations: 3 })],
+        metrics,
+        abortReason: "1 位虛擬使用者停滯後放棄（門檻 1 位）",
+      },
+      reportRoot
+    );
+
+    // 目錄名稱為開始時間
+    expect(reportDir).toBe(path.join(reportRoot, "2026-01-02T03-04-05-000Z"));
+    expect(fs.readdirSync(reportDir).sort()).toEqual(["index.html", "report.json", "screenshots", "stalls"]);
+
+    const report: RunReport = JSON.parse(fs.readFileSync(path.join(reportDir, "report.json"), "utf-8"));
+    expect(report).toMatchObject({
+      startedAt: "2026-01-02T03:04:05.000Z",
+      endedAt: "2026-01-02T03:05:35.000Z",
+      durationMs: 90000,
+      seed: 42,
+      config: { TOTAL_USERS: 2 },
+      phases: [],
+      consistency: [],
+      invariantChecks: [],
+      abortReason: "1 位虛擬使用者停滯後放棄（門檻 1 位）",
+    });
+    expect(report.personas).toEqual([
+      { persona: "typeA", users: 2, employees: 0, bots: 0, iterations: 13, counters: { buyCount: 8 } },
+    ]);
+    expect(report.actions.map((a) => [a.actionName, a.count, a.rejectedCount])).toEqual([["買入股票", 2, 1]]);
+    expect(report.api.map((a) => `${a.method} ${a.endpoint}`)).toEqual(["POST /api/trade/buy"]);
+
+    // 截圖與停滯檔案複製到報告目錄，路徑相對於報告目錄；不存在的檔案略過
+    expect(report.errors).toEqual([
+      {
+        time: "2026-01-02T03:04:05.500Z",
+        userIndex: 2,
+        actionId: 7,
+        actionName: "買入股票",
+        kind: "rejected",
+        reason: "現金不足",
+        screenshots: ["screenshots/action-07-buy-error-1.png"],
+      },
+    ]);
+    expect(report.stalls).toEqual([
+      {
+        time: "2026-01-02T03:04:06.000Z",
+        userIndex: 2,
+        username: "stress2",
+        idleMs: 180000,
+        action: "07 買入股票",
+        decision: "give-up",
+        artifacts: ["stalls/stall-user-02-1.png", "stalls/stall-user-02-1-trace.zip"],
+      },
+    ]);
+    for (const file of [...report.errors[0].screenshots, ...report.stalls[0].artifacts]) {
+      expect(fs.existsSync(path.join(reportDir, file))).toBe(true);
+    }
+
+    const html = fs.readFileSync(path.join(reportDir, "index.html"), "utf-8");
+    expect(html).toContain("壓測已由執行監控中止：1 位虛擬使用者停滯後放棄");
+    expect(html).toContain("虛擬使用者：2 位（失敗 1 位）");
+    expect(html).toContain(`<a href="screenshots/action-07-buy-error-1.png">`);
+    expect(html).toContain(`<a href="stalls/stall-user-02-1-trace.zip">`);
+  });
+
+  console.log("✅ 執行報告寫入驗證通過");
+});
+
+test("ReportWriter: 沒有錯誤與停滯時不建立檔案目錄", async () => {
+  withTempDir((dir) => {
+    const reportDir = writeRunReport(
+      { startedAt: STARTED_AT, endedAt: STARTED_AT, seed: 1, config: {}, users: [reportUser(1)], metrics: new MetricsCollector() },
+      dir
+    );
+
+    expect(fs.readdirSync(reportDir).sort()).toEqual(["index.html", "report.json"]);
+    const report: RunReport = JSON.parse(fs.readFileSync(path.join(reportDir, "report.json"), "utf-8"));
+    expect(report.errors).toEqual([]);
+    expect(report.stalls).toEqual([]);
+    expect(report.abortReason).toBeUndefined();
+    expect(fs.readFileSync(path.join(reportDir, "index.html"), "utf-8")).not.toContain("執行監控中止");
+  });
+
+  console.log("✅ 空報告驗證通過");
+});
+
+test("ReportWriter: Session 準備失敗時標示原因", async () => {
+  withTempDir((dir) => {
+    const reportDir = writeRunReport(
+      { startedAt: STARTED_AT, endedAt: STARTED_AT, seed: 1, config: {}, users: [], metrics: new MetricsCollector(), error: "UI 契約不符" },
+      dir
+    );
+
+    const report: RunReport = JSON.parse(fs.readFileSync(path.join(reportDir, "report.json"), "utf-8"));
+    expect(report.error).toBe("UI 契約不符");
+    expect(report.users).toEqual([]);
+    expect(fs.readFileSync(path.join(reportDir, "index.html"), "utf-8")).toContain("Session 準備失敗：UI 契約不符");
+  });
+
+  console.log("✅ 準備失敗報告驗證通過");
+});
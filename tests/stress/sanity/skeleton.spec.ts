@@ -13,13 +13,15 @@ test("GameActions 實例化與方法呼叫測試", async ({ page }) => {
   // 驗證物件已成功建立
   expect(actions).toBeDefined();
 
-  // 呼叫一個 Stub 方法（應回傳 null 而不報錯）
+  // 呼叫一個 Stub 方法（應回傳失敗結果而不報錯）
   const assets = await actions.readAssets();
-  expect(assets).toBeNull();
+  expect(assets.ok).toBe(false);
+  expect(assets.value).toBeUndefined();
 
-  // 呼叫另一個 Stub 方法（應回傳 false）
+  // 呼叫另一個 Stub 方法（應回傳失敗結果並附上原因）
   const loginResult = await actions.login("testuser", "testpass");
-  expect(loginResult).toBe(false);
+  expect(loginResult.ok).toBe(false);
+  expect(loginResult.ok ? "" : loginResult.message).not.toBe("");
 
   console.log("✅ GameActions 骨架驗證通過");
 });
@@ -0,0 +1,117 @@
+// tests/stress/sanity/socket.spec.ts
+import { test, expect } from "@playwright/test";
+import { EventEmitter } from "events";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { RecordedContext, RecordedPage, RecordedWebSocket, SocketRecorder, decodeSocketIoFrame } from "../core/SocketRecorder";
+
+/**
+ * Socket.io 流量紀錄驗證測試
+ * 目的：確認訊框解碼、推播延遲與斷線 / 重連計算正確（以假的 Page / WebSocket 事件模擬，不需要瀏覽器）
+ */
+
+/**
+ * 模擬 Playwright WebSocket（只實作 SocketRecorder 用到的部分）
+ */
+class FakeWebSocket extends EventEmitter implements RecordedWebSocket {
+  url(): string {
+    return "ws://localhost:4173/socket.io/?EIO=4&transport=websocket";
+  }
+  receive(payload: string): void {
+    this.emit("framereceived", { payload });
+  }
+  send(payload: string): void {
+    this.emit("framesent", { payload });
+  }
+}
+
+/**
+ * 模擬 Playwright Page
+ */
+class FakePage extends EventEmitter implements RecordedPage {
+  closed = false;
+  isClosed(): boolean {
+    return this.closed;
+  }
+  connect(): FakeWebSocket {
+    const ws = new FakeWebSocket();
+    this.emit("websocket", ws);
+    return ws;
+  }
+}
+
+/**
+ * 模擬 Playwright BrowserContext（尚未開啟任何頁面）
+ */
+class FakeContext extends EventEmitter implements RecordedContext {
+  pages(): FakePage[] {
+    return [];
+  }
+}
+
+test("SocketRecorder: Socket.io 訊框解碼", async () => {
+  expect(decodeSocketIoFrame('42["game:state",{"price":50}]')).toEqual({ event: "game:state", args: [{ price: 50 }], namespace: "/" });
+  expect(decodeSocketIoFrame('42/admin,7["quiz:answer",{"option":"A"}]')).toEqual({
+    event: "quiz:answer",
+    args: [{ option: "A" }],
+    namespace: "/admin",
+  });
+  expect(decodeSocketIoFrame('430[{"ok":true}]')).toMatchObject({ event: "(ack)", args: [{ ok: true }] });
+  expect(decodeSocketIoFrame('40{"sid":"abc"}')).toMatchObject({ event: "(connect)" });
+  expect(decodeSocketIoFrame('451-["upload",{"_placeholder":true,"num":0}]')).toMatchObject({ event: "upload" });
+
+  // Engine.io 控制封包、二進位訊框與格式錯誤皆略過
+  expect(decodeSocketIoFrame('0{"sid":"abc"}')).toBeNull();
+  expect(decodeSocketIoFrame("2")).toBeNull();
+  expect(decodeSocketIoFrame(Buffer.from([1, 2, 3]))).toBeNull();
+  expect(decodeSocketIoFrame("42[not json")).toBeNull();
+
+  console.log("✅ Socket.io 訊框解碼驗證通過");
+});
+
+test("SocketRecorder: 事件統計、推播延遲與斷線重連", async () => {
+  const metrics = new MetricsCollector();
+  const context = new FakeContext();
+  const recorder = new SocketRecorder(1, metrics, "game:state");
+  recorder.attach(context);
+
+  const page = new FakePage();
+  context.emit("page", page);
+  const ws = page.connect();
+
+  // tick 之後的第一個 player:assets 計算延遲，同一 tick 內的第二個不計
+  const tickAt = Date.now();
+  ws.receive(`42["game:state",{"price":50,"serverTime":${tickAt - 30}}]`);
+  ws.receive('42["player:assets",{"cash":1000}]');
+  ws.receive('42["player:assets",{"cash":900}]');
+  ws.send('420["quiz:answer",{"option":"A"}]');
+  ws.receive('430[{"ok":true,"message":"成功"}]');
+  ws.receive("3"); // Engine.io pong 不列入
+
+  // 頁面仍開啟時斷線 → 之後的新連線視為重連
+  ws.emit("close");
+  page.connect().receive('42["game:state",{"price":51}]');
+
+  // 停止紀錄後的關閉不視為斷線
+  recorder.stop();
+  page.closed = true;
+  ws.emit("close");
+
+  const summary = metrics.summarizeSocket();
+  expect(summary).toMatchObject({ connects: 2, disconnects: 1, reconnects: 1 });
+
+  const byEvent = (direction: string, event: string) => summary.events.find((e) => e.direction === direction && e.event === event);
+  expect(byEvent("received", "game:state")).toMatchObject({ count: 2, users: 1 });
+  expect(byEvent("received", "game:state")!.lagP50).toBeGreaterThanOrEqual(30);
+  expect(byEvent("received", "player:assets")!.count).toBe(2);
+  expect(byEvent("received", "player:assets")!.lagMax).toBeLessThan(1000);
+  expect(byEvent("sent", "quiz:answer")).toMatchObject({ count: 1, lagP50: 0 });
+  expect(byEvent("received", "(ack)")!.count).toBe(1);
+  expect(summary.events.map((e) => `${e.direction} ${e.event}`)).toEqual([
+    "sent quiz:answer",
+    "received (ack)",
+    "received game:state",
+    "received player:assets",
+  ]);
+
+  console.log("✅ Socket.io 流量統計驗證通過");
+});
@@ -0,0 +1,89 @@
+// tests/stress/sanity/state-verifier.spec.ts
+import { test, expect } from "@playwright/test";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { LedgerSnapshot, compareLedger, describeChange } from "../core/StateVerifier";
+
+/**
+ * 後端狀態驗證測試
+ * 目的：確認帳務快照的比對規則與一致性統計正確（不需要瀏覽器）
+ */
+
+const BASE: LedgerSnapshot = {
+  cash: 10000,
+  stockCount: 2,
+  debt: 0,
+  contracts: [{ type: "LONG", leverage: 10, amount: 1, margin: 10, day: 2 }],
+  price: 100,
+  day: 3,
+};
+
+function after(patch: Partial<LedgerSnapshot>): LedgerSnapshot {
+  return { ...BASE, ...patch };
+}
+
+test("StateVerifier: 現貨買賣以股價區間推算成交價", async () => {
+  // 買入 2 張，Action 期間股價 100 → 102，成交價 101 落在區間內
+  const buy = compareLedger(BASE, after({ cash: 9798, stockCount: 4, price: 102 }), { kind: "stock", side: "BUY", amount: 2 });
+  expect(buy).toEqual({ status: "match", mismatches: [] });
+
+  // 賣出 1 張，現金增加 100
+  const sell = compareLedger(BASE, after({ cash: 10100, stockCount: 1 }), { kind: "stock", side: "SELL", amount: 1 });
+  expect(sell.status).toBe("match");
+
+  // 畫面顯示成功但後端沒有扣款（成交價推算為 0）、持股只加 1 張
+  const broken = compareLedger(BASE, after({ stockCount: 3 }), { kind: "stock", side: "BUY", amount: 2 });
+  expect(broken.status).toBe("mismatch");
+  expect(broken.mismatches).toEqual([
+    "持股變化 +1，預期 +2",
+    "現金變化 +0，推算成交價 0 不在股價區間 95 ~ 105",
+  ]);
+
+  console.log("✅ 現貨買賣比對規則驗證通過");
+});
+
+test("StateVerifier: 合約開倉、撤銷與借還款", async () => {
+  const opened = after({
+    cash: 9980,
+    contracts: [...BASE.contracts, { type: "SHORT", leverage: 5, amount: 1, margin: 20, day: 3 }],
+  });
+  expect(compareLedger(BASE, opened, { kind: "contractOpen", type: "SHORT", leverage: 5, amount: 1 }).status).toBe("match");
+
+  // 新合約方向不符、保證金未扣
+  const wrong = compareLedger(BASE, { ...opened, cash: 10000 }, { kind: "contractOpen", type: "LONG", leverage: 5, amount: 1 });
+  expect(wrong.mismatches).toEqual(["新合約為 SHORT 5倍 1張，預期 LONG 5倍 1張", "現金變化 +0，預期 -20"]);
+
+  // 撤銷只退還今日（第 3 天）合約的保證金，前一天的合約保留
+  expect(compareLedger(opened, after({}), { kind: "contractCancel" }).status).toBe("match");
+  expect(compareLedger(opened, after({ cash: 9980 }), { kind: "contractCancel" }).mismatches).toEqual(["現金變化 +0，預期 +20"]);
+
+  expect(compareLedger(BASE, after({ cash: 10500, debt: 500 }), { kind: "loan", action: "BORROW", amount: 500 }).status).toBe("match");
+  expect(compareLedger(BASE, after({ cash: 9500 }), { kind: "loan", action: "REPAY", amount: 500 }).mismatches).toEqual([
+    "負債變化 +0，預期 -500",
+  ]);
+
+  // Action 期間跨日結算：無法判斷，略過
+  const nextDay = compareLedger(BASE, after({ day: 4, stockCount: 3 }), { kind: "stock", side: "BUY", amount: 2 });
+  expect(nextDay.status).toBe("skipped");
+
+  expect(describeChange({ kind: "loan", action: "REPAY", amount: 500 })).toBe("還款 $500");
+
+  console.log("✅ 合約與借還款比對規則驗證通過");
+});
+
+test("MetricsCollector: 依 Action 彙總一致性驗證", async () => {
+  const metrics = new MetricsCollector();
+  metrics.setPhase("hold");
+
+  const record = { userIndex: 1, actionId: 6, actionName: "買入股票", time: 0, expected: "買入 1 張", mismatches: [] };
+  metrics.recordConsistency({ ...record, status: "match" });
+  metrics.recordConsistency({ ...record, status: "mismatch", mismatches: ["持股變化 +0，預期 +1"] });
+  metrics.recordConsistency({ ...record, actionId: 11, actionName: "借/還錢", status: "skipped" });
+
+  expect(metrics.summarizeConsistency()).toEqual([
+    { actionId: 6, actionName: "買入股票", checks: 2, matchCount: 1, mismatchCount: 1, skippedCount: 0 },
+    { actionId: 11, actionName: "借/還錢", checks: 1, matchCount: 0, mismatchCount: 0, skippedCount: 1 },
+  ]);
+  expect(metrics.getConsistencyRecords().every((r) => r.phase === "hold")).toBe(true);
+
+  console.log("✅ 一致性驗證彙總通過");
+});
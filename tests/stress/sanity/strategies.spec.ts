@@ -0,0 +1,134 @@
+// tests/stress/sanity/strategies.spec.ts
+import { test, expect } from "@playwright/test";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  DEFAULT_STRATEGIES,
+  decideContract,
+  decideLoan,
+  decideSpot,
+  loadStrategyFile,
+  pickChoice,
+  resolveStrategy,
+} from "../scenarios/strategies";
+
+/**
+ * 角色策略引擎驗證測試
+ * 目的：確認預設策略與既有行為一致、JSON 驗證能擋下錯誤設定（不需要瀏覽器）
+ */
+
+/**
+ * 依序回傳指定數值的隨機數來源
+ */
+function sequence(...values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+/**
+ * 將策略內容寫入暫存檔並回傳路徑
+ */
+function writeTempStrategies(content: unknown): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "strategies-"));
+  const file = path.join(dir, "user-strategies.json");
+  fs.writeFileSync(file, typeof content === "string" ? content : JSON.stringify(content), "utf-8");
+  return file;
+}
+
+test("Strategies: 預設策略決策與既有行為一致", async () => {
+  const spot = DEFAULT_STRATEGIES.typeA;
+
+  // 現金 1000、股價 50：超過 2 張門檻 → 買入 1-5 張
+  expect(decideSpot(spot, { cash: 1000, stockCount: 0, stockPrice: 50 }, sequence(0))).toEqual({
+    action: "BUY",
+    amount: 1,
+    threshold: 100,
+  });
+  expect(decideSpot(spot, { cash: 1000, stockCount: 0, stockPrice: 50 }, sequence(0.999))).toMatchObject({ amount: 5 });
+  // 只買得起 3 張時不超過 3 張
+  expect(decideSpot(spot, { cash: 160, stockCount: 0, stockPrice: 50 }, sequence(0.999))).toMatchObject({ amount: 3 });
+  // 現金不足：有持股賣 1 張，無持股持有
+  expect(decideSpot(spot, { cash: 80, stockCount: 4, stockPrice: 50 })).toMatchObject({ action: "SELL", amount: 1 });
+  expect(decideSpot(spot, { cash: 80, stockCount: 0, stockPrice: 50 })).toMatchObject({ action: "HOLD" });
+
+  // 20% 撤單 / 80% 開倉，槓桿 1-5 倍，每次 1 張
+  expect(decideContract(DEFAULT_STRATEGIES.typeB, sequence(0.1)).action).toBe("CANCEL");
+  expect(decideContract(DEFAULT_STRATEGIES.typeB, sequence(0.5, 0.2, 0.999))).toEqual({
+    action: "OPEN",
+    roll: 0.5,
+    type: "LONG",
+    leverage: 5,
+    amount: 1,
+  });
+
+  // 無負債借 $100；有負債且現金足夠還 $100（不超過負債）
+  expect(decideLoan(DEFAULT_STRATEGIES.typeC, { cash: 1000, debt: 0 })).toEqual({ action: "BORROW", amount: 100 });
+  expect(decideLoan(DEFAULT_STRATEGIES.typeC, { cash: 1000, debt: 40 })).toEqual({ action: "REPAY", amount: 40 });
+  expect(decideLoan(DEFAULT_STRATEGIES.typeC, { cash: 50, debt: 105 })).toEqual({ action: "IDLE" });
+
+  // 平均權重：四個選項都可能被選到
+  expect([0, 0.3, 0.6, 0.9].map((r) => pickChoice(DEFAULT_STRATEGIES.typeD.optionWeights, sequence(r)))).toEqual([
+    "A",
+    "B",
+    "C",
+    "D",
+  ]);
+
+  console.log("✅ 預設策略決策驗證通過");
+});
+
+test("Strategies: 讀取 JSON 並依權重抽選策略", async () => {
+  const file = writeTempStrategies({
+    typeA: { buyMax: 2 },
+    typeB: [
+      { name: "保守", weight: 3, leverageMax: 2 },
+      { name: "激進", weight: 1, leverageMin: 4, cancelProbability: 0 },
+    ],
+    typeE: { betAmount: 200, optionWeights: { C: 1 } },
+  });
+  const strategies = loadStrategyFile(file);
+
+  // 單一策略：覆蓋部分參數，其餘沿用預設
+  const spot = resolveStrategy("typeA", strategies);
+  expect(spot).toEqual({ ...DEFAULT_STRATEGIES.typeA, buyMax: 2, name: "custom" });
+
+  // 多組策略：權重 3:1（random < 0.75 抽到保守）
+  expect(resolveStrategy("typeB", strategies, sequence(0.5)).name).toBe("保守");
+  const aggressive = resolveStrategy("typeB", strategies, sequence(0.9));
+  expect(aggressive).toMatchObject({ name: "激進", leverageMin: 4, leverageMax: 5, cancelProbability: 0 });
+  expect(aggressive).not.toHaveProperty("weight");
+
+  // 只設定 C 的權重 → 一律選 C
+  const minority = resolveStrategy("typeE", strategies);
+  expect(minority.betAmount).toBe(200);
+  expect(pickChoice(minority.optionWeights, sequence(0.01))).toBe("C");
+
+  // 未設定的角色與不存在的檔案皆使用預設策略
+  expect(resolveStrategy("typeC", strategies)).toEqual(DEFAULT_STRATEGIES.typeC);
+  expect(loadStrategyFile(path.join(os.tmpdir(), "not-exists", "user-strategies.json"))).toEqual({});
+
+  console.log("✅ 策略檔讀取與抽選驗證通過");
+});
+
+test("Strategies: 錯誤設定在載入時拋出錯誤", async () => {
+  const cases: Array<[unknown, RegExp]> = [
+    ["{ typeA: ", /不是合法的 JSON/],
+    [{ typeF: {} }, /未知的角色 typeF/],
+    [{ typeA: { buyMaxx: 3 } }, /typeA\.buyMaxx 不是 typeA 的策略參數/],
+    [{ typeB: { cancelProbability: 1.5 } }, /typeB\.cancelProbability 必須介於 0 與 1 之間/],
+    [{ typeB: [{ leverageMin: 4, leverageMax: 2 }] }, /typeB\[0\] 的 leverageMin \/ leverageMax 下限大於上限/],
+    [{ typeA: { buyMin: 6 } }, /buyMin \/ buyMax 下限大於上限/],
+    [{ typeD: { optionWeights: { E: 1 } } }, /typeD\.optionWeights/],
+    [{ typeA: { quizPolicy: "ignore" } }, /typeA\.quizPolicy 必須為 "play" 或 "collapse"/],
+    [{ typeD: { minorityPolicy: "play" } }, /typeD\.minorityPolicy 不是 typeD 的策略參數/],
+    [{ typeC: [] }, /typeC 不可為空陣列/],
+    [{ typeE: [{ weight: 0 }, { weight: 0 }] }, /所有策略 weight 皆為 0/],
+  ];
+
+  for (const [content, message] of cases) {
+    expect(() => loadStrategyFile(writeTempStrategies(content))).toThrow(message);
+  }
+
+  console.log("✅ 策略檔驗證錯誤訊息驗證通過");
+});
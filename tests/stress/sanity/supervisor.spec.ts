@@ -0,0 +1,108 @@
+// tests/stress/sanity/supervisor.spec.ts
+import { test, expect } from "@playwright/test";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { RunSupervisor } from "../core/RunSupervisor";
+
+/**
+ * 執行監控驗證測試
+ * 目的：確認停滯判定以最近一次成功的 Action 為準，停滯後依次數上限重新啟動或放棄，
+ * 放棄人數達門檻時中止整場壓測（以指定時間呼叫 check()，不需要瀏覽器也不必真的等待）
+ */
+
+test("MetricsCollector: 最近一次成功的 Action", async () => {
+  const metrics = new MetricsCollector();
+  expect(metrics.lastSuccessAt(1)).toBeUndefined();
+
+  metrics.begin(1, 7, "買入股票", 1000);
+  metrics.end(1, 7, "買入股票", "success", undefined, 1500);
+  expect(metrics.lastSuccessAt(1)).toBe(1500);
+
+  // 失敗不更新；有限等待如期逾時視為正常活動
+  metrics.begin(1, 7, "買入股票", 2000);
+  metrics.end(1, 7, "買入股票", "failure", "逾時", 2500, "timeout");
+  expect(metrics.lastSuccessAt(1)).toBe(1500);
+  metrics.begin(1, 14, "等待問答開始", 3000);
+  metrics.discard(1, 14, "等待問答開始", 3500);
+  expect(metrics.lastSuccessAt(1)).toBe(3500);
+
+  console.log("✅ 最近一次成功 Action 驗證通過");
+});
+
+test("RunSupervisor: 停滯後重新啟動，超過上限即放棄並中止", async () => {
+  const metrics = new MetricsCollector();
+  const supervisor = new RunSupervisor(metrics, { stallMs: 1000, maxRestarts: 1, abortShare: 0.5, totalUsers: 4 });
+  const interrupted: number[] = [];
+  const watch = (userIndex: number, now: number) =>
+    supervisor.watch(userIndex, { interrupt: () => void interrupted.push(userIndex) }, now);
+
+  watch(1, 0);
+  watch(2, 0);
+  metrics.begin(2, 7, "買入股票", 100);
+  metrics.end(2, 7, "買入股票", "success", undefined, 600);
+
+  // User 1 開始後沒有任何成功的 Action；User 2 於 600 成功，尚未停滯
+  metrics.begin(1, 7, "買入股票", 200);
+  const first = await supervisor.check(1000);
+  expect(first).toEqual([{ userIndex: 1, time: 1000, idleMs: 1000, action: "07 買入股票", decision: "restart", artifacts: [] }]);
+  expect(interrupted).toEqual([1]);
+  expect(supervisor.takeDecision(1)).toBe("restart");
+  expect(supervisor.takeDecision(1)).toBeUndefined();
+
+  // User 2 於 1600 停滯（重新啟動次數以使用者計，第 1 次仍可重新啟動）
+  watch(1, 1000);
+  await supervisor.check(1600);
+  expect(supervisor.takeDecision(2)).toBe("restart");
+  watch(2, 1600);
+
+  // User 1 重新啟動後再次停滯：已達上限，放棄；放棄 1 位未達中止門檻（4 × 0.5 = 2 位）
+  await supervisor.check(2000);
+  expect(supervisor.takeDecision(1)).toBe("give-up");
+  expect(supervisor.signal.aborted).toBe(false);
+
+  // User 2 也放棄 → 達門檻，中止整場壓測
+  await supervisor.check(2600);
+  expect(supervisor.takeDecision(2)).toBe("give-up");
+  expect(supervisor.signal.aborted).toBe(true);
+  expect(supervisor.abortReason).toBe("2 位虛擬使用者停滯後放棄（門檻 2 位）");
+
+  expect(interrupted).toEqual([1, 2, 1, 2]);
+  expect(metrics.getStalls().map((s) => `${s.userIndex} ${s.decision}`)).toEqual([
+    "1 restart",
+    "2 restart",
+    "1 give-up",
+    "2 give-up",
+  ]);
+
+  console.log("✅ 停滯處置與中止驗證通過");
+});
+
+test("RunSupervisor: 等待遊戲開始的門檻加上 gameStartMs，已取消監控的使用者不判定停滯", async () => {
+  const metrics = new MetricsCollector();
+  const supervisor = new RunSupervisor(metrics, { stallMs: 1000, gameStartMs: 4000, maxRestarts: 0, totalUsers: 4 });
+  let interrupts = 0;
+
+  // 等待遊戲開始：門檻為 4000 + 1000 毫秒，超過後與其他 Action 一樣判定停滯
+  supervisor.watch(1, { interrupt: () => void interrupts++ }, 0);
+  metrics.begin(1, 0, "等待遊戲開始", 0);
+  expect(await supervisor.check(4500)).toEqual([]);
+  expect(await supervisor.check(5000)).toEqual([
+    { userIndex: 1, time: 5000, idleMs: 5000, action: "00 等待遊戲開始", decision: "give-up", artifacts: [] },
+  ]);
+  expect(supervisor.takeDecision(1)).toBe("give-up");
+
+  // 遊戲開始後恢復一般門檻
+  supervisor.watch(3, { interrupt: () => void interrupts++ }, 5000);
+  metrics.begin(3, 0, "等待遊戲開始", 5000);
+  metrics.end(3, 0, "等待遊戲開始", "success", undefined, 6000);
+  metrics.begin(3, 7, "買入股票", 6000);
+  expect(await supervisor.check(6900)).toEqual([]);
+  expect(await supervisor.check(7000)).toHaveLength(1);
+
+  // 角色結束後取消監控，不再檢查
+  const unwatch = supervisor.watch(2, { interrupt: () => void interrupts++ }, 0);
+  await unwatch();
+  expect(await supervisor.check(10000)).toEqual([]);
+  expect(interrupts).toBe(2);
+
+  console.log("✅ 等待遊戲開始門檻與取消監控驗證通過");
+});
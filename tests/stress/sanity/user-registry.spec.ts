@@ -0,0 +1,109 @@
+// tests/stress/sanity/user-registry.spec.ts
+import { test, expect } from "@playwright/test";
+import { spawnSync } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { User, UserRegistry } from "../core/UserRegistry";
+
+/**
+ * 帳號登錄表驗證測試
+ * 目的：確認 users.json 在同時寫入時不會遺失資料，且租用的帳號不會重複指派（不需要瀏覽器）
+ */
+
+/**
+ * 在暫存目錄建立 users.json，測試結束後刪除
+ */
+function withTempFile(run: (filePath: string) => Promise<void>): Promise<void> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "stress-users-"));
+  return run(path.join(dir, "users.json")).finally(() => fs.rmSync(dir, { recursive: true, force: true }));
+}
+
+/**
+ * 產生 n 個已註冊帳號
+ */
+function accounts(n: number): User[] {
+  return Array.from({ length: n }, (_, i) => ({ username: `stress${i + 1}`, password: "Test1234", registered: true }));
+}
+
+test("UserRegistry: 同時寫入不會遺失資料", async () => {
+  await withTempFile(async (filePath) => {
+    const registry = new UserRegistry(filePath);
+    expect(registry.read()).toEqual([]);
+
+    // 模擬多個 BrowserContext 同時註冊完成
+    await Promise.all(accounts(20).map((u) => new UserRegistry(filePath).upsert(u)));
+    expect(registry.read()).toHaveLength(20);
+
+    // 重複的帳號合併為一筆，位置不變
+    const index = registry.read().findIndex((u) => u.username === "stress5");
+    await registry.upsert({ username: "stress5", password: "Changed1", registered: false });
+    const users = registry.read();
+    expect(users).toHaveLength(20);
+    expect(users[index]).toEqual({ username: "stress5", password: "Changed1", registered: false });
+
+    // 不殘留檔案鎖與暫存檔
+    expect(fs.readdirSync(path.dirname(filePath))).toEqual(["users.json"]);
+  });
+
+  console.log("✅ 同時寫入驗證通過");
+});
+
+test("UserRegistry: 租用的帳號不會重複指派", async () => {
+  await withTempFile(async (filePath) => {
+    const registry = new UserRegistry(filePath);
+    await Promise.all(accounts(5).map((u) => registry.upsert(u)));
+    await registry.upsert({ username: "pending", password: "Test1234", registered: false });
+
+    // 兩位租用者同時租用，帳號不重疊
+    const [first, second] = await Promise.all([registry.lease("spec-a", 2), registry.lease("spec-b", 2)]);
+    const leased = [...first, ...second].map((u) => u.username);
+    expect(new Set(leased).size).toBe(4);
+    expect(registry.available().map((u) => u.username)).toEqual(
+      ["stress1", "stress2", "stress3", "stress4", "stress5"].filter((u) => !leased.includes(u))
+    );
+
+    // 可用帳號不足時整批失敗，不租用任何帳號；未註冊帳號不會被租用
+    await expect(registry.lease("spec-c", 2)).rejects.toThrow(/可用帳號不足：需要 2 個，已註冊且未被租用的只有 1 個（另有 4 個租用中）/);
+    expect(registry.available()).toHaveLength(1);
+
+    // 歸還後可再次租用；租用中的帳號 upsert 後仍保留租用紀錄
+    await registry.upsert({ username: first[0].username, password: "Test1234", registered: true });
+    expect(registry.find(first[0].username)?.lease?.owner).toBe("spec-a");
+    expect(await registry.release("spec-a")).toBe(2);
+    expect(registry.available()).toHaveLength(3);
+  });
+
+  console.log("✅ 帳號租用驗證通過");
+});
+
+test("UserRegistry: 逾期租用與殘留檔案鎖自動回收", async () => {
+  await withTempFile(async (filePath) => {
+    const now = Date.now();
+    const deadPid = spawnSync(process.execPath, ["-e", ""]).pid; // 已結束的程序
+    fs.writeFileSync(
+      filePath,
+      JSON.stringify([
+        { ...accounts(1)[0], lease: { owner: "expired", pid: process.pid, leasedAt: now - 10000, expiresAt: now - 1 } },
+        { ...accounts(2)[1], lease: { owner: "crashed", pid: deadPid, leasedAt: now, expiresAt: now + 60000 } },
+      ])
+    );
+
+    // 異常結束留下的檔案鎖超過 staleLockMs 後移除
+    const lockPath = `${filePath}.lock`;
+    fs.writeFileSync(lockPath, String(deadPid));
+    const staleTime = new Date(now - 60 * 1000);
+    fs.utimesSync(lockPath, staleTime, staleTime);
+
+    const registry = new UserRegistry(filePath, { staleLockMs: 1000, lockTimeoutMs: 2000 });
+    expect(registry.available()).toHaveLength(2);
+    expect((await registry.lease("spec", 2)).map((u) => u.lease?.owner)).toEqual(["spec", "spec"]);
+    expect(fs.existsSync(lockPath)).toBe(false);
+
+    // 持有中的檔案鎖在 lockTimeoutMs 內未釋放時逾時
+    fs.writeFileSync(lockPath, String(process.pid));
+    await expect(new UserRegistry(filePath, { lockTimeoutMs: 200 }).release("spec")).rejects.toThrow(/等待 users\.json\.lock 逾時/);
+  });
+
+  console.log("✅ 逾期租用與檔案鎖回收驗證通過");
+});
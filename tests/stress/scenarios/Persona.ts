@@ -0,0 +1,506 @@
+// tests/stress/scenarios/Persona.ts
+import { ActionResult, describeResult } from "../core/ActionResult";
+import { GameDriver, MiniGameKind } from "../core/GameDriver";
+import { ActionFailureKind } from "../core/MetricsCollector";
+import { RandomSource } from "../core/Random";
+import { TEST_END_DAY } from "../config";
+import { BaseStrategy, MiniGameHandling, MiniGamePolicy, pickChoice } from "./strategies";
+
+/**
+ * 角色執行框架
+ *
+ * 五種角色（personas.ts）共用的流程：登入 → 等待遊戲開始 → 迴圈直到終止條件 → 輸出統計。
+ * 每個角色只實作生命週期 Hook 中的決策邏輯：
+ * - onStart：遊戲開始後執行一次
+ * - tick：每次迭代的決策 / 動作（interval 節奏每 intervalMs 一次；小遊戲節奏在每次等待小遊戲前執行）
+ * - onQuizStart / onMinorityStart：偵測到機智問答 / 少數決開始（交易中遇到的小遊戲依 quizPolicy / minorityPolicy 決定是否參加）
+ * - onDayChange：遊戲換日
+ * - onStop：達到終止條件、迴圈結束後執行一次
+ * 計數器（counterLabels）、失敗分類、落後排程、小遊戲 Overlay 處理與 Log 前綴由框架統一處理，新增角色只需撰寫決策邏輯。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 角色執行統計（寫入執行報告）
+ */
+export interface PersonaStats {
+  iterations: number; // 迭代次數（User D/E 為參與場次）
+  counters: Record<string, number>; // 角色專屬計數器（例如 buyCount、borrowCount）與失敗分類計數（rejectedCount 等）
+}
+
+/**
+ * 執行終止條件（任一條件達成即結束）
+ * - endDay：遊戲進入此天數時結束（多人壓測使用 TEST_END_DAY）
+ * - duration：執行時長上限（毫秒，單一角色驗證測試或安全上限使用）
+ * - signal：中止訊號（負載模型排程離場、執行監控中斷停滯的使用者或中止整場壓測時由 orchestrator 觸發）
+ */
+export interface RunLimit {
+  endDay?: number;
+  duration?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * 預設終止條件：跑完 config.ts 設定的遊戲天數
+ */
+export const DEFAULT_RUN_LIMIT: RunLimit = { endDay: TEST_END_DAY };
+
+/**
+ * 角色的主要節奏
+ * - interval：每 strategy.intervalMs 執行一次 tick（User A/B/C）
+ * - quiz / minority：阻塞等待小遊戲開始，開始時觸發 onQuizStart / onMinorityStart（User D/E），參與場次即迭代次數
+ */
+export type PersonaRhythm = "interval" | "quiz" | "minority";
+
+/**
+ * tick 的回傳值："skip" 表示本次迭代無法完成（例如讀取資產失敗），等待 RETRY_DELAY 後直接進入下一次迭代
+ */
+export type TickOutcome = void | "skip";
+
+/**
+ * 失敗分類計數器（併入 PersonaStats.counters）
+ */
+type FailureCounters = Record<"rejectedCount" | "timeoutCount" | "errorCount", number>;
+
+/**
+ * 小遊戲等待的輪詢間隔（毫秒）
+ * 小遊戲節奏的角色每隔此時間從阻塞等待中返回，重新檢查終止條件
+ */
+const MINI_GAME_POLL_INTERVAL = 30 * 1000;
+
+/**
+ * tick 回傳 "skip" 後的重試間隔（毫秒）
+ */
+const RETRY_DELAY = 1000;
+
+/**
+ * 小遊戲結束後回到等待前的緩衝（毫秒，確保 UI 穩定）
+ */
+const MINI_GAME_SETTLE_DELAY = 1000;
+
+/**
+ * 失敗分類 → 計數器名稱
+ */
+const FAILURE_COUNTER_KEYS: Record<ActionFailureKind, keyof FailureCounters> = {
+  rejected: "rejectedCount",
+  timeout: "timeoutCount",
+  error: "errorCount",
+};
+
+/**
+ * 小遊戲名稱（用於 Log）
+ */
+const MINI_GAME_NAMES: Record<MiniGameKind, string> = {
+  quiz: "問答",
+  minority: "少數決",
+};
+
+// ==================== 工具函數 ====================
+
+/**
+ * 等待指定時間（GameDriver 不一定有 Page，不使用 page.waitForTimeout）
+ * @param signal 中止訊號（觸發時立即結束等待）
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.resolve();
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * 描述終止條件（用於開始時的 Log）
+ */
+function describeLimit(limit: RunLimit): string {
+  const parts: string[] = [];
+  if (limit.endDay !== undefined) parts.push(`執行至第 ${limit.endDay} 天`);
+  if (limit.duration !== undefined) parts.push(`最多 ${limit.duration / 1000} 秒`);
+  if (limit.signal !== undefined) parts.push("可由負載排程或執行監控中止");
+  return parts.join("，") || "無終止條件";
+}
+
+// ==================== Persona ====================
+
+/**
+ * Persona 基底類別
+ * @template S 角色策略型別（strategies.ts）
+ */
+export abstract class Persona<S extends BaseStrategy & { intervalMs?: number } & Partial<MiniGameHandling>> {
+  /** 角色代號（Log 前綴，例如 "A" → [User A]） */
+  protected abstract readonly code: string;
+  /** 角色名稱（開始時的 Log，例如「現貨交易策略」） */
+  protected abstract readonly title: string;
+  /** 計數器名稱 → 中文說明（依序列入統計 Log 與 PersonaStats.counters，初始為 0） */
+  protected abstract readonly counterLabels: Record<string, string>;
+  /** 主要節奏（預設 interval） */
+  protected readonly rhythm: PersonaRhythm = "interval";
+
+  private counters: Record<string, number> = {};
+  private failures: FailureCounters = { rejectedCount: 0, timeoutCount: 0, errorCount: 0 };
+  private iterations = 0;
+  private lateCount = 0; // 迭代耗時超過 intervalMs 的次數（僅 interval 節奏）
+  private miniGamePlayCount = 0; // 依策略參加的小遊戲 Overlay 場數（不含角色本身節奏的小遊戲）
+  private miniGameCollapseCount = 0; // 直接收起的小遊戲 Overlay 場數
+  private currentDay = 0;
+  private startTime = 0;
+  private limit: RunLimit = DEFAULT_RUN_LIMIT;
+
+  /**
+   * @param actions 遊戲操作介面（GameActions、ProtocolBot 等 GameDriver 實作，指標記錄由實作負責）
+   * @param userIndex 使用者編號
+   * @param username 使用者帳號
+   * @param strategy 角色策略
+   * @param random 隨機數來源（此使用者的種子串流）
+   */
+  constructor(
+    protected actions: GameDriver,
+    protected userIndex: number,
+    protected username: string,
+    protected strategy: S,
+    protected random: RandomSource
+  ) {}
+
+  // ==================== 生命週期 Hook ====================
+
+  /**
+   * 遊戲開始後執行一次
+   */
+  protected async onStart(): Promise<void> {}
+
+  /**
+   * 每次迭代的決策 / 動作
+   */
+  protected async tick(): Promise<TickOutcome> {}
+
+  /**
+   * 偵測到機智問答開始
+   * 預設：平均隨機作答並等待結果（交易角色 quizPolicy 為 play 時使用）
+   */
+  protected async onQuizStart(): Promise<void> {
+    const choice = pickChoice({}, this.random);
+    this.log(`🎲 隨機作答：${choice}`);
+    const answerResult = this.track(await this.actions.answerQuiz(choice));
+    if (!answerResult.ok) {
+      this.warn(`提交答案失敗（${describeResult(answerResult)}）`);
+      return;
+    }
+    this.track(await this.actions.waitQuizResultAndReport());
+  }
+
+  /**
+   * 偵測到少數決開始
+   * 預設：以 minorityBetAmount 平均隨機下注並等待結果（交易角色 minorityPolicy 為 play 時使用）
+   */
+  protected async onMinorityStart(): Promise<void> {
+    const amount = this.strategy.minorityBetAmount;
+    if (amount === undefined) {
+      this.warn("策略未設定 minorityBetAmount，不下注");
+      return;
+    }
+
+    const choice = pickChoice({}, this.random);
+    this.log(`🎲 隨機下注：${choice}，金額 $${amount}`);
+    const betResult = this.track(await this.actions.betMinority(choice, amount));
+    if (!betResult.ok) {
+      this.warn(`下注失敗（${describeResult(betResult)}）`);
+      return;
+    }
+    this.track(await this.actions.waitMinorityResultAndReport());
+  }
+
+  /**
+   * 遊戲換日（首次讀到天數時不觸發）
+   * @param day 新的天數
+   * @param previousDay 前一次讀到的天數
+   */
+  protected async onDayChange(day: number, previousDay: number): Promise<void> {
+    this.log(`📅 進入第 ${day} 天（前一次為第 ${previousDay} 天）`);
+  }
+
+  /**
+   * 達到終止條件、迴圈結束後執行一次
+   */
+  protected async onStop(): Promise<void> {}
+
+  // ==================== 共用工具 ====================
+
+  /**
+   * Log 前綴，例如 "[User A][testuser1]"
+   */
+  protected get label(): string {
+    return `[User ${this.code}][${this.username}]`;
+  }
+
+  protected log(message: string): void {
+    console.log(`${this.label} ${message}`);
+  }
+
+  protected warn(message: string): void {
+    console.warn(`${this.label} ⚠️ ${message}`);
+  }
+
+  /**
+   * 累加角色計數器
+   */
+  protected count(counter: string, amount: number = 1): void {
+    this.counters[counter] = (this.counters[counter] ?? 0) + amount;
+  }
+
+  /**
+   * 依失敗分類累計（成功結果不計）並原樣回傳結果
+   * 規則拒絕（現金不足、借款上限等）是預期中的遊戲回應，逾時與錯誤才代表系統或 UI 問題
+   */
+  protected track<T>(result: ActionResult<T>): ActionResult<T> {
+    if (!result.ok) this.failures[FAILURE_COUNTER_KEYS[result.status]]++;
+    return result;
+  }
+
+  /**
+   * 目前迭代次數（小遊戲節奏為參與場次）
+   */
+  protected get iteration(): number {
+    return this.iterations;
+  }
+
+  /**
+   * 最近一次讀到的遊戲天數（尚未讀到時為 0）
+   */
+  protected get day(): number {
+    return this.currentDay;
+  }
+
+  // ==================== 執行 ====================
+
+  /**
+   * 執行角色直到終止條件
+   * @param password 使用者密碼
+   * @param limit 終止條件
+   * @returns 執行統計
+   * @throws 登入失敗或遊戲未開始時拋出錯誤
+   */
+  async run(password: string, limit: RunLimit = DEFAULT_RUN_LIMIT): Promise<PersonaStats> {
+    this.limit = limit;
+    this.startTime = Date.now();
+    this.counters = Object.fromEntries(Object.keys(this.counterLabels).map((key) => [key, 0]));
+
+    this.log(`開始執行${this.title}（${this.strategy.name}），${describeLimit(limit)}`);
+
+    // Step 1: 登入
+    this.log("執行登入...");
+    const loginResult = await this.actions.login(this.username, password);
+    if (!loginResult.ok) {
+      throw new Error(`${this.label} 登入失敗（${describeResult(loginResult)}）`);
+    }
+    this.log("✅ 登入成功");
+
+    // Step 2: 等待遊戲開始
+    this.log("等待遊戲開始...");
+    const gameStarted = await this.actions.waitForGameStart();
+    if (!gameStarted.ok) {
+      throw new Error(`${this.label} 遊戲未開始（${describeResult(gameStarted)}）`);
+    }
+    this.log("✅ 遊戲已開始");
+
+    await this.onStart();
+
+    // Step 3: 主迴圈
+    while (!(await this.shouldStop())) {
+      if (this.rhythm === "interval") {
+        await this.runInterval();
+      } else {
+        await this.runMiniGame(this.rhythm);
+      }
+    }
+
+    await this.onStop();
+    return this.finish();
+  }
+
+  /**
+   * interval 節奏的一次迭代：tick → 等待下一次迭代（固定節奏）
+   * 間隔以迭代「開始」時間計算：Action 變慢時不再額外等待，使每位使用者的請求頻率固定，
+   * 延遲問題會反映在 Action 延遲與落後次數上，而不是被拉長的迭代間隔掩蓋；
+   * 等待期間收到中止訊號會立即返回，由 shouldStop 結束迴圈
+   */
+  private async runInterval(): Promise<void> {
+    await this.handleMiniGameOverlay();
+
+    this.iterations++;
+    const iterationStart = Date.now();
+    console.log(`\n${this.label} ======== 第 ${this.iterations} 次迭代 ========`);
+
+    if ((await this.tick()) === "skip") {
+      await sleep(RETRY_DELAY, this.limit.signal);
+      return;
+    }
+
+    const intervalMs = this.strategy.intervalMs ?? 0;
+    const remaining = iterationStart + intervalMs - Date.now();
+    if (remaining > 0) {
+      await sleep(remaining, this.limit.signal);
+    } else {
+      this.lateCount++;
+      this.warn(`落後排程 ${-remaining}ms（本次迭代超過間隔 ${intervalMs}ms）`);
+    }
+  }
+
+  /**
+   * 小遊戲節奏的一次迭代：tick → 等待小遊戲開始（最多 MINI_GAME_POLL_INTERVAL，之後重新檢查終止條件）→ Hook
+   * 等待期間收到中止訊號會立即返回，由 shouldStop 結束迴圈
+   */
+  private async runMiniGame(kind: "quiz" | "minority"): Promise<void> {
+    const name = MINI_GAME_NAMES[kind];
+    console.log(`\n${this.label} ======== 等待第 ${this.iterations + 1} 場${name} ========`);
+
+    await this.handleMiniGameOverlay();
+
+    if ((await this.tick()) === "skip") {
+      await sleep(RETRY_DELAY, this.limit.signal);
+      return;
+    }
+
+    this.log(`⏳ 阻塞等待${name}遊戲開始...（此步驟可能需等待數分鐘）`);
+    const timeout = this.miniGamePollTimeout();
+    const signal = this.limit.signal;
+    const started =
+      kind === "quiz" ? await this.actions.waitForQuizStart(timeout, signal) : await this.actions.waitForMinorityStart(timeout, signal);
+
+    if (!started.ok) {
+      // 輪詢逾時是正常情況，不列入失敗計數
+      if (started.status !== "timeout") {
+        this.track(started);
+        this.warn(`等待${name}失敗（${describeResult(started)}）`);
+      }
+      this.log(`⏱️ 本輪尚未偵測到新${name}，重新檢查終止條件`);
+      return;
+    }
+
+    this.iterations++;
+    this.log(`🎯 ${name}遊戲已開始！`);
+    if (kind === "quiz") {
+      await this.onQuizStart();
+    } else {
+      await this.onMinorityStart();
+    }
+
+    // 短暫等待（確保 UI 穩定後再進入下一次等待）
+    await sleep(MINI_GAME_SETTLE_DELAY, this.limit.signal);
+    this.log(`🔄 回到等待狀態，準備下一場${name}...`);
+  }
+
+  /**
+   * 處理交易中彈出的小遊戲 Overlay（每次 tick 前檢查）
+   * Overlay 覆蓋整個交易介面（z-index 9999），不處理會讓後續交易操作逾時；
+   * 依策略參加（呼叫 onQuizStart / onMinorityStart）或直接收起，兩者最後都收起 Overlay 回到交易介面。
+   * 角色本身節奏的小遊戲（User D 的問答、User E 的少數決）由阻塞等待處理，這裡不介入。
+   */
+  private async handleMiniGameOverlay(): Promise<void> {
+    const kind = await this.actions.detectMiniGame();
+    if (!kind || kind === this.rhythm) return;
+
+    const name = MINI_GAME_NAMES[kind];
+    const policy = this.miniGamePolicy(kind);
+    if (policy === "play") {
+      this.miniGamePlayCount++;
+      this.log(`🎮 偵測到${name} Overlay，參加本局`);
+      if (kind === "quiz") {
+        await this.onQuizStart();
+      } else {
+        await this.onMinorityStart();
+      }
+    } else {
+      this.miniGameCollapseCount++;
+      this.log(`🎮 偵測到${name} Overlay，收起後繼續`);
+    }
+
+    const collapseResult = this.track(await this.actions.collapseMiniGame());
+    if (!collapseResult.ok) {
+      this.warn(`收起${name}失敗（${describeResult(collapseResult)}）`);
+    }
+  }
+
+  /**
+   * 交易中遇到小遊戲的處理方式（策略未設定時收起）
+   */
+  private miniGamePolicy(kind: MiniGameKind): MiniGamePolicy {
+    return (kind === "quiz" ? this.strategy.quizPolicy : this.strategy.minorityPolicy) ?? "collapse";
+  }
+
+  /**
+   * 計算本次小遊戲等待的逾時時間
+   * 不超過輪詢間隔，也不超過剩餘的執行時長
+   */
+  private miniGamePollTimeout(): number {
+    if (this.limit.duration === undefined) return MINI_GAME_POLL_INTERVAL;
+    const remaining = this.startTime + this.limit.duration - Date.now();
+    return Math.max(1, Math.min(MINI_GAME_POLL_INTERVAL, remaining));
+  }
+
+  /**
+   * 檢查是否已達終止條件（同時偵測換日並觸發 onDayChange）
+   * 天數以 UI 顯示為準，因此無論每天的實際秒數為何，跑完的遊戲天數都相同
+   * @returns true 表示應結束迴圈
+   */
+  private async shouldStop(): Promise<boolean> {
+    const limit = this.limit;
+    if (limit.signal?.aborted) {
+      this.log("⏹️ 收到中止訊號（負載排程離場或執行監控中止）");
+      return true;
+    }
+
+    if (limit.duration !== undefined && Date.now() >= this.startTime + limit.duration) {
+      this.log(`⏱️ 已達執行時長上限 ${limit.duration / 1000} 秒`);
+      return true;
+    }
+
+    const day = await this.actions.getCurrentDay();
+    if (day > 0 && day !== this.currentDay) {
+      const previousDay = this.currentDay;
+      this.currentDay = day;
+      if (previousDay > 0 && (limit.endDay === undefined || day < limit.endDay)) {
+        await this.onDayChange(day, previousDay);
+      }
+    }
+
+    if (limit.endDay !== undefined && day >= limit.endDay) {
+      this.log(`📅 遊戲已進入第 ${day} 天（結束天數 ${limit.endDay}）`);
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * 輸出統計 Log 並產生 PersonaStats
+   */
+  private finish(): PersonaStats {
+    const unit = this.rhythm === "interval" ? "次迭代" : `場${MINI_GAME_NAMES[this.rhythm]}`;
+    const parts = Object.entries(this.counterLabels).map(([key, label]) => `${label} ${this.counters[key] ?? 0} 次`);
+    if (this.rhythm === "interval") parts.push(`落後排程 ${this.lateCount} 次`);
+    parts.push(`小遊戲 Overlay：參加 ${this.miniGamePlayCount} 場 / 收起 ${this.miniGameCollapseCount} 場`);
+    const failures = `失敗：拒絕 ${this.failures.rejectedCount} 次 / 逾時 ${this.failures.timeoutCount} 次 / 錯誤 ${this.failures.errorCount} 次`;
+
+    console.log(`\n${this.label} 🏁 執行完畢`);
+    this.log(`統計：共 ${this.iterations} ${unit}，${[...parts, failures].join("，")}`);
+
+    return {
+      iterations: this.iterations,
+      counters: {
+        ...this.counters,
+        ...(this.rhythm === "interval" ? { lateCount: this.lateCount } : {}),
+        miniGamePlayCount: this.miniGamePlayCount,
+        miniGameCollapseCount: this.miniGameCollapseCount,
+        ...this.failures,
+      },
+    };
+  }
+}
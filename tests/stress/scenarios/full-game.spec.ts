@@ -0,0 +1,58 @@
+// tests/stress/scenarios/full-game.spec.ts
+import { test, expect, devices } from "@playwright/test";
+import { TEST_END_DAY, TOTAL_USERS, USER_DISTRIBUTION } from "../config";
+import { runStressSession } from "./orchestrator";
+
+/**
+ * 執行時長安全上限（毫秒）
+ * 正常情況下 Session 於遊戲進入 TEST_END_DAY 時結束，此上限僅防止遊戲卡住時無限執行
+ */
+const MAX_SESSION_DURATION = 60 * 60 * 1000;
+
+/**
+ * Admin 小遊戲發布間隔（毫秒）：問答與少數決輪流，每 90 秒一局
+ */
+const MINIGAME_INTERVAL = 90 * 1000;
+
+/**
+ * Full Game Stress Test（多人併發）
+ *
+ * 目的：依 config.ts 的 TOTAL_USERS 與 USER_DISTRIBUTION 同時啟動所有虛擬使用者
+ * 執行時長：直到遊戲進入第 TEST_END_DAY 天（最多 60 分鐘）
+ *
+ * 預期行為：
+ * - 每位虛擬使用者擁有獨立的 BrowserContext（Cookie / localStorage 互不干擾）
+ * - 所有角色在同一個 Worker 內同時執行
+ * - 任一虛擬使用者失敗不會中斷其他人，最後統一回報
+ *
+ * ⚠️ 測試前提：
+ * - users.json 中至少有 TOTAL_USERS 個已註冊帳號
+ * - 已設定 STRESS_ADMIN_PASSWORD（離線模擬模式預設 admin）時，由 AdminActions 自動開始遊戲並定期發布小遊戲
+ * - 未設定時需要 Admin 於 /admin 後台手動開始遊戲（User D/E 另需發布小遊戲題目）
+ */
+test("Scenario: Full Game - All Users", async ({ browser, baseURL }) => {
+  test.setTimeout(MAX_SESSION_DURATION + 5 * 60 * 1000); // 執行時長上限 + 5 分鐘緩衝（登入、等待開始）
+
+  console.log(`\n========================================`);
+  console.log(`🎯 開始執行多人併發壓力測試`);
+  console.log(`總人數：${TOTAL_USERS}`);
+  console.log(`角色分配：`, USER_DISTRIBUTION);
+  console.log(`結束天數：第 ${TEST_END_DAY} 天（上限 ${MAX_SESSION_DURATION / 1000} 秒）`);
+  console.log(`========================================\n`);
+
+  const { users: results } = await runStressSession(browser, {
+    contextOptions: { ...devices["iPhone 12 Pro"], baseURL },
+    limit: { endDay: TEST_END_DAY, duration: MAX_SESSION_DURATION },
+    admin: { miniGames: { games: ["QUIZ", "MINORITY"], interval: MINIGAME_INTERVAL } },
+  });
+
+  // 驗證：所有虛擬使用者皆正常結束
+  const failed = results.filter((r) => !r.success);
+  failed.forEach((r) => {
+    console.error(`❌ User ${r.user.userIndex} (${r.user.persona}, ${r.user.account.username})：${r.error}`);
+  });
+
+  expect(results).toHaveLength(TOTAL_USERS);
+  expect(failed).toHaveLength(0);
+  console.log(`\n✅ 多人併發壓力測試完成！`);
+});
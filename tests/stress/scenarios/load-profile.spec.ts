@@ -0,0 +1,69 @@
+// tests/stress/scenarios/load-profile.spec.ts
+import { test, expect, devices } from "@playwright/test";
+import { TOTAL_USERS, USER_DISTRIBUTION } from "../config";
+import { LoadPhase, buildLoadSchedule } from "./loadProfile";
+import { runStressSession } from "./orchestrator";
+
+/**
+ * 基礎負載人數：ramp-up 後維持的人數（約 60%），其餘人數用於 spike
+ */
+const BASE_USERS = Math.max(1, Math.ceil(TOTAL_USERS * 0.6));
+
+/**
+ * 負載模型：逐步加入 → 維持 → 瞬間湧入 → 逐步離開
+ */
+const LOAD_PROFILE: LoadPhase[] = [
+  { kind: "ramp-up", users: BASE_USERS, durationMs: 60 * 1000 },
+  { kind: "hold", durationMs: 3 * 60 * 1000 },
+  ...(TOTAL_USERS > BASE_USERS ? [{ kind: "spike" as const, users: TOTAL_USERS - BASE_USERS, durationMs: 60 * 1000 }] : []),
+  { kind: "hold", durationMs: 60 * 1000 },
+  { kind: "ramp-down", durationMs: 60 * 1000 },
+];
+
+/**
+ * Admin 小遊戲發布間隔（毫秒）
+ */
+const MINIGAME_INTERVAL = 60 * 1000;
+
+/**
+ * Load Profile Stress Test（負載模型）
+ *
+ * 目的：依 LOAD_PROFILE 讓虛擬使用者分批加入與離開，觀察各階段的延遲變化
+ * 執行時長：LOAD_PROFILE 總時長（約 7 分鐘）
+ *
+ * 預期行為：
+ * - 虛擬使用者依角色輪流加入（ramp-up 初期即涵蓋各種角色）
+ * - spike 階段瞬間加入剩餘人數，階段結束時同時離開
+ * - 執行報告的「負載階段」表格列出每個階段的呼叫次數、成功率與延遲百分位
+ *
+ * ⚠️ 測試前提：與 full-game.spec.ts 相同（已註冊帳號、Admin 密碼或手動操作後台）
+ */
+test("Scenario: Load Profile - Ramp / Hold / Spike / Ramp-down", async ({ browser, baseURL }) => {
+  const schedule = buildLoadSchedule(LOAD_PROFILE);
+  test.setTimeout(schedule.totalMs + 5 * 60 * 1000); // 排程總時長 + 5 分鐘緩衝（登入、等待小遊戲結束）
+
+  console.log(`\n========================================`);
+  console.log(`🎯 開始執行負載模型壓力測試`);
+  console.log(`總人數：${TOTAL_USERS}（基礎 ${BASE_USERS} 人，峰值 ${schedule.peakUsers} 人）`);
+  console.log(`角色分配：`, USER_DISTRIBUTION);
+  console.log(`排程總時長：${schedule.totalMs / 1000} 秒`);
+  console.log(`========================================\n`);
+
+  const { users: results, metrics } = await runStressSession(browser, {
+    contextOptions: { ...devices["iPhone 12 Pro"], baseURL },
+    limit: { duration: schedule.totalMs }, // 安全上限：正常情況下由排程離場
+    admin: { miniGames: { games: ["QUIZ", "MINORITY"], interval: MINIGAME_INTERVAL } },
+    profile: LOAD_PROFILE,
+  });
+
+  // 驗證：排程內的虛擬使用者皆正常結束，且 Action 紀錄皆標記負載階段
+  const failed = results.filter((r) => !r.success);
+  failed.forEach((r) => {
+    console.error(`❌ User ${r.user.userIndex} (${r.user.persona}, ${r.user.account.username})：${r.error}`);
+  });
+
+  expect(results).toHaveLength(schedule.slots.length);
+  expect(failed).toHaveLength(0);
+  expect(metrics.getRecords().some((r) => r.phase !== undefined)).toBe(true);
+  console.log(`\n✅ 負載模型壓力測試完成！`);
+});
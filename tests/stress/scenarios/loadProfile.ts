@@ -0,0 +1,170 @@
+// tests/stress/scenarios/loadProfile.ts
+
+/**
+ * 負載模型（Load Profile）
+ *
+ * 以階段描述虛擬使用者「何時加入、何時離開」，取代所有人同時開始的作法：
+ * - ramp-up：在 durationMs 內將同時在線人數由目前人數線性增加至 users
+ * - hold：維持目前人數 durationMs
+ * - spike：瞬間額外加入 users 人，durationMs 後這批人同時離開
+ * - ramp-down：在 durationMs 內將人數線性減少至 users（預設 0），後加入者先離開
+ *
+ * 範例（5 人）：
+ * [
+ *   { kind: "ramp-up", users: 3, durationMs: 60000 },  // 1 分鐘內逐步加入 3 人
+ *   { kind: "hold", durationMs: 180000 },              // 維持 3 人 3 分鐘
+ *   { kind: "spike", users: 2, durationMs: 60000 },    // 瞬間再加入 2 人，持續 1 分鐘
+ *   { kind: "ramp-down", durationMs: 60000 },          // 1 分鐘內全部離開
+ * ]
+ * 所有階段結束時仍在線的使用者一併離開。
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 負載階段類型
+ */
+export type LoadPhaseKind = "ramp-up" | "hold" | "spike" | "ramp-down";
+
+/**
+ * 負載階段定義
+ */
+export interface LoadPhase {
+  kind: LoadPhaseKind;
+  durationMs: number; // 階段時長（毫秒）
+  users?: number; // ramp-up / ramp-down：目標人數；spike：額外加入人數
+  name?: string; // 階段名稱（報告用，預設為「序號-類型」，例如 1-ramp-up）
+}
+
+/**
+ * 排程後的階段時間窗（相對於 Session 開始的毫秒數）
+ */
+export interface PhaseWindow {
+  name: string;
+  kind: LoadPhaseKind;
+  startMs: number;
+  endMs: number;
+  targetUsers: number; // 階段結束時（spike 為進行中）的同時在線人數
+}
+
+/**
+ * 單一使用者名額的加入 / 離開時間（相對於 Session 開始的毫秒數）
+ */
+export interface UserSlot {
+  slot: number; // 名額編號（0 起算，依加入順序）
+  joinAtMs: number;
+  leaveAtMs: number;
+}
+
+/**
+ * 負載排程
+ */
+export interface LoadSchedule {
+  phases: PhaseWindow[];
+  slots: UserSlot[]; // 依加入順序排列
+  totalMs: number; // 所有階段總時長
+  peakUsers: number; // 同時在線人數峰值
+}
+
+// ==================== 排程計算 ====================
+
+/**
+ * 驗證人數設定
+ */
+function requireUsers(phase: LoadPhase, label: string): number {
+  const users = phase.users;
+  if (users === undefined || !Number.isInteger(users) || users < 0) {
+    throw new Error(`❌ 負載設定錯誤：${label} 的 users 必須為非負整數（目前為 ${JSON.stringify(users)}）`);
+  }
+  return users;
+}
+
+/**
+ * 將負載階段轉為每位使用者的加入 / 離開時間
+ *
+ * @param profile 負載階段（依序執行）
+ * @returns 負載排程
+ */
+export function buildLoadSchedule(profile: LoadPhase[]): LoadSchedule {
+  if (profile.length === 0) {
+    throw new Error("❌ 負載設定錯誤：至少需要一個階段");
+  }
+
+  const phases: PhaseWindow[] = [];
+  const slots: UserSlot[] = [];
+  let active: UserSlot[] = []; // 目前在線（依加入順序）
+  let time = 0;
+  let peakUsers = 0;
+
+  const join = (at: number): UserSlot => {
+    const slot: UserSlot = { slot: slots.length, joinAtMs: at, leaveAtMs: Infinity };
+    slots.push(slot);
+    return slot;
+  };
+
+  profile.forEach((phase, i) => {
+    const name = phase.name ?? `${i + 1}-${phase.kind}`;
+    const label = `階段 ${name}`;
+    if (!Number.isFinite(phase.durationMs) || phase.durationMs < 0) {
+      throw new Error(`❌ 負載設定錯誤：${label} 的 durationMs 必須為非負數（目前為 ${JSON.stringify(phase.durationMs)}）`);
+    }
+
+    const start = time;
+    const end = time + phase.durationMs;
+
+    switch (phase.kind) {
+      case "ramp-up": {
+        const target = requireUsers(phase, label);
+        if (target < active.length) {
+          throw new Error(`❌ 負載設定錯誤：${label} 的目標人數 ${target} 少於目前在線人數 ${active.length}`);
+        }
+        // 第一位立即加入，其餘平均分佈在階段內
+        const count = target - active.length;
+        for (let k = 0; k < count; k++) {
+          active.push(join(start + Math.round((phase.durationMs * k) / count)));
+        }
+        break;
+      }
+      case "hold":
+        break;
+      case "spike": {
+        const extra = requireUsers(phase, label);
+        if (extra === 0) {
+          throw new Error(`❌ 負載設定錯誤：${label} 的 users 必須大於 0`);
+        }
+        for (let k = 0; k < extra; k++) {
+          join(start).leaveAtMs = end;
+        }
+        break;
+      }
+      case "ramp-down": {
+        const target = phase.users === undefined ? 0 : requireUsers(phase, label);
+        if (target > active.length) {
+          throw new Error(`❌ 負載設定錯誤：${label} 的目標人數 ${target} 多於目前在線人數 ${active.length}`);
+        }
+        // 後加入者先離開，最後一位於階段結束時離開
+        const count = active.length - target;
+        const leaving = active.slice(target).reverse();
+        leaving.forEach((slot, k) => {
+          slot.leaveAtMs = start + Math.round((phase.durationMs * (k + 1)) / count);
+        });
+        active = active.slice(0, target);
+        break;
+      }
+      default:
+        throw new Error(`❌ 負載設定錯誤：未知的階段類型 ${JSON.stringify((phase as LoadPhase).kind)}`);
+    }
+
+    const concurrent = active.length + (phase.kind === "spike" ? phase.users! : 0);
+    peakUsers = Math.max(peakUsers, concurrent);
+    phases.push({ name, kind: phase.kind, startMs: start, endMs: end, targetUsers: concurrent });
+    time = end;
+  });
+
+  // 所有階段結束時仍在線者一併離開
+  active.forEach((slot) => {
+    slot.leaveAtMs = time;
+  });
+
+  return { phases, slots, totalMs: time, peakUsers };
+}
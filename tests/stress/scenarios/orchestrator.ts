@@ -0,0 +1,626 @@
+// tests/stress/scenarios/orchestrator.ts
+import { Browser, BrowserContextOptions } from "@playwright/test";
+import {
+  CONTRACT_CHECK,
+  EMPLOYEE_SHARE,
+  INVARIANT_CHECK,
+  PROTOCOL_SHARE,
+  RUN_SEED,
+  SUPERVISOR_ENABLED,
+  STALL_TIMEOUT_MS,
+  TOTAL_USERS,
+  USER_DISTRIBUTION,
+  USE_MOCK,
+  getConfigSnapshot,
+  validateConfig,
+} from "../config";
+import { AdminSession, MiniGamePublisherOptions, openAdminSession } from "../core/AdminActions";
+import { GameActions } from "../core/GameActions";
+import { GameDriver } from "../core/GameDriver";
+import { InvariantChecker } from "../core/InvariantChecker";
+import { MetricsCollector } from "../core/MetricsCollector";
+import { NetworkRecorder } from "../core/NetworkRecorder";
+import { ProtocolBot } from "../core/ProtocolBot";
+import { RunSupervisor } from "../core/RunSupervisor";
+import { SocketRecorder } from "../core/SocketRecorder";
+import { RandomSource, userRandom } from "../core/Random";
+import { writeRunReport } from "../core/ReportWriter";
+import { assertUiContract, formatContractTable, runUiContractCheck } from "../core/UiContract";
+import { FRONTEND_VERSION } from "../core/pages/PageObject";
+import { User, UserRegistry } from "../core/UserRegistry";
+import { PersonaStats, RunLimit } from "./Persona";
+import { runUserA, runUserB, runUserC, runUserD, runUserE } from "./personas";
+import { LoadPhase, LoadSchedule, UserSlot, buildLoadSchedule } from "./loadProfile";
+import { PersonaStrategies, StrategyFile, loadStrategyFile, resolveStrategy } from "./strategies";
+
+// ==================== 型別定義 ====================
+
+/**
+ * 角色代號（對應 config.ts 的 USER_DISTRIBUTION 鍵值）
+ */
+export type PersonaType = keyof typeof USER_DISTRIBUTION;
+
+/**
+ * 角色執行函式簽章（與 runUserA…runUserE 一致）
+ */
+export type PersonaRunner<P extends PersonaType = PersonaType> = (
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit,
+  strategy?: PersonaStrategies[P],
+  random?: RandomSource
+) => Promise<PersonaStats>;
+
+/**
+ * 虛擬使用者的執行方式
+ * - browser：獨立 BrowserContext，以 GameActions 操作真實 UI
+ * - protocol：ProtocolBot，直接呼叫後端 REST API 與 Socket.io（不開瀏覽器）
+ */
+export type VirtualUserDriver = "browser" | "protocol";
+
+/**
+ * 虛擬使用者
+ * 每位虛擬使用者對應一個已註冊帳號，以及一個 BrowserContext 或 ProtocolBot
+ */
+export interface VirtualUser {
+  userIndex: number; // 使用者編號（1 起算，用於 Log 識別）
+  persona: PersonaType; // 角色代號
+  account: User; // 指派的帳號
+  employee: boolean; // 是否設為員工（依 EMPLOYEE_SHARE 分配，其餘為訪客）
+  driver: VirtualUserDriver; // 執行方式（依 PROTOCOL_SHARE 分配，其餘為瀏覽器）
+}
+
+/**
+ * 單一虛擬使用者的執行結果
+ */
+export interface VirtualUserResult {
+  user: VirtualUser;
+  success: boolean;
+  error?: string; // 失敗原因（僅 success = false 時存在）
+  elapsedMs: number;
+  strategy: string; // 使用的策略名稱
+  restarts: number; // 停滯後重新啟動的次數
+  stats?: PersonaStats; // 角色執行統計（僅 success = true 時存在，重新啟動時為最後一次執行的統計）
+}
+
+/**
+ * 壓力測試 Session 結果
+ */
+export interface StressSessionResult {
+  users: VirtualUserResult[]; // 每位虛擬使用者的執行結果
+  metrics: MetricsCollector; // 所有虛擬使用者共用的 Action 指標
+  reportDir: string; // 執行報告目錄
+  abortReason?: string; // 執行監控中止整場壓測的原因（未中止時不存在）
+}
+
+/**
+ * Admin 自動操作參數
+ * 未設定 Admin 密碼（STRESS_ADMIN_PASSWORD）時忽略，改由人工操作 /admin 後台
+ */
+export interface AdminAutopilotOptions {
+  startGame?: boolean; // Session 開始時按下「開始遊戲」（預設 true）
+  miniGames?: MiniGamePublisherOptions; // 定期發布小遊戲（未設定則不發布）
+}
+
+/**
+ * 壓力測試 Session 參數
+ */
+export interface StressSessionOptions {
+  contextOptions?: BrowserContextOptions; // 每個 BrowserContext 的設定（baseURL、裝置模擬等）
+  limit: RunLimit; // 每位虛擬使用者的終止條件（遊戲天數 / 執行時長上限）
+  admin?: AdminAutopilotOptions; // Admin 自動操作（開始遊戲、定期發布小遊戲）
+  profile?: LoadPhase[]; // 負載模型（未設定則所有虛擬使用者同時開始，直到 limit 結束）
+}
+
+// ==================== 角色對照表 ====================
+
+/**
+ * 角色代號 → 行為模式
+ */
+export const PERSONA_RUNNERS: { [P in PersonaType]: PersonaRunner<P> } = {
+  typeA: runUserA, // 現貨 (Spot)
+  typeB: runUserB, // 合約 (Contract)
+  typeC: runUserC, // 借貸 (Loan)
+  typeD: runUserD, // 問答 (Quiz)
+  typeE: runUserE, // 少數決 (Minority)
+};
+
+// ==================== 編排邏輯 ====================
+
+/**
+ * 依 USER_DISTRIBUTION 產生虛擬使用者清單，並逐一指派已註冊帳號
+ *
+ * 指派順序：typeA → typeE，帳號依傳入順序（UserRegistry.lease 租用到的帳號）分配，
+ * 確保同一帳號不會被兩位虛擬使用者同時使用。
+ * 每個角色的前 round(人數 × 員工比例) 位設為員工，其餘為訪客；
+ * 後 round(人數 × 機器人比例) 位改用協定層機器人，其餘開啟瀏覽器（依角色輪流加入時瀏覽器先加入）。
+ *
+ * @param distribution 角色分配設定
+ * @param accounts 可用帳號（僅使用 registered = true 者）
+ * @param employeeShare 各角色的員工比例（未列出的角色全為訪客）
+ * @param protocolShare 各角色的機器人比例（未列出的角色全為瀏覽器）
+ * @returns 虛擬使用者清單
+ */
+export function planVirtualUsers(
+  distribution: Record<PersonaType, number>,
+  accounts: User[],
+  employeeShare: Partial<Record<PersonaType, number>> = {},
+  protocolShare: Partial<Record<PersonaType, number>> = {}
+): VirtualUser[] {
+  const registered = accounts.filter((u) => u.registered);
+  const total = Object.values(distribution).reduce((sum, count) => sum + count, 0);
+
+  if (registered.length < total) {
+    throw new Error(
+      `❌ 已註冊帳號不足：需要 ${total} 個，users.json 中只有 ${registered.length} 個，請先執行 provision_users.ts 批次建立帳號`
+    );
+  }
+
+  const users: VirtualUser[] = [];
+  for (const persona of Object.keys(distribution) as PersonaType[]) {
+    const employees = Math.round(distribution[persona] * (employeeShare[persona] ?? 0));
+    const browsers = distribution[persona] - Math.round(distribution[persona] * (protocolShare[persona] ?? 0));
+    for (let i = 0; i < distribution[persona]; i++) {
+      users.push({
+        userIndex: users.length + 1,
+        persona,
+        account: registered[users.length],
+        employee: i < employees,
+        driver: i < browsers ? "browser" : "protocol",
+      });
+    }
+  }
+
+  return users;
+}
+
+/**
+ * 以虛擬使用者的帳號登入並設定員工身分
+ */
+async function loginAndSetEmployee(actions: GameDriver, user: VirtualUser): Promise<boolean> {
+  return (
+    (await actions.login(user.account.username, user.account.password)).ok &&
+    (await actions.setEmployeeStatus(user.employee)).ok
+  );
+}
+
+/**
+ * 壓測開始前設定每位虛擬使用者的員工身分（訪客也明確設定，避免沿用上一次執行的身分）
+ * 有 Admin Session 時由後台批次設定；否則以獨立 BrowserContext（機器人則以 ProtocolBot）登入後由玩家自行切換
+ * 後台端點與使用者選單只在 mock 前後端確認過：設定失敗時輸出警告並以目前身分繼續，不中止壓測
+ * （後台第一次設定即失敗時視為沒有此端點，不再逐一嘗試；正式前端不使用使用者選單）
+ */
+async function applyEmployeeStatus(
+  browser: Browser,
+  users: VirtualUser[],
+  adminSession: AdminSession | null,
+  contextOptions?: BrowserContextOptions
+): Promise<void> {
+  const employees = users.filter((u) => u.employee).length;
+  console.log(`[Orchestrator] 🪪 設定員工身分：員工 ${employees} 位，訪客 ${users.length - employees} 位`);
+
+  const failed: string[] = [];
+  const skipped: string[] = [];
+  for (const [i, user] of users.entries()) {
+    let ok: boolean;
+    if (adminSession) {
+      ok = await adminSession.admin.setEmployeeStatus(user.account.username, user.employee);
+      if (!ok && i === 0) {
+        console.warn("[Orchestrator] ⚠️ 後台無法設定員工身分（可能沒有此端點，可用 STRESS_API_ROUTES 的 adminEmployee 設定），以目前身分繼續");
+        return;
+      }
+    } else if (user.driver === "protocol") {
+      const bot = new ProtocolBot(user.userIndex);
+      try {
+        ok = await loginAndSetEmployee(bot, user);
+      } finally {
+        bot.close();
+      }
+    } else if (!USE_MOCK) {
+      skipped.push(user.account.username);
+      continue;
+    } else {
+      const context = await browser.newContext(contextOptions);
+      try {
+        ok = await loginAndSetEmployee(new GameActions(await context.newPage(), user.userIndex), user);
+      } finally {
+        await context.close().catch(() => {});
+      }
+    }
+    if (!ok) failed.push(user.account.username);
+  }
+
+  if (skipped.length > 0) {
+    console.warn(`[Orchestrator] ⚠️ 正式前端尚未確認員工身分的使用者選單，略過 ${skipped.length} 位瀏覽器使用者（請設定 Admin 密碼由後台設定）`);
+  }
+  if (failed.length > 0) {
+    console.warn(`[Orchestrator] ⚠️ 員工身分設定失敗 ${failed.length} 位，以目前身分繼續：${failed.join(", ")}`);
+  }
+}
+
+/**
+ * 依角色輪流排序虛擬使用者（負載模型依此順序加入）
+ * 例如 A1 A2 B1 C1 → A1 B1 C1 A2，讓 ramp-up 初期就涵蓋各種角色
+ */
+export function interleaveByPersona(users: VirtualUser[]): VirtualUser[] {
+  const queues = new Map<PersonaType, VirtualUser[]>();
+  for (const user of users) {
+    queues.set(user.persona, [...(queues.get(user.persona) || []), user]);
+  }
+
+  const ordered: VirtualUser[] = [];
+  while (ordered.length < users.length) {
+    for (const queue of queues.values()) {
+      const next = queue.shift();
+      if (next) ordered.push(next);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * 依負載排程切換 MetricsCollector 的階段標記
+ * @returns 取消函式（Session 提前結束時清除計時器）
+ */
+function startPhaseTimeline(schedule: LoadSchedule, metrics: MetricsCollector, sessionStart: number): () => void {
+  const timers = schedule.phases.map((phase) =>
+    setTimeout(() => {
+      metrics.setPhase(phase.name);
+      console.log(
+        `[Orchestrator] 📶 進入負載階段 ${phase.name}（${(phase.endMs - phase.startMs) / 1000} 秒，目標 ${phase.targetUsers} 人）`
+      );
+    }, Math.max(0, sessionStart + phase.startMs - Date.now()))
+  );
+  timers.push(
+    setTimeout(() => {
+      metrics.setPhase(undefined);
+      console.log(`[Orchestrator] 📶 負載排程結束，等待剩餘使用者離場`);
+    }, Math.max(0, sessionStart + schedule.totalMs - Date.now()))
+  );
+
+  return () => timers.forEach((t) => clearTimeout(t));
+}
+
+/**
+ * 以指定策略執行角色（泛型確保角色與策略型別對應）
+ */
+function runPersona<P extends PersonaType>(
+  persona: P,
+  actions: GameDriver,
+  user: VirtualUser,
+  limit: RunLimit,
+  strategy: PersonaStrategies[P],
+  random: RandomSource
+): Promise<PersonaStats> {
+  const runner: PersonaRunner<P> = PERSONA_RUNNERS[persona];
+  return runner(actions, user.userIndex, user.account.username, user.account.password, limit, strategy, random);
+}
+
+/**
+ * 等待指定毫秒數（負數視為 0）
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
+
+/**
+ * 合併多個中止訊號（任一觸發即觸發）
+ */
+function anySignal(signals: (AbortSignal | undefined)[]): AbortSignal {
+  const controller = new AbortController();
+  for (const signal of signals) {
+    if (!signal) continue;
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener("abort", () => controller.abort(), { once: true });
+  }
+  return controller.signal;
+}
+
+/**
+ * 執行一次虛擬使用者的角色
+ * 建立獨立 BrowserContext（掛載 NetworkRecorder / SocketRecorder 紀錄後端 API 呼叫與 Socket.io 推播）
+ * → 執行對應角色 → 關閉 Context；協定層機器人改為建立 ProtocolBot（自行紀錄 API 與推播）→ 執行角色 → 中斷連線
+ * 指定 invariants 時，頁面開啟期間納入資產守恆檢查（關閉 Context 前取消註冊；機器人沒有頁面，不納入）
+ * 指定 supervisor 時，執行期間納入停滯監控；停滯時由 supervisor 觸發 attempt 並關閉 Context / 機器人
+ * @throws 角色執行失敗（登入失敗、遊戲未開始、Context 被關閉等）時拋出錯誤
+ */
+async function runAttempt(
+  browser: Browser,
+  user: VirtualUser,
+  options: StressSessionOptions,
+  metrics: MetricsCollector,
+  strategy: PersonaStrategies[PersonaType],
+  limit: RunLimit,
+  attempt: AbortController,
+  invariants?: InvariantChecker,
+  supervisor?: RunSupervisor
+): Promise<PersonaStats> {
+  const random = userRandom(user.userIndex);
+  if (user.driver === "protocol") {
+    const bot = new ProtocolBot(user.userIndex, metrics);
+    const unwatch = supervisor?.watch(user.userIndex, {
+      interrupt: () => {
+        attempt.abort();
+        bot.close();
+      },
+    });
+    try {
+      return await runPersona(user.persona, bot, user, limit, strategy, random);
+    } finally {
+      await unwatch?.();
+      bot.close();
+    }
+  }
+
+  const context = await browser.newContext(options.contextOptions);
+  new NetworkRecorder(user.userIndex, metrics).attach(context);
+  const socketRecorder = new SocketRecorder(user.userIndex, metrics);
+  socketRecorder.attach(context);
+  let unregister: (() => void) | undefined;
+  let unwatch: (() => Promise<void>) | undefined;
+
+  try {
+    const page = await context.newPage();
+    unregister = invariants?.register(user.userIndex, page);
+    unwatch = supervisor?.watch(user.userIndex, {
+      page,
+      context,
+      interrupt: () => {
+        attempt.abort();
+        return context.close();
+      },
+    });
+    return await runPersona(user.persona, new GameActions(page, user.userIndex, metrics), user, limit, strategy, random);
+  } finally {
+    await unwatch?.();
+    unregister?.();
+    socketRecorder.stop();
+    await context.close().catch(() => {});
+  }
+}
+
+/**
+ * 執行單一虛擬使用者
+ * 策略抽選與角色決策使用各自的種子串流，相同 RUN_SEED 下每位使用者的決策序列固定
+ * 指定 slot 時，等到排程的加入時間才開始，並於離場時間觸發中止訊號
+ * 指定 supervisor 時，整場壓測中止即結束；停滯後依 supervisor 的處置重新啟動（重新登入）或放棄
+ * 任何錯誤都會被捕捉並記錄於結果中，不會中斷其他虛擬使用者
+ */
+async function runVirtualUser(
+  browser: Browser,
+  user: VirtualUser,
+  options: StressSessionOptions,
+  metrics: MetricsCollector,
+  strategies: StrategyFile,
+  slot?: UserSlot,
+  sessionStart: number = Date.now(),
+  invariants?: InvariantChecker,
+  supervisor?: RunSupervisor
+): Promise<VirtualUserResult> {
+  const strategy = resolveStrategy(user.persona, strategies, userRandom(user.userIndex, "strategy"));
+  const label = `[Orchestrator][User ${user.userIndex}]`;
+  const driverLabel = user.driver === "protocol" ? "（機器人）" : "";
+  let signal = options.limit.signal;
+  let leaveTimer: NodeJS.Timeout | undefined;
+
+  if (slot) {
+    await sleep(sessionStart + slot.joinAtMs - Date.now());
+    console.log(`${label} ➕ 加入（${user.persona}，預計 ${(slot.leaveAtMs - slot.joinAtMs) / 1000} 秒後離場）`);
+
+    const controller = new AbortController();
+    leaveTimer = setTimeout(() => controller.abort(), Math.max(0, sessionStart + slot.leaveAtMs - Date.now()));
+    signal = controller.signal;
+  }
+
+  const startTime = Date.now();
+  const result = (success: boolean, restarts: number, extra: Partial<VirtualUserResult>): VirtualUserResult => ({
+    user,
+    success,
+    elapsedMs: Date.now() - startTime,
+    strategy: strategy.name,
+    restarts,
+    ...extra,
+  });
+
+  try {
+    for (let restarts = 0; ; restarts++) {
+      const attempt = new AbortController();
+      const limit: RunLimit = supervisor
+        ? { ...options.limit, signal: anySignal([signal, supervisor.signal, attempt.signal]) }
+        : { ...options.limit, signal };
+
+      let stats: PersonaStats | undefined;
+      let failure: string | undefined;
+      try {
+        stats = await runAttempt(browser, user, options, metrics, strategy, limit, attempt, invariants, supervisor);
+      } catch (error: any) {
+        failure = error.message;
+      }
+
+      const decision = supervisor?.takeDecision(user.userIndex);
+      if (decision === "restart") {
+        console.warn(`${label} 🔁 停滯後重新啟動 ${user.persona}${driverLabel}（第 ${restarts + 1} 次）`);
+        continue;
+      }
+      if (decision === "give-up") {
+        failure = `停滯超過 ${STALL_TIMEOUT_MS / 1000} 秒沒有成功的 Action，已放棄`;
+      }
+
+      if (failure !== undefined) {
+        console.error(`${label} ❌ ${user.persona}${driverLabel}執行失敗：${failure}`);
+        return result(false, restarts, { error: failure });
+      }
+      if (slot) {
+        console.log(`${label} ➖ 離場`);
+      }
+      return result(true, restarts, { stats });
+    }
+  } finally {
+    clearTimeout(leaveTimer);
+  }
+}
+
+/**
+ * 執行多人併發壓力測試 Session
+ *
+ * 流程：
+ * 1. validateConfig() 驗證 USER_DISTRIBUTION 總和等於 TOTAL_USERS
+ * 2. 自 UserRegistry 租用 TOTAL_USERS 個帳號並指派給虛擬使用者（Session 結束或失敗時歸還），
+ *    讀取 user-strategies.json 決定每位的策略
+ * 3. CONTRACT_CHECK 開啟時，以第一位瀏覽器使用者的帳號檢查 UI 契約（頁面物件的 Selector），不符時在開始負載前中止
+ * 4. 在同一個 Worker 內為每位瀏覽器使用者開啟獨立 BrowserContext，依 PROTOCOL_SHARE 分配的使用者改用協定層機器人
+ * 5. 若設定 options.admin，另開 Admin BrowserContext 依 EMPLOYEE_SHARE 設定員工身分、開始遊戲並於背景定期發布小遊戲
+ *    （未設定 Admin 但有員工時，由各帳號自行在使用者選單設定）
+ * 6. 未設定 options.profile 時所有角色同時執行；設定時依負載模型排程加入 / 離場，
+ *    並將每筆 Action 紀錄標記所屬階段。所有角色共用同一個 MetricsCollector
+ *    INVARIANT_CHECK 開啟時，於背景在每個遊戲日開始時檢查所有虛擬使用者的資產守恆；
+ *    SUPERVISOR_ENABLED 開啟時，於背景監控停滯的虛擬使用者，必要時重新啟動或中止整場壓測
+ * 7. 全部結束（或中止）後停止 Admin 操作、輸出延遲統計，並寫入執行報告（report.json + index.html）
+ *    準備階段（UI 契約、開啟 Admin、開始遊戲）失敗時同樣寫入報告（標示失敗原因），再拋出原本的錯誤；Admin Context 與發布器一律關閉
+ *
+ * @param browser Playwright Browser 實例（由測試 fixture 提供）
+ * @param options Session 參數
+ * @returns 每位虛擬使用者的執行結果與 Action 指標
+ */
+export async function runStressSession(
+  browser: Browser,
+  options: StressSessionOptions
+): Promise<StressSessionResult> {
+  validateConfig();
+  const startedAt = Date.now();
+
+  const strategies = loadStrategyFile(); // 先行驗證，格式錯誤時在開啟任何瀏覽器前失敗
+  const schedule = options.profile ? buildLoadSchedule(options.profile) : null;
+  if (schedule && schedule.slots.length > TOTAL_USERS) {
+    throw new Error(`❌ 負載設定錯誤：排程共需 ${schedule.slots.length} 位使用者，但 TOTAL_USERS 只有 ${TOTAL_USERS} 位`);
+  }
+
+  // 租用帳號：同時執行的其他 Session / 測試不會拿到相同帳號
+  const registry = new UserRegistry();
+  const leaseOwner = `orchestrator-${process.pid}-${startedAt}`;
+  const planned = planVirtualUsers(USER_DISTRIBUTION, await registry.lease(leaseOwner, TOTAL_USERS), EMPLOYEE_SHARE, PROTOCOL_SHARE);
+  const users = schedule ? interleaveByPersona(planned).slice(0, schedule.slots.length) : planned;
+
+  console.log(`[Orchestrator] 🎲 隨機種子：${RUN_SEED}（以 STRESS_SEED=${RUN_SEED} 重跑可重現相同決策序列）`);
+  console.log(`[Orchestrator] 🚀 啟動 ${users.length} 位虛擬使用者：`);
+  users.forEach((u, i) => {
+    const join = schedule ? `，第 ${(schedule.slots[i].joinAtMs / 1000).toFixed(0)} 秒加入` : "";
+    const employee = u.employee ? "，員工" : "";
+    const bot = u.driver === "protocol" ? "，機器人" : "";
+    console.log(`[Orchestrator]    User ${u.userIndex.toString().padStart(2, "0")} → ${u.persona} (${u.account.username}${employee}${bot})${join}`);
+  });
+  if (schedule) {
+    console.log(`[Orchestrator] 📶 負載模型：${schedule.phases.map((p) => p.name).join(" → ")}，峰值 ${schedule.peakUsers} 人，共 ${schedule.totalMs / 1000} 秒`);
+  }
+
+  const metrics = new MetricsCollector();
+  let results: VirtualUserResult[] = []; // 準備階段失敗時為空陣列
+  let supervisor: RunSupervisor | undefined;
+  let sessionError: string | undefined;
+  let abortReason: string | undefined;
+  let reportDir = "";
+  try {
+    const firstBrowserUser = users.find((u) => u.driver === "browser");
+    if (CONTRACT_CHECK && firstBrowserUser) {
+      console.log(`[Orchestrator] 🔍 檢查 UI 契約（${firstBrowserUser.account.username}）...`);
+      const contract = await runUiContractCheck(browser, firstBrowserUser.account, options.contextOptions);
+      console.log(formatContractTable(contract));
+      assertUiContract(contract);
+    } else if (CONTRACT_CHECK) {
+      console.log("[Orchestrator] ⏭️ 全部為協定層機器人，略過 UI 契約檢查");
+    }
+
+    const adminSession = options.admin ? await openAdminSession(browser, options.contextOptions) : null;
+    try {
+      if (Object.values(EMPLOYEE_SHARE).some((share) => share > 0)) {
+        await applyEmployeeStatus(browser, users, adminSession, options.contextOptions);
+      }
+      if (adminSession && options.admin!.startGame !== false) {
+        await adminSession.admin.startGame();
+      }
+      const publisher =
+        adminSession && options.admin!.miniGames ? adminSession.admin.startMiniGamePublisher(options.admin!.miniGames) : null;
+
+      try {
+        const sessionStart = Date.now();
+        const stopTimeline = schedule ? startPhaseTimeline(schedule, metrics, sessionStart) : () => {};
+        const invariants = INVARIANT_CHECK ? new InvariantChecker(metrics) : undefined;
+        invariants?.start();
+        supervisor = SUPERVISOR_ENABLED ? new RunSupervisor(metrics, { totalUsers: users.length }) : undefined;
+        supervisor?.start();
+        try {
+          results = await Promise.all(
+            users.map((u, i) =>
+              runVirtualUser(browser, u, options, metrics, strategies, schedule?.slots[i], sessionStart, invariants, supervisor)
+            )
+          );
+        } finally {
+          stopTimeline();
+          await supervisor?.stop();
+          await invariants?.stop();
+        }
+      } finally {
+        await publisher?.stop();
+      }
+    } finally {
+      await adminSession?.close();
+    }
+  } catch (error: any) {
+    sessionError = error.message;
+    throw error;
+  } finally {
+    const released = await registry.release(leaseOwner);
+    console.log(`[Orchestrator] 🔓 已歸還 ${released} 個帳號`);
+
+    // 準備階段（UI 契約、開啟 Admin、開始遊戲）失敗時也寫入報告，保留已收集的指標
+    abortReason = supervisor?.abortReason;
+    const failed = results.filter((r) => !r.success);
+    if (sessionError !== undefined) {
+      console.error(`[Orchestrator] ❌ Session 準備失敗：${sessionError}`);
+    } else {
+      console.log(`[Orchestrator] 🏁 Session 結束：成功 ${results.length - failed.length} 位，失敗 ${failed.length} 位`);
+    }
+    if (abortReason) {
+      console.error(`[Orchestrator] 🛑 壓測已由執行監控中止：${abortReason}`);
+    }
+    metrics.printSummary();
+
+    // 報告寫入失敗不可蓋掉準備階段的錯誤
+    try {
+      reportDir = writeRunReport({
+        startedAt,
+        endedAt: Date.now(),
+        seed: RUN_SEED,
+        config: { ...getConfigSnapshot(), FRONTEND_VERSION }, // 一併記錄頁面物件對應的前端版本
+        users: results.map((r) => ({
+          userIndex: r.user.userIndex,
+          persona: r.user.persona,
+          username: r.user.account.username,
+          employee: r.user.employee,
+          driver: r.user.driver,
+          strategy: r.strategy,
+          success: r.success,
+          ...(r.error ? { error: r.error } : {}),
+          elapsedMs: r.elapsedMs,
+          restarts: r.restarts,
+          iterations: r.stats?.iterations ?? 0,
+          counters: r.stats?.counters ?? {},
+        })),
+        metrics,
+        phases: schedule?.phases,
+        abortReason,
+        error: sessionError,
+      });
+    } catch (error: any) {
+      if (sessionError === undefined) throw error;
+      console.error(`[Orchestrator] ❌ 執行報告寫入失敗：${error.message}`);
+    }
+  }
+
+  return { users: results, metrics, reportDir, ...(abortReason ? { abortReason } : {}) };
+}
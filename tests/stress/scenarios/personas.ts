@@ -0,0 +1,463 @@
+// tests/stress/scenarios/personas.ts
+import { describeResult } from "../core/ActionResult";
+import { GameDriver } from "../core/GameDriver";
+import { RandomSource, userRandom } from "../core/Random";
+import { DEFAULT_RUN_LIMIT, Persona, PersonaRhythm, PersonaStats, RunLimit, TickOutcome, sleep } from "./Persona";
+import {
+  ContractStrategy,
+  LoanStrategy,
+  MinorityStrategy,
+  QuizStrategy,
+  SpotStrategy,
+  decideContract,
+  decideLoan,
+  decideSpot,
+  loadStrategyFile,
+  pickChoice,
+  resolveStrategy,
+} from "./strategies";
+
+/**
+ * 五種壓力測試角色（User A–E）的行為模式
+ * 由 stress.spec.ts（單一角色驗證）與 orchestrator.ts（多人併發）共用
+ * 決策參數（門檻、機率、金額、槓桿範圍）來自 strategies.ts（可由 data/user-strategies.json 覆蓋）
+ * 隨機決策一律使用每位使用者的種子串流（core/Random.ts），以相同 STRESS_SEED 重跑可重現決策序列
+ * 角色只依賴 GameDriver 介面：瀏覽器（GameActions）與協定層機器人（ProtocolBot）使用相同的行為邏輯
+ * 登入、主迴圈、終止條件與統計由 Persona.ts 的框架負責，本檔只包含各角色的決策邏輯
+ */
+
+// ==================== User A: 現貨交易員 (Spot Trader) ====================
+
+/**
+ * User A 行為模式：現貨交易員
+ *
+ * 策略邏輯（參數見 SpotStrategy，預設值如下）：
+ * 1. 當現金 > 股價 × buyThresholdShares（2 張）時，買入 buyMin-buyMax（1-5）張股票
+ * 2. 當現金不足且持有股票 > 0 時，賣出 sellAmount（1）張股票
+ * 3. 否則持有不動
+ */
+export class SpotTrader extends Persona<SpotStrategy> {
+  protected readonly code = "A";
+  protected readonly title = "現貨交易策略";
+  protected readonly counterLabels = { buyCount: "買入", sellCount: "賣出", holdCount: "持有" };
+
+  protected async tick(): Promise<TickOutcome> {
+    // 讀取資產
+    const assets = this.track(await this.actions.readAssets());
+    if (!assets.ok) {
+      this.warn(`無法讀取資產（${describeResult(assets)}），跳過本次迴圈`);
+      return "skip";
+    }
+
+    const { cash, stockCount, stockValue } = assets.value;
+
+    // 讀取當前股價（從圖表）
+    const stockPrice = await this.actions.getCurrentStockPrice();
+
+    this.log(`當前資產：現金 = ${cash.toFixed(2)}, 持股 = ${stockCount}, 股價 = ${stockPrice.toFixed(2)}, 股票現值 = ${stockValue.toFixed(2)}`);
+
+    // 決策邏輯（動態閾值：現金超過 buyThresholdShares 張股價才買入）
+    const decision = decideSpot(this.strategy, { cash, stockCount, stockPrice }, this.random);
+    const buyThreshold = decision.threshold;
+
+    if (decision.action === "BUY") {
+      // 買入策略：現金充足
+      const amount = decision.amount;
+      this.log(`💰 現金充足（${cash.toFixed(2)} > ${buyThreshold.toFixed(2)}），嘗試買入 ${amount} 張股票...`);
+
+      const buyResult = this.track(await this.actions.buyStock(amount));
+      if (buyResult.ok) {
+        this.count("buyCount");
+        this.log(`✅ 成功買入 ${amount} 張股票`);
+      } else {
+        this.warn(`買入失敗（${describeResult(buyResult)}）`);
+      }
+    } else if (decision.action === "SELL") {
+      // 賣出策略：現金不足且有持股
+      const amount = decision.amount;
+      this.log(`📉 現金不足（${cash.toFixed(2)} <= ${buyThreshold.toFixed(2)}），嘗試賣出 ${amount} 張股票補充現金...`);
+
+      const sellResult = this.track(await this.actions.sellStock(amount));
+      if (sellResult.ok) {
+        this.count("sellCount");
+        this.log(`✅ 成功賣出 ${amount} 張股票`);
+      } else {
+        this.warn(`賣出失敗（${describeResult(sellResult)}）`);
+      }
+    } else {
+      // 持有狀態
+      this.log("🔒 現金不足且無股票，維持持有狀態...");
+      this.count("holdCount");
+    }
+  }
+}
+
+// ==================== User B: 合約交易員 (Contract Trader) ====================
+
+/**
+ * User B 行為模式：合約交易員
+ *
+ * 策略邏輯（隨機交易模式，參數見 ContractStrategy，預設值如下）：
+ * 1. 80% 機率：開倉（隨機選擇做多/做空、槓桿 leverageMin-leverageMax（1-5）倍、固定 amount（1）張合約）
+ * 2. 20% 機率（cancelProbability）：清倉（撤銷所有未結算合約）
+ *
+ * 機率實作說明：
+ * - 使用此使用者的種子串流（random）產生 0-1 之間的隨機數
+ * - 若 < cancelProbability：執行清倉 (cancelAllContracts)
+ * - 否則：執行開倉 (buyContract)
+ *
+ * 此設計確保：
+ * - 合約市場有足夠的流動性與交易量
+ * - 避免無限累積倉位
+ * - 測試系統處理大量開倉/撤單請求的能力
+ */
+export class ContractTrader extends Persona<ContractStrategy> {
+  protected readonly code = "B";
+  protected readonly title = "合約交易策略";
+  protected readonly counterLabels = { buyCount: "開倉", cancelCount: "清倉" };
+
+  protected async tick(): Promise<TickOutcome> {
+    // 讀取合約（模擬檢查持倉，但決策為隨機）
+    const contractData = this.track(await this.actions.readContracts());
+    if (contractData.ok) {
+      this.log(`當前持有合約數量：${contractData.value.contracts.length}`);
+    }
+
+    // 決策邏輯（cancelProbability 清倉 / 其餘開倉）
+    const decision = decideContract(this.strategy, this.random);
+    const cancelPercent = (this.strategy.cancelProbability * 100).toFixed(0);
+
+    if (decision.action === "CANCEL") {
+      this.log(`🔄 觸發清倉邏輯（機率 ${(decision.roll * 100).toFixed(1)}% < ${cancelPercent}%）`);
+
+      const cancelResult = this.track(await this.actions.cancelAllContracts());
+      if (cancelResult.ok) {
+        this.count("cancelCount");
+        this.log("✅ 成功撤銷所有合約");
+      } else {
+        this.warn(`撤銷合約失敗（${describeResult(cancelResult)}）`);
+      }
+    } else {
+      const { type: contractType, leverage, amount } = decision;
+
+      this.log(`📈 觸發開倉邏輯（機率 ${(decision.roll * 100).toFixed(1)}% >= ${cancelPercent}%）`);
+      this.log(`參數：類型 = ${contractType}, 槓桿 = ${leverage}x, 數量 = ${amount} 張`);
+
+      const buyResult = this.track(await this.actions.buyContract(contractType, leverage, amount));
+      if (buyResult.ok) {
+        this.count("buyCount");
+        this.log("✅ 成功開倉");
+      } else {
+        this.warn(`開倉失敗（${describeResult(buyResult)}）`);
+      }
+    }
+  }
+}
+
+// ==================== User C: 地下錢莊客戶 (Loan Shark Client) ====================
+
+/**
+ * User C 行為模式：地下錢莊客戶
+ *
+ * 策略邏輯（參數見 LoanStrategy，預設值如下）：
+ * 1. 遊戲開始時：與沈梟對話一次（測試互動功能，talkToMerchant）
+ * 2. 當負債 = 0 時，借款 borrowAmount（$100）（測試借款流程）
+ * 3. 當負債 > 0 且現金 >= repayAmount（$100）時，還款 $100（測試還款流程）
+ * 4. 否則等待（模擬現金不足的情況）
+ *
+ * 測試目的：
+ * - 驗證 handleLoan 方法在高頻開關 Modal 下的穩定性
+ * - 測試借款/還款流程的正確性
+ * - 確保 Modal 動畫不會導致選擇器失效
+ * - 測試與地下錢莊主人的互動功能
+ */
+export class LoanSharkClient extends Persona<LoanStrategy> {
+  protected readonly code = "C";
+  protected readonly title = "地下錢莊客戶策略";
+  protected readonly counterLabels = { borrowCount: "借款", repayCount: "還款", idleCount: "等待" };
+
+  protected async onStart(): Promise<void> {
+    if (!this.strategy.talkToMerchant) return;
+
+    this.log("💬 遊戲開始，嘗試與沈梟對話...");
+    const talkResult = this.track(await this.actions.interactWithLoanShark());
+    if (talkResult.ok) {
+      this.log("✅ 成功與沈梟互動");
+    } else {
+      this.warn(`與沈梟互動失敗（${describeResult(talkResult)}）`);
+    }
+    // 等待 Modal 完全穩定
+    await sleep(1000);
+  }
+
+  protected async tick(): Promise<TickOutcome> {
+    // 讀取資產
+    const assets = this.track(await this.actions.readAssets());
+    if (!assets.ok) {
+      this.warn(`無法讀取資產（${describeResult(assets)}），跳過本次迴圈`);
+      return "skip";
+    }
+
+    const { cash, debt } = assets.value;
+    this.log(`當前資產：現金 = ${cash.toFixed(2)}, 負債 = ${debt.toFixed(2)}`);
+
+    // 決策邏輯
+    const decision = decideLoan(this.strategy, { cash, debt });
+
+    if (decision.action === "BORROW") {
+      // 情況 1: 無負債，借款
+      this.log("💰 觸發借款邏輯（負債 = 0）");
+      const borrowResult = this.track(await this.actions.handleLoan("BORROW", decision.amount));
+      if (borrowResult.ok) {
+        this.count("borrowCount");
+        this.log(`✅ 成功借款 $${decision.amount}`);
+      } else {
+        this.warn(`借款失敗（${describeResult(borrowResult)}）`);
+      }
+    } else if (decision.action === "REPAY") {
+      // 情況 2: 有負債且現金充足，還款
+      this.log(`💳 觸發還款邏輯（負債 = ${debt.toFixed(2)}, 現金 = ${cash.toFixed(2)}）`);
+      const repayResult = this.track(await this.actions.handleLoan("REPAY", decision.amount));
+      if (repayResult.ok) {
+        this.count("repayCount");
+        this.log(`✅ 成功還款 $${decision.amount}`);
+      } else {
+        this.warn(`還款失敗（${describeResult(repayResult)}）`);
+      }
+    } else {
+      // 情況 3: 有負債但現金不足，等待
+      this.log(`⏸️ 現金不足，等待下次迴圈（現金 = ${cash.toFixed(2)}, 需要 >= ${this.strategy.repayAmount}）`);
+      this.count("idleCount");
+    }
+  }
+}
+
+// ==================== User D: 機智問答達人 (Quiz Master) ====================
+
+/**
+ * User D 行為模式：機智問答達人
+ *
+ * 策略邏輯（事件驅動模式）：
+ * 1. 阻塞式等待問答遊戲開始（Blocking Wait）
+ * 2. 問答開始後，依 optionWeights 隨機選擇 A/B/C/D 作答（預設平均分配）
+ * 3. 等待結果並讀取資產變化
+ * 4. 回到步驟 1，繼續等待下一場問答
+ *
+ * 核心特性：
+ * - **Event-Driven Loop（事件驅動迴圈）**：
+ *   與 User A/B/C 的持續交易不同，User D 大部分時間處於「睡眠狀態」，
+ *   只有當 Admin 觸發問答遊戲時才會被「喚醒」（框架每 30 秒返回一次重新檢查終止條件）。
+ *
+ * - **隨機作答策略**：
+ *   為簡化壓力測試邏輯，此版本採用隨機選擇答案。
+ *   選項權重可於 data/user-strategies.json 的 typeD.optionWeights 調整。
+ */
+export class QuizMaster extends Persona<QuizStrategy> {
+  protected readonly code = "D";
+  protected readonly title = "機智問答策略";
+  protected readonly counterLabels = { answerCount: "成功作答" };
+  protected readonly rhythm: PersonaRhythm = "quiz";
+
+  protected async onQuizStart(): Promise<void> {
+    // 依策略權重隨機選擇答案
+    const choice = pickChoice(this.strategy.optionWeights, this.random);
+    this.log(`🎲 隨機選擇答案：${choice}`);
+
+    const answerResult = this.track(await this.actions.answerQuiz(choice));
+    if (answerResult.ok) {
+      this.count("answerCount");
+      this.log(`✅ 成功提交答案：${choice}`);
+    } else {
+      this.warn(`提交答案失敗（${describeResult(answerResult)}）`);
+    }
+
+    // 等待結果並讀取資產
+    this.log("⏳ 等待問答結果...");
+    const updatedAssets = this.track(await this.actions.waitQuizResultAndReport());
+    if (updatedAssets.ok) {
+      this.log(`📊 結果公布後資產：現金 = ${updatedAssets.value.cash.toFixed(2)}, 負債 = ${updatedAssets.value.debt.toFixed(2)}`);
+    } else {
+      this.warn(`無法讀取結果後的資產（${describeResult(updatedAssets)}）`);
+    }
+  }
+}
+
+// ==================== User E: 少數決策略家 (Minority Strategist) ====================
+
+/**
+ * User E 行為模式：少數決策略家
+ *
+ * 策略邏輯（事件驅動 + 條件式借款）：
+ * 1. 檢查現金是否足夠下注（betAmount，預設 $50），若現金低於 borrowBelowCash，先借款 borrowAmount（預設 $300）
+ * 2. 阻塞式等待少數決遊戲開始（Blocking Wait）
+ * 3. 依 optionWeights 隨機選擇 A/B/C/D 選項下注
+ * 4. 等待結果並讀取資產變化
+ * 5. 回到步驟 1，繼續等待下一場少數決
+ *
+ * 核心特性：
+ * - **Event-Driven Loop（事件驅動迴圈）**：
+ *   與 User D 類似，大部分時間處於睡眠狀態，只在 Admin 發布題目時被喚醒。
+ *
+ * - **Conditional Macro Trigger（條件式巨集觸發）**：
+ *   這是 User E 的關鍵特性。只有當現金 < borrowBelowCash（預設 $50）時，才執行借款動作。
+ *
+ *   此設計測試條件式借款邏輯的正確性。
+ *
+ * - **固定下注金額（betAmount，預設 $50）**：
+ *   與初始現金相當，測試一般遊戲場景的資金管理。
+ */
+export class MinorityStrategist extends Persona<MinorityStrategy> {
+  protected readonly code = "E";
+  protected readonly title = "少數決策略";
+  protected readonly counterLabels = { betCount: "成功下注", borrowTriggerCount: "觸發借款週轉" };
+  protected readonly rhythm: PersonaRhythm = "minority";
+
+  protected async onStart(): Promise<void> {
+    this.log(`固定下注金額：$${this.strategy.betAmount}`);
+  }
+
+  /**
+   * 檢查資金 & 條件式借款（在等待小遊戲前執行）
+   */
+  protected async tick(): Promise<TickOutcome> {
+    const { borrowBelowCash, borrowAmount } = this.strategy;
+    const preCheckAssets = this.track(await this.actions.readAssets());
+    if (!preCheckAssets.ok) return;
+
+    if (preCheckAssets.value.cash >= borrowBelowCash) {
+      this.log(`✅ 現金充足（$${preCheckAssets.value.cash.toFixed(2)} >= $${borrowBelowCash}），無需借款`);
+      return;
+    }
+
+    this.log(`⚠️ 現金不足（$${preCheckAssets.value.cash.toFixed(2)} < $${borrowBelowCash}），執行借款...`);
+    const borrowResult = this.track(await this.actions.handleLoan("BORROW", borrowAmount));
+    if (!borrowResult.ok) {
+      this.warn(`借款失敗（${describeResult(borrowResult)}）`);
+      return;
+    }
+
+    this.count("borrowTriggerCount");
+    this.log("✅ 借款成功");
+
+    // 重新讀取資產驗證
+    const updatedAssets = this.track(await this.actions.readAssets());
+    if (updatedAssets.ok) {
+      this.log(`📊 借款後資產：現金 = ${updatedAssets.value.cash.toFixed(2)}, 負債 = ${updatedAssets.value.debt.toFixed(2)}`);
+    }
+  }
+
+  protected async onMinorityStart(): Promise<void> {
+    const betAmount = this.strategy.betAmount;
+
+    // 依策略權重隨機選擇答案並下注
+    const choice = pickChoice(this.strategy.optionWeights, this.random);
+    this.log(`🎲 隨機選擇答案：${choice}，下注金額：$${betAmount}`);
+
+    const betResult = this.track(await this.actions.betMinority(choice, betAmount));
+    if (betResult.ok) {
+      this.count("betCount");
+      this.log("✅ 成功下注");
+    } else {
+      this.warn(`下注失敗（${describeResult(betResult)}）`);
+    }
+
+    // 等待結果並讀取資產
+    this.log("⏳ 等待少數決結果...");
+    const updatedAssets = this.track(await this.actions.waitMinorityResultAndReport());
+    if (updatedAssets.ok) {
+      this.log(`📊 結果公布後資產：現金 = ${updatedAssets.value.cash.toFixed(2)}, 負債 = ${updatedAssets.value.debt.toFixed(2)}`);
+    } else {
+      this.warn(`無法讀取結果後的資產（${describeResult(updatedAssets)}）`);
+    }
+  }
+}
+
+// ==================== 執行函式 ====================
+
+/*
+ * runUserA…runUserE：以角色代號對應的 Persona 執行直到終止條件（stress.spec.ts 與 orchestrator.ts 使用）
+ *
+ * @param actions - 遊戲操作介面（GameActions、ProtocolBot 等 GameDriver 實作，指標記錄由實作負責）
+ * @param userIndex - 使用者編號
+ * @param username - 使用者帳號
+ * @param password - 使用者密碼
+ * @param limit - 終止條件（預設執行至 TEST_END_DAY）
+ * @param strategy - 角色策略（預設由 user-strategies.json 決定）
+ * @param random - 隨機數來源（預設為此使用者以 RUN_SEED 推導的串流）
+ * @returns 執行統計
+ */
+
+/**
+ * User A：現貨交易員（SpotTrader）
+ */
+export async function runUserA(
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit = DEFAULT_RUN_LIMIT,
+  strategy: SpotStrategy = resolveStrategy("typeA", loadStrategyFile(), userRandom(userIndex, "strategy")),
+  random: RandomSource = userRandom(userIndex)
+): Promise<PersonaStats> {
+  return new SpotTrader(actions, userIndex, username, strategy, random).run(password, limit);
+}
+
+/**
+ * User B：合約交易員（ContractTrader）
+ */
+export async function runUserB(
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit = DEFAULT_RUN_LIMIT,
+  strategy: ContractStrategy = resolveStrategy("typeB", loadStrategyFile(), userRandom(userIndex, "strategy")),
+  random: RandomSource = userRandom(userIndex)
+): Promise<PersonaStats> {
+  return new ContractTrader(actions, userIndex, username, strategy, random).run(password, limit);
+}
+
+/**
+ * User C：地下錢莊客戶（LoanSharkClient）
+ */
+export async function runUserC(
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit = DEFAULT_RUN_LIMIT,
+  strategy: LoanStrategy = resolveStrategy("typeC", loadStrategyFile(), userRandom(userIndex, "strategy")),
+  random: RandomSource = userRandom(userIndex)
+): Promise<PersonaStats> {
+  return new LoanSharkClient(actions, userIndex, username, strategy, random).run(password, limit);
+}
+
+/**
+ * User D：機智問答達人（QuizMaster）
+ */
+export async function runUserD(
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit = DEFAULT_RUN_LIMIT,
+  strategy: QuizStrategy = resolveStrategy("typeD", loadStrategyFile(), userRandom(userIndex, "strategy")),
+  random: RandomSource = userRandom(userIndex)
+): Promise<PersonaStats> {
+  return new QuizMaster(actions, userIndex, username, strategy, random).run(password, limit);
+}
+
+/**
+ * User E：少數決策略家（MinorityStrategist）
+ */
+export async function runUserE(
+  actions: GameDriver,
+  userIndex: number,
+  username: string,
+  password: string,
+  limit: RunLimit = DEFAULT_RUN_LIMIT,
+  strategy: MinorityStrategy = resolveStrategy("typeE", loadStrategyFile(), userRandom(userIndex, "strategy")),
+  random: RandomSource = userRandom(userIndex)
+): Promise<PersonaStats> {
+  return new MinorityStrategist(actions, userIndex, username, strategy, random).run(password, limit);
+}
@@ -0,0 +1,514 @@
+// tests/stress/scenarios/strategies.ts
+import * as fs from "fs";
+import * as path from "path";
+import { USER_DISTRIBUTION } from "../config";
+import { RandomSource, randomInt } from "../core/Random";
+
+/**
+ * 角色策略引擎
+ *
+ * 將 data/user-strategies.json 的 JSON 定義轉為各角色的參數化決策（門檻、機率、下注金額、槓桿範圍）
+ * personas.ts 只負責執行流程，「要做什麼」一律交由本檔的決策函式判斷，
+ * 調整壓測負載組合時只需修改 JSON，不需改程式碼。
+ *
+ * user-strategies.json 格式（每個角色皆可省略，省略的欄位使用 DEFAULT_STRATEGIES）：
+ * {
+ *   "typeA": { "buyMax": 3 },                          // 單一策略：覆蓋部分參數
+ *   "typeB": [                                         // 多組策略：每位虛擬使用者依 weight 抽選一組
+ *     { "name": "保守", "weight": 3, "leverageMax": 2 },
+ *     { "name": "激進", "weight": 1, "leverageMin": 3, "cancelProbability": 0.05 }
+ *   ]
+ * }
+ */
+
+// ==================== 型別定義 ====================
+
+/**
+ * 角色代號（對應 config.ts 的 USER_DISTRIBUTION 鍵值）
+ */
+export type StrategyPersona = keyof typeof USER_DISTRIBUTION;
+
+/**
+ * 小遊戲選項
+ */
+export type MiniGameChoice = "A" | "B" | "C" | "D";
+
+/**
+ * 選項權重（未列出的選項權重為 0；全部為 0 時視為平均分配）
+ */
+export type ChoiceWeights = Partial<Record<MiniGameChoice, number>>;
+
+/**
+ * 所有策略共用欄位
+ */
+export interface BaseStrategy {
+  name: string; // 策略名稱（寫入執行報告）
+}
+
+/**
+ * 交易中遇到小遊戲 Overlay 時的處理方式
+ * - play：參加（問答隨機作答 / 少數決下注），結果公布後收起 Overlay 繼續交易
+ * - collapse：直接按「收起」繼續交易
+ */
+export type MiniGamePolicy = "play" | "collapse";
+
+/**
+ * 交易角色（User A/B/C）的小遊戲處理策略
+ * User D/E 只參加自己的小遊戲，遇到另一種小遊戲一律收起
+ */
+export interface MiniGameHandling {
+  quizPolicy: MiniGamePolicy; // 遇到機智問答時
+  minorityPolicy: MiniGamePolicy; // 遇到少數決時
+  minorityBetAmount: number; // minorityPolicy 為 play 時的下注金額
+}
+
+/**
+ * User A 現貨交易策略
+ */
+export interface SpotStrategy extends BaseStrategy, MiniGameHandling {
+  buyThresholdShares: number; // 現金超過「股價 × 此張數」才買入
+  buyMin: number; // 每次買入張數下限
+  buyMax: number; // 每次買入張數上限（不超過可負擔張數）
+  sellAmount: number; // 現金不足時每次賣出張數（不超過持股）
+  intervalMs: number; // 每次迭代間隔（毫秒）
+}
+
+/**
+ * User B 合約交易策略
+ */
+export interface ContractStrategy extends BaseStrategy, MiniGameHandling {
+  cancelProbability: number; // 每次迭代撤銷所有合約的機率（0-1）
+  longProbability: number; // 開倉時做多的機率（0-1）
+  leverageMin: number; // 槓桿下限
+  leverageMax: number; // 槓桿上限
+  amount: number; // 每次開倉張數
+  intervalMs: number;
+}
+
+/**
+ * User C 地下錢莊策略
+ */
+export interface LoanStrategy extends BaseStrategy, MiniGameHandling {
+  talkToMerchant: boolean; // 遊戲開始時是否與沈梟對話
+  borrowAmount: number; // 無負債時的借款金額
+  repayAmount: number; // 有負債且現金足夠時的還款金額（不超過負債）
+  intervalMs: number;
+}
+
+/**
+ * User D 機智問答策略
+ */
+export interface QuizStrategy extends BaseStrategy {
+  optionWeights: ChoiceWeights; // 作答選項權重
+}
+
+/**
+ * User E 少數決策略
+ */
+export interface MinorityStrategy extends BaseStrategy {
+  betAmount: number; // 每場下注金額
+  borrowBelowCash: number; // 等待下一場前，現金低於此金額時先借款
+  borrowAmount: number; // 借款金額
+  optionWeights: ChoiceWeights; // 下注選項權重
+}
+
+/**
+ * 角色代號 → 策略型別
+ */
+export interface PersonaStrategies {
+  typeA: SpotStrategy;
+  typeB: ContractStrategy;
+  typeC: LoanStrategy;
+  typeD: QuizStrategy;
+  typeE: MinorityStrategy;
+}
+
+/**
+ * 單一策略定義（JSON 中的一筆，未列出的欄位使用預設值）
+ */
+export type StrategyDefinition<P extends StrategyPersona> = Partial<PersonaStrategies[P]> & {
+  weight?: number; // 多組策略時的抽選權重（預設 1）
+};
+
+/**
+ * user-strategies.json 的完整結構
+ */
+export type StrategyFile = {
+  [P in StrategyPersona]?: StrategyDefinition<P> | StrategyDefinition<P>[];
+};
+
+// ==================== 預設策略 ====================
+
+const EVEN_WEIGHTS: ChoiceWeights = { A: 1, B: 1, C: 1, D: 1 };
+
+/**
+ * 交易角色預設參加問答（不花錢）、收起少數決（不拿交易資金下注）
+ */
+const DEFAULT_MINI_GAME_HANDLING: MiniGameHandling = { quizPolicy: "play", minorityPolicy: "collapse", minorityBetAmount: 50 };
+
+/**
+ * 預設策略（與既有寫死的行為一致）
+ * - User A：現金 > 2 張股價時買入 1-5 張，否則賣出 1 張
+ * - User B：20% 撤單 / 80% 開倉，多空各半，槓桿 1-5 倍，每次 1 張
+ * - User C：無負債借 $100，有負債且現金足夠還 $100
+ * - User D：隨機作答
+ * - User E：每場下注 $50，現金不足 $50 時借 $300
+ * - User A/B/C 交易中遇到問答時作答、遇到少數決時收起
+ */
+export const DEFAULT_STRATEGIES: PersonaStrategies = {
+  typeA: {
+    name: "default",
+    buyThresholdShares: 2,
+    buyMin: 1,
+    buyMax: 5,
+    sellAmount: 1,
+    intervalMs: 1000,
+    ...DEFAULT_MINI_GAME_HANDLING,
+  },
+  typeB: {
+    name: "default",
+    cancelProbability: 0.2,
+    longProbability: 0.5,
+    leverageMin: 1,
+    leverageMax: 5,
+    amount: 1,
+    intervalMs: 1000,
+    ...DEFAULT_MINI_GAME_HANDLING,
+  },
+  typeC: {
+    name: "default",
+    talkToMerchant: true,
+    borrowAmount: 100,
+    repayAmount: 100,
+    intervalMs: 1000,
+    ...DEFAULT_MINI_GAME_HANDLING,
+  },
+  typeD: { name: "default", optionWeights: EVEN_WEIGHTS },
+  typeE: { name: "default", betAmount: 50, borrowBelowCash: 50, borrowAmount: 300, optionWeights: EVEN_WEIGHTS },
+};
+
+/**
+ * 策略檔路徑
+ */
+export const STRATEGIES_FILE = path.join(__dirname, "../data/user-strategies.json");
+
+// ==================== 驗證 ====================
+
+type FieldKind = "string" | "boolean" | "probability" | "positiveInt" | "positive" | "nonNegative" | "weights" | "policy";
+
+/**
+ * 交易角色共用的小遊戲處理欄位
+ */
+const MINI_GAME_FIELDS: Record<keyof MiniGameHandling, FieldKind> = {
+  quizPolicy: "policy",
+  minorityPolicy: "policy",
+  minorityBetAmount: "positive",
+};
+
+/**
+ * 各角色可設定的欄位與型別（未列出的欄位視為拼字錯誤）
+ */
+const STRATEGY_FIELDS: { [P in StrategyPersona]: Record<keyof PersonaStrategies[P] | "weight", FieldKind> } = {
+  typeA: {
+    name: "string",
+    weight: "nonNegative",
+    buyThresholdShares: "nonNegative",
+    buyMin: "positiveInt",
+    buyMax: "positiveInt",
+    sellAmount: "positiveInt",
+    intervalMs: "nonNegative",
+    ...MINI_GAME_FIELDS,
+  },
+  typeB: {
+    name: "string",
+    weight: "nonNegative",
+    cancelProbability: "probability",
+    longProbability: "probability",
+    leverageMin: "positiveInt",
+    leverageMax: "positiveInt",
+    amount: "positiveInt",
+    intervalMs: "nonNegative",
+    ...MINI_GAME_FIELDS,
+  },
+  typeC: {
+    name: "string",
+    weight: "nonNegative",
+    talkToMerchant: "boolean",
+    borrowAmount: "positive",
+    repayAmount: "positive",
+    intervalMs: "nonNegative",
+    ...MINI_GAME_FIELDS,
+  },
+  typeD: { name: "string", weight: "nonNegative", optionWeights: "weights" },
+  typeE: {
+    name: "string",
+    weight: "nonNegative",
+    betAmount: "positive",
+    borrowBelowCash: "nonNegative",
+    borrowAmount: "positive",
+    optionWeights: "weights",
+  },
+};
+
+function isValidField(kind: FieldKind, value: unknown): boolean {
+  switch (kind) {
+    case "string":
+      return typeof value === "string" && value.length > 0;
+    case "boolean":
+      return typeof value === "boolean";
+    case "probability":
+      return typeof value === "number" && value >= 0 && value <= 1;
+    case "positiveInt":
+      return Number.isInteger(value) && (value as number) > 0;
+    case "positive":
+      return typeof value === "number" && value > 0;
+    case "nonNegative":
+      return typeof value === "number" && value >= 0;
+    case "weights":
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        Object.entries(value).every(([k, v]) => ["A", "B", "C", "D"].includes(k) && typeof v === "number" && v >= 0)
+      );
+    case "policy":
+      return value === "play" || value === "collapse";
+  }
+}
+
+const FIELD_HINTS: Record<FieldKind, string> = {
+  string: "必須為非空字串",
+  boolean: "必須為 true / false",
+  probability: "必須介於 0 與 1 之間",
+  positiveInt: "必須為正整數",
+  positive: "必須大於 0",
+  nonNegative: "必須 >= 0",
+  weights: '必須為 { "A": 權重, ... } 且權重 >= 0',
+  policy: '必須為 "play" 或 "collapse"',
+};
+
+/**
+ * 驗證單筆策略定義
+ * @throws 欄位不存在、型別錯誤或範圍不合理（下限 > 上限）時拋出錯誤
+ */
+function validateDefinition(persona: StrategyPersona, definition: unknown, label: string): void {
+  if (typeof definition !== "object" || definition === null || Array.isArray(definition)) {
+    throw new Error(`❌ user-strategies.json 格式錯誤：${label} 必須為物件`);
+  }
+
+  const fields = STRATEGY_FIELDS[persona] as Record<string, FieldKind>;
+  for (const [key, value] of Object.entries(definition)) {
+    const kind = fields[key];
+    if (!kind) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：${label}.${key} 不是 ${persona} 的策略參數`);
+    }
+    if (!isValidField(kind, value)) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：${label}.${key} ${FIELD_HINTS[kind]}（目前為 ${JSON.stringify(value)}）`);
+    }
+  }
+}
+
+/**
+ * 驗證合併後的策略（上下限需在合併預設值後才能判斷）
+ */
+function validateRanges(persona: StrategyPersona, strategy: PersonaStrategies[StrategyPersona], label: string): void {
+  const check = (min: number, max: number, names: string) => {
+    if (min > max) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：${label} 的 ${names} 下限大於上限（${min} > ${max}）`);
+    }
+  };
+
+  if (persona === "typeA") {
+    const s = strategy as SpotStrategy;
+    check(s.buyMin, s.buyMax, "buyMin / buyMax");
+  } else if (persona === "typeB") {
+    const s = strategy as ContractStrategy;
+    check(s.leverageMin, s.leverageMax, "leverageMin / leverageMax");
+  }
+}
+
+// ==================== 載入 ====================
+
+/**
+ * 讀取並驗證策略檔
+ * 檔案不存在時返回空物件（全部使用預設策略）
+ *
+ * @param filePath 策略檔路徑（預設 STRATEGIES_FILE）
+ * @returns 策略檔內容
+ * @throws JSON 語法錯誤或策略參數不合法時拋出錯誤
+ */
+export function loadStrategyFile(filePath: string = STRATEGIES_FILE): StrategyFile {
+  if (!fs.existsSync(filePath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`❌ user-strategies.json 不是合法的 JSON：${error.message}`);
+  }
+
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("❌ user-strategies.json 格式錯誤：最外層必須為物件（鍵值為 typeA…typeE）");
+  }
+
+  for (const [persona, value] of Object.entries(raw)) {
+    if (!(persona in STRATEGY_FIELDS)) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：未知的角色 ${persona}（可用：${Object.keys(STRATEGY_FIELDS).join(", ")}）`);
+    }
+
+    const p = persona as StrategyPersona;
+    const definitions = Array.isArray(value) ? value : [value];
+    if (definitions.length === 0) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：${persona} 不可為空陣列`);
+    }
+
+    definitions.forEach((definition, i) => {
+      const label = Array.isArray(value) ? `${persona}[${i}]` : persona;
+      validateDefinition(p, definition, label);
+      validateRanges(p, { ...DEFAULT_STRATEGIES[p], ...definition }, label);
+    });
+
+    if (Array.isArray(value) && value.every((d: StrategyDefinition<typeof p>) => (d.weight ?? 1) === 0)) {
+      throw new Error(`❌ user-strategies.json 格式錯誤：${persona} 的所有策略 weight 皆為 0`);
+    }
+  }
+
+  return raw as StrategyFile;
+}
+
+/**
+ * 為一位虛擬使用者決定策略
+ * 角色有多組策略時依 weight 抽選一組，並與預設策略合併
+ *
+ * @param persona 角色代號
+ * @param file 策略檔內容（預設讀取 STRATEGIES_FILE）
+ * @param random 隨機數來源（0-1，壓測時為該使用者的種子串流，見 core/Random.ts）
+ * @returns 合併後的完整策略
+ */
+export function resolveStrategy<P extends StrategyPersona>(
+  persona: P,
+  file: StrategyFile = loadStrategyFile(),
+  random: RandomSource = Math.random
+): PersonaStrategies[P] {
+  const value = file[persona] as StrategyDefinition<P> | StrategyDefinition<P>[] | undefined;
+  if (!value) {
+    return { ...DEFAULT_STRATEGIES[persona] };
+  }
+
+  const definitions = Array.isArray(value) ? value : [value];
+  const weights = definitions.map((d) => d.weight ?? 1);
+  const index = pickWeightedIndex(weights, random);
+  const { weight, ...definition } = definitions[index];
+
+  const name = definition.name ?? (Array.isArray(value) ? `${persona}#${index + 1}` : "custom");
+  return { ...DEFAULT_STRATEGIES[persona], ...definition, name } as PersonaStrategies[P];
+}
+
+// ==================== 決策函式 ====================
+
+/**
+ * 依權重抽選索引（權重總和為 0 時平均抽選）
+ */
+function pickWeightedIndex(weights: number[], random: RandomSource): number {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) {
+    return Math.min(weights.length - 1, Math.floor(random() * weights.length));
+  }
+
+  let r = random() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return i;
+  }
+  return weights.length - 1;
+}
+
+/**
+ * 依權重選擇小遊戲選項
+ */
+export function pickChoice(weights: ChoiceWeights, random: RandomSource = Math.random): MiniGameChoice {
+  const choices: MiniGameChoice[] = ["A", "B", "C", "D"];
+  return choices[pickWeightedIndex(choices.map((c) => weights[c] ?? 0), random)];
+}
+
+/**
+ * User A 決策結果
+ */
+export type SpotDecision =
+  | { action: "BUY"; amount: number; threshold: number }
+  | { action: "SELL"; amount: number; threshold: number }
+  | { action: "HOLD"; threshold: number };
+
+/**
+ * User A 決策：現金超過門檻時買入，現金不足且有持股時賣出，否則持有
+ */
+export function decideSpot(
+  strategy: SpotStrategy,
+  state: { cash: number; stockCount: number; stockPrice: number },
+  random: RandomSource = Math.random
+): SpotDecision {
+  const { cash, stockCount, stockPrice } = state;
+  const threshold = stockPrice * strategy.buyThresholdShares;
+
+  if (cash > threshold && stockPrice > 0) {
+    const maxAffordable = Math.floor(cash / stockPrice);
+    if (maxAffordable >= 1) {
+      const max = Math.min(strategy.buyMax, maxAffordable);
+      const min = Math.min(strategy.buyMin, max);
+      return { action: "BUY", amount: randomInt(min, max, random), threshold };
+    }
+  }
+
+  // 【關鍵防護】：只有在 stockCount > 0 時才賣出，避免「賣出 0 股票」錯誤
+  if (cash <= threshold && stockCount > 0) {
+    return { action: "SELL", amount: Math.min(strategy.sellAmount, stockCount), threshold };
+  }
+
+  return { action: "HOLD", threshold };
+}
+
+/**
+ * User B 決策結果
+ */
+export type ContractDecision =
+  | { action: "CANCEL"; roll: number }
+  | { action: "OPEN"; roll: number; type: "LONG" | "SHORT"; leverage: number; amount: number };
+
+/**
+ * User B 決策：依 cancelProbability 撤單，否則隨機開倉
+ */
+export function decideContract(strategy: ContractStrategy, random: RandomSource = Math.random): ContractDecision {
+  const roll = random();
+  if (roll < strategy.cancelProbability) {
+    return { action: "CANCEL", roll };
+  }
+
+  return {
+    action: "OPEN",
+    roll,
+    type: random() < strategy.longProbability ? "LONG" : "SHORT",
+    leverage: randomInt(strategy.leverageMin, strategy.leverageMax, random),
+    amount: strategy.amount,
+  };
+}
+
+/**
+ * User C 決策結果
+ */
+export type LoanDecision = { action: "BORROW"; amount: number } | { action: "REPAY"; amount: number } | { action: "IDLE" };
+
+/**
+ * User C 決策：無負債借款，有負債且現金足夠還款，否則等待
+ */
+export function decideLoan(strategy: LoanStrategy, state: { cash: number; debt: number }): LoanDecision {
+  const { cash, debt } = state;
+
+  if (debt === 0) {
+    return { action: "BORROW", amount: strategy.borrowAmount };
+  }
+  if (debt > 0 && cash >= strategy.repayAmount) {
+    return { action: "REPAY", amount: Math.min(strategy.repayAmount, debt) }; // 不能還超過負債的金額
+  }
+  return { action: "IDLE" };
+}